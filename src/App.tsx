@@ -3,6 +3,7 @@ import { Toaster } from '@/components/ui/sonner';
 import { ThemeProvider } from '@/contexts/ThemeContext';
 import { AuthProvider } from '@/contexts/AuthContext';
 import { CartProvider } from '@/contexts/CartContext';
+import { FavoritesProvider } from '@/contexts/FavoritesContext';
 import { SubscriptionModalProvider } from '@/contexts/SubscriptionModalContext';
 import { CorretorPageStateProvider } from '@/contexts/CorretorPageStateContext';
 import { useTheme } from '@/contexts/ThemeContext';
@@ -24,6 +25,7 @@ import LoginPage from '@/pages/LoginPage.tsx';
 import RegisterPage from '@/pages/RegisterPage.tsx';
 import CorretorPage from '@/pages/CorretorPage.tsx';
 import ProductDetailsPage from '@/pages/ProductDetailsPage.tsx';
+import OrderConfirmationPage from '@/pages/OrderConfirmationPage.tsx';
 import HelpCenterPage from '@/pages/HelpCenterPage.tsx';
 import HelpCategoryPage from '@/pages/HelpCategoryPage.tsx';
 import HelpArticlePage from '@/pages/HelpArticlePage.tsx';
@@ -33,10 +35,17 @@ import DashboardPage from '@/pages/dashboard/DashboardPage.tsx';
 import SettingsPage from '@/pages/dashboard/SettingsPage.tsx';
 import ListingsPage from '@/pages/dashboard/ListingsPage.tsx';
 import CreateProductPage from '@/pages/dashboard/CreateProductPage.tsx';
+import ImportProductsPage from '@/pages/dashboard/ImportProductsPage.tsx';
 import EditProductPage from '@/pages/dashboard/EditProductPage.tsx';
 import TrackingSettingsPage from '@/pages/dashboard/TrackingSettingsPage.tsx';
 import CategoriesPage from '@/pages/dashboard/CategoriesPage.tsx';
 import ReferralPage from '@/pages/dashboard/ReferralPage.tsx';
+import OrdersPage from '@/pages/dashboard/OrdersPage.tsx';
+import CouponsPage from '@/pages/dashboard/CouponsPage.tsx';
+import PromotionsPage from '@/pages/dashboard/PromotionsPage.tsx';
+import LeadsPage from '@/pages/dashboard/LeadsPage.tsx';
+import FunnelPage from '@/pages/dashboard/FunnelPage.tsx';
+import TrafficSourcesPage from '@/pages/dashboard/TrafficSourcesPage.tsx';
 
 // Admin Pages
 import AdminDashboardPage from '@/pages/admin/AdminDashboardPage.tsx';
@@ -155,6 +164,7 @@ function AppContent() {
           {/* Corretor Public Profile Routes */}
           <Route path="/:slug" element={<CorretorPage />} />
           <Route path="/:slug/produtos/:productId" element={<ProductDetailsPage />} />
+          <Route path="/:slug/pedido/:orderCode" element={<OrderConfirmationPage />} />
         </Route>
 
         {/* Protected Dashboard Routes */}
@@ -164,8 +174,15 @@ function AppContent() {
             <Route path="/dashboard/settings" element={<SettingsPage />} />
             <Route path="/dashboard/listings" element={<ListingsPage />} />
             <Route path="/dashboard/products/new" element={<CreateProductPage />} />
+            <Route path="/dashboard/products/import" element={<ImportProductsPage />} />
             <Route path="/dashboard/products/:id/edit" element={<EditProductPage />} />
             <Route path="/dashboard/categories" element={<CategoriesPage />} />
+            <Route path="/dashboard/orders" element={<OrdersPage />} />
+            <Route path="/dashboard/coupons" element={<CouponsPage />} />
+            <Route path="/dashboard/promotions" element={<PromotionsPage />} />
+            <Route path="/dashboard/leads" element={<LeadsPage />} />
+            <Route path="/dashboard/funnel" element={<FunnelPage />} />
+            <Route path="/dashboard/traffic-sources" element={<TrafficSourcesPage />} />
             <Route path="/dashboard/referral" element={<ReferralPage />} />
           </Route>
         </Route>
@@ -195,11 +212,13 @@ export default function App() {
         <AuthProvider>
           <SubscriptionModalProvider>
             <CartProvider>
-              <CorretorPageStateProvider>
-                <AppContent />
-                <Toaster />
-                <FloatingWhatsAppButton />
-              </CorretorPageStateProvider>
+              <FavoritesProvider>
+                <CorretorPageStateProvider>
+                  <AppContent />
+                  <Toaster />
+                  <FloatingWhatsAppButton />
+                </CorretorPageStateProvider>
+              </FavoritesProvider>
             </CartProvider>
           </SubscriptionModalProvider>
         </AuthProvider>
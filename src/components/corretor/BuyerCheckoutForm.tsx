@@ -0,0 +1,185 @@
+import { useState } from 'react';
+import { Loader2, MapPin, User as UserIcon } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { PhoneInputWithCountry, COUNTRIES } from '@/components/ui/phone-input-with-country';
+import { lookupPostalCode } from '@/lib/postalCodeLookup';
+import { normalizePostalCode } from '@/lib/deliveryUtils';
+import { isValidBuyerName, isValidBuyerPhone } from '@/lib/leadUtils';
+import type { BuyerAddress, BuyerDetails } from '@/types';
+
+interface BuyerCheckoutFormProps {
+  value: BuyerDetails;
+  onChange: (value: BuyerDetails) => void;
+  showErrors?: boolean;
+  /** CEP already typed for delivery, used to pre-fill the address */
+  initialPostalCode?: string;
+}
+
+const EMPTY_ADDRESS: BuyerAddress = {
+  postal_code: '',
+  street: '',
+  number: '',
+  complement: '',
+  neighborhood: '',
+  city: '',
+  state: '',
+};
+
+export default function BuyerCheckoutForm({
+  value,
+  onChange,
+  showErrors = false,
+  initialPostalCode
+}: BuyerCheckoutFormProps) {
+  const [lookingUp, setLookingUp] = useState(false);
+  const [lookupFailed, setLookupFailed] = useState(false);
+
+  const defaultCountry = COUNTRIES.find(c => c.ddi === `+${value.country_code}`)?.code || 'BR';
+  const address = value.address;
+
+  const updateAddress = (updates: Partial<BuyerAddress>) => {
+    onChange({ ...value, address: { ...(address || EMPTY_ADDRESS), ...updates } });
+  };
+
+  const handlePostalCodeChange = async (input: string) => {
+    const digits = normalizePostalCode(input).slice(0, 8);
+    const formatted = digits.length > 5 ? `${digits.slice(0, 5)}-${digits.slice(5)}` : digits;
+    updateAddress({ postal_code: formatted });
+    setLookupFailed(false);
+
+    if (digits.length !== 8) return;
+
+    setLookingUp(true);
+    const result = await lookupPostalCode(digits);
+    setLookingUp(false);
+
+    if (result) {
+      onChange({
+        ...value,
+        address: { ...(address || EMPTY_ADDRESS), postal_code: formatted, ...result },
+      });
+    } else {
+      setLookupFailed(true);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-3">
+        <Label className="text-sm font-medium flex items-center gap-2">
+          <UserIcon className="h-4 w-4" />
+          Seus dados
+        </Label>
+
+        <div className="space-y-1">
+          <Input
+            value={value.name}
+            onChange={(e) => onChange({ ...value, name: e.target.value })}
+            placeholder="Nome completo"
+            autoComplete="name"
+          />
+          {showErrors && !isValidBuyerName(value.name) && (
+            <p className="text-xs text-destructive">Informe seu nome</p>
+          )}
+        </div>
+
+        <div className="space-y-1">
+          <PhoneInputWithCountry
+            value={value.phone}
+            defaultCountry={defaultCountry}
+            onChange={(data) => onChange({
+              ...value,
+              phone: data.phone,
+              country_code: data.ddi.replace('+', ''),
+            })}
+            autoComplete="tel-national"
+          />
+          {showErrors && !isValidBuyerPhone(value.phone, value.country_code) && (
+            <p className="text-xs text-destructive">Informe um telefone válido</p>
+          )}
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="buyer-address" className="text-sm font-medium flex items-center gap-2">
+            <MapPin className="h-4 w-4" />
+            Endereço de entrega
+          </Label>
+          <Switch
+            id="buyer-address"
+            checked={!!address}
+            onCheckedChange={(checked) => {
+              if (checked && initialPostalCode) {
+                handlePostalCodeChange(initialPostalCode);
+              } else {
+                onChange({ ...value, address: checked ? EMPTY_ADDRESS : null });
+              }
+            }}
+          />
+        </div>
+
+        {address && (
+          <div className="space-y-2">
+            <div className="relative">
+              <Input
+                value={address.postal_code}
+                onChange={(e) => handlePostalCodeChange(e.target.value)}
+                placeholder="CEP"
+                inputMode="numeric"
+                autoComplete="postal-code"
+              />
+              {lookingUp && (
+                <Loader2 className="absolute right-3 top-1/2 -translate-y-1/2 h-4 w-4 animate-spin text-muted-foreground" />
+              )}
+            </div>
+            {lookupFailed && (
+              <p className="text-xs text-muted-foreground">CEP não encontrado, preencha o endereço manualmente</p>
+            )}
+
+            <Input
+              value={address.street}
+              onChange={(e) => updateAddress({ street: e.target.value })}
+              placeholder="Rua"
+              autoComplete="address-line1"
+            />
+            <div className="grid grid-cols-2 gap-2">
+              <Input
+                value={address.number}
+                onChange={(e) => updateAddress({ number: e.target.value })}
+                placeholder="Número"
+              />
+              <Input
+                value={address.complement || ''}
+                onChange={(e) => updateAddress({ complement: e.target.value })}
+                placeholder="Complemento"
+                autoComplete="address-line2"
+              />
+            </div>
+            <Input
+              value={address.neighborhood}
+              onChange={(e) => updateAddress({ neighborhood: e.target.value })}
+              placeholder="Bairro"
+            />
+            <div className="grid grid-cols-[1fr_80px] gap-2">
+              <Input
+                value={address.city}
+                onChange={(e) => updateAddress({ city: e.target.value })}
+                placeholder="Cidade"
+                autoComplete="address-level2"
+              />
+              <Input
+                value={address.state}
+                onChange={(e) => updateAddress({ state: e.target.value.toUpperCase().slice(0, 2) })}
+                placeholder="UF"
+                autoComplete="address-level1"
+              />
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { X, Plus, Minus, Trash2, ShoppingCart, MessageCircle, Edit3, Palette, Ruler, TrendingDown, Package, ChevronDown, ChevronUp } from 'lucide-react';
+import { X, Plus, Minus, Trash2, ShoppingCart, MessageCircle, Edit3, Palette, Ruler, TrendingDown, Package, ChevronDown, ChevronUp, Ticket, Loader2, ArrowLeft } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
@@ -22,11 +22,19 @@ import {
 import { useCart } from '@/contexts/CartContext';
 import { formatCurrencyI18n, generateWhatsAppMessage, useTranslation, type SupportedLanguage, type SupportedCurrency } from '@/lib/i18n';
 import { generateWhatsAppUrl } from '@/lib/utils';
-import { trackWhatsAppClick } from '@/lib/tracking';
-import type { User, PriceTier } from '@/types';
+import type { User, PriceTier, BuyerDetails } from '@/types';
 import { generateCartOrderMessage } from '@/lib/cartUtils';
+import { createOrderFromCart, isCouponUnavailableError, isOutOfStockError } from '@/lib/orderUtils';
+import { validateCoupon } from '@/lib/couponUtils';
+import { calculateDeliveryFee } from '@/lib/deliveryUtils';
+import { createCheckoutLead, isBuyerDetailsComplete, loadSavedBuyerDetails, saveBuyerDetails } from '@/lib/leadUtils';
+import { useDeliveryMethods } from '@/hooks/useDeliveryMethods';
+import { toast } from 'sonner';
 import { fetchProductPriceTiers, calculateApplicablePrice } from '@/lib/tieredPricingUtils';
 import { supabase } from '@/lib/supabase';
+import { trackStorefrontEvent, trackMetaConversion } from '@/lib/tracking';
+import { trackBeginCheckout } from '@/lib/ecommerceTracking';
+import { formatBundleItem } from '@/lib/bundleUtils';
 import {
   Tooltip,
   TooltipContent,
@@ -34,6 +42,8 @@ import {
   TooltipTrigger,
 } from '@/components/ui/tooltip';
 import TieredPricingIndicator from '@/components/product/TieredPricingIndicator';
+import DeliveryOptions from './DeliveryOptions';
+import BuyerCheckoutForm from './BuyerCheckoutForm';
 
 interface CartModalProps {
   open: boolean;
@@ -50,13 +60,48 @@ export default function CartModal({
   currency = 'BRL',
   language = 'pt-BR'
 }: CartModalProps) {
-  const { cart, updateVariantQuantity, removeCartVariant, clearCart, updateVariantNotes, updateVariantOptions, removeDistribution } = useCart();
+  const { cart, updateVariantQuantity, removeCartVariant, clearCart, updateVariantNotes, updateVariantOptions, removeDistribution, applyCoupon, removeCoupon } = useCart();
   const { t } = useTranslation(language);
   const [sendingOrder, setSendingOrder] = useState(false);
   const [editingNotes, setEditingNotes] = useState<string | null>(null);
   const [editingVariant, setEditingVariant] = useState<string | null>(null);
   const [productTiers, setProductTiers] = useState<Map<string, { tiers: PriceTier[], hasTieredPricing: boolean }>>(new Map());
   const [expandedDistributions, setExpandedDistributions] = useState<Set<string>>(new Set());
+  const [couponCode, setCouponCode] = useState('');
+  const [applyingCoupon, setApplyingCoupon] = useState(false);
+  const { methods: deliveryMethods } = useDeliveryMethods(corretor.id, true);
+  const [checkoutStep, setCheckoutStep] = useState<'cart' | 'details'>('cart');
+  const [buyer, setBuyer] = useState<BuyerDetails>(() => loadSavedBuyerDetails() || {
+    name: '',
+    phone: '',
+    country_code: corretor.country_code || '55',
+    address: null,
+  });
+  const [showBuyerErrors, setShowBuyerErrors] = useState(false);
+
+  const couponValidation = cart.coupon
+    ? validateCoupon(cart.coupon, cart.items, cart.distributions)
+    : null;
+
+  // The fee follows the seller's current settings for the chosen method
+  const deliveryMethod = deliveryMethods.find(method => method.id === cart.delivery?.methodId);
+  const deliveryFee = deliveryMethod
+    ? calculateDeliveryFee(deliveryMethod, cart.total, cart.delivery?.postalCode)
+    : null;
+  const orderTotal = cart.total + (deliveryFee ?? 0);
+
+  // Sellers without delivery methods keep the previous flow (delivery agreed on WhatsApp)
+  const deliveryPending = deliveryMethods.length > 0 && deliveryFee === null;
+
+  // Always reopen the cart on the items step
+  useEffect(() => {
+    if (!open) {
+      setCheckoutStep('cart');
+      setShowBuyerErrors(false);
+      return;
+    }
+    trackStorefrontEvent(corretor.id, 'cart_open');
+  }, [open, corretor.id]);
 
   useEffect(() => {
     const loadTieredPricing = async () => {
@@ -85,43 +130,123 @@ export default function CartModal({
     }
   }, [cart.items.map(i => `${i.id}-${i.quantity}`).join(',')]);
 
-  const generateOrderMessage = () => {
+  const generateOrderMessage = (orderReference?: string) => {
     return generateCartOrderMessage(
       cart.items,
-      cart.total,
+      orderTotal,
       corretor.name,
       corretor.slug || '',
       currency,
       language,
-      cart.distributions
+      cart.distributions,
+      orderReference,
+      cart.coupon && cart.discount > 0
+        ? { code: cart.coupon.code, amount: cart.discount }
+        : undefined,
+      deliveryMethod && deliveryFee !== null
+        ? { method: deliveryMethod.name, fee: deliveryFee, postalCode: cart.delivery?.postalCode }
+        : undefined,
+      buyer
     );
   };
 
+  const handleContinueToDetails = () => {
+    if (deliveryPending) {
+      toast.error('Escolha uma forma de entrega disponível para o seu CEP');
+      return;
+    }
+    trackBeginCheckout(corretor.id, cart, currency, orderTotal);
+    setCheckoutStep('details');
+  };
+
+  const handleApplyCoupon = async () => {
+    if (!couponCode.trim()) return;
+
+    setApplyingCoupon(true);
+    const applied = await applyCoupon(corretor.id, couponCode);
+    setApplyingCoupon(false);
+
+    if (applied) setCouponCode('');
+  };
+
+  /**
+   * Store the order, then send the buyer to WhatsApp with a message carrying its
+   * reference code. The tab is opened by the click itself so popup blockers allow it,
+   * and only pointed at WhatsApp once the code is final.
+   */
   const handleSendOrder = async () => {
     if (cart.items.length === 0 && cart.distributions.length === 0) return;
 
+    const whatsappWindow = window.open('', '_blank');
+    let order: Awaited<ReturnType<typeof createOrderFromCart>>;
+
     try {
       setSendingOrder(true);
 
-      const orderMessage = generateOrderMessage();
-      const countryCode = corretor.country_code || '55';
-      const whatsappUrl = generateWhatsAppUrl(corretor.whatsapp || '', orderMessage, countryCode);
-      
-      // Track the order as a WhatsApp lead
-      await trackWhatsAppClick('storefront', 'product', 'cart_checkout');
-      
-      // Open WhatsApp
-      window.open(whatsappUrl, '_blank');
-      
-      // Clear cart after sending
-      clearCart();
-      onOpenChange(false);
-      
+      order = await createOrderFromCart({
+        sellerId: corretor.id,
+        items: cart.items,
+        distributions: cart.distributions,
+        buyer,
+        couponCode: cart.discount > 0 ? cart.coupon?.code : null,
+        deliveryMethod: deliveryMethod?.name || null,
+        deliveryFee: deliveryFee ?? 0,
+        deliveryPostalCode: deliveryMethod ? cart.delivery?.postalCode || null : null,
+        currency,
+        language,
+      });
+
+      trackStorefrontEvent(corretor.id, 'checkout_sent', {
+        productIds: [
+          ...cart.items.map(item => item.id),
+          ...cart.distributions.map(({ product }) => product.id),
+        ],
+        metadata: { reference_code: order?.reference_code ?? null, total: orderTotal },
+      });
+
+      // Without a stored order the message goes out without a code to look up
+      const whatsappUrl = generateWhatsAppUrl(
+        corretor.whatsapp || '',
+        generateOrderMessage(order?.reference_code),
+        corretor.country_code || '55'
+      );
+      if (whatsappWindow) {
+        whatsappWindow.opener = null;
+        whatsappWindow.location.href = whatsappUrl;
+      } else {
+        window.location.href = whatsappUrl;
+      }
     } catch (error) {
-      console.error('Error sending order:', error);
+      whatsappWindow?.close();
+      if (isCouponUnavailableError(error)) {
+        removeCoupon();
+        toast.error('Este cupom não está mais disponível. Confira o novo total e envie o pedido novamente.');
+      } else if (isOutOfStockError(error)) {
+        toast.error('Alguns produtos não têm mais estoque suficiente. Ajuste as quantidades e envie o pedido novamente.');
+      } else {
+        console.error('Error sending order:', error);
+        toast.error('Não foi possível enviar o pedido. Tente novamente.');
+      }
+      return;
     } finally {
       setSendingOrder(false);
     }
+
+    // The order is on its way: clear the cart first so nothing below can lead to sending it twice
+    clearCart();
+    onOpenChange(false);
+
+    // The order stored the buyer as its lead; without one, keep them as a lead on their own.
+    // Remember them for the next checkout either way.
+    if (!order) {
+      createCheckoutLead({ sellerId: corretor.id, buyer });
+    }
+    trackMetaConversion(corretor.id, 'Lead', {
+      value: orderTotal,
+      currency,
+      order_id: order?.reference_code,
+    }, { phone: `${buyer.country_code}${buyer.phone}` });
+    saveBuyerDetails(buyer);
   };
 
   // Get color value for circle display
@@ -178,459 +303,571 @@ export default function CartModal({
           </div>
         ) : (
           <>
-            {/* Cart Items */}
-            <div className="flex-1 overflow-y-auto space-y-3 max-h-[400px]">
-              {/* Distribution Groups */}
-              {cart.distributions.map((dist) => {
-                const isExpanded = expandedDistributions.has(dist.distribution.id);
-                const totalPrice = dist.distribution.applied_tier_price * dist.distribution.total_quantity;
-
-                return (
-                  <div key={dist.distribution.id} className="border rounded-lg overflow-hidden">
-                    {/* Distribution Header */}
-                    <div
-                      className="flex gap-3 p-3 bg-blue-50 dark:bg-blue-950 border-b cursor-pointer hover:bg-blue-100 dark:hover:bg-blue-900 transition-colors"
-                      onClick={() => {
-                        setExpandedDistributions(prev => {
-                          const newSet = new Set(prev);
-                          if (newSet.has(dist.distribution.id)) {
-                            newSet.delete(dist.distribution.id);
-                          } else {
-                            newSet.add(dist.distribution.id);
-                          }
-                          return newSet;
-                        });
-                      }}
-                    >
-                      <div className="w-16 h-16 bg-white rounded-lg overflow-hidden border border-gray-200 shadow-sm flex-shrink-0">
-                        <img
-                          src={dist.product.featured_image_url || 'https://images.pexels.com/photos/3802510/pexels-photo-3802510.jpeg'}
-                          alt={dist.product.title}
-                          className="w-full h-full object-cover"
-                        />
-                      </div>
-
-                      <div className="flex-1 min-w-0">
-                        <div className="flex items-start justify-between mb-1">
-                          <h4 className="font-medium text-sm line-clamp-2">
-                            {dist.product.title}
-                          </h4>
-                          {isExpanded ? (
-                            <ChevronUp className="h-4 w-4 flex-shrink-0 ml-2" />
-                          ) : (
-                            <ChevronDown className="h-4 w-4 flex-shrink-0 ml-2" />
-                          )}
+            {checkoutStep === 'details' ? (
+              <div className="flex-1 overflow-y-auto max-h-[400px] px-1">
+                <BuyerCheckoutForm
+                  value={buyer}
+                  onChange={setBuyer}
+                  showErrors={showBuyerErrors}
+                  initialPostalCode={cart.delivery?.postalCode}
+                />
+              </div>
+            ) : (
+              /* Cart Items */
+              <div className="flex-1 overflow-y-auto space-y-3 max-h-[400px]">
+                {/* Distribution Groups */}
+                {cart.distributions.map((dist) => {
+                  const isExpanded = expandedDistributions.has(dist.distribution.id);
+                  const totalPrice = dist.distribution.applied_tier_price * dist.distribution.total_quantity;
+
+                  return (
+                    <div key={dist.distribution.id} className="border rounded-lg overflow-hidden">
+                      {/* Distribution Header */}
+                      <div
+                        className="flex gap-3 p-3 bg-blue-50 dark:bg-blue-950 border-b cursor-pointer hover:bg-blue-100 dark:hover:bg-blue-900 transition-colors"
+                        onClick={() => {
+                          setExpandedDistributions(prev => {
+                            const newSet = new Set(prev);
+                            if (newSet.has(dist.distribution.id)) {
+                              newSet.delete(dist.distribution.id);
+                            } else {
+                              newSet.add(dist.distribution.id);
+                            }
+                            return newSet;
+                          });
+                        }}
+                      >
+                        <div className="w-16 h-16 bg-white rounded-lg overflow-hidden border border-gray-200 shadow-sm flex-shrink-0">
+                          <img
+                            src={dist.product.featured_image_url || 'https://images.pexels.com/photos/3802510/pexels-photo-3802510.jpeg'}
+                            alt={dist.product.title}
+                            className="w-full h-full object-cover"
+                          />
                         </div>
 
-                        <div className="flex items-center gap-2 mb-2">
-                          <Badge className="bg-blue-600 text-white text-xs">
-                            <Package className="h-3 w-3 mr-1" />
-                            Distribuição
-                          </Badge>
-                          <Badge variant="outline" className="text-xs">
-                            {dist.distribution.total_quantity} unidades
-                          </Badge>
-                          <Badge variant="outline" className="text-xs">
-                            {dist.items.length} variações
-                          </Badge>
-                        </div>
+                        <div className="flex-1 min-w-0">
+                          <div className="flex items-start justify-between mb-1">
+                            <h4 className="font-medium text-sm line-clamp-2">
+                              {dist.product.title}
+                            </h4>
+                            {isExpanded ? (
+                              <ChevronUp className="h-4 w-4 flex-shrink-0 ml-2" />
+                            ) : (
+                              <ChevronDown className="h-4 w-4 flex-shrink-0 ml-2" />
+                            )}
+                          </div>
 
-                        <div className="flex items-center justify-between">
-                          <div className="text-sm text-primary font-semibold">
-                            {formatCurrencyI18n(dist.distribution.applied_tier_price, currency, language)} / un
+                          <div className="flex items-center gap-2 mb-2">
+                            <Badge className="bg-blue-600 text-white text-xs">
+                              <Package className="h-3 w-3 mr-1" />
+                              Distribuição
+                            </Badge>
+                            <Badge variant="outline" className="text-xs">
+                              {dist.distribution.total_quantity} unidades
+                            </Badge>
+                            <Badge variant="outline" className="text-xs">
+                              {dist.items.length} variações
+                            </Badge>
                           </div>
-                          <div className="text-sm font-semibold">
-                            {formatCurrencyI18n(totalPrice, currency, language)}
+
+                          <div className="flex items-center justify-between">
+                            <div className="text-sm text-primary font-semibold">
+                              {formatCurrencyI18n(dist.distribution.applied_tier_price, currency, language)} / un
+                            </div>
+                            <div className="text-sm font-semibold">
+                              {formatCurrencyI18n(totalPrice, currency, language)}
+                            </div>
                           </div>
                         </div>
                       </div>
-                    </div>
 
-                    {/* Distribution Items (Expanded) */}
-                    {isExpanded && (
-                      <div className="p-3 space-y-2 bg-gray-50 dark:bg-gray-900">
-                        {dist.items.map((item) => (
-                          <div key={item.id} className="flex items-center gap-2 text-xs">
-                            <div className="flex-1 flex items-center gap-2">
-                              {item.color && (
-                                <div className="flex items-center gap-1">
-                                  <Palette className="h-3 w-3 text-muted-foreground" />
-                                  <span className="capitalize">{item.color}</span>
-                                </div>
-                              )}
-                              {item.size && (
-                                <div className="flex items-center gap-1">
-                                  <Ruler className="h-3 w-3 text-muted-foreground" />
-                                  <span>{item.size}</span>
-                                </div>
-                              )}
+                      {/* Distribution Items (Expanded) */}
+                      {isExpanded && (
+                        <div className="p-3 space-y-2 bg-gray-50 dark:bg-gray-900">
+                          {dist.items.map((item) => (
+                            <div key={item.id} className="flex items-center gap-2 text-xs">
+                              <div className="flex-1 flex items-center gap-2">
+                                {item.color && (
+                                  <div className="flex items-center gap-1">
+                                    <Palette className="h-3 w-3 text-muted-foreground" />
+                                    <span className="capitalize">{item.color}</span>
+                                  </div>
+                                )}
+                                {item.size && (
+                                  <div className="flex items-center gap-1">
+                                    <Ruler className="h-3 w-3 text-muted-foreground" />
+                                    <span>{item.size}</span>
+                                  </div>
+                                )}
+                              </div>
+                              <Badge variant="secondary" className="text-xs">
+                                {item.quantity}x
+                              </Badge>
                             </div>
-                            <Badge variant="secondary" className="text-xs">
-                              {item.quantity}x
-                            </Badge>
-                          </div>
-                        ))}
-
-                        <Separator className="my-2" />
-
-                        <Button
-                          size="sm"
-                          variant="destructive"
-                          className="w-full text-xs h-8"
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            removeDistribution(dist.distribution.id);
-                          }}
-                        >
-                          <Trash2 className="h-3 w-3 mr-1" />
-                          Remover Distribuição
-                        </Button>
-                      </div>
-                    )}
-                  </div>
-                );
-              })}
-
-              {/* Regular Cart Items */}
-              {cart.items.map((item) => {
-                const tierInfo = productTiers.get(item.id);
-                const hasTieredPricing = item.has_tiered_pricing || tierInfo?.hasTieredPricing || false;
-                const tiers = tierInfo?.tiers || [];
-
-                // Use the stored applied tier price if available
-                let price = item.applied_tier_price || item.discounted_price || item.price;
-                let itemTotal = price * item.quantity;
-                let pricingInfo = null;
-
-                // Recalculate if tiered pricing is enabled and we have tiers
-                if (hasTieredPricing && tiers.length > 0) {
-                  const result = calculateApplicablePrice(
-                    item.quantity,
-                    tiers,
-                    item.price,
-                    item.discounted_price
-                  );
-                  price = result.unitPrice;
-                  itemTotal = result.totalPrice;
-                  pricingInfo = result;
-                }
-
-                return (
-                  <div key={item.id} className="flex gap-3 p-3 border rounded-lg">
-                    {/* Product Image */}
-                    <div className="w-16 h-16 bg-white rounded-lg overflow-hidden border border-gray-200 shadow-sm flex-shrink-0">
-                      <img
-                        src={item.featured_image_url || 'https://images.pexels.com/photos/3802510/pexels-photo-3802510.jpeg'}
-                        alt={item.title}
-                        className="w-full h-full object-cover"
-                      />
+                          ))}
+
+                          <Separator className="my-2" />
+
+                          <Button
+                            size="sm"
+                            variant="destructive"
+                            className="w-full text-xs h-8"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              removeDistribution(dist.distribution.id);
+                            }}
+                          >
+                            <Trash2 className="h-3 w-3 mr-1" />
+                            Remover Distribuição
+                          </Button>
+                        </div>
+                      )}
                     </div>
+                  );
+                })}
+
+                {/* Regular Cart Items */}
+                {cart.items.map((item) => {
+                  const tierInfo = productTiers.get(item.id);
+                  const hasTieredPricing = item.has_tiered_pricing || tierInfo?.hasTieredPricing || false;
+                  const tiers = tierInfo?.tiers || [];
+
+                  // Use the stored applied tier price if available
+                  let price = item.applied_tier_price || item.discounted_price || item.price;
+                  let itemTotal = price * item.quantity;
+                  let pricingInfo = null;
+
+                  // Recalculate if tiered pricing is enabled and we have tiers
+                  if (hasTieredPricing && tiers.length > 0) {
+                    const result = calculateApplicablePrice(
+                      item.quantity,
+                      tiers,
+                      item.price,
+                      item.discounted_price
+                    );
+                    price = result.unitPrice;
+                    itemTotal = result.totalPrice;
+                    pricingInfo = result;
+                  }
+
+                  return (
+                    <div key={item.id} className="flex gap-3 p-3 border rounded-lg">
+                      {/* Product Image */}
+                      <div className="w-16 h-16 bg-white rounded-lg overflow-hidden border border-gray-200 shadow-sm flex-shrink-0">
+                        <img
+                          src={item.featured_image_url || 'https://images.pexels.com/photos/3802510/pexels-photo-3802510.jpeg'}
+                          alt={item.title}
+                          className="w-full h-full object-cover"
+                        />
+                      </div>
 
-                    {/* Product Info */}
-                    <div className="flex-1 min-w-0">
-                      <h4 className="font-medium text-sm line-clamp-2 mb-1">
-                        {item.title}
-                      </h4>
+                      {/* Product Info */}
+                      <div className="flex-1 min-w-0">
+                        <h4 className="font-medium text-sm line-clamp-2 mb-1">
+                          {item.title}
+                        </h4>
                       
-                      <div className="space-y-1 mb-2">
-                        <div className="flex items-center gap-2">
-                          <div className="text-sm text-primary font-semibold">
-                            {item.is_starting_price ? t('product.starting_from') + ' ' : ''}
-                            {formatCurrencyI18n(price, currency, language)}
+                        <div className="space-y-1 mb-2">
+                          <div className="flex items-center gap-2">
+                            <div className="text-sm text-primary font-semibold">
+                              {item.is_starting_price ? t('product.starting_from') + ' ' : ''}
+                              {formatCurrencyI18n(price, currency, language)}
+                            </div>
+                            {hasTieredPricing && (
+                              <TooltipProvider>
+                                <Tooltip>
+                                  <TooltipTrigger asChild>
+                                    <Badge className="bg-blue-600 text-white text-xs cursor-help">
+                                      <TrendingDown className="h-3 w-3 mr-1" />
+                                      Preço Escalonado
+                                    </Badge>
+                                  </TooltipTrigger>
+                                  <TooltipContent>
+                                    <p className="text-xs">Preço calculado por quantidade</p>
+                                  </TooltipContent>
+                                </Tooltip>
+                              </TooltipProvider>
+                            )}
                           </div>
-                          {hasTieredPricing && (
-                            <TooltipProvider>
-                              <Tooltip>
-                                <TooltipTrigger asChild>
-                                  <Badge className="bg-blue-600 text-white text-xs cursor-help">
-                                    <TrendingDown className="h-3 w-3 mr-1" />
-                                    Preço Escalonado
-                                  </Badge>
-                                </TooltipTrigger>
-                                <TooltipContent>
-                                  <p className="text-xs">Preço calculado por quantidade</p>
-                                </TooltipContent>
-                              </Tooltip>
-                            </TooltipProvider>
-                          )}
+
                         </div>
 
-                      </div>
+                        {pricingInfo && (pricingInfo.savings > 0 || (pricingInfo.nextTier && pricingInfo.unitsToNextTier > 0)) && (
+                          <div className="mb-2">
+                            <TieredPricingIndicator
+                              currentQuantity={item.quantity}
+                              nextTierQuantity={pricingInfo.nextTier?.quantity || 0}
+                              nextTierSavings={pricingInfo.nextTierSavings}
+                              appliedTierSavings={pricingInfo.savings}
+                              currency={currency}
+                              language={language}
+                            />
+                          </div>
+                        )}
 
-                      {pricingInfo && (pricingInfo.savings > 0 || (pricingInfo.nextTier && pricingInfo.unitsToNextTier > 0)) && (
-                        <div className="mb-2">
-                          <TieredPricingIndicator
-                            currentQuantity={item.quantity}
-                            nextTierQuantity={pricingInfo.nextTier?.quantity || 0}
-                            nextTierSavings={pricingInfo.nextTierSavings}
-                            appliedTierSavings={pricingInfo.savings}
-                            currency={currency}
-                            language={language}
-                          />
-                        </div>
-                      )}
+                        {/* Bundle Contents */}
+                        {item.bundleItems && item.bundleItems.length > 0 && (
+                          <ul className="mb-2 space-y-0.5 text-xs text-muted-foreground">
+                            {item.bundleItems.map((bundleItem, bundleIndex) => (
+                              <li key={bundleIndex}>• {formatBundleItem(bundleItem)}</li>
+                            ))}
+                          </ul>
+                        )}
+
+                        {/* Selected Variant Display */}
+                        {(item.selectedColor || item.selectedSize) && (
+                          <div className="mb-2">
+                            {editingVariant === item.variantId ? (
+                              <div className="space-y-2">
+                                {/* Color Selection */}
+                                {item.availableColors && item.availableColors.length > 0 && (
+                                  <div className="space-y-1">
+                                    <Label className="text-xs">Cor</Label>
+                                    <Select
+                                      value={item.selectedColor || ''}
+                                      onValueChange={(value) => {
+                                        updateVariantOptions(item.variantId!, value || undefined, item.selectedSize);
+                                        setEditingVariant(null);
+                                      }}
+                                    >
+                                      <SelectTrigger className="h-8 text-xs">
+                                        <SelectValue placeholder="Selecionar cor">
+                                          {item.selectedColor && (
+                                            <div className="flex items-center gap-2">
+                                              <div 
+                                                className="w-3 h-3 rounded-full border border-gray-300"
+                                                style={{ backgroundColor: getColorValue(item.selectedColor) }}
+                                              />
+                                              <span className="capitalize">{item.selectedColor}</span>
+                                            </div>
+                                          )}
+                                        </SelectValue>
+                                      </SelectTrigger>
+                                      <SelectContent>
+                                        {item.availableColors.map((color) => (
+                                          <SelectItem key={color} value={color}>
+                                            <div className="flex items-center gap-2">
+                                              <div 
+                                                className="w-3 h-3 rounded-full border border-gray-300"
+                                                style={{ backgroundColor: getColorValue(color) }}
+                                              />
+                                              <span className="capitalize">{color}</span>
+                                            </div>
+                                          </SelectItem>
+                                        ))}
+                                      </SelectContent>
+                                    </Select>
+                                  </div>
+                                )}
+
+                                {/* Size Selection */}
+                                {item.availableSizes && item.availableSizes.length > 0 && (
+                                  <div className="space-y-1">
+                                    <Label className="text-xs">Tamanho</Label>
+                                    <Select
+                                      value={item.selectedSize || ''}
+                                      onValueChange={(value) => {
+                                        updateVariantOptions(item.variantId!, item.selectedColor, value || undefined);
+                                        setEditingVariant(null);
+                                      }}
+                                    >
+                                      <SelectTrigger className="h-8 text-xs">
+                                        <SelectValue placeholder="Selecionar tamanho">
+                                          {item.selectedSize && (
+                                            <div className="flex items-center gap-2">
+                                              <span className="font-medium">{item.selectedSize}</span>
+                                              {(() => {
+                                                const numericSize = parseInt(item.selectedSize);
+                                                if (!isNaN(numericSize) && numericSize >= 17 && numericSize <= 43) {
+                                                  return null;
+                                                } else if (['PP', 'P', 'M', 'G', 'GG', 'XG', 'XXG'].includes(item.selectedSize)) {
+                                                  return <Badge variant="outline" className="text-xs">Vestuário</Badge>;
+                                                } else {
+                                                  return <Badge variant="outline" className="text-xs">Personalizado</Badge>;
+                                                }
+                                              })()}
+                                            </div>
+                                          )}
+                                        </SelectValue>
+                                      </SelectTrigger>
+                                      <SelectContent>
+                                        {item.availableSizes.map((size) => {
+                                          const numericSize = parseInt(size);
+                                          const isShoeSize = !isNaN(numericSize) && numericSize >= 17 && numericSize <= 43;
+                                          const isApparelSize = ['PP', 'P', 'M', 'G', 'GG', 'XG', 'XXG'].includes(size);
+                                        
+                                          return (
+                                          <SelectItem key={size} value={size}>
+                                            <div className="flex items-center gap-2">
+                                              <span className="font-medium">{size}</span>
+                                              {isShoeSize && (
+                                                null
+                                              )}
+                                              {isApparelSize && (
+                                                <Badge variant="outline" className="text-xs">Vestuário</Badge>
+                                              )}
+                                              {!isShoeSize && !isApparelSize && (
+                                                <Badge variant="outline" className="text-xs">Personalizado</Badge>
+                                              )}
+                                            </div>
+                                          </SelectItem>
+                                          );
+                                        })}
+                                      </SelectContent>
+                                    </Select>
+                                  </div>
+                                )}
+                              </div>
+                            ) : (
+                              <div 
+                                className="flex items-center gap-2 text-xs text-muted-foreground cursor-pointer hover:text-foreground transition-colors"
+                                onClick={() => setEditingVariant(item.variantId!)}
+                              >
+                                {item.selectedColor && (
+                                  <div className="flex items-center gap-1">
+                                    <Palette className="h-3 w-3" />
+                                    <div 
+                                      className="w-3 h-3 rounded-full border border-gray-300"
+                                      style={{ backgroundColor: getColorValue(item.selectedColor) }}
+                                    />
+                                    <span className="capitalize">{item.selectedColor}</span>
+                                  </div>
+                                )}
+                                {item.selectedSize && (
+                                  <div className="flex items-center gap-1">
+                                    <Ruler className="h-3 w-3" />
+                                    <span>{item.selectedSize}</span>
+                                  </div>
+                                )}
+                                <Edit3 className="h-3 w-3 ml-1" />
+                              </div>
+                            )}
+                          </div>
+                        )}
 
-                      {/* Selected Variant Display */}
-                      {(item.selectedColor || item.selectedSize) && (
+                        {/* Notes Section */}
                         <div className="mb-2">
-                          {editingVariant === item.variantId ? (
+                          {editingNotes === item.variantId ? (
                             <div className="space-y-2">
-                              {/* Color Selection */}
-                              {item.availableColors && item.availableColors.length > 0 && (
-                                <div className="space-y-1">
-                                  <Label className="text-xs">Cor</Label>
-                                  <Select
-                                    value={item.selectedColor || ''}
-                                    onValueChange={(value) => {
-                                      updateVariantOptions(item.variantId!, value || undefined, item.selectedSize);
-                                      setEditingVariant(null);
-                                    }}
-                                  >
-                                    <SelectTrigger className="h-8 text-xs">
-                                      <SelectValue placeholder="Selecionar cor">
-                                        {item.selectedColor && (
-                                          <div className="flex items-center gap-2">
-                                            <div 
-                                              className="w-3 h-3 rounded-full border border-gray-300"
-                                              style={{ backgroundColor: getColorValue(item.selectedColor) }}
-                                            />
-                                            <span className="capitalize">{item.selectedColor}</span>
-                                          </div>
-                                        )}
-                                      </SelectValue>
-                                    </SelectTrigger>
-                                    <SelectContent>
-                                      {item.availableColors.map((color) => (
-                                        <SelectItem key={color} value={color}>
-                                          <div className="flex items-center gap-2">
-                                            <div 
-                                              className="w-3 h-3 rounded-full border border-gray-300"
-                                              style={{ backgroundColor: getColorValue(color) }}
-                                            />
-                                            <span className="capitalize">{color}</span>
-                                          </div>
-                                        </SelectItem>
-                                      ))}
-                                    </SelectContent>
-                                  </Select>
-                                </div>
-                              )}
-
-                              {/* Size Selection */}
-                              {item.availableSizes && item.availableSizes.length > 0 && (
-                                <div className="space-y-1">
-                                  <Label className="text-xs">Tamanho</Label>
-                                  <Select
-                                    value={item.selectedSize || ''}
-                                    onValueChange={(value) => {
-                                      updateVariantOptions(item.variantId!, item.selectedColor, value || undefined);
-                                      setEditingVariant(null);
-                                    }}
-                                  >
-                                    <SelectTrigger className="h-8 text-xs">
-                                      <SelectValue placeholder="Selecionar tamanho">
-                                        {item.selectedSize && (
-                                          <div className="flex items-center gap-2">
-                                            <span className="font-medium">{item.selectedSize}</span>
-                                            {(() => {
-                                              const numericSize = parseInt(item.selectedSize);
-                                              if (!isNaN(numericSize) && numericSize >= 17 && numericSize <= 43) {
-                                                return null;
-                                              } else if (['PP', 'P', 'M', 'G', 'GG', 'XG', 'XXG'].includes(item.selectedSize)) {
-                                                return <Badge variant="outline" className="text-xs">Vestuário</Badge>;
-                                              } else {
-                                                return <Badge variant="outline" className="text-xs">Personalizado</Badge>;
-                                              }
-                                            })()}
-                                          </div>
-                                        )}
-                                      </SelectValue>
-                                    </SelectTrigger>
-                                    <SelectContent>
-                                      {item.availableSizes.map((size) => {
-                                        const numericSize = parseInt(size);
-                                        const isShoeSize = !isNaN(numericSize) && numericSize >= 17 && numericSize <= 43;
-                                        const isApparelSize = ['PP', 'P', 'M', 'G', 'GG', 'XG', 'XXG'].includes(size);
-                                        
-                                        return (
-                                        <SelectItem key={size} value={size}>
-                                          <div className="flex items-center gap-2">
-                                            <span className="font-medium">{size}</span>
-                                            {isShoeSize && (
-                                              null
-                                            )}
-                                            {isApparelSize && (
-                                              <Badge variant="outline" className="text-xs">Vestuário</Badge>
-                                            )}
-                                            {!isShoeSize && !isApparelSize && (
-                                              <Badge variant="outline" className="text-xs">Personalizado</Badge>
-                                            )}
-                                          </div>
-                                        </SelectItem>
-                                        );
-                                      })}
-                                    </SelectContent>
-                                  </Select>
-                                </div>
-                              )}
+                              <Label className="text-xs">Observação (cor, tamanho, etc.)</Label>
+                              <Input
+                                placeholder="Ex: Cor preta, tamanho M"
+                                defaultValue={item.notes || ''}
+                                className="text-xs h-8"
+                                onKeyDown={(e) => {
+                                  if (e.key === 'Enter') {
+                                    const input = e.target as HTMLInputElement;
+                                    updateVariantNotes(item.variantId!, input.value);
+                                    setEditingNotes(null);
+                                  }
+                                  if (e.key === 'Escape') {
+                                    setEditingNotes(null);
+                                  }
+                                }}
+                                onBlur={(e) => {
+                                  updateVariantNotes(item.variantId!, e.target.value);
+                                  setEditingNotes(null);
+                                }}
+                                autoFocus
+                              />
                             </div>
                           ) : (
                             <div 
-                              className="flex items-center gap-2 text-xs text-muted-foreground cursor-pointer hover:text-foreground transition-colors"
-                              onClick={() => setEditingVariant(item.variantId!)}
+                              className="text-xs text-muted-foreground cursor-pointer hover:text-foreground transition-colors min-h-[16px] flex items-center gap-1"
+                              onClick={() => setEditingNotes(item.variantId!)}
                             >
-                              {item.selectedColor && (
-                                <div className="flex items-center gap-1">
-                                  <Palette className="h-3 w-3" />
-                                  <div 
-                                    className="w-3 h-3 rounded-full border border-gray-300"
-                                    style={{ backgroundColor: getColorValue(item.selectedColor) }}
-                                  />
-                                  <span className="capitalize">{item.selectedColor}</span>
-                                </div>
-                              )}
-                              {item.selectedSize && (
-                                <div className="flex items-center gap-1">
-                                  <Ruler className="h-3 w-3" />
-                                  <span>{item.selectedSize}</span>
-                                </div>
-                              )}
-                              <Edit3 className="h-3 w-3 ml-1" />
+                              <Edit3 className="h-3 w-3" />
+                              {item.notes ? item.notes : 'Adicionar observação'}
                             </div>
                           )}
                         </div>
-                      )}
 
-                      {/* Notes Section */}
-                      <div className="mb-2">
-                        {editingNotes === item.variantId ? (
-                          <div className="space-y-2">
-                            <Label className="text-xs">Observação (cor, tamanho, etc.)</Label>
-                            <Input
-                              placeholder="Ex: Cor preta, tamanho M"
-                              defaultValue={item.notes || ''}
-                              className="text-xs h-8"
-                              onKeyDown={(e) => {
-                                if (e.key === 'Enter') {
-                                  const input = e.target as HTMLInputElement;
-                                  updateVariantNotes(item.variantId!, input.value);
-                                  setEditingNotes(null);
-                                }
-                                if (e.key === 'Escape') {
-                                  setEditingNotes(null);
-                                }
-                              }}
-                              onBlur={(e) => {
-                                updateVariantNotes(item.variantId!, e.target.value);
-                                setEditingNotes(null);
-                              }}
-                              autoFocus
-                            />
-                          </div>
-                        ) : (
-                          <div 
-                            className="text-xs text-muted-foreground cursor-pointer hover:text-foreground transition-colors min-h-[16px] flex items-center gap-1"
-                            onClick={() => setEditingNotes(item.variantId!)}
-                          >
-                            <Edit3 className="h-3 w-3" />
-                            {item.notes ? item.notes : 'Adicionar observação'}
+                        {/* Quantity Controls */}
+                        <div className="flex items-center justify-between">
+                          <div className="flex items-center gap-2">
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              className="h-8 w-8 p-0"
+                              onClick={() => updateVariantQuantity(item.variantId!, item.quantity - 1)}
+                            >
+                              <Minus className="h-3 w-3" />
+                            </Button>
+                            <span className="text-sm font-medium w-8 text-center">
+                              {item.quantity}
+                            </span>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              className="h-8 w-8 p-0"
+                              onClick={() => updateVariantQuantity(item.variantId!, item.quantity + 1)}
+                            >
+                              <Plus className="h-3 w-3" />
+                            </Button>
                           </div>
-                        )}
-                      </div>
 
-                      {/* Quantity Controls */}
-                      <div className="flex items-center justify-between">
-                        <div className="flex items-center gap-2">
-                          <Button
-                            size="sm"
-                            variant="outline"
-                            className="h-8 w-8 p-0"
-                            onClick={() => updateVariantQuantity(item.variantId!, item.quantity - 1)}
-                          >
-                            <Minus className="h-3 w-3" />
-                          </Button>
-                          <span className="text-sm font-medium w-8 text-center">
-                            {item.quantity}
-                          </span>
-                          <Button
-                            size="sm"
-                            variant="outline"
-                            className="h-8 w-8 p-0"
-                            onClick={() => updateVariantQuantity(item.variantId!, item.quantity + 1)}
-                          >
-                            <Plus className="h-3 w-3" />
-                          </Button>
-                        </div>
-
-                        <div className="flex items-center gap-2">
-                          <span className="text-sm font-semibold">
-                            {formatCurrencyI18n(itemTotal, currency, language)}
-                          </span>
-                          <Button
-                            size="sm"
-                            variant="ghost"
-                            className="h-8 w-8 p-0 text-destructive hover:text-destructive"
-                            onClick={() => removeCartVariant(item.variantId!)}
-                          >
-                            <Trash2 className="h-3 w-3" />
-                          </Button>
+                          <div className="flex items-center gap-2">
+                            <span className="text-sm font-semibold">
+                              {formatCurrencyI18n(itemTotal, currency, language)}
+                            </span>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              className="h-8 w-8 p-0 text-destructive hover:text-destructive"
+                              onClick={() => removeCartVariant(item.variantId!)}
+                            >
+                              <Trash2 className="h-3 w-3" />
+                            </Button>
+                          </div>
                         </div>
                       </div>
                     </div>
-                  </div>
-                );
-              })}
-            </div>
+                  );
+                })}
+              </div>
+            )}
 
             <Separator />
 
             {/* Cart Summary */}
             <div className="space-y-4">
+              {checkoutStep === 'cart' && deliveryMethods.length > 0 && (
+                <DeliveryOptions
+                  methods={deliveryMethods}
+                  currency={currency}
+                  language={language}
+                />
+              )}
+
+              {/* Coupon */}
+              {checkoutStep === 'cart' && (cart.coupon ? (
+                <div className="space-y-1">
+                  <div className="flex items-center justify-between gap-2 rounded-lg border border-dashed p-2">
+                    <div className="flex items-center gap-2 text-sm">
+                      <Ticket className="h-4 w-4 text-primary" />
+                      <span className="font-medium">{cart.coupon.code}</span>
+                    </div>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="h-7 px-2 text-xs"
+                      onClick={removeCoupon}
+                    >
+                      Remover
+                    </Button>
+                  </div>
+                  {couponValidation && !couponValidation.isValid && (
+                    <p className="text-xs text-destructive">{couponValidation.error}</p>
+                  )}
+                </div>
+              ) : (
+                <div className="flex gap-2">
+                  <Input
+                    value={couponCode}
+                    onChange={(e) => setCouponCode(e.target.value.toUpperCase())}
+                    onKeyDown={(e) => e.key === 'Enter' && handleApplyCoupon()}
+                    placeholder="Cupom de desconto"
+                    className="h-9"
+                  />
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="h-9"
+                    onClick={handleApplyCoupon}
+                    disabled={applyingCoupon || !couponCode.trim()}
+                  >
+                    {applyingCoupon ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Aplicar'}
+                  </Button>
+                </div>
+              ))}
+
+              {(cart.discount > 0 || deliveryMethod) && (
+                <div className="space-y-1 text-sm">
+                  <div className="flex justify-between text-muted-foreground">
+                    <span>Subtotal</span>
+                    <span>{formatCurrencyI18n(cart.subtotal, currency, language)}</span>
+                  </div>
+                  {cart.discount > 0 && (
+                    <div className="flex justify-between text-green-600">
+                      <span>Desconto</span>
+                      <span>-{formatCurrencyI18n(cart.discount, currency, language)}</span>
+                    </div>
+                  )}
+                  {deliveryMethod && deliveryFee !== null && (
+                    <div className="flex justify-between text-muted-foreground">
+                      <span>Entrega ({deliveryMethod.name})</span>
+                      <span>
+                        {deliveryFee > 0
+                          ? formatCurrencyI18n(deliveryFee, currency, language)
+                          : 'Grátis'}
+                      </span>
+                    </div>
+                  )}
+                </div>
+              )}
+
               <div className="flex justify-between items-center">
                 <span className="text-lg font-semibold">Total:</span>
                 <span className="text-xl font-bold text-primary">
-                  {formatCurrencyI18n(cart.total, currency, language)}
+                  {formatCurrencyI18n(orderTotal, currency, language)}
                 </span>
               </div>
 
               {/* Action Buttons */}
-              <div className="flex gap-2">
-                <Button
-                  variant="outline"
-                  onClick={clearCart}
-                  className="flex-1"
-                >
-                  Limpar Carrinho
-                </Button>
-                
-                {corretor.whatsapp && (
+              {checkoutStep === 'cart' ? (
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    onClick={clearCart}
+                    className="flex-1"
+                  >
+                    Limpar Carrinho
+                  </Button>
+
+                  {corretor.whatsapp && (
+                    <Button className="flex-1" onClick={handleContinueToDetails}>
+                      Continuar
+                    </Button>
+                  )}
+                </div>
+              ) : (
+                <div className="flex gap-2">
                   <Button
-                    onClick={handleSendOrder}
-                    disabled={sendingOrder}
+                    variant="outline"
+                    onClick={() => setCheckoutStep('cart')}
                     className="flex-1"
-                   asChild
                   >
-                    <a
-                      href={generateWhatsAppUrl(corretor.whatsapp || '', generateOrderMessage(), corretor.country_code || '55')}
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      onClick={async (e) => {
-                        // Track the order as a WhatsApp lead
-                        await trackWhatsAppClick('storefront', 'product', 'cart_checkout');
-                        
-                        // Clear cart after sending
-                        setTimeout(() => {
-                          clearCart();
-                          onOpenChange(false);
-                        }, 100);
+                    <ArrowLeft className="h-4 w-4 mr-2" />
+                    Voltar
+                  </Button>
+
+                  {corretor.whatsapp && (
+                    <Button
+                      disabled={sendingOrder}
+                      className="flex-1"
+                      onClick={() => {
+                        if (deliveryPending) {
+                          toast.error('Escolha uma forma de entrega disponível para o seu CEP');
+                          return;
+                        }
+                        if (!isBuyerDetailsComplete(buyer)) {
+                          setShowBuyerErrors(true);
+                          toast.error('Informe seu nome e telefone para enviar o pedido');
+                          return;
+                        }
+                        handleSendOrder();
                       }}
                     >
-                      <MessageCircle className="h-4 w-4 mr-2" />
+                      {sendingOrder ? (
+                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      ) : (
+                        <MessageCircle className="h-4 w-4 mr-2" />
+                      )}
                       Enviar Pedido
-                    </a>
-                  </Button>
-                )}
-              </div>
+                    </Button>
+                  )}
+                </div>
+              )}
 
               {!corretor.whatsapp && (
                 <p className="text-xs text-muted-foreground text-center">
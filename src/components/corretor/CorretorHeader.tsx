@@ -1,5 +1,5 @@
 import { motion } from 'framer-motion';
-import { Phone, MapPin, ShoppingCart } from 'lucide-react';
+import { Phone, MapPin, ShoppingCart, Heart } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
@@ -9,8 +9,10 @@ import type { User } from '@/types';
 import { trackWhatsAppClick, STOREFRONT_UUID } from '@/lib/tracking';
 import { useTranslation, generateWhatsAppMessage, type SupportedLanguage } from '@/lib/i18n';
 import { useCart } from '@/contexts/CartContext';
+import { useFavorites } from '@/hooks/useFavorites';
 import { useState } from 'react';
 import CartModal from './CartModal';
+import FavoritesDrawer from './FavoritesDrawer';
 import type { SupportedCurrency } from '@/types';
 import { useResponsiveAspectRatio } from '@/hooks/useResponsiveAspectRatio';
 
@@ -24,6 +26,9 @@ export default function CorretorHeader({ corretor, language = 'pt-BR', currency
   const { t } = useTranslation(language);
   const { cart } = useCart();
   const [showCart, setShowCart] = useState(false);
+  const { getSellerFavorites } = useFavorites();
+  const [showFavorites, setShowFavorites] = useState(false);
+  const favoriteCount = getSellerFavorites(corretor.id).length;
 
   const aspectRatio = useResponsiveAspectRatio({
     mobile: 960 / 860,
@@ -115,6 +120,24 @@ export default function CorretorHeader({ corretor, language = 'pt-BR', currency
               )}
             </Button>
 
+            {/* Favorites Button */}
+            <Button 
+              size="icon" 
+              variant="outline" 
+              className="h-14 w-14 md:h-12 md:w-12 rounded-full relative"
+              onClick={() => setShowFavorites(true)}
+              aria-label={t('favorites.title')}
+            >
+              <Heart className="h-6 w-6 md:h-5 md:w-5" />
+              {favoriteCount > 0 && (
+                <Badge 
+                  className="absolute -top-2 -right-2 h-6 w-6 rounded-full p-0 flex items-center justify-center text-xs bg-primary"
+                >
+                  {favoriteCount}
+                </Badge>
+              )}
+            </Button>
+
             {corretor.phone && (
               <Button 
                 size="icon" 
@@ -198,6 +221,15 @@ export default function CorretorHeader({ corretor, language = 'pt-BR', currency
         currency={currency}
         language={language}
       />
+
+      {/* Favorites Drawer */}
+      <FavoritesDrawer
+        open={showFavorites}
+        onOpenChange={setShowFavorites}
+        corretor={corretor}
+        currency={currency}
+        language={language}
+      />
     </div>
   );
 }
\ No newline at end of file
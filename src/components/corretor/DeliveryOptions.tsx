@@ -0,0 +1,111 @@
+import { useState } from 'react';
+import { Truck, Store, MapPin } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useCart } from '@/contexts/CartContext';
+import { formatCurrencyI18n, type SupportedLanguage, type SupportedCurrency } from '@/lib/i18n';
+import { calculateDeliveryFee, normalizePostalCode, requiresPostalCode } from '@/lib/deliveryUtils';
+import { cn } from '@/lib/utils';
+import type { DeliveryMethod } from '@/types';
+
+interface DeliveryOptionsProps {
+  methods: DeliveryMethod[];
+  currency?: SupportedCurrency;
+  language?: SupportedLanguage;
+}
+
+export default function DeliveryOptions({
+  methods,
+  currency = 'BRL',
+  language = 'pt-BR'
+}: DeliveryOptionsProps) {
+  const { cart, setDelivery } = useCart();
+  const [postalCode, setPostalCode] = useState(cart.delivery?.postalCode || '');
+
+  // A choice saved from another storefront or since disabled by the seller matches nothing
+  const selectedMethod = methods.find(method => method.id === cart.delivery?.methodId);
+
+  const handleSelect = (method: DeliveryMethod) => {
+    setDelivery(method.id, requiresPostalCode(method) ? postalCode : undefined);
+  };
+
+  const handlePostalCodeChange = (value: string) => {
+    const digits = normalizePostalCode(value).slice(0, 8);
+    const formatted = digits.length > 5 ? `${digits.slice(0, 5)}-${digits.slice(5)}` : digits;
+    setPostalCode(formatted);
+
+    if (selectedMethod && requiresPostalCode(selectedMethod)) {
+      setDelivery(selectedMethod.id, formatted);
+    }
+  };
+
+  const getFeeLabel = (method: DeliveryMethod) => {
+    const fee = calculateDeliveryFee(method, cart.total, postalCode);
+
+    if (fee === null) {
+      return requiresPostalCode(method) && !normalizePostalCode(postalCode)
+        ? 'Informe o CEP'
+        : 'Indisponível para este CEP';
+    }
+
+    return fee === 0 ? 'Grátis' : formatCurrencyI18n(fee, currency, language);
+  };
+
+  const showPostalCodeInput = methods.some(requiresPostalCode);
+
+  return (
+    <div className="space-y-3">
+      <Label className="text-sm font-medium flex items-center gap-2">
+        <Truck className="h-4 w-4" />
+        Entrega
+      </Label>
+
+      {showPostalCodeInput && (
+        <Input
+          value={postalCode}
+          onChange={(e) => handlePostalCodeChange(e.target.value)}
+          placeholder="CEP para calcular a entrega"
+          inputMode="numeric"
+          className="h-9"
+        />
+      )}
+
+      <div className="space-y-2">
+        {methods.map(method => {
+          const isSelected = selectedMethod?.id === method.id;
+          const Icon = method.type === 'pickup' ? Store : MapPin;
+
+          return (
+            <button
+              key={method.id}
+              type="button"
+              onClick={() => handleSelect(method)}
+              className={cn(
+                'w-full flex items-start justify-between gap-3 rounded-lg border p-3 text-left transition-all',
+                isSelected
+                  ? 'border-primary bg-primary/10'
+                  : 'border-gray-300 hover:border-primary/50 hover:bg-accent'
+              )}
+            >
+              <div className="flex items-start gap-2 min-w-0">
+                <Icon className={cn('h-4 w-4 mt-0.5 flex-shrink-0', isSelected ? 'text-primary' : 'text-muted-foreground')} />
+                <div className="min-w-0">
+                  <div className="text-sm font-medium">{method.name}</div>
+                  {method.instructions && (
+                    <div className="text-xs text-muted-foreground">{method.instructions}</div>
+                  )}
+                  {method.type !== 'pickup' && method.free_above ? (
+                    <div className="text-xs text-green-600">
+                      Grátis acima de {formatCurrencyI18n(method.free_above, currency, language)}
+                    </div>
+                  ) : null}
+                </div>
+              </div>
+              <span className="text-sm font-semibold whitespace-nowrap">{getFeeLabel(method)}</span>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,141 @@
+import { Link } from 'react-router-dom';
+import { Heart, MessageCircle, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet';
+import { useFavorites } from '@/hooks/useFavorites';
+import { formatCurrencyI18n, useTranslation, type SupportedCurrency, type SupportedLanguage } from '@/lib/i18n';
+import { generateWhatsAppUrl } from '@/lib/utils';
+import { generateFavoritesMessage } from '@/lib/favoriteUtils';
+import { trackWhatsAppClick, STOREFRONT_UUID } from '@/lib/tracking';
+import type { User } from '@/types';
+
+interface FavoritesDrawerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  corretor: User;
+  currency?: SupportedCurrency;
+  language?: SupportedLanguage;
+}
+
+export default function FavoritesDrawer({
+  open,
+  onOpenChange,
+  corretor,
+  currency = 'BRL',
+  language = 'pt-BR',
+}: FavoritesDrawerProps) {
+  const { t } = useTranslation(language);
+  const { getSellerFavorites, removeFavorite, clearSellerFavorites } = useFavorites();
+  const favorites = getSellerFavorites(corretor.id);
+  const corretorSlug = corretor.slug || '';
+
+  const whatsappUrl = corretor.whatsapp
+    ? generateWhatsAppUrl(
+        corretor.whatsapp,
+        generateFavoritesMessage(favorites, corretor.name, corretorSlug, currency, language),
+        corretor.country_code || '55'
+      )
+    : '';
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-md flex flex-col">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2">
+            <Heart className="h-5 w-5" />
+            {t('favorites.title')}
+          </SheetTitle>
+          {favorites.length > 0 && (
+            <SheetDescription>
+              {favorites.length} {favorites.length === 1 ? t('messages.product') : t('messages.products')}
+            </SheetDescription>
+          )}
+        </SheetHeader>
+
+        {favorites.length === 0 ? (
+          <div className="flex-1 flex flex-col items-center justify-center text-center px-6">
+            <Heart className="h-12 w-12 text-muted-foreground mb-4" />
+            <p className="font-medium">{t('favorites.empty')}</p>
+            <p className="text-sm text-muted-foreground mt-1">{t('favorites.empty_description')}</p>
+          </div>
+        ) : (
+          <div className="flex-1 overflow-y-auto -mx-6 px-6 divide-y">
+            {favorites.map(item => {
+              const hasDiscount = item.discounted_price && item.price && item.discounted_price < item.price;
+              const price = item.discounted_price || item.price;
+
+              return (
+                <div key={item.id} className="flex items-center gap-3 py-3">
+                  <Link
+                    to={`/${corretorSlug}/produtos/${item.id}`}
+                    onClick={() => onOpenChange(false)}
+                    className="flex flex-1 items-center gap-3 min-w-0 hover:opacity-80 transition-opacity"
+                  >
+                    <img
+                      src={item.featured_image_url || 'https://images.pexels.com/photos/3802510/pexels-photo-3802510.jpeg'}
+                      alt={item.title}
+                      className="h-16 w-16 rounded-md object-cover border bg-white"
+                      loading="lazy"
+                    />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium line-clamp-2">{item.title}</p>
+                      {price ? (
+                        <p className="text-sm">
+                          {hasDiscount && (
+                            <span className="text-xs text-muted-foreground line-through mr-1">
+                              {formatCurrencyI18n(item.price!, currency, language)}
+                            </span>
+                          )}
+                          <span className="font-semibold text-primary">
+                            {formatCurrencyI18n(price, currency, language)}
+                          </span>
+                        </p>
+                      ) : null}
+                    </div>
+                  </Link>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => removeFavorite(item.id)}
+                    aria-label={t('favorites.remove')}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {favorites.length > 0 && (
+          <SheetFooter className="flex-col sm:flex-col gap-2 sm:space-x-0">
+            {whatsappUrl && (
+              <Button asChild className="w-full">
+                <a
+                  href={whatsappUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  onClick={() => trackWhatsAppClick(STOREFRONT_UUID, 'product', 'favorites')}
+                >
+                  <MessageCircle className="h-4 w-4 mr-2" />
+                  {t('favorites.send_whatsapp')}
+                </a>
+              </Button>
+            )}
+            <Button variant="outline" className="w-full" onClick={() => clearSellerFavorites(corretor.id)}>
+              <Trash2 className="h-4 w-4 mr-2" />
+              {t('favorites.clear')}
+            </Button>
+          </SheetFooter>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
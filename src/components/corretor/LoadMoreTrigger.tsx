@@ -0,0 +1,61 @@
+import { useEffect, useRef } from 'react';
+import { Loader } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useTranslation, type SupportedLanguage } from '@/lib/i18n';
+import { scrollCoordinator } from '@/lib/scrollCoordinator';
+
+interface LoadMoreTriggerProps {
+  hasMore: boolean;
+  loading: boolean;
+  onLoadMore: () => void;
+  /** Load the next page automatically when the end of the list comes into view */
+  infiniteScroll?: boolean;
+  language?: SupportedLanguage;
+}
+
+export default function LoadMoreTrigger({
+  hasMore,
+  loading,
+  onLoadMore,
+  infiniteScroll = true,
+  language = 'pt-BR',
+}: LoadMoreTriggerProps) {
+  const { t } = useTranslation(language);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!infiniteScroll || !hasMore || loading || !sentinel) return;
+
+    // Recreated after every load, so a sentinel that is still visible loads the next page too
+    const observer = new IntersectionObserver(
+      (entries) => {
+        // Don't load pages while the previous scroll position is being restored
+        if (entries[0]?.isIntersecting && !scrollCoordinator.isScrollRestorationInProgress()) {
+          onLoadMore();
+        }
+      },
+      { rootMargin: '600px 0px' }
+    );
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [infiniteScroll, hasMore, loading, onLoadMore]);
+
+  if (!hasMore) return null;
+
+  return (
+    <div ref={sentinelRef} className="flex justify-center py-8">
+      {loading ? (
+        <div className="flex items-center text-sm text-muted-foreground">
+          <Loader className="h-5 w-5 animate-spin text-primary mr-2" />
+          {t('messages.loading_more')}
+        </div>
+      ) : (
+        <Button variant="outline" onClick={onLoadMore}>
+          {t('messages.load_more')}
+        </Button>
+      )}
+    </div>
+  );
+}
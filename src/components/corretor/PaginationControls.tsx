@@ -1,108 +0,0 @@
-import { ChevronLeft, ChevronRight } from 'lucide-react';
-import { Button } from '@/components/ui/button';
-
-interface PaginationControlsProps {
-  currentPage: number;
-  totalPages: number;
-  hasNextPage: boolean;
-  hasPreviousPage: boolean;
-  onPageChange: (page: number) => void;
-  totalProducts: number;
-  pageSize: number;
-  isLoading?: boolean;
-}
-
-export default function PaginationControls({
-  currentPage,
-  totalPages,
-  hasNextPage,
-  hasPreviousPage,
-  onPageChange,
-  totalProducts,
-  pageSize,
-  isLoading = false,
-}: PaginationControlsProps) {
-  const startItem = (currentPage - 1) * pageSize + 1;
-  const endItem = Math.min(currentPage * pageSize, totalProducts);
-
-  const handlePrevious = () => {
-    if (hasPreviousPage && !isLoading) {
-      onPageChange(currentPage - 1);
-    }
-  };
-
-  const handleNext = () => {
-    if (hasNextPage && !isLoading) {
-      onPageChange(currentPage + 1);
-    }
-  };
-
-  const renderPageNumbers = () => {
-    const pages = [];
-    const visiblePages = 4;
-    let startPage: number;
-    let endPage: number;
-
-    if (totalPages <= visiblePages) {
-      startPage = 1;
-      endPage = totalPages;
-    } else {
-      const half = Math.floor(visiblePages / 2);
-      startPage = Math.max(1, currentPage - half);
-      endPage = Math.min(totalPages, startPage + visiblePages - 1);
-
-      if (endPage - startPage + 1 < visiblePages) {
-        startPage = Math.max(1, endPage - visiblePages + 1);
-      }
-    }
-
-    for (let i = startPage; i <= endPage; i++) {
-      pages.push(
-        <Button
-          key={i}
-          variant={currentPage === i ? 'default' : 'outline'}
-          size="sm"
-          onClick={() => onPageChange(i)}
-          disabled={isLoading}
-          className="w-9 h-9 p-0 text-xs"
-        >
-          {i}
-        </Button>
-      );
-    }
-
-    return pages;
-  };
-
-  return (
-    <div className="flex justify-center py-8">
-      <div className="flex items-center gap-2">
-        <Button
-          variant="outline"
-          size="sm"
-          onClick={handlePrevious}
-          disabled={!hasPreviousPage || isLoading}
-          className="gap-1"
-        >
-          <ChevronLeft className="h-4 w-4" />
-          Anterior
-        </Button>
-
-        <div className="flex items-center gap-1">
-          {renderPageNumbers()}
-        </div>
-
-        <Button
-          variant="outline"
-          size="sm"
-          onClick={handleNext}
-          disabled={!hasNextPage || isLoading}
-          className="gap-1"
-        >
-          Próxima
-          <ChevronRight className="h-4 w-4" />
-        </Button>
-      </div>
-    </div>
-  );
-}
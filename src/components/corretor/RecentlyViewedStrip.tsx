@@ -0,0 +1,99 @@
+import { useRef } from 'react';
+import { Link } from 'react-router-dom';
+import { ChevronLeft, ChevronRight, History } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { formatCurrencyI18n, useTranslation, type SupportedCurrency, type SupportedLanguage } from '@/lib/i18n';
+import { getVariantPricing } from '@/lib/variantUtils';
+import type { Product } from '@/types';
+
+interface RecentlyViewedStripProps {
+  products: Product[];
+  corretorSlug: string;
+  currency?: SupportedCurrency;
+  language?: SupportedLanguage;
+  onNavigate?: () => void;
+}
+
+export default function RecentlyViewedStrip({
+  products,
+  corretorSlug,
+  currency = 'BRL',
+  language = 'pt-BR',
+  onNavigate,
+}: RecentlyViewedStripProps) {
+  const { t } = useTranslation(language);
+  const scrollerRef = useRef<HTMLDivElement>(null);
+
+  if (products.length === 0) return null;
+
+  const scrollBy = (direction: 1 | -1) => {
+    const scroller = scrollerRef.current;
+    if (!scroller) return;
+    scroller.scrollBy({ left: direction * scroller.clientWidth * 0.8, behavior: 'smooth' });
+  };
+
+  return (
+    <section className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg md:text-xl font-bold flex items-center gap-2">
+          <History className="h-5 w-5" />
+          {t('product.recently_viewed')}
+        </h2>
+        {products.length > 2 && (
+          <div className="hidden md:flex items-center gap-1">
+            <Button variant="outline" size="icon" className="h-8 w-8" onClick={() => scrollBy(-1)}>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="icon" className="h-8 w-8" onClick={() => scrollBy(1)}>
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <div
+        ref={scrollerRef}
+        className="flex gap-3 overflow-x-auto snap-x snap-mandatory pb-2 -mx-4 px-4 md:mx-0 md:px-0"
+      >
+        {products.map(product => {
+          const { price, discounted_price } = getVariantPricing(product);
+          const hasDiscount = discounted_price && price && discounted_price < price;
+          const isTiered = product.has_tiered_pricing && product.min_tiered_price;
+          const displayPrice = isTiered ? product.min_tiered_price : (hasDiscount ? discounted_price : price);
+
+          return (
+            <Link
+              key={product.id}
+              to={`/${corretorSlug}/produtos/${product.id}`}
+              onClick={onNavigate}
+              className="snap-start shrink-0 w-32 md:w-40 group"
+            >
+              <div className="aspect-square overflow-hidden rounded-lg border bg-white">
+                <img
+                  src={product.featured_image_url || 'https://images.pexels.com/photos/3802510/pexels-photo-3802510.jpeg'}
+                  alt={product.title}
+                  className="h-full w-full object-cover transition-transform group-hover:scale-105"
+                  loading="lazy"
+                />
+              </div>
+              <p className="mt-2 text-sm font-medium line-clamp-2">{product.title}</p>
+              {displayPrice ? (
+                <p className="text-sm">
+                  {hasDiscount && !isTiered && (
+                    <span className="text-xs text-muted-foreground line-through mr-1">
+                      {formatCurrencyI18n(price!, currency, language)}
+                    </span>
+                  )}
+                  <span className="font-semibold text-primary">
+                    {(isTiered || product.is_starting_price) ? t('product.starting_from') + ' ' : ''}
+                    {formatCurrencyI18n(displayPrice, currency, language)}
+                  </span>
+                </p>
+              ) : null}
+            </Link>
+          );
+        })}
+      </div>
+    </section>
+  );
+}
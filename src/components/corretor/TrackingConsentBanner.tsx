@@ -0,0 +1,34 @@
+import { Cookie } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useTranslation, type SupportedLanguage } from '@/lib/i18n';
+import { useTrackingConsent } from '@/hooks/useTrackingConsent';
+
+interface TrackingConsentBannerProps {
+  language?: SupportedLanguage;
+}
+
+export default function TrackingConsentBanner({ language = 'pt-BR' }: TrackingConsentBannerProps) {
+  const { t } = useTranslation(language);
+  const { pending, accept, decline } = useTrackingConsent();
+
+  if (!pending) return null;
+
+  return (
+    <div className="fixed inset-x-0 bottom-0 z-50 p-3 md:p-4">
+      <div className="mx-auto max-w-3xl rounded-xl border bg-card text-card-foreground shadow-lg p-4 flex flex-col sm:flex-row sm:items-center gap-3">
+        <p className="flex-1 text-sm text-muted-foreground flex items-start gap-2">
+          <Cookie className="h-4 w-4 mt-0.5 shrink-0" />
+          {t('consent.message')}
+        </p>
+        <div className="flex gap-2 justify-end">
+          <Button variant="outline" size="sm" onClick={decline}>
+            {t('consent.decline')}
+          </Button>
+          <Button size="sm" onClick={accept}>
+            {t('consent.accept')}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+import { useState } from 'react';
+import { FileArchive, FileJson, FileSpreadsheet, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { cn } from '@/lib/utils';
+import { downloadBlob, downloadCsv } from '@/lib/csvUtils';
+import {
+  buildCatalogCsv,
+  buildCatalogJson,
+  buildCatalogZip,
+  fetchCatalogForExport,
+  type CatalogExportFormat,
+} from '@/lib/catalogExportUtils';
+
+interface CatalogExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  userId?: string;
+}
+
+const FORMAT_OPTIONS: { value: CatalogExportFormat; label: string; description: string; icon: typeof FileSpreadsheet }[] = [
+  {
+    value: 'csv',
+    label: 'Planilha CSV',
+    description: 'Abre no Excel e pode ser importada de volta pelo assistente de importação',
+    icon: FileSpreadsheet,
+  },
+  {
+    value: 'json',
+    label: 'JSON',
+    description: 'Todos os dados dos produtos, incluindo estoque por variação',
+    icon: FileJson,
+  },
+  {
+    value: 'zip',
+    label: 'Backup completo (.zip)',
+    description: 'CSV, JSON e todas as imagens dos produtos',
+    icon: FileArchive,
+  },
+];
+
+export function CatalogExportDialog({ open, onOpenChange, userId }: CatalogExportDialogProps) {
+  const [format, setFormat] = useState<CatalogExportFormat>('csv');
+  const [exporting, setExporting] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+
+  const handleExport = async () => {
+    if (!userId) return;
+
+    setExporting(true);
+    try {
+      const catalog = await fetchCatalogForExport(userId);
+      if (!catalog) {
+        toast.error('Erro ao carregar produtos para exportação');
+        return;
+      }
+
+      const date = new Date().toISOString().split('T')[0];
+
+      if (format === 'csv') {
+        downloadCsv(`catalogo-${date}.csv`, buildCatalogCsv(catalog));
+      } else if (format === 'json') {
+        downloadBlob(`catalogo-${date}.json`, new Blob([buildCatalogJson(catalog)], { type: 'application/json' }));
+      } else {
+        setProgress({ done: 0, total: 0 });
+        const zip = await buildCatalogZip(catalog, (done, total) => setProgress({ done, total }));
+        downloadBlob(`catalogo-${date}.zip`, zip);
+      }
+
+      toast.success(`${catalog.products.length} produto${catalog.products.length !== 1 ? 's exportados' : ' exportado'}`);
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error exporting catalog:', error);
+      toast.error('Erro ao exportar catálogo');
+    } finally {
+      setExporting(false);
+      setProgress(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => !exporting && onOpenChange(value)}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Exportar catálogo</DialogTitle>
+          <DialogDescription>
+            Baixe todos os seus produtos com categorias, variações, preços por quantidade e imagens.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {FORMAT_OPTIONS.map(option => {
+            const Icon = option.icon;
+            return (
+              <button
+                key={option.value}
+                type="button"
+                disabled={exporting}
+                onClick={() => setFormat(option.value)}
+                className={cn(
+                  'w-full flex items-start gap-3 rounded-lg border p-3 text-left transition-colors',
+                  format === option.value ? 'border-primary bg-primary/5' : 'hover:bg-muted/50'
+                )}
+              >
+                <Icon className="h-5 w-5 mt-0.5 text-muted-foreground" />
+                <div>
+                  <div className="font-medium text-sm">{option.label}</div>
+                  <div className="text-xs text-muted-foreground">{option.description}</div>
+                </div>
+              </button>
+            );
+          })}
+        </div>
+
+        {progress && progress.total > 0 && (
+          <div className="space-y-1">
+            <Progress value={(progress.done / progress.total) * 100} />
+            <p className="text-xs text-muted-foreground text-center">
+              Baixando imagens: {progress.done} de {progress.total}
+            </p>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={exporting}>
+            Cancelar
+          </Button>
+          <Button onClick={handleExport} disabled={exporting || !userId}>
+            {exporting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Exportar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
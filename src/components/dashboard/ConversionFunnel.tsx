@@ -0,0 +1,51 @@
+import { TrendingDown } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import type { FunnelStep } from '@/lib/funnelUtils';
+
+interface ConversionFunnelProps {
+  steps: FunnelStep[];
+}
+
+export function ConversionFunnel({ steps }: ConversionFunnelProps) {
+  const topViewers = Math.max(...steps.map(step => step.viewers), 0);
+  const first = steps[0]?.viewers || 0;
+  const last = steps[steps.length - 1]?.viewers || 0;
+  const conversionRate = first > 0 ? ((last / first) * 100).toFixed(1) : null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg font-semibold">Funil de conversão</CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Clientes únicos em cada etapa
+          {conversionRate !== null && ` • ${conversionRate}% das visitas viraram pedido`}
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {steps.map(step => {
+          const width = topViewers > 0 ? Math.max((step.viewers / topViewers) * 100, 2) : 2;
+
+          return (
+            <div key={step.eventType} className="space-y-1">
+              <div className="flex items-center justify-between text-sm">
+                <span className="font-medium">{step.label}</span>
+                <div className="flex items-center gap-3">
+                  {step.dropOff !== null && step.dropOff > 0 && (
+                    <span className="flex items-center gap-1 text-xs text-destructive">
+                      <TrendingDown className="h-3 w-3" />
+                      -{step.dropOff}%
+                    </span>
+                  )}
+                  <span className="font-semibold tabular-nums">{step.viewers}</span>
+                </div>
+              </div>
+              <div className="h-3 rounded-full bg-muted overflow-hidden">
+                <div className="h-full rounded-full bg-primary transition-all" style={{ width: `${width}%` }} />
+              </div>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,309 @@
+import { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { Loader2, Ticket } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { CurrencyInput } from '@/components/ui/currency-input';
+import { CategorySelector } from '@/components/ui/category-selector';
+import { normalizeCouponCode, type CouponInput } from '@/lib/couponUtils';
+import type { Coupon } from '@/types';
+
+const couponFormSchema = z
+  .object({
+    code: z
+      .string()
+      .min(3, 'O código deve ter pelo menos 3 caracteres')
+      .max(30, 'O código deve ter no máximo 30 caracteres')
+      .regex(/^[A-Za-z0-9_-]+$/, 'Use apenas letras, números, hífen ou sublinhado'),
+    discount_type: z.enum(['percentage', 'fixed']),
+    discount_value: z.number().positive('Informe o valor do desconto'),
+    min_cart_total: z.number().min(0).optional(),
+    expires_at: z.string().optional(),
+    usage_limit: z.number().int().positive('O limite deve ser maior que zero').optional(),
+    category_names: z.array(z.string()).default([]),
+    is_active: z.boolean().default(true),
+  })
+  .refine(data => data.discount_type === 'fixed' || data.discount_value <= 100, {
+    message: 'A porcentagem deve ser no máximo 100%',
+    path: ['discount_value'],
+  });
+
+type CouponFormData = z.infer<typeof couponFormSchema>;
+
+interface CouponFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  coupon: Coupon | null;
+  userId?: string;
+  onSave: (coupon: CouponInput, couponId?: string) => Promise<boolean>;
+}
+
+const EMPTY_COUPON: CouponFormData = {
+  code: '',
+  discount_type: 'percentage',
+  discount_value: 10,
+  min_cart_total: undefined,
+  expires_at: '',
+  usage_limit: undefined,
+  category_names: [],
+  is_active: true,
+};
+
+export function CouponFormDialog({ open, onOpenChange, coupon, userId, onSave }: CouponFormDialogProps) {
+  const [saving, setSaving] = useState(false);
+
+  const form = useForm<CouponFormData>({
+    resolver: zodResolver(couponFormSchema),
+    defaultValues: EMPTY_COUPON,
+  });
+
+  useEffect(() => {
+    if (!open) return;
+
+    form.reset(coupon
+      ? {
+          code: coupon.code,
+          discount_type: coupon.discount_type,
+          discount_value: coupon.discount_value,
+          min_cart_total: coupon.min_cart_total ?? undefined,
+          expires_at: coupon.expires_at ? coupon.expires_at.slice(0, 10) : '',
+          usage_limit: coupon.usage_limit ?? undefined,
+          category_names: coupon.category_names || [],
+          is_active: coupon.is_active,
+        }
+      : EMPTY_COUPON);
+  }, [open, coupon, form]);
+
+  const handleSubmit = async (values: CouponFormData) => {
+    setSaving(true);
+
+    const success = await onSave(
+      {
+        code: normalizeCouponCode(values.code),
+        discount_type: values.discount_type,
+        discount_value: values.discount_value,
+        min_cart_total: values.min_cart_total || null,
+        // Coupons stay valid until the end of the chosen day
+        expires_at: values.expires_at ? new Date(`${values.expires_at}T23:59:59`).toISOString() : null,
+        usage_limit: values.usage_limit ?? null,
+        category_names: values.category_names,
+        is_active: values.is_active,
+      },
+      coupon?.id
+    );
+
+    setSaving(false);
+    if (success) onOpenChange(false);
+  };
+
+  const discountType = form.watch('discount_type');
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Ticket className="h-5 w-5" />
+            {coupon ? 'Editar Cupom' : 'Novo Cupom'}
+          </DialogTitle>
+          <DialogDescription>
+            Os clientes aplicam o código no carrinho da sua vitrine
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="code"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Código *</FormLabel>
+                  <FormControl>
+                    <Input
+                      placeholder="Ex: BEMVINDO10"
+                      {...field}
+                      onChange={(e) => field.onChange(e.target.value.toUpperCase())}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="discount_type"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Tipo de desconto</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="percentage">Porcentagem (%)</SelectItem>
+                        <SelectItem value="fixed">Valor fixo</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="discount_value"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Desconto *</FormLabel>
+                    <FormControl>
+                      {discountType === 'percentage' ? (
+                        <Input
+                          type="number"
+                          min={1}
+                          max={100}
+                          value={field.value ?? ''}
+                          onChange={(e) => field.onChange(e.target.value ? parseFloat(e.target.value) : 0)}
+                        />
+                      ) : (
+                        <CurrencyInput value={field.value} onChange={field.onChange} />
+                      )}
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="min_cart_total"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Valor mínimo do pedido</FormLabel>
+                  <FormControl>
+                    <CurrencyInput value={field.value} onChange={field.onChange} placeholder="Sem mínimo" />
+                  </FormControl>
+                  <FormDescription>
+                    Considera apenas os produtos elegíveis para o cupom
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="expires_at"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Válido até</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="usage_limit"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Limite de usos</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min={1}
+                        placeholder="Ilimitado"
+                        value={field.value ?? ''}
+                        onChange={(e) => field.onChange(e.target.value ? parseInt(e.target.value) : undefined)}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="category_names"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Categorias</FormLabel>
+                  <FormControl>
+                    <CategorySelector value={field.value} onChange={field.onChange} userId={userId} />
+                  </FormControl>
+                  <FormDescription>
+                    Deixe vazio para aplicar o cupom a todos os produtos
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="is_active"
+              render={({ field }) => (
+                <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+                  <div className="space-y-0.5">
+                    <FormLabel className="text-base">Cupom ativo</FormLabel>
+                    <FormDescription>Cupons inativos não podem ser aplicados</FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancelar
+              </Button>
+              <Button type="submit" disabled={saving}>
+                {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Salvar
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,100 @@
+import { Pencil, Trash2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { formatCurrencyI18n, formatDateI18n, type SupportedCurrency } from '@/lib/i18n';
+import type { Coupon } from '@/types';
+
+interface CouponsTableProps {
+  coupons: Coupon[];
+  currency: SupportedCurrency;
+  onEdit: (coupon: Coupon) => void;
+  onDelete: (coupon: Coupon) => void;
+  onToggleActive: (coupon: Coupon) => void;
+}
+
+export function CouponsTable({ coupons, currency, onEdit, onDelete, onToggleActive }: CouponsTableProps) {
+  return (
+    <div className="border rounded-lg">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Código</TableHead>
+            <TableHead>Desconto</TableHead>
+            <TableHead>Condições</TableHead>
+            <TableHead className="text-right">Usos</TableHead>
+            <TableHead>Ativo</TableHead>
+            <TableHead className="w-24" />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {coupons.map(coupon => {
+            const isExpired = !!coupon.expires_at && new Date(coupon.expires_at) <= new Date();
+            const isExhausted = !!coupon.usage_limit && coupon.usage_count >= coupon.usage_limit;
+
+            return (
+              <TableRow key={coupon.id}>
+                <TableCell>
+                  <div className="flex items-center gap-2">
+                    <span className="font-mono font-semibold">{coupon.code}</span>
+                    {isExpired && <Badge variant="secondary">Expirado</Badge>}
+                    {isExhausted && <Badge variant="secondary">Esgotado</Badge>}
+                  </div>
+                </TableCell>
+                <TableCell className="whitespace-nowrap">
+                  {coupon.discount_type === 'percentage'
+                    ? `${coupon.discount_value}%`
+                    : formatCurrencyI18n(coupon.discount_value, currency, 'pt-BR')}
+                </TableCell>
+                <TableCell className="text-xs text-muted-foreground space-y-0.5">
+                  {coupon.min_cart_total ? (
+                    <div>Mínimo {formatCurrencyI18n(coupon.min_cart_total, currency, 'pt-BR')}</div>
+                  ) : null}
+                  {coupon.expires_at && (
+                    <div>Até {formatDateI18n(coupon.expires_at, 'pt-BR')}</div>
+                  )}
+                  {coupon.category_names.length > 0 && (
+                    <div>{coupon.category_names.join(', ')}</div>
+                  )}
+                  {!coupon.min_cart_total && !coupon.expires_at && coupon.category_names.length === 0 && (
+                    <div>Todos os produtos</div>
+                  )}
+                </TableCell>
+                <TableCell className="text-right whitespace-nowrap">
+                  {coupon.usage_count}
+                  {coupon.usage_limit ? ` / ${coupon.usage_limit}` : ''}
+                </TableCell>
+                <TableCell>
+                  <Switch checked={coupon.is_active} onCheckedChange={() => onToggleActive(coupon)} />
+                </TableCell>
+                <TableCell>
+                  <div className="flex justify-end gap-1">
+                    <Button variant="ghost" size="icon" onClick={() => onEdit(coupon)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="text-destructive hover:text-destructive"
+                      onClick={() => onDelete(coupon)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -12,7 +12,13 @@ import {
   Settings,
   FolderTree,
   Gift,
-  HelpCircle
+  HelpCircle,
+  ShoppingBag,
+  Ticket,
+  Timer,
+  Inbox,
+  Filter,
+  Megaphone
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
@@ -34,6 +40,12 @@ export default function DashboardSidebar() {
     { name: 'Dashboard', href: '/dashboard', icon: LayoutDashboard },
     { name: 'Categorias', href: '/dashboard/categories', icon: FolderTree },
     { name: 'Produtos', href: '/dashboard/listings', icon: Package },
+    { name: 'Pedidos', href: '/dashboard/orders', icon: ShoppingBag },
+    { name: 'Leads', href: '/dashboard/leads', icon: Inbox },
+    { name: 'Funil de Vendas', href: '/dashboard/funnel', icon: Filter },
+    { name: 'Origem do Tráfego', href: '/dashboard/traffic-sources', icon: Megaphone },
+    { name: 'Cupons', href: '/dashboard/coupons', icon: Ticket },
+    { name: 'Promoções', href: '/dashboard/promotions', icon: Timer },
     { name: 'Indique e Ganhe', href: '/dashboard/referral', icon: Gift },
     { name: 'Configurações', href: '/dashboard/settings', icon: Settings },
     { name: 'Central de Ajuda', href: '/help', icon: HelpCircle },
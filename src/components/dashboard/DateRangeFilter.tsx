@@ -0,0 +1,87 @@
+import { useState } from 'react';
+import { format, endOfDay, startOfDay } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { Calendar as CalendarIcon } from 'lucide-react';
+import type { DateRange } from 'react-day-picker';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { getLastDaysRange, type ReportDateRange } from '@/lib/funnelUtils';
+
+interface DateRangeFilterProps {
+  value: ReportDateRange;
+  onChange: (range: ReportDateRange) => void;
+}
+
+const PERIOD_OPTIONS = [
+  { value: '7', label: 'Últimos 7 dias' },
+  { value: '30', label: 'Últimos 30 dias' },
+  { value: '90', label: 'Últimos 90 dias' },
+  { value: 'custom', label: 'Período personalizado' },
+];
+
+export function DateRangeFilter({ value, onChange }: DateRangeFilterProps) {
+  const [period, setPeriod] = useState('30');
+  const [selection, setSelection] = useState<DateRange | undefined>({ from: value.from, to: value.to });
+
+  const handlePeriodChange = (nextPeriod: string) => {
+    setPeriod(nextPeriod);
+    if (nextPeriod !== 'custom') {
+      onChange(getLastDaysRange(Number(nextPeriod)));
+    }
+  };
+
+  const handleSelect = (range: DateRange | undefined) => {
+    setSelection(range);
+    if (range?.from) {
+      onChange({ from: startOfDay(range.from), to: endOfDay(range.to || range.from) });
+    }
+  };
+
+  return (
+    <div className="flex flex-col sm:flex-row gap-2">
+      <div className="w-full sm:w-48">
+        <Select value={period} onValueChange={handlePeriodChange}>
+          <SelectTrigger>
+            <SelectValue placeholder="Período" />
+          </SelectTrigger>
+          <SelectContent>
+            {PERIOD_OPTIONS.map(option => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {period === 'custom' && (
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button variant="outline" className="justify-start text-left font-normal">
+              <CalendarIcon className="mr-2 h-4 w-4" />
+              {format(value.from, 'dd/MM/yyyy', { locale: ptBR })} - {format(value.to, 'dd/MM/yyyy', { locale: ptBR })}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-auto p-0" align="end">
+            <Calendar
+              mode="range"
+              selected={selection}
+              onSelect={handleSelect}
+              numberOfMonths={2}
+              disabled={(date) => date > new Date()}
+              initialFocus
+            />
+          </PopoverContent>
+        </Popover>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,445 @@
+import { useState } from 'react';
+import { Loader2, Plus, Pencil, Trash2, Truck, X } from 'lucide-react';
+import { toast } from 'sonner';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { CurrencyInput } from '@/components/ui/currency-input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useAuth } from '@/contexts/AuthContext';
+import { useDeliveryMethods } from '@/hooks/useDeliveryMethods';
+import {
+  DELIVERY_METHOD_TYPE_LABELS,
+  deleteDeliveryMethod,
+  normalizePostalCode,
+  saveDeliveryMethod,
+  type DeliveryMethodInput,
+} from '@/lib/deliveryUtils';
+import type { DeliveryMethod, DeliveryMethodType } from '@/types';
+
+const EMPTY_METHOD: DeliveryMethodInput = {
+  name: '',
+  type: 'flat_rate',
+  fee: 0,
+  free_above: null,
+  postal_code_ranges: [],
+  instructions: '',
+  is_active: true,
+  display_order: 0,
+};
+
+const formatPostalCode = (value: string) => {
+  const digits = normalizePostalCode(value).slice(0, 8);
+  return digits.length > 5 ? `${digits.slice(0, 5)}-${digits.slice(5)}` : digits;
+};
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value);
+
+export default function DeliveryMethodsManager() {
+  const { user } = useAuth();
+  const { methods, loading, refresh } = useDeliveryMethods(user?.id);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingMethod, setEditingMethod] = useState<DeliveryMethod | null>(null);
+  const [form, setForm] = useState<DeliveryMethodInput>(EMPTY_METHOD);
+  const [saving, setSaving] = useState(false);
+  const [methodToDelete, setMethodToDelete] = useState<DeliveryMethod | null>(null);
+
+  const openDialog = (method?: DeliveryMethod) => {
+    setEditingMethod(method || null);
+    setForm(method
+      ? {
+          name: method.name,
+          type: method.type,
+          fee: method.fee,
+          free_above: method.free_above,
+          postal_code_ranges: method.postal_code_ranges.map(range => ({
+            ...range,
+            from: formatPostalCode(range.from),
+            to: formatPostalCode(range.to),
+          })),
+          instructions: method.instructions || '',
+          is_active: method.is_active,
+          display_order: method.display_order,
+        }
+      : { ...EMPTY_METHOD, display_order: methods.length });
+    setDialogOpen(true);
+  };
+
+  const updateForm = (updates: Partial<DeliveryMethodInput>) => {
+    setForm(prev => ({ ...prev, ...updates }));
+  };
+
+  const updateRange = (index: number, updates: Partial<DeliveryMethodInput['postal_code_ranges'][number]>) => {
+    setForm(prev => ({
+      ...prev,
+      postal_code_ranges: prev.postal_code_ranges.map((range, i) =>
+        i === index ? { ...range, ...updates } : range
+      ),
+    }));
+  };
+
+  const validateForm = (): string | null => {
+    if (!form.name.trim()) return 'Informe o nome da forma de entrega';
+
+    if (form.type === 'postal_code_table') {
+      if (form.postal_code_ranges.length === 0) return 'Adicione pelo menos uma faixa de CEP';
+
+      const invalidRange = form.postal_code_ranges.some(range => {
+        const from = normalizePostalCode(range.from);
+        const to = normalizePostalCode(range.to);
+        return from.length !== 8 || to.length !== 8 || parseInt(from, 10) > parseInt(to, 10);
+      });
+      if (invalidRange) return 'Verifique as faixas de CEP (8 dígitos, início menor que o fim)';
+    }
+
+    return null;
+  };
+
+  const handleSave = async () => {
+    if (!user?.id) return;
+
+    const validationError = validateForm();
+    if (validationError) {
+      toast.error(validationError);
+      return;
+    }
+
+    setSaving(true);
+    const saved = await saveDeliveryMethod(user.id, {
+      ...form,
+      name: form.name.trim(),
+      fee: form.type === 'flat_rate' ? form.fee : 0,
+      free_above: form.type === 'pickup' ? null : form.free_above || null,
+      instructions: form.instructions?.trim() || null,
+    }, editingMethod?.id);
+    setSaving(false);
+
+    if (!saved) {
+      toast.error('Erro ao salvar forma de entrega');
+      return;
+    }
+
+    toast.success(editingMethod ? 'Forma de entrega atualizada' : 'Forma de entrega criada');
+    setDialogOpen(false);
+    refresh();
+  };
+
+  const handleToggleActive = async (method: DeliveryMethod, isActive: boolean) => {
+    if (!user?.id) return;
+
+    const input: DeliveryMethodInput = {
+      name: method.name,
+      type: method.type,
+      fee: method.fee,
+      free_above: method.free_above,
+      postal_code_ranges: method.postal_code_ranges,
+      instructions: method.instructions,
+      is_active: isActive,
+      display_order: method.display_order,
+    };
+    const saved = await saveDeliveryMethod(user.id, input, method.id);
+
+    if (!saved) {
+      toast.error('Erro ao atualizar forma de entrega');
+      return;
+    }
+    refresh();
+  };
+
+  const handleDelete = async (method: DeliveryMethod) => {
+    const deleted = await deleteDeliveryMethod(method.id);
+    if (!deleted) {
+      toast.error('Erro ao excluir forma de entrega');
+      return;
+    }
+
+    toast.success('Forma de entrega excluída');
+    refresh();
+  };
+
+  const describeFee = (method: DeliveryMethod) => {
+    if (method.type === 'pickup') return 'Sem custo';
+    if (method.type === 'postal_code_table') {
+      return `${method.postal_code_ranges.length} ${method.postal_code_ranges.length === 1 ? 'faixa' : 'faixas'} de CEP`;
+    }
+    return formatCurrency(method.fee);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[200px]">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:justify-between sm:items-start gap-4">
+        <div className="flex-1">
+          <h3 className="text-lg font-semibold">Formas de Entrega</h3>
+          <p className="text-sm text-muted-foreground mt-1">
+            Defina as opções de entrega que o cliente escolhe no carrinho
+          </p>
+        </div>
+        <Button onClick={() => openDialog()} className="w-full sm:w-auto">
+          <Plus className="mr-2 h-4 w-4" />
+          Nova Forma de Entrega
+        </Button>
+      </div>
+
+      {methods.length === 0 ? (
+        <Card>
+          <CardContent className="text-center py-8">
+            <Truck className="h-10 w-10 mx-auto text-muted-foreground mb-4" />
+            <p className="text-muted-foreground mb-2">
+              Nenhuma forma de entrega cadastrada.
+            </p>
+            <p className="text-sm text-muted-foreground">
+              Sem formas de entrega, o frete continua sendo combinado pelo WhatsApp.
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {methods.map(method => (
+            <Card key={method.id}>
+              <CardContent className="p-4 flex flex-col sm:flex-row sm:items-center gap-3">
+                <div className="flex-1 min-w-0 space-y-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-medium">{method.name}</span>
+                    <Badge variant="outline">{DELIVERY_METHOD_TYPE_LABELS[method.type]}</Badge>
+                    {!method.is_active && <Badge variant="secondary">Inativa</Badge>}
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    {describeFee(method)}
+                    {method.type !== 'pickup' && method.free_above
+                      ? ` · Grátis acima de ${formatCurrency(method.free_above)}`
+                      : ''}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    checked={method.is_active}
+                    onCheckedChange={(checked) => handleToggleActive(method, checked)}
+                  />
+                  <Button size="icon" variant="ghost" onClick={() => openDialog(method)}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="text-destructive hover:text-destructive"
+                    onClick={() => setMethodToDelete(method)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {editingMethod ? 'Editar Forma de Entrega' : 'Nova Forma de Entrega'}
+            </DialogTitle>
+            <DialogDescription>
+              A taxa é somada ao total do pedido e enviada na mensagem do WhatsApp.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="delivery-name">Nome</Label>
+              <Input
+                id="delivery-name"
+                value={form.name}
+                onChange={(e) => updateForm({ name: e.target.value })}
+                placeholder="Ex: Motoboy, Retirada na loja"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Tipo</Label>
+              <Select
+                value={form.type}
+                onValueChange={(value) => updateForm({
+                  type: value as DeliveryMethodType,
+                  postal_code_ranges: value === 'postal_code_table' && form.postal_code_ranges.length === 0
+                    ? [{ from: '', to: '', fee: 0 }]
+                    : form.postal_code_ranges,
+                })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(DELIVERY_METHOD_TYPE_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {form.type === 'flat_rate' && (
+              <div className="space-y-2">
+                <Label>Taxa</Label>
+                <CurrencyInput
+                  value={form.fee}
+                  onChange={(value) => updateForm({ fee: value })}
+                  placeholder="R$ 0,00"
+                />
+              </div>
+            )}
+
+            {form.type === 'postal_code_table' && (
+              <div className="space-y-2">
+                <Label>Faixas de CEP</Label>
+                {form.postal_code_ranges.map((range, index) => (
+                  <div key={index} className="grid grid-cols-[1fr_1fr_1fr_auto] gap-2">
+                    <Input
+                      value={range.from}
+                      onChange={(e) => updateRange(index, { from: formatPostalCode(e.target.value) })}
+                      placeholder="De"
+                      inputMode="numeric"
+                    />
+                    <Input
+                      value={range.to}
+                      onChange={(e) => updateRange(index, { to: formatPostalCode(e.target.value) })}
+                      placeholder="Até"
+                      inputMode="numeric"
+                    />
+                    <CurrencyInput
+                      value={range.fee}
+                      onChange={(value) => updateRange(index, { fee: value })}
+                      placeholder="Taxa"
+                    />
+                    <Button
+                      type="button"
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => updateForm({
+                        postal_code_ranges: form.postal_code_ranges.filter((_, i) => i !== index),
+                      })}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => updateForm({
+                    postal_code_ranges: [...form.postal_code_ranges, { from: '', to: '', fee: 0 }],
+                  })}
+                >
+                  <Plus className="mr-2 h-4 w-4" />
+                  Adicionar Faixa
+                </Button>
+              </div>
+            )}
+
+            {form.type !== 'pickup' && (
+              <div className="space-y-2">
+                <Label>Frete grátis acima de</Label>
+                <CurrencyInput
+                  value={form.free_above ?? ''}
+                  onChange={(value) => updateForm({ free_above: value || null })}
+                  placeholder="Opcional"
+                />
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="delivery-instructions">Instruções</Label>
+              <Textarea
+                id="delivery-instructions"
+                value={form.instructions || ''}
+                onChange={(e) => updateForm({ instructions: e.target.value })}
+                placeholder={form.type === 'pickup' ? 'Endereço e horário de retirada' : 'Prazo de entrega, observações...'}
+                rows={2}
+              />
+            </div>
+
+            <div className="flex items-center justify-between">
+              <Label htmlFor="delivery-active">Disponível na vitrine</Label>
+              <Switch
+                id="delivery-active"
+                checked={form.is_active}
+                onCheckedChange={(checked) => updateForm({ is_active: checked })}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>
+              Cancelar
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Salvar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={methodToDelete !== null} onOpenChange={(open) => !open && setMethodToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Excluir forma de entrega?</AlertDialogTitle>
+            <AlertDialogDescription>
+              <strong>{methodToDelete?.name}</strong> deixará de aparecer no carrinho da sua vitrine.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (methodToDelete) handleDelete(methodToDelete);
+                setMethodToDelete(null);
+              }}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Excluir
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
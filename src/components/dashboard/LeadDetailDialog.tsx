@@ -0,0 +1,176 @@
+import { useState, useEffect } from 'react';
+import { Loader2, Mail, MapPin, Megaphone, MessageCircle, Package, Phone, User as UserIcon } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Separator } from '@/components/ui/separator';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import LeadStatusBadge from '@/components/dashboard/LeadStatusBadge';
+import { formatDateI18n } from '@/lib/i18n';
+import { formatPhone } from '@/lib/utils';
+import { formatBuyerAddress, LEAD_SOURCE_LABELS, LEAD_STATUSES, LEAD_STATUS_LABELS } from '@/lib/leadUtils';
+import { formatAttribution } from '@/lib/trafficSourceUtils';
+import type { Lead, LeadStatus } from '@/types';
+
+interface LeadDetailDialogProps {
+  lead: Lead | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onStatusChange: (leadId: string, status: LeadStatus) => Promise<boolean>;
+  onSaveNotes: (leadId: string, notes: string) => Promise<boolean>;
+  onFollowUp: (lead: Lead) => void;
+}
+
+export function LeadDetailDialog({
+  lead,
+  open,
+  onOpenChange,
+  onStatusChange,
+  onSaveNotes,
+  onFollowUp,
+}: LeadDetailDialogProps) {
+  const [notes, setNotes] = useState('');
+  const [savingNotes, setSavingNotes] = useState(false);
+
+  // Show the saved notes when another lead is opened or its notes are saved
+  useEffect(() => {
+    setNotes(lead?.notes || '');
+  }, [lead?.id, lead?.notes]);
+
+  const handleSaveNotes = async () => {
+    if (!lead) return;
+
+    setSavingNotes(true);
+    await onSaveNotes(lead.id, notes);
+    setSavingNotes(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <UserIcon className="h-5 w-5" />
+            {lead?.name || 'Lead'}
+          </DialogTitle>
+          <DialogDescription>
+            {lead && `${LEAD_SOURCE_LABELS[lead.source] || lead.source} · ${formatDateI18n(lead.created_at, 'pt-BR', {
+              day: '2-digit',
+              month: 'long',
+              year: 'numeric',
+              hour: '2-digit',
+              minute: '2-digit',
+            })}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {lead && (
+          <div className="space-y-4">
+            {/* Status */}
+            <div className="flex items-center justify-between gap-4">
+              <LeadStatusBadge status={lead.status} />
+              <Select value={lead.status} onValueChange={(value) => onStatusChange(lead.id, value as LeadStatus)}>
+                <SelectTrigger className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {LEAD_STATUSES.map(status => (
+                    <SelectItem key={status} value={status}>
+                      {LEAD_STATUS_LABELS[status]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <Separator />
+
+            {/* Contact */}
+            <div className="space-y-2 text-sm">
+              {lead.phone && (
+                <div className="flex items-center gap-2">
+                  <Phone className="h-4 w-4 text-muted-foreground" />
+                  <span>+{lead.country_code || '55'} {formatPhone(lead.phone, lead.country_code || '55')}</span>
+                </div>
+              )}
+              {lead.email && (
+                <div className="flex items-center gap-2">
+                  <Mail className="h-4 w-4 text-muted-foreground" />
+                  <span>{lead.email}</span>
+                </div>
+              )}
+              {lead.product_title && (
+                <div className="flex items-center gap-2">
+                  <Package className="h-4 w-4 text-muted-foreground" />
+                  <span>{lead.product_title}</span>
+                </div>
+              )}
+              {lead.address && (
+                <div className="flex items-start gap-2">
+                  <MapPin className="h-4 w-4 text-muted-foreground mt-0.5" />
+                  <span>{formatBuyerAddress(lead.address)}</span>
+                </div>
+              )}
+              {lead.attribution && (
+                <div className="flex items-center gap-2">
+                  <Megaphone className="h-4 w-4 text-muted-foreground" />
+                  <span>{formatAttribution(lead.attribution)}</span>
+                </div>
+              )}
+              {lead.message && (
+                <p className="text-muted-foreground">{lead.message}</p>
+              )}
+            </div>
+
+            {lead.phone && (
+              <Button
+                className="w-full bg-green-600 hover:bg-green-700"
+                onClick={() => onFollowUp(lead)}
+              >
+                <MessageCircle className="h-4 w-4 mr-2" />
+                Enviar follow-up no WhatsApp
+              </Button>
+            )}
+
+            <Separator />
+
+            {/* Notes */}
+            <div className="space-y-2">
+              <Label htmlFor="lead-notes">Notas</Label>
+              <Textarea
+                id="lead-notes"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="Anote o que foi conversado, preferências do cliente..."
+                rows={4}
+              />
+              <div className="flex justify-end">
+                <Button
+                  size="sm"
+                  onClick={handleSaveNotes}
+                  disabled={savingNotes || notes === (lead.notes || '')}
+                >
+                  {savingNotes && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Salvar Notas
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
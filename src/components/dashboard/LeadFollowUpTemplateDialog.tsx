@@ -0,0 +1,85 @@
+import { useState, useEffect } from 'react';
+import { Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { DEFAULT_LEAD_FOLLOW_UP_TEMPLATE } from '@/lib/leadUtils';
+
+interface LeadFollowUpTemplateDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  template: string;
+  onSave: (template: string) => Promise<boolean>;
+}
+
+export function LeadFollowUpTemplateDialog({
+  open,
+  onOpenChange,
+  template,
+  onSave,
+}: LeadFollowUpTemplateDialogProps) {
+  const [value, setValue] = useState(template);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) setValue(template);
+  }, [open, template]);
+
+  const handleSave = async () => {
+    setSaving(true);
+    const success = await onSave(value.trim() || DEFAULT_LEAD_FOLLOW_UP_TEMPLATE);
+    setSaving(false);
+
+    if (success) onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Mensagem de follow-up</DialogTitle>
+          <DialogDescription>
+            Texto enviado ao abrir o WhatsApp de um lead. Use {'{nome}'}, {'{produto}'} e {'{loja}'} para personalizar.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="follow-up-template">Mensagem</Label>
+          <Textarea
+            id="follow-up-template"
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            rows={5}
+          />
+          <Button
+            type="button"
+            variant="link"
+            size="sm"
+            className="px-0 h-auto"
+            onClick={() => setValue(DEFAULT_LEAD_FOLLOW_UP_TEMPLATE)}
+          >
+            Restaurar mensagem padrão
+          </Button>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancelar
+          </Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Salvar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,24 @@
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import { LEAD_STATUS_LABELS } from '@/lib/leadUtils';
+import type { LeadStatus } from '@/types';
+
+const STATUS_CLASSES: Record<LeadStatus, string> = {
+  new: 'bg-blue-500 hover:bg-blue-600 text-white',
+  contacted: 'bg-amber-500 hover:bg-amber-600 text-white',
+  won: 'bg-green-500 hover:bg-green-600 text-white',
+  lost: 'bg-muted text-muted-foreground hover:bg-muted',
+};
+
+interface LeadStatusBadgeProps {
+  status: LeadStatus;
+  className?: string;
+}
+
+export default function LeadStatusBadge({ status, className }: LeadStatusBadgeProps) {
+  return (
+    <Badge className={cn(STATUS_CLASSES[status], className)}>
+      {LEAD_STATUS_LABELS[status]}
+    </Badge>
+  );
+}
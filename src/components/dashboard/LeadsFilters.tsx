@@ -0,0 +1,100 @@
+import { Search } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { LEAD_STATUSES, LEAD_STATUS_LABELS, type LeadFilters, type LeadProductOption } from '@/lib/leadUtils';
+import type { LeadStatus } from '@/types';
+
+interface LeadsFiltersProps {
+  filters: LeadFilters;
+  products: LeadProductOption[];
+  onFiltersChange: (filters: LeadFilters) => void;
+}
+
+const PERIOD_OPTIONS = [
+  { value: '7', label: 'Últimos 7 dias' },
+  { value: '30', label: 'Últimos 30 dias' },
+  { value: '90', label: 'Últimos 90 dias' },
+  { value: 'all', label: 'Todo o período' },
+];
+
+export function LeadsFilters({ filters, products, onFiltersChange }: LeadsFiltersProps) {
+  return (
+    <div className="flex flex-col md:flex-row gap-4">
+      {/* Name / phone search */}
+      <div className="relative flex-1 max-w-md">
+        <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+        <Input
+          placeholder="Buscar por nome, telefone ou e-mail..."
+          value={filters.search || ''}
+          onChange={(e) => onFiltersChange({ ...filters, search: e.target.value })}
+          className="pl-9"
+        />
+      </div>
+
+      {/* Product filter */}
+      <div className="w-full md:w-56">
+        <Select
+          value={filters.productId || 'todos'}
+          onValueChange={(value) => onFiltersChange({ ...filters, productId: value })}
+        >
+          <SelectTrigger>
+            <SelectValue placeholder="Produto" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="todos">Todos os produtos</SelectItem>
+            {products.map(product => (
+              <SelectItem key={product.id} value={product.id}>
+                {product.title}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {/* Status filter */}
+      <div className="w-full md:w-48">
+        <Select
+          value={filters.status || 'todos'}
+          onValueChange={(value) => onFiltersChange({ ...filters, status: value as LeadStatus | 'todos' })}
+        >
+          <SelectTrigger>
+            <SelectValue placeholder="Status" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="todos">Todos os status</SelectItem>
+            {LEAD_STATUSES.map(status => (
+              <SelectItem key={status} value={status}>
+                {LEAD_STATUS_LABELS[status]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {/* Period filter */}
+      <div className="w-full md:w-48">
+        <Select
+          value={filters.sinceDays ? String(filters.sinceDays) : 'all'}
+          onValueChange={(value) => onFiltersChange({ ...filters, sinceDays: value === 'all' ? null : Number(value) })}
+        >
+          <SelectTrigger>
+            <SelectValue placeholder="Período" />
+          </SelectTrigger>
+          <SelectContent>
+            {PERIOD_OPTIONS.map(option => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+import { Eye, MessageCircle, StickyNote } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import LeadStatusBadge from '@/components/dashboard/LeadStatusBadge';
+import { formatDateI18n } from '@/lib/i18n';
+import { formatPhone } from '@/lib/utils';
+import { LEAD_SOURCE_LABELS, LEAD_STATUSES, LEAD_STATUS_LABELS } from '@/lib/leadUtils';
+import type { Lead, LeadStatus } from '@/types';
+
+interface LeadsTableProps {
+  leads: Lead[];
+  onViewLead: (lead: Lead) => void;
+  onFollowUp: (lead: Lead) => void;
+  onStatusChange: (leadId: string, status: LeadStatus) => void;
+}
+
+export function LeadsTable({ leads, onViewLead, onFollowUp, onStatusChange }: LeadsTableProps) {
+  return (
+    <div className="border rounded-lg">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Contato</TableHead>
+            <TableHead>Produto</TableHead>
+            <TableHead>Origem</TableHead>
+            <TableHead>Data</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead className="w-24" />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {leads.map(lead => (
+            <TableRow
+              key={lead.id}
+              className="cursor-pointer"
+              onClick={() => onViewLead(lead)}
+            >
+              <TableCell>
+                <div className="flex items-center gap-2 font-medium">
+                  {lead.name}
+                  {lead.notes && <StickyNote className="h-3 w-3 text-muted-foreground" />}
+                </div>
+                {lead.phone && (
+                  <div className="text-xs text-muted-foreground">
+                    +{lead.country_code || '55'} {formatPhone(lead.phone, lead.country_code || '55')}
+                  </div>
+                )}
+              </TableCell>
+              <TableCell className="max-w-[200px] truncate text-muted-foreground">
+                {lead.product_title || '—'}
+              </TableCell>
+              <TableCell className="text-muted-foreground whitespace-nowrap">
+                {LEAD_SOURCE_LABELS[lead.source] || lead.source}
+              </TableCell>
+              <TableCell className="text-muted-foreground whitespace-nowrap">
+                {formatDateI18n(lead.created_at, 'pt-BR', {
+                  day: '2-digit',
+                  month: '2-digit',
+                  year: 'numeric',
+                  hour: '2-digit',
+                  minute: '2-digit',
+                })}
+              </TableCell>
+              <TableCell onClick={(e) => e.stopPropagation()}>
+                <Select
+                  value={lead.status}
+                  onValueChange={(value) => onStatusChange(lead.id, value as LeadStatus)}
+                >
+                  <SelectTrigger className="h-8 w-32 border-none shadow-none p-0 focus:ring-0">
+                    <SelectValue>
+                      <LeadStatusBadge status={lead.status} />
+                    </SelectValue>
+                  </SelectTrigger>
+                  <SelectContent>
+                    {LEAD_STATUSES.map(status => (
+                      <SelectItem key={status} value={status}>
+                        {LEAD_STATUS_LABELS[status]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </TableCell>
+              <TableCell onClick={(e) => e.stopPropagation()}>
+                <div className="flex items-center gap-1">
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-8 w-8 text-green-600 hover:text-green-700"
+                    disabled={!lead.phone}
+                    onClick={() => onFollowUp(lead)}
+                  >
+                    <MessageCircle className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-8 w-8"
+                    onClick={() => onViewLead(lead)}
+                  >
+                    <Eye className="h-4 w-4" />
+                  </Button>
+                </div>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+import { Link } from 'react-router-dom';
+import { Heart, Loader2 } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { useMostFavoritedProducts } from '@/hooks/useMostFavoritedProducts';
+
+interface MostFavoritedProductsProps {
+  userId?: string;
+  limit?: number;
+}
+
+export function MostFavoritedProducts({ userId, limit = 5 }: MostFavoritedProductsProps) {
+  const { products, loading } = useMostFavoritedProducts(userId, limit);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg font-semibold flex items-center gap-2">
+          <Heart className="h-5 w-5" />
+          Mais favoritados
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">Produtos que os clientes salvaram na sua vitrine</p>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : products.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            Nenhum produto favoritado ainda
+          </p>
+        ) : (
+          <div className="divide-y">
+            {products.map((product, index) => (
+              <Link
+                key={product.id}
+                to={`/dashboard/products/${product.id}/edit`}
+                className="flex items-center gap-3 py-3 hover:bg-accent/50 transition-colors rounded-md px-2 -mx-2"
+              >
+                <span className="w-5 text-sm font-semibold text-muted-foreground">{index + 1}</span>
+                {product.featured_image_url ? (
+                  <img
+                    src={product.featured_image_url}
+                    alt=""
+                    className="h-10 w-10 rounded object-cover border"
+                  />
+                ) : (
+                  <div className="h-10 w-10 rounded border bg-muted" />
+                )}
+                <span className="flex-1 min-w-0 text-sm font-medium truncate">{product.title}</span>
+                <span className="flex items-center gap-1 text-sm font-semibold">
+                  <Heart className="h-4 w-4 fill-red-500 text-red-500" />
+                  {product.favorite_count}
+                </span>
+              </Link>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
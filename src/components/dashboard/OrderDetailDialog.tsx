@@ -0,0 +1,323 @@
+import { useState, useEffect } from 'react';
+import { AlertCircle, Loader2, MapPin, Megaphone, MessageCircle, Package, Palette, Phone, Ruler, User as UserIcon } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Separator } from '@/components/ui/separator';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import DistributionSummary from '@/components/details/DistributionSummary';
+import TieredPricingTable from '@/components/details/TieredPricingTable';
+import OrderStatusBadge from '@/components/dashboard/OrderStatusBadge';
+import { formatCurrencyI18n, formatDateI18n, type SupportedCurrency, type SupportedLanguage } from '@/lib/i18n';
+import { fetchOrderWithItems, ORDER_STATUSES, ORDER_STATUS_LABELS } from '@/lib/orderUtils';
+import { fetchProductPriceTiers } from '@/lib/tieredPricingUtils';
+import { fetchOrderLead, formatBuyerAddress } from '@/lib/leadUtils';
+import { formatPhone, generateWhatsAppUrl } from '@/lib/utils';
+import { formatBundleItem } from '@/lib/bundleUtils';
+import { formatAttribution } from '@/lib/trafficSourceUtils';
+import type { Lead, Order, OrderStatus, PriceTier } from '@/types';
+
+interface OrderDetailDialogProps {
+  orderId: string | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onStatusChange: (orderId: string, status: OrderStatus) => Promise<boolean>;
+}
+
+export function OrderDetailDialog({
+  orderId,
+  open,
+  onOpenChange,
+  onStatusChange,
+}: OrderDetailDialogProps) {
+  const [order, setOrder] = useState<Order | null>(null);
+  const [loading, setLoading] = useState(false);
+  // Order the dialog last finished loading, found or not
+  const [loadedOrderId, setLoadedOrderId] = useState<string | null>(null);
+  const [productTiers, setProductTiers] = useState<Map<string, PriceTier[]>>(new Map());
+  const [buyer, setBuyer] = useState<Lead | null>(null);
+
+  useEffect(() => {
+    if (!open || !orderId) return;
+
+    let cancelled = false;
+
+    const loadOrder = async () => {
+      setLoading(true);
+      const [data, lead] = await Promise.all([
+        fetchOrderWithItems(orderId),
+        fetchOrderLead(orderId),
+      ]);
+      if (cancelled) return;
+      setOrder(data);
+      setBuyer(lead);
+
+      // Load current tiers for items that were sold at a tier price
+      const tieredProductIds = Array.from(new Set(
+        (data?.items || [])
+          .filter(item => item.product_id && item.applied_tier_price)
+          .map(item => item.product_id as string)
+      ));
+
+      const tiersMap = new Map<string, PriceTier[]>();
+      await Promise.all(
+        tieredProductIds.map(async (productId) => {
+          const tiers = await fetchProductPriceTiers(productId);
+          if (tiers.length > 0) tiersMap.set(productId, tiers);
+        })
+      );
+
+      if (cancelled) return;
+      setProductTiers(tiersMap);
+      setLoadedOrderId(orderId);
+      setLoading(false);
+    };
+
+    loadOrder();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, orderId]);
+
+  const handleStatusChange = async (status: OrderStatus) => {
+    if (!order) return;
+    const success = await onStatusChange(order.id, status);
+    if (success) {
+      setOrder(prev => (prev ? { ...prev, status } : prev));
+    }
+  };
+
+  const currency = (order?.currency || 'BRL') as SupportedCurrency;
+  const language = (order?.language || 'pt-BR') as SupportedLanguage;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Package className="h-5 w-5" />
+            {order ? `Pedido #${order.reference_code}` : 'Pedido'}
+          </DialogTitle>
+          <DialogDescription>
+            {order && formatDateI18n(order.created_at, 'pt-BR', {
+              day: '2-digit',
+              month: 'long',
+              year: 'numeric',
+              hour: '2-digit',
+              minute: '2-digit',
+            })}
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading || loadedOrderId !== orderId ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : !order ? (
+          <div className="flex flex-col items-center justify-center gap-2 py-12 text-center">
+            <AlertCircle className="h-8 w-8 text-muted-foreground" />
+            <p className="text-muted-foreground">Não foi possível carregar este pedido. Ele pode ter sido removido.</p>
+          </div>
+        ) : (
+          <div className="flex-1 overflow-y-auto space-y-4 pr-1">
+            {/* Status */}
+            <div className="flex items-center justify-between gap-4">
+              <OrderStatusBadge status={order.status} />
+              <Select value={order.status} onValueChange={(value) => handleStatusChange(value as OrderStatus)}>
+                <SelectTrigger className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ORDER_STATUSES.map(status => (
+                    <SelectItem key={status} value={status}>
+                      {ORDER_STATUS_LABELS[status]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {order.attribution && (
+              <div className="flex items-center gap-2 text-sm">
+                <Megaphone className="h-4 w-4 text-muted-foreground" />
+                <span>Origem: {formatAttribution(order.attribution)}</span>
+              </div>
+            )}
+
+            {buyer && (
+              <>
+                <Separator />
+
+                {/* Buyer */}
+                <div className="space-y-2 text-sm">
+                  <div className="flex items-center gap-2">
+                    <UserIcon className="h-4 w-4 text-muted-foreground" />
+                    <span className="font-medium">{buyer.name}</span>
+                  </div>
+                  {buyer.phone && (
+                    <div className="flex items-center justify-between gap-2">
+                      <div className="flex items-center gap-2">
+                        <Phone className="h-4 w-4 text-muted-foreground" />
+                        <span>+{buyer.country_code || '55'} {formatPhone(buyer.phone, buyer.country_code || '55')}</span>
+                      </div>
+                      <a
+                        href={generateWhatsAppUrl(buyer.phone, `Olá ${buyer.name}, sobre o pedido #${order.reference_code}`, buyer.country_code || '55')}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="flex items-center gap-1 text-green-600 hover:underline"
+                      >
+                        <MessageCircle className="h-4 w-4" />
+                        WhatsApp
+                      </a>
+                    </div>
+                  )}
+                  {buyer.address && (
+                    <div className="flex items-start gap-2">
+                      <MapPin className="h-4 w-4 text-muted-foreground mt-0.5" />
+                      <span>{formatBuyerAddress(buyer.address)}</span>
+                    </div>
+                  )}
+                </div>
+              </>
+            )}
+
+            <Separator />
+
+            {/* Items */}
+            <div className="space-y-4">
+              {(order.items || []).map(item => {
+                const unitPrice = item.applied_tier_price || item.discounted_price || item.unit_price;
+                const tiers = item.product_id ? productTiers.get(item.product_id) : undefined;
+                const distributionItems = item.distribution_items.map((distItem, index) => ({
+                  id: `${item.id}-${index}`,
+                  ...distItem,
+                }));
+
+                return (
+                  <div key={item.id} className="border rounded-lg p-3 space-y-3">
+                    <div className="flex items-start justify-between gap-4">
+                      <div className="min-w-0">
+                        <h4 className="font-medium text-sm">{item.title}</h4>
+                        <div className="flex flex-wrap items-center gap-2 mt-1 text-xs text-muted-foreground">
+                          {item.distribution_id && (
+                            <Badge className="bg-blue-600 text-white text-xs">
+                              <Package className="h-3 w-3 mr-1" />
+                              Distribuição
+                            </Badge>
+                          )}
+                          {item.selected_color && (
+                            <span className="flex items-center gap-1">
+                              <Palette className="h-3 w-3" />
+                              <span className="capitalize">{item.selected_color}</span>
+                            </span>
+                          )}
+                          {item.selected_size && (
+                            <span className="flex items-center gap-1">
+                              <Ruler className="h-3 w-3" />
+                              {item.selected_size}
+                            </span>
+                          )}
+                          {item.sku && (
+                            <span className="font-mono">SKU {item.sku}</span>
+                          )}
+                          {item.bundle_items && item.bundle_items.length > 0 && (
+                            <Badge variant="secondary" className="text-xs">Kit</Badge>
+                          )}
+                        </div>
+                        {item.bundle_items && item.bundle_items.length > 0 && (
+                          <ul className="mt-2 space-y-0.5 text-xs text-muted-foreground">
+                            {item.bundle_items.map((bundleItem, index) => (
+                              <li key={index}>• {formatBundleItem({ ...bundleItem, quantity: bundleItem.quantity * item.quantity })}</li>
+                            ))}
+                          </ul>
+                        )}
+                      </div>
+                      <div className="text-right text-sm whitespace-nowrap">
+                        <div className="text-muted-foreground">
+                          {item.quantity} x {formatCurrencyI18n(unitPrice, currency, language)}
+                        </div>
+                        <div className="font-semibold">
+                          {formatCurrencyI18n(item.subtotal, currency, language)}
+                        </div>
+                      </div>
+                    </div>
+
+                    {distributionItems.length > 0 && (
+                      <DistributionSummary
+                        items={distributionItems}
+                        hasColors={distributionItems.some(distItem => distItem.color)}
+                        hasSizes={distributionItems.some(distItem => distItem.size)}
+                        readOnly
+                      />
+                    )}
+
+                    {item.notes && (
+                      <p className="text-xs text-muted-foreground">
+                        Observação: {item.notes}
+                      </p>
+                    )}
+
+                    {tiers && (
+                      <TieredPricingTable
+                        tiers={tiers}
+                        basePrice={item.unit_price}
+                        baseDiscountedPrice={item.discounted_price ?? undefined}
+                        currency={currency}
+                        language={language}
+                      />
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+
+            <Separator />
+
+            {/* Totals */}
+            <div className="space-y-1 text-sm">
+              <div className="flex justify-between text-muted-foreground">
+                <span>Subtotal</span>
+                <span>{formatCurrencyI18n(order.subtotal, currency, language)}</span>
+              </div>
+              {!!order.discount && order.discount > 0 && (
+                <div className="flex justify-between text-green-600">
+                  <span>Desconto{order.coupon_code ? ` (${order.coupon_code})` : ''}</span>
+                  <span>-{formatCurrencyI18n(order.discount, currency, language)}</span>
+                </div>
+              )}
+              {order.delivery_method && (
+                <div className="flex justify-between text-sm text-muted-foreground">
+                  <span>
+                    Entrega ({order.delivery_method}
+                    {order.delivery_postal_code ? ` · CEP ${order.delivery_postal_code}` : ''})
+                  </span>
+                  <span>
+                    {order.delivery_fee
+                      ? formatCurrencyI18n(order.delivery_fee, currency, language)
+                      : 'Grátis'}
+                  </span>
+                </div>
+              )}
+              <div className="flex justify-between text-lg font-semibold">
+                <span>Total</span>
+                <span className="text-primary">{formatCurrencyI18n(order.total, currency, language)}</span>
+              </div>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
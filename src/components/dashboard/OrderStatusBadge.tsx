@@ -0,0 +1,27 @@
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import { ORDER_STATUS_LABELS } from '@/lib/orderUtils';
+import type { OrderStatus } from '@/types';
+
+const STATUS_CLASSES: Record<OrderStatus, string> = {
+  new: 'bg-blue-500 hover:bg-blue-600 text-white',
+  confirmed: 'bg-indigo-500 hover:bg-indigo-600 text-white',
+  paid: 'bg-green-500 hover:bg-green-600 text-white',
+  shipped: 'bg-amber-500 hover:bg-amber-600 text-white',
+  delivered: 'bg-emerald-700 hover:bg-emerald-800 text-white',
+  cancelled: 'bg-muted text-muted-foreground hover:bg-muted',
+};
+
+interface OrderStatusBadgeProps {
+  status: OrderStatus;
+  label?: string;
+  className?: string;
+}
+
+export default function OrderStatusBadge({ status, label, className }: OrderStatusBadgeProps) {
+  return (
+    <Badge className={cn(STATUS_CLASSES[status], className)}>
+      {label ?? ORDER_STATUS_LABELS[status]}
+    </Badge>
+  );
+}
@@ -0,0 +1,79 @@
+import { Search } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ORDER_STATUSES, ORDER_STATUS_LABELS, type OrderFilters } from '@/lib/orderUtils';
+import type { OrderStatus } from '@/types';
+
+interface OrdersFiltersProps {
+  filters: OrderFilters;
+  onFiltersChange: (filters: OrderFilters) => void;
+}
+
+const PERIOD_OPTIONS = [
+  { value: '7', label: 'Últimos 7 dias' },
+  { value: '30', label: 'Últimos 30 dias' },
+  { value: '90', label: 'Últimos 90 dias' },
+  { value: 'all', label: 'Todo o período' },
+];
+
+export function OrdersFilters({ filters, onFiltersChange }: OrdersFiltersProps) {
+  return (
+    <div className="flex flex-col md:flex-row gap-4">
+      {/* Reference code search */}
+      <div className="relative flex-1 max-w-md">
+        <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+        <Input
+          placeholder="Buscar pelo código do pedido..."
+          value={filters.referenceCode || ''}
+          onChange={(e) => onFiltersChange({ ...filters, referenceCode: e.target.value })}
+          className="pl-9 uppercase placeholder:normal-case"
+        />
+      </div>
+
+      {/* Status filter */}
+      <div className="w-full md:w-48">
+        <Select
+          value={filters.status || 'todos'}
+          onValueChange={(value) => onFiltersChange({ ...filters, status: value as OrderStatus | 'todos' })}
+        >
+          <SelectTrigger>
+            <SelectValue placeholder="Status" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="todos">Todos os status</SelectItem>
+            {ORDER_STATUSES.map(status => (
+              <SelectItem key={status} value={status}>
+                {ORDER_STATUS_LABELS[status]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {/* Period filter */}
+      <div className="w-full md:w-48">
+        <Select
+          value={filters.sinceDays ? String(filters.sinceDays) : 'all'}
+          onValueChange={(value) => onFiltersChange({ ...filters, sinceDays: value === 'all' ? null : Number(value) })}
+        >
+          <SelectTrigger>
+            <SelectValue placeholder="Período" />
+          </SelectTrigger>
+          <SelectContent>
+            {PERIOD_OPTIONS.map(option => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+import { Eye } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import OrderStatusBadge from '@/components/dashboard/OrderStatusBadge';
+import { formatCurrencyI18n, formatDateI18n, type SupportedCurrency, type SupportedLanguage } from '@/lib/i18n';
+import { ORDER_STATUSES, ORDER_STATUS_LABELS } from '@/lib/orderUtils';
+import type { Order, OrderStatus } from '@/types';
+
+interface OrdersTableProps {
+  orders: Order[];
+  onViewOrder: (order: Order) => void;
+  onStatusChange: (orderId: string, status: OrderStatus) => void;
+}
+
+export function OrdersTable({ orders, onViewOrder, onStatusChange }: OrdersTableProps) {
+  return (
+    <div className="border rounded-lg">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Pedido</TableHead>
+            <TableHead>Data</TableHead>
+            <TableHead className="text-right">Itens</TableHead>
+            <TableHead className="text-right">Total</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead className="w-12" />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {orders.map(order => (
+            <TableRow
+              key={order.id}
+              className="cursor-pointer"
+              onClick={() => onViewOrder(order)}
+            >
+              <TableCell className="font-mono font-semibold">#{order.reference_code}</TableCell>
+              <TableCell className="text-muted-foreground whitespace-nowrap">
+                {formatDateI18n(order.created_at, 'pt-BR', {
+                  day: '2-digit',
+                  month: '2-digit',
+                  year: 'numeric',
+                  hour: '2-digit',
+                  minute: '2-digit',
+                })}
+              </TableCell>
+              <TableCell className="text-right">{order.item_count}</TableCell>
+              <TableCell className="text-right font-medium whitespace-nowrap">
+                {formatCurrencyI18n(
+                  order.total,
+                  order.currency as SupportedCurrency,
+                  order.language as SupportedLanguage
+                )}
+              </TableCell>
+              <TableCell onClick={(e) => e.stopPropagation()}>
+                <Select
+                  value={order.status}
+                  onValueChange={(value) => onStatusChange(order.id, value as OrderStatus)}
+                >
+                  <SelectTrigger className="h-8 w-36 border-none shadow-none p-0 focus:ring-0">
+                    <SelectValue>
+                      <OrderStatusBadge status={order.status} />
+                    </SelectValue>
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ORDER_STATUSES.map(status => (
+                      <SelectItem key={status} value={status}>
+                        {ORDER_STATUS_LABELS[status]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </TableCell>
+              <TableCell>
+                <Button size="icon" variant="ghost" className="h-8 w-8">
+                  <Eye className="h-4 w-4" />
+                </Button>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+import { Link } from 'react-router-dom';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { getDropOff, type ProductFunnelRow } from '@/lib/funnelUtils';
+
+interface ProductFunnelTableProps {
+  products: ProductFunnelRow[];
+}
+
+const COLUMNS: { key: keyof Pick<ProductFunnelRow, 'views' | 'variant_selects' | 'add_to_carts' | 'checkouts'>; label: string }[] = [
+  { key: 'views', label: 'Visualizações' },
+  { key: 'variant_selects', label: 'Variação escolhida' },
+  { key: 'add_to_carts', label: 'Carrinho' },
+  { key: 'checkouts', label: 'Pedido enviado' },
+];
+
+export function ProductFunnelTable({ products }: ProductFunnelTableProps) {
+  return (
+    <div className="border rounded-lg">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Produto</TableHead>
+            {COLUMNS.map(column => (
+              <TableHead key={column.key} className="text-right">{column.label}</TableHead>
+            ))}
+            <TableHead className="text-right">Conversão</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {products.map(product => (
+            <TableRow key={product.product_id}>
+              <TableCell>
+                <Link
+                  to={`/dashboard/products/${product.product_id}/edit`}
+                  className="flex items-center gap-3 hover:underline"
+                >
+                  {product.featured_image_url && (
+                    <img
+                      src={product.featured_image_url}
+                      alt={product.title}
+                      className="h-10 w-10 rounded object-cover border"
+                      loading="lazy"
+                    />
+                  )}
+                  <span className="font-medium line-clamp-2">{product.title}</span>
+                </Link>
+              </TableCell>
+              {COLUMNS.map((column, index) => {
+                // Variation choice is skipped by products without options, so compare carts with views
+                const previousKey = column.key === 'add_to_carts' ? 'views' : COLUMNS[index - 1]?.key;
+                const dropOff = previousKey ? getDropOff(product[previousKey], product[column.key]) : null;
+
+                return (
+                  <TableCell key={column.key} className="text-right tabular-nums">
+                    <div className="font-semibold">{product[column.key]}</div>
+                    {dropOff !== null && dropOff > 0 && (
+                      <div className="text-xs text-destructive">-{dropOff}%</div>
+                    )}
+                  </TableCell>
+                );
+              })}
+              <TableCell className="text-right tabular-nums font-semibold">
+                {product.views > 0 ? `${((product.checkouts / product.views) * 100).toFixed(1)}%` : '-'}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
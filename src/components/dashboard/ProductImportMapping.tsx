@@ -0,0 +1,68 @@
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { PRODUCT_IMPORT_FIELDS, type ProductImportMapping as Mapping } from '@/lib/productImportUtils';
+
+interface ProductImportMappingProps {
+  headers: string[];
+  sampleRow?: string[];
+  mapping: Mapping;
+  onMappingChange: (mapping: Mapping) => void;
+}
+
+const UNMAPPED = 'none';
+
+export function ProductImportMapping({ headers, sampleRow, mapping, onMappingChange }: ProductImportMappingProps) {
+  const handleChange = (field: keyof Mapping, value: string) => {
+    const next = { ...mapping };
+    if (value === UNMAPPED) {
+      delete next[field];
+    } else {
+      next[field] = Number(value);
+    }
+    onMappingChange(next);
+  };
+
+  return (
+    <div className="grid gap-4 sm:grid-cols-2">
+      {PRODUCT_IMPORT_FIELDS.map(field => {
+        const column = mapping[field.key];
+
+        return (
+          <div key={field.key} className="space-y-1.5">
+            <Label>
+              {field.label}
+              {field.required && ' *'}
+            </Label>
+            <Select
+              value={column === undefined ? UNMAPPED : String(column)}
+              onValueChange={(value) => handleChange(field.key, value)}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={UNMAPPED}>Não importar</SelectItem>
+                {headers.map((header, index) => (
+                  <SelectItem key={index} value={String(index)}>
+                    {header || `Coluna ${index + 1}`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {column !== undefined && sampleRow?.[column] ? (
+              <p className="text-xs text-muted-foreground truncate">Ex.: {sampleRow[column]}</p>
+            ) : field.hint ? (
+              <p className="text-xs text-muted-foreground">{field.hint}</p>
+            ) : null}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+import { AlertCircle, CheckCircle2 } from 'lucide-react';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { formatCurrency } from '@/lib/utils';
+import { getMinimumPriceFromTiers } from '@/lib/tieredPricingUtils';
+import type { ProductImportRow } from '@/lib/productImportUtils';
+
+interface ProductImportPreviewProps {
+  rows: ProductImportRow[];
+}
+
+function formatDraftPrice(row: ProductImportRow): string {
+  const { price, price_tiers } = row.draft;
+
+  if (price_tiers.length > 0) {
+    return `${price_tiers.length} faixa${price_tiers.length !== 1 ? 's' : ''} a partir de ${formatCurrency(getMinimumPriceFromTiers(price_tiers) ?? 0)}`;
+  }
+
+  return price !== null ? formatCurrency(price) : '—';
+}
+
+export function ProductImportPreview({ rows }: ProductImportPreviewProps) {
+  return (
+    <div className="border rounded-lg max-h-[60vh] overflow-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-16">Linha</TableHead>
+            <TableHead>Produto</TableHead>
+            <TableHead>Preço</TableHead>
+            <TableHead>Categorias</TableHead>
+            <TableHead className="text-center">Imagens</TableHead>
+            <TableHead>Status</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map(row => (
+            <TableRow key={row.rowNumber} className={row.errors.length > 0 ? 'bg-destructive/5' : undefined}>
+              <TableCell className="text-muted-foreground">{row.rowNumber}</TableCell>
+              <TableCell className="max-w-[220px]">
+                <div className="font-medium truncate">{row.draft.title || '—'}</div>
+                {row.draft.brand && (
+                  <div className="text-xs text-muted-foreground truncate">{row.draft.brand}</div>
+                )}
+              </TableCell>
+              <TableCell className="whitespace-nowrap">{formatDraftPrice(row)}</TableCell>
+              <TableCell className="max-w-[180px] truncate text-muted-foreground">
+                {row.draft.category.join(', ') || 'Sem Categoria'}
+              </TableCell>
+              <TableCell className="text-center">{row.draft.images.length}</TableCell>
+              <TableCell>
+                {row.errors.length === 0 ? (
+                  <span className="flex items-center gap-1 text-sm text-green-600">
+                    <CheckCircle2 className="h-4 w-4" />
+                    Pronto
+                  </span>
+                ) : (
+                  <ul className="space-y-0.5 text-xs text-destructive">
+                    {row.errors.map((error, index) => (
+                      <li key={index} className="flex items-start gap-1">
+                        <AlertCircle className="h-3 w-3 mt-0.5 shrink-0" />
+                        {error}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -0,0 +1,313 @@
+import { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { format } from 'date-fns';
+import { Loader2, Timer } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { CurrencyInput } from '@/components/ui/currency-input';
+import { CategorySelector } from '@/components/ui/category-selector';
+import { ProductSelector } from '@/components/ui/product-selector';
+import type { PromotionInput } from '@/lib/promotionUtils';
+import type { Promotion } from '@/types';
+
+// Value format of <input type="datetime-local">, in the seller's timezone
+const DATE_TIME_INPUT_FORMAT = "yyyy-MM-dd'T'HH:mm";
+
+const promotionFormSchema = z
+  .object({
+    name: z
+      .string()
+      .trim()
+      .min(3, 'O nome deve ter pelo menos 3 caracteres')
+      .max(60, 'O nome deve ter no máximo 60 caracteres'),
+    discount_type: z.enum(['percentage', 'fixed']),
+    discount_value: z.number().positive('Informe o valor do desconto'),
+    starts_at: z.string().min(1, 'Informe o início da promoção'),
+    ends_at: z.string().min(1, 'Informe o fim da promoção'),
+    product_ids: z.array(z.string()).default([]),
+    category_names: z.array(z.string()).default([]),
+    is_active: z.boolean().default(true),
+  })
+  .refine(data => data.discount_type === 'fixed' || data.discount_value < 100, {
+    message: 'A porcentagem deve ser menor que 100%',
+    path: ['discount_value'],
+  })
+  .refine(data => !data.starts_at || !data.ends_at || new Date(data.ends_at) > new Date(data.starts_at), {
+    message: 'O fim deve ser depois do início',
+    path: ['ends_at'],
+  });
+
+type PromotionFormData = z.infer<typeof promotionFormSchema>;
+
+interface PromotionFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  promotion: Promotion | null;
+  userId?: string;
+  onSave: (promotion: PromotionInput, promotionId?: string) => Promise<boolean>;
+}
+
+const getEmptyPromotion = (): PromotionFormData => {
+  const start = new Date();
+  start.setMinutes(0, 0, 0);
+  start.setHours(start.getHours() + 1);
+  const end = new Date(start.getTime() + 24 * 60 * 60 * 1000);
+
+  return {
+    name: '',
+    discount_type: 'percentage',
+    discount_value: 10,
+    starts_at: format(start, DATE_TIME_INPUT_FORMAT),
+    ends_at: format(end, DATE_TIME_INPUT_FORMAT),
+    product_ids: [],
+    category_names: [],
+    is_active: true,
+  };
+};
+
+export function PromotionFormDialog({ open, onOpenChange, promotion, userId, onSave }: PromotionFormDialogProps) {
+  const [saving, setSaving] = useState(false);
+
+  const form = useForm<PromotionFormData>({
+    resolver: zodResolver(promotionFormSchema),
+    defaultValues: getEmptyPromotion(),
+  });
+
+  useEffect(() => {
+    if (!open) return;
+
+    form.reset(promotion
+      ? {
+          name: promotion.name,
+          discount_type: promotion.discount_type,
+          discount_value: promotion.discount_value,
+          starts_at: format(new Date(promotion.starts_at), DATE_TIME_INPUT_FORMAT),
+          ends_at: format(new Date(promotion.ends_at), DATE_TIME_INPUT_FORMAT),
+          product_ids: promotion.product_ids || [],
+          category_names: promotion.category_names || [],
+          is_active: promotion.is_active,
+        }
+      : getEmptyPromotion());
+  }, [open, promotion, form]);
+
+  const handleSubmit = async (values: PromotionFormData) => {
+    setSaving(true);
+
+    const success = await onSave(
+      {
+        name: values.name,
+        discount_type: values.discount_type,
+        discount_value: values.discount_value,
+        starts_at: new Date(values.starts_at).toISOString(),
+        ends_at: new Date(values.ends_at).toISOString(),
+        product_ids: values.product_ids,
+        category_names: values.category_names,
+        is_active: values.is_active,
+      },
+      promotion?.id
+    );
+
+    setSaving(false);
+    if (success) onOpenChange(false);
+  };
+
+  const discountType = form.watch('discount_type');
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Timer className="h-5 w-5" />
+            {promotion ? 'Editar Promoção' : 'Nova Promoção'}
+          </DialogTitle>
+          <DialogDescription>
+            O desconto entra e sai do ar sozinho no horário escolhido
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Nome *</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Ex: Black Friday" {...field} />
+                  </FormControl>
+                  <FormDescription>Aparece para o cliente junto da contagem regressiva</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="discount_type"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Tipo de desconto</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="percentage">Porcentagem (%)</SelectItem>
+                        <SelectItem value="fixed">Valor fixo por unidade</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="discount_value"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Desconto *</FormLabel>
+                    <FormControl>
+                      {discountType === 'percentage' ? (
+                        <Input
+                          type="number"
+                          min={1}
+                          max={99}
+                          value={field.value ?? ''}
+                          onChange={(e) => field.onChange(e.target.value ? parseFloat(e.target.value) : 0)}
+                        />
+                      ) : (
+                        <CurrencyInput value={field.value} onChange={field.onChange} />
+                      )}
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="starts_at"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Início *</FormLabel>
+                    <FormControl>
+                      <Input type="datetime-local" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="ends_at"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Fim *</FormLabel>
+                    <FormControl>
+                      <Input type="datetime-local" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="product_ids"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Produtos</FormLabel>
+                  <FormControl>
+                    <ProductSelector value={field.value} onChange={field.onChange} userId={userId} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="category_names"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Categorias</FormLabel>
+                  <FormControl>
+                    <CategorySelector value={field.value} onChange={field.onChange} userId={userId} />
+                  </FormControl>
+                  <FormDescription>
+                    Deixe produtos e categorias vazios para aplicar a promoção a toda a vitrine.
+                    Produtos com preço por quantidade mantêm seus preços.
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="is_active"
+              render={({ field }) => (
+                <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+                  <div className="space-y-0.5">
+                    <FormLabel className="text-base">Promoção ativa</FormLabel>
+                    <FormDescription>Promoções pausadas não são aplicadas</FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancelar
+              </Button>
+              <Button type="submit" disabled={saving}>
+                {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Salvar
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,112 @@
+import { Pencil, Trash2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { formatCurrencyI18n, formatDateI18n, type SupportedCurrency } from '@/lib/i18n';
+import { getPromotionStatus, type PromotionStatus } from '@/lib/promotionUtils';
+import type { Promotion } from '@/types';
+
+interface PromotionsTableProps {
+  promotions: Promotion[];
+  currency: SupportedCurrency;
+  onEdit: (promotion: Promotion) => void;
+  onDelete: (promotion: Promotion) => void;
+  onToggleActive: (promotion: Promotion) => void;
+}
+
+const STATUS_BADGES: Record<PromotionStatus, { label: string; className?: string; variant: 'default' | 'secondary' | 'outline' }> = {
+  running: { label: 'Em andamento', variant: 'default', className: 'bg-green-600 hover:bg-green-700' },
+  scheduled: { label: 'Agendada', variant: 'outline' },
+  paused: { label: 'Pausada', variant: 'secondary' },
+  ended: { label: 'Encerrada', variant: 'secondary' },
+};
+
+const DATE_TIME_FORMAT: Intl.DateTimeFormatOptions = {
+  day: '2-digit',
+  month: '2-digit',
+  year: 'numeric',
+  hour: '2-digit',
+  minute: '2-digit',
+};
+
+export function PromotionsTable({ promotions, currency, onEdit, onDelete, onToggleActive }: PromotionsTableProps) {
+  return (
+    <div className="border rounded-lg">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Promoção</TableHead>
+            <TableHead>Desconto</TableHead>
+            <TableHead>Período</TableHead>
+            <TableHead>Aplica-se a</TableHead>
+            <TableHead>Ativa</TableHead>
+            <TableHead className="w-24" />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {promotions.map(promotion => {
+            const status = STATUS_BADGES[getPromotionStatus(promotion)];
+            const isStorewide = promotion.product_ids.length === 0 && promotion.category_names.length === 0;
+
+            return (
+              <TableRow key={promotion.id}>
+                <TableCell>
+                  <div className="flex items-center gap-2">
+                    <span className="font-semibold">{promotion.name}</span>
+                    <Badge variant={status.variant} className={status.className}>{status.label}</Badge>
+                  </div>
+                </TableCell>
+                <TableCell className="whitespace-nowrap">
+                  {promotion.discount_type === 'percentage'
+                    ? `${promotion.discount_value}%`
+                    : formatCurrencyI18n(promotion.discount_value, currency, 'pt-BR')}
+                </TableCell>
+                <TableCell className="text-xs text-muted-foreground whitespace-nowrap space-y-0.5">
+                  <div>De {formatDateI18n(promotion.starts_at, 'pt-BR', DATE_TIME_FORMAT)}</div>
+                  <div>Até {formatDateI18n(promotion.ends_at, 'pt-BR', DATE_TIME_FORMAT)}</div>
+                </TableCell>
+                <TableCell className="text-xs text-muted-foreground space-y-0.5">
+                  {promotion.product_ids.length > 0 && (
+                    <div>
+                      {promotion.product_ids.length} {promotion.product_ids.length === 1 ? 'produto' : 'produtos'}
+                    </div>
+                  )}
+                  {promotion.category_names.length > 0 && (
+                    <div>{promotion.category_names.join(', ')}</div>
+                  )}
+                  {isStorewide && <div>Todos os produtos</div>}
+                </TableCell>
+                <TableCell>
+                  <Switch checked={promotion.is_active} onCheckedChange={() => onToggleActive(promotion)} />
+                </TableCell>
+                <TableCell>
+                  <div className="flex justify-end gap-1">
+                    <Button variant="ghost" size="icon" onClick={() => onEdit(promotion)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="text-destructive hover:text-destructive"
+                      onClick={() => onDelete(promotion)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
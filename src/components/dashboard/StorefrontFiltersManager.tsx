@@ -9,6 +9,13 @@ import { Button } from '@/components/ui/button';
 import { Switch } from '@/components/ui/switch';
 import { Input } from '@/components/ui/input';
 import { Slider } from '@/components/ui/slider';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import {
   Form,
   FormControl,
@@ -17,14 +24,26 @@ import {
   FormLabel,
   FormDescription,
 } from '@/components/ui/form';
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { formatCurrency } from '@/lib/utils';
 import { supabase } from '@/lib/supabase';
 import { useAuth } from '@/contexts/AuthContext';
 import type { User } from '@/types';
 import type { CategoryDisplaySetting } from '@/types';
+import type { ProductSortOption } from '@/types';
 import { normalizeCategoryNameForComparison } from '@/lib/categoryUtils';
 
+const SORT_OPTIONS: { value: ProductSortOption; label: string }[] = [
+  { value: 'display-order', label: 'Ordem manual (arrastar e soltar)' },
+  { value: 'price-asc', label: 'Menor preço' },
+  { value: 'price-desc', label: 'Maior preço' },
+  { value: 'newest', label: 'Mais recentes' },
+  { value: 'discount', label: 'Maior desconto' },
+  { value: 'most-viewed', label: 'Mais vistos' },
+];
+
+const ITEMS_PER_PAGE_OPTIONS = [12, 24, 48, 96];
+
 const formSchema = z.object({
   filters: z.object({
     showFilters: z.boolean().default(true),
@@ -43,6 +62,9 @@ const formSchema = z.object({
     message: 'Preço máximo deve ser maior que o preço mínimo',
     path: ['maxPrice'],
   }),
+  defaultSort: z.enum(['display-order', 'price-asc', 'price-desc', 'newest', 'discount', 'most-viewed']).default('display-order'),
+  itemsPerPage: z.number().min(1),
+  infiniteScroll: z.boolean().default(true),
 });
 
 interface StorefrontSettings {
@@ -63,6 +85,8 @@ interface StorefrontSettings {
       maxPrice?: number;
     };
     itemsPerPage?: number;
+    infiniteScroll?: boolean;
+    defaultSort?: ProductSortOption;
   };
 }
 
@@ -89,6 +113,9 @@ export default function StorefrontFiltersManager() {
         minPrice: 10,
         maxPrice: 5000,
       },
+      defaultSort: 'display-order',
+      itemsPerPage: 24,
+      infiniteScroll: true,
     },
   });
 
@@ -131,6 +158,9 @@ export default function StorefrontFiltersManager() {
         form.reset({
           filters,
           priceRange: priceRangeSettings,
+          defaultSort: data.settings.defaultSort || 'display-order',
+          itemsPerPage: data.settings.itemsPerPage || 24,
+          infiniteScroll: data.settings.infiniteScroll ?? true,
         });
 
         setPriceRange([priceRangeSettings.minPrice, priceRangeSettings.maxPrice]);
@@ -171,8 +201,9 @@ export default function StorefrontFiltersManager() {
           minPrice: 10,
           maxPrice: 5000,
         },
-        // Keep existing itemsPerPage if it exists, otherwise default to 12
-        itemsPerPage: currentSettings?.settings?.itemsPerPage || 12,
+        itemsPerPage: values.itemsPerPage,
+        infiniteScroll: values.infiniteScroll,
+        defaultSort: values.defaultSort,
       };
 
       const { data: existingSettings } = await supabase
@@ -415,6 +446,94 @@ export default function StorefrontFiltersManager() {
           />
         </div>
 
+        {/* Ordenação e carregamento dos produtos */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Listagem de Produtos</CardTitle>
+            <CardDescription>
+              Como os produtos aparecem quando o cliente abre a vitrine. O cliente ainda pode escolher outra ordenação.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <FormField
+              control={form.control}
+              name="defaultSort"
+              render={({ field }) => (
+                <FormItem className="max-w-sm">
+                  <FormLabel>Ordenação padrão</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {SORT_OPTIONS.map(option => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>
+                    Produtos com preço por quantidade são ordenados pelo menor preço da tabela
+                  </FormDescription>
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="itemsPerPage"
+              render={({ field }) => (
+                <FormItem className="max-w-sm">
+                  <FormLabel>Produtos por carregamento</FormLabel>
+                  <Select value={String(field.value)} onValueChange={(value) => field.onChange(Number(value))}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {ITEMS_PER_PAGE_OPTIONS.map(option => (
+                        <SelectItem key={option} value={String(option)}>
+                          {option} produtos
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>
+                    Quantidade de produtos buscada de cada vez
+                  </FormDescription>
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="infiniteScroll"
+              render={({ field }) => (
+                <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+                  <div className="space-y-0.5">
+                    <FormLabel className="text-base">
+                      Rolagem Infinita
+                    </FormLabel>
+                    <FormDescription>
+                      Carregar mais produtos automaticamente ao chegar no fim da página. Desativado, o cliente usa o botão "Ver mais produtos"
+                    </FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch
+                      checked={field.value}
+                      onCheckedChange={field.onChange}
+                    />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+          </CardContent>
+        </Card>
+
         {/* Configuração da Faixa de Preço */}
         <Card>
           <CardHeader>
@@ -4,6 +4,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import StorefrontFiltersManager from '@/components/dashboard/StorefrontFiltersManager';
 import CategoryDisplaySettings from '@/components/dashboard/CategoryDisplaySettings';
 import TrackingSettingsContent from '@/components/dashboard/TrackingSettingsContent';
+import DeliveryMethodsManager from '@/components/dashboard/DeliveryMethodsManager';
 import { useAuth } from '@/contexts/AuthContext';
 
 export function StorefrontSettings() {
@@ -13,13 +14,16 @@ export function StorefrontSettings() {
   return (
     <div className="space-y-6">
       <Tabs value={activeTab} onValueChange={setActiveTab}>
-        <TabsList className="grid w-full grid-cols-3 h-auto gap-1">
+        <TabsList className="grid w-full grid-cols-2 sm:grid-cols-4 h-auto gap-1">
           <TabsTrigger value="filters" className="text-xs sm:text-sm py-2 sm:py-2.5">
             Filtros
           </TabsTrigger>
           <TabsTrigger value="organization" className="text-xs sm:text-sm py-2 sm:py-2.5">
             Organização
           </TabsTrigger>
+          <TabsTrigger value="delivery" className="text-xs sm:text-sm py-2 sm:py-2.5">
+            Entrega
+          </TabsTrigger>
           <TabsTrigger value="tracking" className="text-xs sm:text-sm py-2 sm:py-2.5">
             Rastreamento
           </TabsTrigger>
@@ -33,6 +37,10 @@ export function StorefrontSettings() {
           <CategoryDisplaySettings />
         </TabsContent>
 
+        <TabsContent value="delivery" className="mt-4 sm:mt-6">
+          <DeliveryMethodsManager />
+        </TabsContent>
+
         <TabsContent value="tracking" className="mt-4 sm:mt-6">
           <TrackingSettingsContent />
         </TabsContent>
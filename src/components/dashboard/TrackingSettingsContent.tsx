@@ -24,6 +24,7 @@ import {
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
 import {
   Tooltip,
   TooltipContent,
@@ -33,6 +34,18 @@ import {
 import { Separator } from '@/components/ui/separator';
 import { supabase } from '@/lib/supabase';
 import { useAuth } from '@/contexts/AuthContext';
+import {
+  GOOGLE_ADS_CONVERSION_EVENTS,
+  sanitizeHeadSnippet,
+  TRACKING_ID_PATTERNS,
+} from '@/lib/trackingProviders';
+
+const optionalTrackingId = (pattern: RegExp, message: string) =>
+  z.string()
+    .trim()
+    .regex(pattern, message)
+    .optional()
+    .or(z.literal(''));
 
 const formSchema = z.object({
   meta_pixel_id: z.string()
@@ -45,6 +58,10 @@ const formSchema = z.object({
     .transform(val => val ? JSON.parse(val) : null)
     .refine(val => !val || typeof val === 'object', 'Formato JSON inválido')
     .or(z.literal('')),
+  meta_capi_access_token: z.string()
+    .trim()
+    .optional()
+    .or(z.literal('')),
   ga_measurement_id: z.string()
     .regex(/^(G|UA)-[A-Z0-9-]+$/, 'ID de medição inválido')
     .optional()
@@ -54,6 +71,18 @@ const formSchema = z.object({
     .transform(val => val ? JSON.parse(val) : null)
     .refine(val => !val || typeof val === 'object', 'Formato JSON inválido')
     .or(z.literal('')),
+  tiktok_pixel_id: optionalTrackingId(TRACKING_ID_PATTERNS.tiktokPixel, 'ID do Pixel do TikTok inválido'),
+  gtm_container_id: optionalTrackingId(TRACKING_ID_PATTERNS.gtmContainer, 'ID do contêiner inválido (GTM-XXXXXXX)'),
+  google_ads_id: optionalTrackingId(TRACKING_ID_PATTERNS.googleAds, 'ID de conversão inválido (AW-123456789)'),
+  google_ads_conversions: z.object({
+    begin_checkout: optionalTrackingId(TRACKING_ID_PATTERNS.googleAdsLabel, 'Rótulo de conversão inválido'),
+    add_to_cart: optionalTrackingId(TRACKING_ID_PATTERNS.googleAdsLabel, 'Rótulo de conversão inválido'),
+    view_item: optionalTrackingId(TRACKING_ID_PATTERNS.googleAdsLabel, 'Rótulo de conversão inválido'),
+  }),
+  custom_head_html: z.string()
+    .max(10000, 'O script personalizado deve ter no máximo 10.000 caracteres')
+    .optional(),
+  require_consent: z.boolean(),
 });
 
 type FormValues = z.infer<typeof formSchema>;
@@ -61,6 +90,7 @@ type FormValues = z.infer<typeof formSchema>;
 export default function TrackingSettingsContent() {
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
+  const [metaCapiEnabled, setMetaCapiEnabled] = useState(false);
   const { user } = useAuth();
 
   const form = useForm<FormValues>({
@@ -68,8 +98,15 @@ export default function TrackingSettingsContent() {
     defaultValues: {
       meta_pixel_id: '',
       meta_events: '',
+      meta_capi_access_token: '',
       ga_measurement_id: '',
       ga_events: '',
+      tiktok_pixel_id: '',
+      gtm_container_id: '',
+      google_ads_id: '',
+      google_ads_conversions: { begin_checkout: '', add_to_cart: '', view_item: '' },
+      custom_head_html: '',
+      require_consent: false,
     },
   });
 
@@ -83,7 +120,11 @@ export default function TrackingSettingsContent() {
     try {
       const { data, error } = await supabase
         .from('tracking_settings')
-        .select('*')
+        .select(`
+          meta_pixel_id, meta_events, meta_capi_enabled, ga_measurement_id, ga_events,
+          tiktok_pixel_id, gtm_container_id, google_ads_id, google_ads_conversions,
+          custom_head_html, require_consent
+        `)
         .eq('user_id', user?.id)
         .eq('is_active', true)
         .maybeSingle();
@@ -96,9 +137,21 @@ export default function TrackingSettingsContent() {
         form.reset({
           meta_pixel_id: data.meta_pixel_id || '',
           meta_events: data.meta_events ? JSON.stringify(data.meta_events, null, 2) : '',
+          meta_capi_access_token: '',
           ga_measurement_id: data.ga_measurement_id || '',
           ga_events: data.ga_events ? JSON.stringify(data.ga_events, null, 2) : '',
+          tiktok_pixel_id: data.tiktok_pixel_id || '',
+          gtm_container_id: data.gtm_container_id || '',
+          google_ads_id: data.google_ads_id || '',
+          google_ads_conversions: {
+            begin_checkout: data.google_ads_conversions?.begin_checkout || '',
+            add_to_cart: data.google_ads_conversions?.add_to_cart || '',
+            view_item: data.google_ads_conversions?.view_item || '',
+          },
+          custom_head_html: data.custom_head_html || '',
+          require_consent: !!data.require_consent,
         });
+        setMetaCapiEnabled(!!data.meta_capi_enabled);
       }
     } catch (error) {
       console.error('Error loading tracking settings:', error);
@@ -112,6 +165,25 @@ export default function TrackingSettingsContent() {
     try {
       setSaving(true);
 
+      // Only the tags the storefront is able to load are saved
+      const snippet = sanitizeHeadSnippet(values.custom_head_html || '');
+      if (snippet.removed.length > 0) {
+        toast.warning(`Removido do script personalizado: ${snippet.removed.join(', ')}`);
+        form.setValue('custom_head_html', snippet.html);
+      }
+
+      const conversionLabels = Object.fromEntries(
+        Object.entries(values.google_ads_conversions).filter(([, label]) => !!label)
+      );
+      const providerSettings = {
+        tiktok_pixel_id: values.tiktok_pixel_id || null,
+        gtm_container_id: values.gtm_container_id || null,
+        google_ads_id: values.google_ads_id || null,
+        google_ads_conversions: Object.keys(conversionLabels).length > 0 ? conversionLabels : null,
+        custom_head_html: snippet.html || null,
+        require_consent: values.require_consent,
+      };
+
       const { data: existingSettings } = await supabase
         .from('tracking_settings')
         .select('id')
@@ -126,8 +198,11 @@ export default function TrackingSettingsContent() {
           .update({
             meta_pixel_id: values.meta_pixel_id || null,
             meta_events: values.meta_events ? JSON.parse(values.meta_events) : null,
+            // A blank token field keeps the saved token
+            ...(values.meta_capi_access_token ? { meta_capi_access_token: values.meta_capi_access_token } : {}),
             ga_measurement_id: values.ga_measurement_id || null,
             ga_events: values.ga_events ? JSON.parse(values.ga_events) : null,
+            ...providerSettings,
             updated_at: new Date().toISOString(),
           })
           .eq('id', existingSettings.id);
@@ -141,14 +216,20 @@ export default function TrackingSettingsContent() {
             user_id: user?.id,
             meta_pixel_id: values.meta_pixel_id || null,
             meta_events: values.meta_events ? JSON.parse(values.meta_events) : null,
+            meta_capi_access_token: values.meta_capi_access_token || null,
             ga_measurement_id: values.ga_measurement_id || null,
             ga_events: values.ga_events ? JSON.parse(values.ga_events) : null,
+            ...providerSettings,
             is_active: true,
           });
 
         if (error) throw error;
       }
 
+      if (values.meta_capi_access_token) {
+        setMetaCapiEnabled(true);
+        form.setValue('meta_capi_access_token', '');
+      }
       toast.success('Configurações salvas com sucesso');
     } catch (error) {
       console.error('Error saving tracking settings:', error);
@@ -158,6 +239,28 @@ export default function TrackingSettingsContent() {
     }
   };
 
+  const handleRemoveMetaCapiToken = async () => {
+    try {
+      setSaving(true);
+
+      const { error } = await supabase
+        .from('tracking_settings')
+        .update({ meta_capi_access_token: null, updated_at: new Date().toISOString() })
+        .eq('user_id', user?.id)
+        .eq('is_active', true);
+
+      if (error) throw error;
+
+      setMetaCapiEnabled(false);
+      toast.success('Token removido');
+    } catch (error) {
+      console.error('Error removing Conversions API token:', error);
+      toast.error('Erro ao remover token');
+    } finally {
+      setSaving(false);
+    }
+  };
+
   const getEventPlaceholder = () => {
     switch (user?.niche_type) {
       case 'veiculos':
@@ -231,6 +334,37 @@ export default function TrackingSettingsContent() {
                 )}
               />
 
+              <FormField
+                control={form.control}
+                name="meta_capi_access_token"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Token da API de Conversões</FormLabel>
+                    <div className="flex gap-2">
+                      <FormControl>
+                        <Input
+                          type="password"
+                          autoComplete="off"
+                          placeholder={metaCapiEnabled ? '••••••••••••' : 'EAAB...'}
+                          {...field}
+                        />
+                      </FormControl>
+                      {metaCapiEnabled && (
+                        <Button type="button" variant="outline" onClick={handleRemoveMetaCapiToken} disabled={saving}>
+                          Remover
+                        </Button>
+                      )}
+                    </div>
+                    <FormDescription>
+                      {metaCapiEnabled
+                        ? 'Token configurado: os eventos também são enviados pelo servidor. Deixe em branco para manter o atual.'
+                        : 'Opcional. Gere o token em Configurações do Pixel no Events Manager para enviar os eventos também pelo servidor, sem perdas por bloqueadores de anúncios.'}
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
               <FormField
                 control={form.control}
                 name="meta_events"
@@ -317,6 +451,166 @@ export default function TrackingSettingsContent() {
             </CardContent>
           </Card>
 
+          {/* TikTok Pixel Section */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                TikTok Pixel
+                <TooltipProvider>
+                  <Tooltip>
+                    <TooltipTrigger>
+                      <Info className="h-4 w-4 text-muted-foreground" />
+                    </TooltipTrigger>
+                    <TooltipContent>
+                      <p>Encontre o ID em Ferramentas &gt; Eventos no TikTok Ads Manager</p>
+                    </TooltipContent>
+                  </Tooltip>
+                </TooltipProvider>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <FormField
+                control={form.control}
+                name="tiktok_pixel_id"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>ID do Pixel</FormLabel>
+                    <FormControl>
+                      <Input placeholder="C4A1B2C3D4E5F6G7H8I9" {...field} />
+                    </FormControl>
+                    <FormDescription>
+                      Visualizações, adições ao carrinho e checkouts são enviados automaticamente
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </CardContent>
+          </Card>
+
+          {/* Google Tag Manager Section */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Google Tag Manager</CardTitle>
+              <CardDescription>
+                Os eventos de e-commerce (view_item, add_to_cart, begin_checkout) chegam ao contêiner pela camada de dados
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <FormField
+                control={form.control}
+                name="gtm_container_id"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>ID do Contêiner</FormLabel>
+                    <FormControl>
+                      <Input placeholder="GTM-XXXXXXX" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </CardContent>
+          </Card>
+
+          {/* Google Ads Section */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Google Ads</CardTitle>
+              <CardDescription>
+                Informe o ID da tag e o rótulo de cada ação de conversão criada no Google Ads
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <FormField
+                control={form.control}
+                name="google_ads_id"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>ID de Conversão</FormLabel>
+                    <FormControl>
+                      <Input placeholder="AW-123456789" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="grid gap-4 sm:grid-cols-3">
+                {GOOGLE_ADS_CONVERSION_EVENTS.map(({ event, label }) => (
+                  <FormField
+                    key={event}
+                    control={form.control}
+                    name={`google_ads_conversions.${event}`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{label}</FormLabel>
+                        <FormControl>
+                          <Input placeholder="Rótulo (opcional)" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Custom Head Snippet Section */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Script Personalizado</CardTitle>
+              <CardDescription>
+                Tags adicionadas ao &lt;head&gt; da sua vitrine, como verificações de domínio
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <FormField
+                control={form.control}
+                name="custom_head_html"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormControl>
+                      <Textarea
+                        placeholder={'<meta name="facebook-domain-verification" content="..." />'}
+                        className="font-mono min-h-[120px]"
+                        {...field}
+                      />
+                    </FormControl>
+                    <FormDescription>
+                      Apenas tags &lt;meta&gt; e &lt;link rel=&quot;preconnect&quot;&gt; são mantidas. Scripts não são aceitos: use os campos acima para o Meta, Google e TikTok.
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </CardContent>
+          </Card>
+
+          {/* Cookie Consent Section */}
+          <Card>
+            <CardContent className="pt-6">
+              <FormField
+                control={form.control}
+                name="require_consent"
+                render={({ field }) => (
+                  <FormItem className="flex items-center justify-between gap-4 space-y-0">
+                    <div className="space-y-1">
+                      <FormLabel>Pedir consentimento de cookies</FormLabel>
+                      <FormDescription>
+                        Os pixels e scripts acima só carregam depois que o visitante aceitar os cookies na vitrine
+                      </FormDescription>
+                    </div>
+                    <FormControl>
+                      <Switch checked={field.value} onCheckedChange={field.onChange} />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+            </CardContent>
+          </Card>
+
           <div className="flex justify-end">
             <Button type="submit" disabled={saving}>
               {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
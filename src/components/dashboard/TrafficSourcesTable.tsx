@@ -0,0 +1,63 @@
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { formatCurrencyI18n, type SupportedCurrency } from '@/lib/i18n';
+import { getSourceLabel, type TrafficGrouping, type TrafficSourceRow } from '@/lib/trafficSourceUtils';
+
+interface TrafficSourcesTableProps {
+  rows: TrafficSourceRow[];
+  grouping: TrafficGrouping;
+  currency: SupportedCurrency;
+}
+
+export function TrafficSourcesTable({ rows, grouping, currency }: TrafficSourcesTableProps) {
+  return (
+    <div className="border rounded-lg">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Origem</TableHead>
+            {grouping === 'campaign' && (
+              <>
+                <TableHead>Mídia</TableHead>
+                <TableHead>Campanha</TableHead>
+              </>
+            )}
+            <TableHead className="text-right">Visualizações</TableHead>
+            <TableHead className="text-right">Leads</TableHead>
+            <TableHead className="text-right">Pedidos</TableHead>
+            <TableHead className="text-right">Receita</TableHead>
+            <TableHead className="text-right">Conversão</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map(row => (
+            <TableRow key={`${row.source}-${row.medium}-${row.campaign}`}>
+              <TableCell className="font-medium">{getSourceLabel(row.source)}</TableCell>
+              {grouping === 'campaign' && (
+                <>
+                  <TableCell className="text-muted-foreground">{row.medium || '-'}</TableCell>
+                  <TableCell>{row.campaign || <span className="text-muted-foreground">Sem campanha</span>}</TableCell>
+                </>
+              )}
+              <TableCell className="text-right tabular-nums">{row.views}</TableCell>
+              <TableCell className="text-right tabular-nums">{row.leads}</TableCell>
+              <TableCell className="text-right tabular-nums font-semibold">{row.orders}</TableCell>
+              <TableCell className="text-right tabular-nums whitespace-nowrap">
+                {formatCurrencyI18n(row.revenue, currency, 'pt-BR')}
+              </TableCell>
+              <TableCell className="text-right tabular-nums">
+                {row.views > 0 ? `${((row.orders / row.views) * 100).toFixed(1)}%` : '-'}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
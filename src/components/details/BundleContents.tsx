@@ -0,0 +1,90 @@
+import { Link } from 'react-router-dom';
+import { Package } from 'lucide-react';
+import { formatCurrencyI18n, useTranslation, type SupportedCurrency, type SupportedLanguage } from '@/lib/i18n';
+import { getBundleComponentsTotal } from '@/lib/bundleUtils';
+import type { ProductBundleItem } from '@/types';
+
+interface BundleContentsProps {
+  items: ProductBundleItem[];
+  /** Price the bundle is sold for */
+  bundlePrice?: number;
+  corretorSlug?: string;
+  currency: SupportedCurrency;
+  language: SupportedLanguage;
+}
+
+export default function BundleContents({
+  items,
+  bundlePrice,
+  corretorSlug,
+  currency,
+  language,
+}: BundleContentsProps) {
+  const { t } = useTranslation(language);
+  const sortedItems = [...items]
+    .filter(item => item.component)
+    .sort((a, b) => (a.display_order ?? 0) - (b.display_order ?? 0));
+
+  if (sortedItems.length === 0) return null;
+
+  const componentsTotal = getBundleComponentsTotal(sortedItems);
+  const savings = componentsTotal !== null && bundlePrice ? componentsTotal - bundlePrice : 0;
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-lg font-semibold flex items-center gap-2">
+        <Package className="h-5 w-5" />
+        {t('product.bundle_contents')}
+      </h3>
+
+      <div className="rounded-lg border divide-y">
+        {sortedItems.map(item => {
+          const component = item.component!;
+          const options = [item.color, item.size].filter(Boolean).join(' • ');
+
+          const content = (
+            <div className="flex items-center gap-3 p-3">
+              <img
+                src={component.featured_image_url || 'https://images.pexels.com/photos/3802510/pexels-photo-3802510.jpeg'}
+                alt={component.title}
+                className="h-14 w-14 rounded-md object-cover border bg-white"
+                loading="lazy"
+              />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium line-clamp-2">{component.title}</p>
+                {options && (
+                  <p className="text-xs text-muted-foreground capitalize">{options}</p>
+                )}
+              </div>
+              <span className="text-sm font-semibold whitespace-nowrap">{item.quantity}x</span>
+            </div>
+          );
+
+          return corretorSlug ? (
+            <Link
+              key={item.id ?? component.id}
+              to={`/${corretorSlug}/produtos/${component.id}`}
+              className="block hover:bg-accent/50 transition-colors"
+            >
+              {content}
+            </Link>
+          ) : (
+            <div key={item.id ?? component.id}>{content}</div>
+          );
+        })}
+      </div>
+
+      {componentsTotal !== null && savings > 0 && (
+        <div className="flex items-center justify-between text-sm">
+          <span className="text-muted-foreground">
+            {t('product.bundle_separately')}:{' '}
+            <span className="line-through">{formatCurrencyI18n(componentsTotal, currency, language)}</span>
+          </span>
+          <span className="font-medium text-green-600">
+            {t('product.bundle_savings')} {formatCurrencyI18n(savings, currency, language)}
+          </span>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -15,8 +15,9 @@ interface DistributionSummaryProps {
   items: DistributionItem[];
   hasColors?: boolean;
   hasSizes?: boolean;
-  onUpdateQuantity: (id: string, quantity: number) => void;
-  onRemove: (id: string) => void;
+  onUpdateQuantity?: (id: string, quantity: number) => void;
+  onRemove?: (id: string) => void;
+  readOnly?: boolean;
 }
 
 export default function DistributionSummary({
@@ -25,6 +26,7 @@ export default function DistributionSummary({
   hasSizes,
   onUpdateQuantity,
   onRemove,
+  readOnly = false,
 }: DistributionSummaryProps) {
   if (items.length === 0) return null;
 
@@ -58,35 +60,41 @@ export default function DistributionSummary({
                 </div>
               )}
             </div>
-            <div className="flex items-center gap-2">
-              <Button
-                size="sm"
-                variant="outline"
-                className="h-7 w-7 p-0"
-                onClick={() => onUpdateQuantity(item.id, item.quantity - 1)}
-              >
-                <Minus className="h-3 w-3" />
-              </Button>
+            {readOnly ? (
               <Badge variant="secondary" className="text-xs min-w-[2rem] justify-center">
-                {item.quantity}
+                {item.quantity}x
               </Badge>
-              <Button
-                size="sm"
-                variant="outline"
-                className="h-7 w-7 p-0"
-                onClick={() => onUpdateQuantity(item.id, item.quantity + 1)}
-              >
-                <Plus className="h-3 w-3" />
-              </Button>
-              <Button
-                size="sm"
-                variant="ghost"
-                className="h-7 w-7 p-0 text-destructive hover:text-destructive hover:bg-destructive/10"
-                onClick={() => onRemove(item.id)}
-              >
-                <Trash2 className="h-3 w-3" />
-              </Button>
-            </div>
+            ) : (
+              <div className="flex items-center gap-2">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="h-7 w-7 p-0"
+                  onClick={() => onUpdateQuantity?.(item.id, item.quantity - 1)}
+                >
+                  <Minus className="h-3 w-3" />
+                </Button>
+                <Badge variant="secondary" className="text-xs min-w-[2rem] justify-center">
+                  {item.quantity}
+                </Badge>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="h-7 w-7 p-0"
+                  onClick={() => onUpdateQuantity?.(item.id, item.quantity + 1)}
+                >
+                  <Plus className="h-3 w-3" />
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="h-7 w-7 p-0 text-destructive hover:text-destructive hover:bg-destructive/10"
+                  onClick={() => onRemove?.(item.id)}
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </div>
+            )}
           </motion.div>
         ))}
       </AnimatePresence>
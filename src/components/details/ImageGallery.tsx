@@ -25,6 +25,12 @@ export default function ImageGallery({ media, title }: ImageGalleryProps) {
 
   const imageItems = media.filter(item => item.media_type !== 'video');
   const videoItems = media.filter(item => item.media_type === 'video');
+  const mediaKey = media.map(item => item.id).join(',');
+
+  // Start from the first photo when the media changes, e.g. after picking another color
+  useEffect(() => {
+    setCurrentMainIndex(0);
+  }, [mediaKey]);
 
   useEffect(() => {
     console.log('🎬 ImageGallery Debug:', {
@@ -94,7 +100,7 @@ export default function ImageGallery({ media, title }: ImageGalleryProps) {
     }
   };
 
-  const currentMainItem = media[currentMainIndex];
+  const currentMainItem = media[currentMainIndex] ?? media[0];
 
   return (
     <>
@@ -13,6 +13,9 @@ import { motion, AnimatePresence } from 'framer-motion';
 import PriceTierBadge from './PriceTierBadge';
 import SavingsIndicator from './SavingsIndicator';
 import DistributionSummary from './DistributionSummary';
+import PromotionCountdown from '@/components/product/PromotionCountdown';
+import { applyPromotion } from '@/lib/promotionUtils';
+import { toEcommerceItem, trackAddToCart, trackAddToCartItems } from '@/lib/ecommerceTracking';
 
 interface DistributionItem {
   id: string;
@@ -75,8 +78,14 @@ export default function QuickPurchasePanel({
     }
 
     const basePrice = effectiveBasePriceForComparison;
-    let unitPrice = basePrice;
-    let totalPrice = basePrice * quantity;
+    // A running promotion lowers the unit price; tiered products keep their tier prices
+    const promotionalPricing = applyPromotion(
+      { price: product.price, discounted_price: product.discounted_price },
+      product.active_promotion
+    );
+    const isPromotion = !product.has_tiered_pricing && promotionalPricing.discounted_price !== product.discounted_price;
+    let unitPrice = isPromotion ? promotionalPricing.discounted_price! : basePrice;
+    let totalPrice = unitPrice * quantity;
 
     if (product.has_tiered_pricing && priceTiers.length > 0) {
       const sortedTiers = [...priceTiers].sort((a, b) => a.min_quantity - b.min_quantity);
@@ -98,9 +107,9 @@ export default function QuickPurchasePanel({
     }
 
     const savings = (basePrice * quantity) - totalPrice;
-    const showSavings = product.has_tiered_pricing && savings > 0;
+    const showSavings = (product.has_tiered_pricing || isPromotion) && savings > 0;
 
-    return { unitPrice, totalPrice, savings, showSavings, basePrice };
+    return { unitPrice, totalPrice, savings, showSavings, basePrice, isPromotion };
   };
 
   const addDistributionItem = () => {
@@ -173,6 +182,15 @@ export default function QuickPurchasePanel({
 
     onAddToCart(quantity, distributionItems);
 
+    const { unitPrice } = calculatePricing();
+    if (distributionItems.length > 0) {
+      trackAddToCartItems(product, currency, distributionItems.map(item =>
+        toEcommerceItem(product, { ...item, price: unitPrice })
+      ));
+    } else {
+      trackAddToCart(product, currency, { quantity, price: unitPrice });
+    }
+
     setQuantity(product.has_tiered_pricing && priceTiers.length > 0 ? priceTiers[0].min_quantity : 1);
     setDistributionItems([]);
     setNewItemColor(undefined);
@@ -188,6 +206,10 @@ export default function QuickPurchasePanel({
       transition={{ duration: 0.4 }}
       className="space-y-4"
     >
+      {pricing.isPromotion && product.active_promotion && (
+        <PromotionCountdown promotion={product.active_promotion} language={language} />
+      )}
+
       {product.has_tiered_pricing && priceTiers.length > 0 && (
         <PriceTierBadge
           currentQuantity={quantity}
@@ -474,6 +496,7 @@ export default function QuickPurchasePanel({
           savings={pricing.savings}
           currency={currency}
           language={language}
+          promotionName={pricing.isPromotion ? product.active_promotion?.name : undefined}
         />
       )}
 
@@ -0,0 +1,42 @@
+import { ProductCard } from '@/components/product/ProductCard';
+import type { SupportedCurrency, SupportedLanguage } from '@/lib/i18n';
+import type { Product } from '@/types';
+
+interface RecommendedProductsProps {
+  title: string;
+  listName: string;
+  products: Product[];
+  corretorSlug: string;
+  currency: SupportedCurrency;
+  language: SupportedLanguage;
+}
+
+export default function RecommendedProducts({
+  title,
+  listName,
+  products,
+  corretorSlug,
+  currency,
+  language,
+}: RecommendedProductsProps) {
+  if (products.length === 0) return null;
+
+  return (
+    <section className="space-y-4">
+      <h2 className="text-xl md:text-2xl font-bold">{title}</h2>
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 lg:gap-6">
+        {products.map(product => (
+          <ProductCard
+            key={product.id}
+            product={product}
+            corretorSlug={corretorSlug}
+            currency={currency}
+            language={language}
+            listName={listName}
+            onNavigate={() => window.scrollTo({ top: 0 })}
+          />
+        ))}
+      </div>
+    </section>
+  );
+}
@@ -6,12 +6,15 @@ interface SavingsIndicatorProps {
   savings: number;
   currency: SupportedCurrency;
   language: SupportedLanguage;
+  /** Savings come from this promotion rather than the quantity discount */
+  promotionName?: string;
 }
 
 export default function SavingsIndicator({
   savings,
   currency,
   language,
+  promotionName,
 }: SavingsIndicatorProps) {
   if (savings <= 0) return null;
 
@@ -84,7 +87,7 @@ export default function SavingsIndicator({
       </div>
 
       <div className="mt-2 text-xs text-green-600 dark:text-green-400 font-medium">
-        Com o desconto por quantidade aplicado
+        {promotionName ? `Com a promoção ${promotionName} aplicada` : 'Com o desconto por quantidade aplicado'}
       </div>
     </motion.div>
   );
@@ -0,0 +1,41 @@
+import React from 'react';
+import { Heart } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { useTranslation, type SupportedLanguage } from '@/lib/i18n';
+import { useFavorites } from '@/hooks/useFavorites';
+import type { Product } from '@/types';
+
+interface FavoriteButtonProps {
+  product: Product;
+  language: SupportedLanguage;
+  className?: string;
+}
+
+export default function FavoriteButton({ product, language, className }: FavoriteButtonProps) {
+  const { t } = useTranslation(language);
+  const { isFavorite, toggleFavorite } = useFavorites();
+  const favorited = isFavorite(product.id);
+
+  const handleClick = (e: React.MouseEvent) => {
+    // Cards are links; the heart must not open the product
+    e.preventDefault();
+    e.stopPropagation();
+    toggleFavorite(product);
+  };
+
+  return (
+    <Button
+      type="button"
+      size="icon"
+      variant="ghost"
+      className={cn('rounded-full', className)}
+      onClick={handleClick}
+      aria-pressed={favorited}
+      aria-label={favorited ? t('favorites.remove') : t('favorites.add')}
+      title={favorited ? t('favorites.remove') : t('favorites.add')}
+    >
+      <Heart className={cn('h-5 w-5 transition-colors', favorited && 'fill-red-500 text-red-500')} />
+    </Button>
+  );
+}
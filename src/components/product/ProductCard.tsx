@@ -8,9 +8,18 @@ import { formatCurrencyI18n, useTranslation, type SupportedLanguage, type Suppor
 import { useCart } from '@/contexts/CartContext';
 import ProductVariantModal from './ProductVariantModal';
 import type { Product } from '@/types';
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { fetchProductPriceTiers, getMinimumPriceFromTiers, getFirstTierPrices } from '@/lib/tieredPricingUtils';
 import { supabase } from '@/lib/supabase';
+import { getHighlightSegments } from '@/lib/searchUtils';
+import { formatBundleItem, getBundleItemSummaries } from '@/lib/bundleUtils';
+import { getVariantPricing } from '@/lib/variantUtils';
+import { trackAddToCart, trackItemListImpression } from '@/lib/ecommerceTracking';
+import PromotionCountdown from './PromotionCountdown';
+import FavoriteButton from './FavoriteButton';
+
+// Bundle items listed on the card before collapsing into "+N"
+const CARD_BUNDLE_ITEMS = 3;
 
 interface ProductCardProps {
   product: Product;
@@ -18,6 +27,9 @@ interface ProductCardProps {
   currency?: SupportedCurrency;
   language?: SupportedLanguage;
   onNavigate?: () => void;
+  highlightQuery?: string;
+  /** Reported as `item_list_name` when the card is seen */
+  listName?: string;
 }
 
 export function ProductCard({
@@ -25,7 +37,9 @@ export function ProductCard({
   corretorSlug,
   currency = 'BRL',
   language = 'pt-BR',
-  onNavigate
+  onNavigate,
+  highlightQuery,
+  listName = 'storefront'
 }: ProductCardProps) {
   const { t } = useTranslation(language);
   const { addToCart, isInCart, getItemQuantity } = useCart();
@@ -34,6 +48,22 @@ export function ProductCard({
   const [firstTierPrices, setFirstTierPrices] = useState<any>(null);
   const [loadingTiers, setLoadingTiers] = useState(false);
   const [displayImageUrl, setDisplayImageUrl] = useState<string | null>(product.featured_image_url || null);
+  const cardRef = useRef<HTMLDivElement>(null);
+
+  // Report the card once at least half of it has been on screen
+  useEffect(() => {
+    const card = cardRef.current;
+    if (!card || typeof IntersectionObserver === 'undefined') return;
+
+    const observer = new IntersectionObserver(([entry]) => {
+      if (!entry.isIntersecting) return;
+      trackItemListImpression(product, currency, listName);
+      observer.disconnect();
+    }, { threshold: 0.5 });
+
+    observer.observe(card);
+    return () => observer.disconnect();
+  }, [product, currency, listName]);
 
   useEffect(() => {
     if (product.has_tiered_pricing) {
@@ -72,12 +102,14 @@ export function ProductCard({
 
   // Calculate discount information
   const effectiveMinPrice = product.has_tiered_pricing && minimumTieredPrice && minimumTieredPrice > 0 ? minimumTieredPrice : null;
-  const hasDiscount = product.discounted_price && product.discounted_price < product.price;
-  const baseDisplayPrice = hasDiscount ? product.discounted_price : product.price;
+  // Includes a running promotion, which applies on top of the product discount
+  const { price: regularPrice, discounted_price: discountedPrice } = getVariantPricing(product);
+  const hasDiscount = discountedPrice && regularPrice && discountedPrice < regularPrice;
+  const baseDisplayPrice = hasDiscount ? discountedPrice : regularPrice;
   const displayPrice = effectiveMinPrice !== null ? effectiveMinPrice : baseDisplayPrice;
-  const originalPrice = hasDiscount ? product.price : null;
-  const discountPercentage = hasDiscount && product.price > 0
-    ? Math.round(((product.price - product.discounted_price!) / product.price) * 100)
+  const originalPrice = hasDiscount ? regularPrice : null;
+  const discountPercentage = hasDiscount && regularPrice > 0
+    ? Math.round(((regularPrice - discountedPrice) / regularPrice) * 100)
     : null;
   const isTieredPricing = product.has_tiered_pricing && effectiveMinPrice !== null && effectiveMinPrice > 0;
 
@@ -98,6 +130,7 @@ export function ProductCard({
   const hasOptions = hasColors || hasSizes;
   
   const totalInCart = getItemQuantity(product.id);
+  const bundleItems = product.product_type === 'bundle' ? getBundleItemSummaries(product.bundle_items) : [];
 
   // Debug logging for troubleshooting
   if (process.env.NODE_ENV === 'development') {
@@ -125,6 +158,7 @@ export function ProductCard({
     // For simple products without options or tiered pricing, add directly to cart
     if (isAvailable && hasPrice && !hasOptions && !product.has_tiered_pricing) {
       addToCart(product);
+      trackAddToCart(product, currency);
       return;
     }
 
@@ -148,6 +182,7 @@ export function ProductCard({
 
   return (
     <motion.div
+      ref={cardRef}
       className="h-full"
       initial={{ opacity: 0, y: 20 }}
       animate={{ opacity: 1, y: 0 }}
@@ -175,6 +210,24 @@ export function ProductCard({
               />
             </div>
             
+            {/* Bundle Badge - Top Left */}
+            {bundleItems.length > 0 && (
+              <div className="absolute top-3 left-3 md:top-5 md:left-5">
+                <Badge variant="secondary" className="text-[10px] md:text-xs px-1.5 md:px-2 py-0.5 md:py-1">
+                  {t('product.bundle')}
+                </Badge>
+              </div>
+            )}
+
+            {/* Favorite Toggle - Bottom Right */}
+            <div className="absolute bottom-3 right-3 md:bottom-5 md:right-5">
+              <FavoriteButton
+                product={product}
+                language={language}
+                className="h-8 w-8 bg-background/80 backdrop-blur-sm hover:bg-background shadow-sm"
+              />
+            </div>
+
             {/* Badges - Top Right */}
             <div className="absolute top-3 right-3 md:top-5 md:right-5 flex flex-col gap-1.5">
               {(hasDiscount && discountPercentage || (isTieredPricing && firstTierPrices?.discountPercentage)) && (
@@ -188,8 +241,30 @@ export function ProductCard({
           {/* Product Info */}
           <div className="p-2 md:p-4 flex-1 flex flex-col">
             <h3 className="font-semibold text-xs md:text-sm leading-tight mb-2 md:mb-3 line-clamp-2 min-h-[32px] md:h-[35px]">
-              {product.title}
+              {highlightQuery
+                ? getHighlightSegments(product.title, highlightQuery).map((segment, index) =>
+                    segment.highlight ? (
+                      <mark key={index} className="bg-primary/15 text-inherit rounded-sm">
+                        {segment.text}
+                      </mark>
+                    ) : (
+                      <React.Fragment key={index}>{segment.text}</React.Fragment>
+                    )
+                  )
+                : product.title}
             </h3>
+
+            {/* Bundle Contents */}
+            {bundleItems.length > 0 && (
+              <ul className="mb-2 space-y-0.5 text-[10px] md:text-xs text-muted-foreground">
+                {bundleItems.slice(0, CARD_BUNDLE_ITEMS).map((item, index) => (
+                  <li key={index} className="line-clamp-1">{formatBundleItem(item)}</li>
+                ))}
+                {bundleItems.length > CARD_BUNDLE_ITEMS && (
+                  <li>+{bundleItems.length - CARD_BUNDLE_ITEMS}</li>
+                )}
+              </ul>
+            )}
             
             <div className="mt-auto">
               {/* Price Display */}
@@ -238,6 +313,16 @@ export function ProductCard({
                 </div>
               ) : null}
 
+              {/* Promotion Countdown */}
+              {product.active_promotion && hasDiscount && !isTieredPricing && (
+                <PromotionCountdown
+                  promotion={product.active_promotion}
+                  language={language}
+                  compact
+                  className="mt-1"
+                />
+              )}
+
               {/* Short Description */}
               {product.short_description && (
                 <p className="text-xs text-muted-foreground mt-2 line-clamp-1 md:line-clamp-2">
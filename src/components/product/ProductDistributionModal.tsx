@@ -8,8 +8,11 @@ import { CircleAlert as AlertCircle, Check, Plus, X, Package } from 'lucide-reac
 import type { Product, PriceTier } from '@/types';
 import { fetchProductPriceTiers, calculateApplicablePrice } from '@/lib/tieredPricingUtils';
 import { validateDistribution } from '@/lib/distributionUtils';
+import { useProductStock } from '@/hooks/useProductStock';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
+import { toEcommerceItem, trackAddToCartItems } from '@/lib/ecommerceTracking';
+import type { SupportedCurrency } from '@/lib/i18n';
 
 interface DistributionItemInput {
   id: string;
@@ -22,6 +25,7 @@ interface ProductDistributionModalProps {
   open: boolean;
   onClose: () => void;
   product: Product;
+  currency?: SupportedCurrency;
   onConfirm: (totalQuantity: number, items: Array<{ color?: string; size?: string; quantity: number }>) => void;
 }
 
@@ -29,6 +33,7 @@ export function ProductDistributionModal({
   open,
   onClose,
   product,
+  currency = 'BRL',
   onConfirm,
 }: ProductDistributionModalProps) {
   const [totalQuantity, setTotalQuantity] = useState<number>(1);
@@ -43,6 +48,10 @@ export function ProductDistributionModal({
   const hasColors = product.colors && product.colors.length > 0;
   const hasSizes = product.sizes && product.sizes.length > 0;
 
+  const { getAvailable, isSoldOut } = useProductStock(product.id, product.track_stock);
+  const newItemAvailable = getAvailable(hasColors ? newColor : undefined, hasSizes ? newSize : undefined);
+  const exceedsNewItemStock = newItemAvailable !== null && newQuantity > newItemAvailable;
+
   useEffect(() => {
     if (open && product.has_tiered_pricing) {
       loadTiers();
@@ -76,8 +85,18 @@ export function ProductDistributionModal({
     ? calculateApplicablePrice(effectiveTotalQuantity, tiers, product.price || 0, product.discounted_price)
     : null;
 
+  const stockErrors = items
+    .filter(item => {
+      const available = getAvailable(item.color, item.size);
+      return available !== null && item.quantity > available;
+    })
+    .map(item => {
+      const label = [item.color, item.size].filter(Boolean).join(' / ');
+      return `Estoque insuficiente para ${label} (disponível: ${getAvailable(item.color, item.size)})`;
+    });
+
   // Validação adaptada para preço escalonado
-  const validation = hasTieredPricing
+  const baseValidation = hasTieredPricing
     ? {
         isValid: items.length > 0 && distributedSum > 0 && items.every(item => item.quantity > 0),
         errors: items.length === 0 ? ['Adicione pelo menos uma variação'] :
@@ -87,10 +106,17 @@ export function ProductDistributionModal({
       }
     : validateDistribution(totalQuantity, items);
 
+  const validation = {
+    ...baseValidation,
+    isValid: baseValidation.isValid && stockErrors.length === 0,
+    errors: [...baseValidation.errors, ...stockErrors],
+  };
+
   const addItem = () => {
     if (newQuantity <= 0) return;
     if (hasColors && !newColor) return;
     if (hasSizes && !newSize) return;
+    if (exceedsNewItemStock) return;
 
     const isDuplicate = items.some(
       item => item.color === newColor && item.size === newSize
@@ -135,6 +161,9 @@ export function ProductDistributionModal({
     }));
 
     onConfirm(effectiveTotalQuantity, cleanedItems);
+    trackAddToCartItems(product, currency, cleanedItems.map(item =>
+      toEcommerceItem(product, { ...item, price: priceResult?.unitPrice })
+    ));
     handleClose();
   };
 
@@ -238,9 +267,14 @@ export function ProductDistributionModal({
                     className="w-full h-9 px-3 rounded-md border border-input bg-background text-sm"
                   >
                     <option value="">Selecione</option>
-                    {product.colors?.map(color => (
-                      <option key={color} value={color}>{color}</option>
-                    ))}
+                    {product.colors?.map(color => {
+                      const soldOut = isSoldOut(color, hasSizes && newSize ? newSize : undefined);
+                      return (
+                        <option key={color} value={color} disabled={soldOut}>
+                          {color}{soldOut ? ' (esgotado)' : ''}
+                        </option>
+                      );
+                    })}
                   </select>
                 </div>
               )}
@@ -255,9 +289,14 @@ export function ProductDistributionModal({
                     className="w-full h-9 px-3 rounded-md border border-input bg-background text-sm"
                   >
                     <option value="">Selecione</option>
-                    {product.sizes?.map(size => (
-                      <option key={size} value={size}>{size}</option>
-                    ))}
+                    {product.sizes?.map(size => {
+                      const soldOut = isSoldOut(hasColors && newColor ? newColor : undefined, size);
+                      return (
+                        <option key={size} value={size} disabled={soldOut}>
+                          {size}{soldOut ? ' (esgotado)' : ''}
+                        </option>
+                      );
+                    })}
                   </select>
                 </div>
               )}
@@ -282,7 +321,8 @@ export function ProductDistributionModal({
                   disabled={
                     (hasColors && !newColor) ||
                     (hasSizes && !newSize) ||
-                    newQuantity <= 0
+                    newQuantity <= 0 ||
+                    exceedsNewItemStock
                   }
                   className="h-9 w-9"
                 >
@@ -1,6 +1,6 @@
 import { useState } from 'react';
 import { useEffect } from 'react';
-import { Search, SlidersHorizontal } from 'lucide-react';
+import { ArrowUpDown, Check, Search, SlidersHorizontal } from 'lucide-react';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import {
@@ -22,17 +22,30 @@ import {
 import { Label } from '@/components/ui/label';
 import { Slider } from '@/components/ui/slider';
 import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { formatCurrency } from '@/lib/utils';
-import type { Product } from '@/types';
-import { sanitizeCategoryName, categoriesEqual, normalizeCategoryNameForComparison, logCategoryOperation } from '@/lib/categoryUtils';
+import { cn, formatCurrency } from '@/lib/utils';
+import type { Product, ProductSortOption } from '@/types';
+import { sanitizeCategoryName, normalizeCategoryNameForComparison } from '@/lib/categoryUtils';
 import { useTranslation, type SupportedLanguage, type SupportedCurrency } from '@/lib/i18n';
 import { formatSizeLabel, getSizeTypeWithFallback, type SizeTypeMapping } from '@/lib/sizeTypeUtils';
 import type { ProductFilterMetadata } from '@/hooks/useProductFilterMetadata';
+import {
+  PRODUCT_FACETS,
+  PRODUCT_SORT_OPTIONS,
+  createDefaultFilters,
+  getFacetCount,
+  resolveProductSort,
+  type FacetCounts,
+  type ProductFacet,
+  type ProductFilters
+} from '@/utils/productDisplayUtils';
+
+export type { ProductFilters };
 
 interface ProductSearchProps {
   onFiltersChange?: (filters: ProductFilters) => void;
   products?: Product[];
   filterMetadata?: ProductFilterMetadata;
+  facetCounts?: FacetCounts | null;
   currency?: SupportedCurrency;
   language?: SupportedLanguage;
   settings?: {
@@ -48,24 +61,49 @@ interface ProductSearchProps {
       minPrice?: number;
       maxPrice?: number;
     };
+    defaultSort?: ProductSortOption;
   };
   sizeTypeMapping?: SizeTypeMapping;
   initialFilters?: ProductFilters;
 }
 
-export interface ProductFilters {
-  query: string;
-  status: string;
-  minPrice: number;
-  maxPrice: number;
-  category: string;
-  brand: string;
-  gender: string;
-  sizes: string;
-  condition: string;
+interface FacetOptionProps {
+  label: string;
+  selected: boolean;
+  count?: number;
+  onToggle: () => void;
+}
+
+function FacetOption({ label, selected, count, onToggle }: FacetOptionProps) {
+  // Options that would empty the results stay visible but can't be picked
+  const unavailable = !selected && count === 0;
+
+  return (
+    <button
+      type="button"
+      onClick={onToggle}
+      disabled={unavailable}
+      aria-pressed={selected}
+      className={cn(
+        'inline-flex items-center gap-1.5 rounded-full border px-3 py-1 text-sm transition-colors',
+        selected
+          ? 'border-primary bg-primary text-primary-foreground'
+          : 'bg-background hover:bg-muted',
+        unavailable && 'opacity-50 cursor-not-allowed hover:bg-background'
+      )}
+    >
+      {selected && <Check className="h-3.5 w-3.5" />}
+      <span>{label}</span>
+      {count !== undefined && (
+        <span className={cn('text-xs', selected ? 'text-primary-foreground/80' : 'text-muted-foreground')}>
+          {count}
+        </span>
+      )}
+    </button>
+  );
 }
 
-export default function ProductSearch({ onFiltersChange, products = [], filterMetadata, currency = 'BRL', language = 'pt-BR', settings = {}, sizeTypeMapping = {}, initialFilters: propInitialFilters }: ProductSearchProps) {
+export default function ProductSearch({ onFiltersChange, products = [], filterMetadata, facetCounts, currency = 'BRL', language = 'pt-BR', settings = {}, sizeTypeMapping = {}, initialFilters: propInitialFilters }: ProductSearchProps) {
   const { t } = useTranslation(language);
 
   // Provide default function to prevent undefined errors
@@ -75,17 +113,7 @@ export default function ProductSearch({ onFiltersChange, products = [], filterMe
   const configuredMinPrice = settings.priceRange?.minPrice ?? 0;
   const configuredMaxPrice = settings.priceRange?.maxPrice ?? 5000;
 
-  const defaultFilters: ProductFilters = {
-    query: '',
-    status: 'todos',
-    minPrice: configuredMinPrice,
-    maxPrice: configuredMaxPrice,
-    category: 'todos',
-    brand: 'todos',
-    gender: 'todos',
-    sizes: 'todos',
-    condition: 'todos'
-  };
+  const defaultFilters = createDefaultFilters(settings);
 
   const initialFilters = propInitialFilters || defaultFilters;
 
@@ -95,6 +123,14 @@ export default function ProductSearch({ onFiltersChange, products = [], filterMe
   const [actualMinPrice, setActualMinPrice] = useState(configuredMinPrice);
   const [actualMaxPrice, setActualMaxPrice] = useState(configuredMaxPrice);
 
+  // Follow filters applied from outside (URL, back navigation, restored page state)
+  useEffect(() => {
+    if (propInitialFilters) {
+      setFilters(propInitialFilters);
+      setPriceRange([propInitialFilters.minPrice, propInitialFilters.maxPrice]);
+    }
+  }, [propInitialFilters]);
+
   // Calculate actual price range from products (including tiered pricing)
   useEffect(() => {
     if (products.length > 0) {
@@ -197,9 +233,9 @@ export default function ProductSearch({ onFiltersChange, products = [], filterMe
 
   const handleReset = () => {
     const resetFilters = {
-      ...initialFilters,
-      minPrice: configuredMinPrice,
-      maxPrice: configuredMaxPrice
+      ...defaultFilters,
+      query: filters.query,
+      sort: filters.sort
     };
     setFilters(resetFilters);
     setPriceRange([configuredMinPrice, configuredMaxPrice]);
@@ -225,6 +261,53 @@ export default function ProductSearch({ onFiltersChange, products = [], filterMe
     handleFiltersChange(searchFilters);
   };
 
+  // Facet selections apply immediately so the counts stay in sync with the results
+  const toggleFacetValue = (facet: ProductFacet, value: string) => {
+    const normalized = normalizeCategoryNameForComparison(value);
+    const current = filters[facet];
+    const isSelected = current.some(item => normalizeCategoryNameForComparison(item) === normalized);
+    const updatedFilters = {
+      ...filters,
+      [facet]: isSelected
+        ? current.filter(item => normalizeCategoryNameForComparison(item) !== normalized)
+        : [...current, value],
+      minPrice: priceRange[0],
+      maxPrice: priceRange[1]
+    };
+    setFilters(updatedFilters);
+    handleFiltersChange(updatedFilters);
+  };
+
+  const isFacetValueSelected = (facet: ProductFacet, value: string) => {
+    const normalized = normalizeCategoryNameForComparison(value);
+    return filters[facet].some(item => normalizeCategoryNameForComparison(item) === normalized);
+  };
+
+  const renderFacetOption = (facet: ProductFacet, value: string, label: string = value) => (
+    <FacetOption
+      key={value}
+      label={label}
+      selected={isFacetValueSelected(facet, value)}
+      count={facetCounts ? getFacetCount(facetCounts, facet, value) : undefined}
+      onToggle={() => toggleFacetValue(facet, value)}
+    />
+  );
+
+  const handleSortChange = (value: string) => {
+    const sort = value as ProductSortOption;
+    // Picking the seller's default clears the choice so the URL stays clean
+    const updatedFilters = {
+      ...filters,
+      sort: sort === resolveProductSort('', settings) ? '' as const : sort,
+      minPrice: priceRange[0],
+      maxPrice: priceRange[1]
+    };
+    setFilters(updatedFilters);
+    handleFiltersChange(updatedFilters);
+  };
+
+  const activeFacetCount = PRODUCT_FACETS.reduce((total, facet) => total + filters[facet].length, 0);
+
   // If filters are disabled, don't render the component
   if (!showFilters) return null;
 
@@ -245,14 +328,32 @@ export default function ProductSearch({ onFiltersChange, products = [], filterMe
             />
           </div>
         )}
+        <Select value={resolveProductSort(filters.sort, settings)} onValueChange={handleSortChange}>
+          <SelectTrigger className="w-auto gap-2" aria-label={t('sort.label')}>
+            <ArrowUpDown className="h-4 w-4 text-muted-foreground" />
+            <SelectValue placeholder={t('sort.label')} />
+          </SelectTrigger>
+          <SelectContent align="end">
+            {PRODUCT_SORT_OPTIONS.map(option => (
+              <SelectItem key={option.value} value={option.value}>
+                {t(option.labelKey)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
         <Sheet open={isOpen} onOpenChange={setIsOpen}>
           <SheetTrigger asChild>
             <Button variant="outline">
               <SlidersHorizontal className="h-4 w-4 mr-2" />
               {t('header.filters')}
+              {activeFacetCount > 0 && (
+                <span className="ml-2 rounded-full bg-primary px-1.5 text-xs text-primary-foreground">
+                  {activeFacetCount}
+                </span>
+              )}
             </Button>
           </SheetTrigger>
-          <SheetContent className="w-full sm:max-w-md">
+          <SheetContent className="w-full sm:max-w-md overflow-y-auto">
             <SheetHeader>
               <SheetTitle>{t('header.filters')}</SheetTitle>
               <SheetDescription>
@@ -282,156 +383,76 @@ export default function ProductSearch({ onFiltersChange, products = [], filterMe
               {showGender && genders.length > 0 && (
                 <div className="space-y-2">
                   <Label>{t('filters.gender')}</Label>
-                  <Select
-                    value={filters.gender}
-                    onValueChange={(value) => setFilters(prev => ({ ...prev, gender: value }))}
-                  >
-                    <SelectTrigger>
-                      <SelectValue placeholder={t('filters.gender')} />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="todos">{t('filters.all_genders')}</SelectItem>
-                      {genders.map(gender => (
-                        <SelectItem key={gender} value={gender}>
-                          {gender === 'masculino' ? t('gender.masculine') : 
-                           gender === 'feminino' ? t('gender.feminine') : t('gender.unisex')}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
+                  <div className="flex flex-wrap gap-2">
+                    {genders.map(gender => renderFacetOption(
+                      'gender',
+                      gender,
+                      gender === 'masculino' ? t('gender.masculine') :
+                      gender === 'feminino' ? t('gender.feminine') : t('gender.unisex')
+                    ))}
+                  </div>
                 </div>
               )}
 
               {showCategories && categories.length > 0 && (
                 <div className="space-y-2">
                   <Label>{t('filters.category')}</Label>
-                  <Select
-                    value={filters.category}
-                    onValueChange={(value) => setFilters(prev => ({ ...prev, category: value }))}
-                  >
-                    <SelectTrigger>
-                      <SelectValue placeholder={t('filters.category')} />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="todos">{t('filters.all_categories')}</SelectItem>
-                      {categories.map(category => (
-                        <SelectItem key={category} value={category}>{category}</SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
+                  <div className="flex flex-wrap gap-2">
+                    {categories.map(category => renderFacetOption('category', category))}
+                  </div>
                 </div>
               )}
 
               {showBrands && brands.length > 0 && (
                 <div className="space-y-2">
                   <Label>{t('filters.brand')}</Label>
-                  <Select
-                    value={filters.brand}
-                    onValueChange={(value) => setFilters(prev => ({ ...prev, brand: value }))}
-                  >
-                    <SelectTrigger>
-                      <SelectValue placeholder={t('filters.brand')} />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="todos">{t('filters.all_brands')}</SelectItem>
-                      {brands.map(brand => (
-                        <SelectItem key={brand} value={brand}>{brand}</SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
+                  <div className="flex flex-wrap gap-2">
+                    {brands.map(brand => renderFacetOption('brand', brand))}
+                  </div>
                 </div>
               )}
 
               {showSizes && sizes.length > 0 && (
                 <div className="space-y-2">
                   <Label>{t('filters.sizes')}</Label>
-                  <Select
-                    value={filters.sizes}
-                    onValueChange={(value) => setFilters(prev => ({ ...prev, sizes: value }))}
-                  >
-                    <SelectTrigger>
-                      <SelectValue placeholder={t('filters.sizes')} />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="todos">{t('filters.all_sizes')}</SelectItem>
-                      {(() => {
-                        const groupedByType: Record<string, string[]> = {
-                          apparel: [],
-                          shoe: [],
-                          custom: []
-                        };
-
-                        sizes.forEach(size => {
-                          const sizeType = getSizeTypeWithFallback(size, sizeTypeMapping);
-                          groupedByType[sizeType].push(size);
-                        });
-
-                        return (
-                          <>
-                            {groupedByType.apparel.length > 0 && (
-                              <>
-                                <div className="px-2 py-1.5 text-xs font-semibold text-muted-foreground">
-                                  {t('size_type.apparel')}
-                                </div>
-                                {groupedByType.apparel.map(size => {
-                                  const displayLabel = formatSizeLabel(size, 'apparel', language);
-                                  return (
-                                    <SelectItem key={size} value={size}>{displayLabel}</SelectItem>
-                                  );
-                                })}
-                              </>
-                            )}
-                            {groupedByType.shoe.length > 0 && (
-                              <>
-                                <div className="px-2 py-1.5 text-xs font-semibold text-muted-foreground">
-                                  {t('size_type.shoe')}
-                                </div>
-                                {groupedByType.shoe.map(size => {
-                                  const displayLabel = formatSizeLabel(size, 'shoe', language);
-                                  return (
-                                    <SelectItem key={size} value={size}>{displayLabel}</SelectItem>
-                                  );
-                                })}
-                              </>
-                            )}
-                            {groupedByType.custom.length > 0 && (
-                              <>
-                                <div className="px-2 py-1.5 text-xs font-semibold text-muted-foreground">
-                                  {t('size_type.custom')}
-                                </div>
-                                {groupedByType.custom.map(size => {
-                                  const displayLabel = formatSizeLabel(size, 'custom', language);
-                                  return (
-                                    <SelectItem key={size} value={size}>{displayLabel}</SelectItem>
-                                  );
-                                })}
-                              </>
+                  {(() => {
+                    const groupedByType: Record<string, string[]> = {
+                      apparel: [],
+                      shoe: [],
+                      custom: []
+                    };
+
+                    sizes.forEach(size => {
+                      const sizeType = getSizeTypeWithFallback(size, sizeTypeMapping);
+                      groupedByType[sizeType].push(size);
+                    });
+
+                    return (['apparel', 'shoe', 'custom'] as const)
+                      .filter(sizeType => groupedByType[sizeType].length > 0)
+                      .map(sizeType => (
+                        <div key={sizeType} className="space-y-1.5">
+                          <div className="text-xs font-semibold text-muted-foreground">
+                            {t(`size_type.${sizeType}`)}
+                          </div>
+                          <div className="flex flex-wrap gap-2">
+                            {groupedByType[sizeType].map(size =>
+                              renderFacetOption('sizes', size, formatSizeLabel(size, sizeType, language))
                             )}
-                          </>
-                        );
-                      })()}
-                    </SelectContent>
-                  </Select>
+                          </div>
+                        </div>
+                      ));
+                  })()}
                 </div>
               )}
 
               {showCondition && (
                 <div className="space-y-2">
                   <Label>{t('filters.condition')}</Label>
-                  <Select
-                    value={filters.condition}
-                    onValueChange={(value) => setFilters(prev => ({ ...prev, condition: value }))}
-                  >
-                    <SelectTrigger>
-                      <SelectValue placeholder={t('filters.condition')} />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="todos">{t('filters.all_conditions')}</SelectItem>
-                      <SelectItem value="novo">{t('condition.new')}</SelectItem>
-                      <SelectItem value="seminovo">{t('condition.semi_new')}</SelectItem>
-                      <SelectItem value="usado">{t('condition.used')}</SelectItem>
-                    </SelectContent>
-                  </Select>
+                  <div className="flex flex-wrap gap-2">
+                    {renderFacetOption('condition', 'novo', t('condition.new'))}
+                    {renderFacetOption('condition', 'seminovo', t('condition.semi_new'))}
+                    {renderFacetOption('condition', 'usado', t('condition.used'))}
+                  </div>
                 </div>
               )}
 
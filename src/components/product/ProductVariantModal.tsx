@@ -18,6 +18,11 @@ import {
   DialogTitle,
 } from '@/components/ui/dialog';
 import { useCart } from '@/contexts/CartContext';
+import { trackStorefrontEvent } from '@/lib/tracking';
+import { toEcommerceItem, trackAddToCart, trackAddToCartItems } from '@/lib/ecommerceTracking';
+import { useProductStock } from '@/hooks/useProductStock';
+import { useProductVariants } from '@/hooks/useProductVariants';
+import { getVariantPricing } from '@/lib/variantUtils';
 import { formatCurrencyI18n, useTranslation, type SupportedLanguage, type SupportedCurrency } from '@/lib/i18n';
 import { toast } from 'sonner';
 import { getColorValue } from '@/lib/utils';
@@ -61,9 +66,22 @@ export default function ProductVariantModal({
   const [minQuantity, setMinQuantity] = useState(1);
   const [selectedColor, setSelectedColor] = useState<string | undefined>();
   const [selectedSize, setSelectedSize] = useState<string | undefined>();
+  const { getAvailable, isSoldOut } = useProductStock(product.id, product.track_stock);
+  const { variants, findVariant } = useProductVariants(open ? product.id : undefined);
   const { addToCart, hasVariant, getVariantQuantity } = useCart();
   const { t } = useTranslation(language);
 
+  const selectOption = (color?: string, size?: string) => {
+    setSelectedColor(color);
+    setSelectedSize(size);
+    if (color || size) {
+      trackStorefrontEvent(product.user_id, 'variant_select', {
+        productIds: [product.id],
+        metadata: { color, size },
+      });
+    }
+  };
+
   useEffect(() => {
     const loadTieredPricing = async () => {
       if (!product.id) return;
@@ -206,6 +224,12 @@ export default function ProductVariantModal({
       return;
     }
 
+    const available = getAvailable(newItemColor, newItemSize);
+    if (available !== null && newItemQuantity > available) {
+      toast.error(`Estoque insuficiente. Disponível: ${available}`);
+      return;
+    }
+
     // Check for duplicate
     const isDuplicate = distributionItems.some(
       item => item.color === newItemColor && item.size === newItemSize
@@ -263,13 +287,28 @@ export default function ProductVariantModal({
 
       // Add each distribution item to cart separately
       distributionItems.forEach(item => {
-        addToCart(product, item.color, item.size, item.quantity, unitPrice);
+        addToCart({ ...product, product_variants: variants }, item.color, item.size, item.quantity, unitPrice);
       });
+      trackAddToCartItems(product, currency, distributionItems.map(item =>
+        toEcommerceItem({ ...product, product_variants: variants }, { ...item, price: unitPrice })
+      ));
 
       toast.success(`${quantity} ${quantity === 1 ? 'item adicionado' : 'itens adicionados'} ao carrinho`);
     } else {
+      const available = getAvailable(selectedColor, selectedSize);
+      if (available !== null && quantity > available) {
+        toast.error(available === 0 ? 'Variação esgotada' : `Estoque insuficiente. Disponível: ${available}`);
+        return;
+      }
+
       // Simple add to cart - pass selected color and size if available
-      addToCart(product, selectedColor, selectedSize, quantity, unitPrice);
+      addToCart({ ...product, product_variants: variants }, selectedColor, selectedSize, quantity, unitPrice);
+      trackAddToCart({ ...product, product_variants: variants }, currency, {
+        quantity,
+        color: selectedColor,
+        size: selectedSize,
+        price: unitPrice,
+      });
       toast.success(`${quantity} ${quantity === 1 ? 'item adicionado' : 'itens adicionados'} ao carrinho`);
     }
 
@@ -281,7 +320,8 @@ export default function ProductVariantModal({
   const canAddToCart = distributionMode ? isDistributionComplete : true;
 
   // Calculate price with tiered pricing if applicable
-  let price = product.discounted_price || product.price;
+  const variantPricing = getVariantPricing(product, findVariant(selectedColor, selectedSize));
+  let price = variantPricing.discounted_price || variantPricing.price;
   let displayPrice = price;
   let totalPrice = price * quantity;
   let pricingInfo = null;
@@ -501,17 +541,21 @@ export default function ProductVariantModal({
                           </SelectValue>
                         </SelectTrigger>
                         <SelectContent>
-                          {product.colors!.map((color: string) => (
-                            <SelectItem key={color} value={color}>
-                              <div className="flex items-center gap-2">
-                                <div
-                                  className="w-3 h-3 rounded-full border border-gray-300"
-                                  style={{ backgroundColor: getColorValue(color) }}
-                                />
-                                <span className="capitalize text-xs">{color}</span>
-                              </div>
-                            </SelectItem>
-                          ))}
+                          {product.colors!.map((color: string) => {
+                            const soldOut = isSoldOut(color, newItemSize);
+                            return (
+                              <SelectItem key={color} value={color} disabled={soldOut}>
+                                <div className="flex items-center gap-2">
+                                  <div
+                                    className="w-3 h-3 rounded-full border border-gray-300"
+                                    style={{ backgroundColor: getColorValue(color) }}
+                                  />
+                                  <span className="capitalize text-xs">{color}</span>
+                                  {soldOut && <span className="text-xs text-muted-foreground">Esgotado</span>}
+                                </div>
+                              </SelectItem>
+                            );
+                          })}
                         </SelectContent>
                       </Select>
                     )}
@@ -530,11 +574,15 @@ export default function ProductVariantModal({
                             const { apparelSizes, shoeSizes } = separateSizes(product.sizes!);
                             const sortedApparelSizes = sortSizes(apparelSizes, false);
                             const sortedShoeSizes = sortSizes(shoeSizes, true);
-                            return [...sortedApparelSizes, ...sortedShoeSizes].map((size: string) => (
-                              <SelectItem key={size} value={size}>
-                                <span className="text-xs">{size}</span>
-                              </SelectItem>
-                            ));
+                            return [...sortedApparelSizes, ...sortedShoeSizes].map((size: string) => {
+                              const soldOut = isSoldOut(newItemColor, size);
+                              return (
+                                <SelectItem key={size} value={size} disabled={soldOut}>
+                                  <span className="text-xs">{size}</span>
+                                  {soldOut && <span className="text-xs text-muted-foreground ml-2">Esgotado</span>}
+                                </SelectItem>
+                              );
+                            });
                           })()}
                         </SelectContent>
                       </Select>
@@ -665,7 +713,7 @@ export default function ProductVariantModal({
               <Label className="text-sm font-medium">
                 Cor <span className="text-destructive">*</span>
               </Label>
-              <Select value={selectedColor || ''} onValueChange={(value) => setSelectedColor(value || undefined)}>
+              <Select value={selectedColor || ''} onValueChange={(value) => selectOption(value || undefined, selectedSize)}>
                 <SelectTrigger>
                   <SelectValue placeholder="Selecione uma cor">
                     {selectedColor && (
@@ -682,14 +730,16 @@ export default function ProductVariantModal({
                 <SelectContent>
                   {product.colors!.map((color: string) => {
                     const colorValue = getColorValue(color);
+                    const soldOut = isSoldOut(color, selectedSize);
                     return (
-                      <SelectItem key={color} value={color}>
+                      <SelectItem key={color} value={color} disabled={soldOut}>
                         <div className="flex items-center gap-2">
                           <div 
                             className="w-4 h-4 rounded-full border border-gray-300 shadow-sm"
                             style={{ backgroundColor: colorValue }}
                           />
                           <span className="capitalize">{color}</span>
+                          {soldOut && <Badge variant="outline" className="text-xs">Esgotado</Badge>}
                         </div>
                       </SelectItem>
                     );
@@ -705,7 +755,7 @@ export default function ProductVariantModal({
               <Label className="text-sm font-medium">
                 Tamanho <span className="text-destructive">*</span>
               </Label>
-              <Select value={selectedSize || ''} onValueChange={(value) => setSelectedSize(value || undefined)}>
+              <Select value={selectedSize || ''} onValueChange={(value) => selectOption(selectedColor, value || undefined)}>
                 <SelectTrigger>
                   <SelectValue placeholder="Selecione um tamanho">
                     {selectedSize && (
@@ -736,9 +786,10 @@ export default function ProductVariantModal({
                       const numericSize = parseInt(size);
                       const isShoeSize = !isNaN(numericSize) && numericSize >= 17 && numericSize <= 43;
                       const isApparelSize = ['PP', 'P', 'M', 'G', 'GG', 'XG', 'XXG'].includes(size);
+                      const soldOut = isSoldOut(selectedColor, size);
                       
                       return (
-                        <SelectItem key={size} value={size}>
+                        <SelectItem key={size} value={size} disabled={soldOut}>
                           <div className="flex items-center gap-2">
                             <span className="font-medium">{size}</span>
                             {isShoeSize && (
@@ -750,6 +801,9 @@ export default function ProductVariantModal({
                             {!isShoeSize && !isApparelSize && (
                               <Badge variant="outline" className="text-xs">Personalizado</Badge>
                             )}
+                            {soldOut && (
+                              <Badge variant="outline" className="text-xs">Esgotado</Badge>
+                            )}
                           </div>
                         </SelectItem>
                       );
@@ -6,27 +6,62 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Label } from '@/components/ui/label';
 import { Separator } from '@/components/ui/separator';
 import { useCart } from '@/contexts/CartContext';
+import { trackStorefrontEvent } from '@/lib/tracking';
+import { trackAddToCart } from '@/lib/ecommerceTracking';
+import { useProductStock } from '@/hooks/useProductStock';
+import { useTieredPricing } from '@/hooks/useTieredPricing';
+import { calculateApplicablePrice } from '@/lib/tieredPricingUtils';
 import { formatCurrencyI18n, type SupportedLanguage, type SupportedCurrency } from '@/lib/i18n';
 import { getColorValue } from '@/lib/utils';
-import type { Product } from '@/types';
+import { findProductVariant, getVariantPricing } from '@/lib/variantUtils';
+import type { Product, ProductVariant } from '@/types';
 
 interface ProductVariantSelectorProps {
   product: Product;
+  /** Variant records of the product, for SKU and price overrides */
+  variants?: ProductVariant[];
+  /** Called whenever the buyer picks or clears a color or size */
+  onSelectionChange?: (color?: string, size?: string) => void;
   currency?: SupportedCurrency;
   language?: SupportedLanguage;
 }
 
 export default function ProductVariantSelector({
   product,
+  variants = [],
+  onSelectionChange,
   currency = 'BRL',
   language = 'pt-BR'
 }: ProductVariantSelectorProps) {
   const [selectedColor, setSelectedColor] = useState<string | undefined>();
   const [selectedSize, setSelectedSize] = useState<string | undefined>();
   const { addToCart, hasVariant, getVariantQuantity, updateVariantQuantity } = useCart();
+  const { isSoldOut } = useProductStock(product.id, product.track_stock);
+  const { tiers } = useTieredPricing(product.id, product.price || 0, product.discounted_price, product.has_tiered_pricing);
+
+  const trackSelection = (color?: string, size?: string) => {
+    if (!color && !size) return;
+    trackStorefrontEvent(product.user_id, 'variant_select', {
+      productIds: [product.id],
+      metadata: { color, size },
+    });
+  };
+
+  const selectColor = (color?: string) => {
+    setSelectedColor(color);
+    onSelectionChange?.(color, selectedSize);
+    trackSelection(color, selectedSize);
+  };
+
+  const selectSize = (size?: string) => {
+    setSelectedSize(size);
+    onSelectionChange?.(selectedColor, size);
+    trackSelection(selectedColor, size);
+  };
 
   const isAvailable = product.status === 'disponivel';
-  const hasPrice = product.price && product.price > 0;
+  const hasBasePrice = !!product.price && product.price > 0;
+  const hasPrice = hasBasePrice || product.has_tiered_pricing;
   const hasColors = product.colors && product.colors.length > 0;
   const hasSizes = product.sizes && product.sizes.length > 0;
   const hasOptions = hasColors || hasSizes;
@@ -66,15 +101,31 @@ export default function ProductVariantSelector({
 
   const currentVariantQuantity = getVariantQuantity(product.id, selectedColor, selectedSize);
   const inCart = hasVariant(product.id, selectedColor, selectedSize);
+  const isSelectionComplete = (!hasColors || !!selectedColor) && (!hasSizes || !!selectedSize);
+  const selectedVariant = isSelectionComplete
+    ? findProductVariant(variants, selectedColor, selectedSize)
+    : undefined;
+  const variantPricing = getVariantPricing(product, selectedVariant);
+  const hasPriceOverride = !!(selectedVariant?.price || selectedVariant?.discounted_price);
+
+  // Tier price for the quantity the line reaches; below the first tier a product
+  // without a base price is sold at the first tier's price, as create_order does
+  const getAppliedTierPrice = () => {
+    if (!product.has_tiered_pricing || tiers.length === 0) return undefined;
+    const { appliedTier } = calculateApplicablePrice(currentVariantQuantity + 1, tiers, 0);
+    const tier = appliedTier ?? (hasBasePrice ? undefined : tiers[0]);
+    return tier ? (tier.discounted_unit_price || tier.unit_price) : undefined;
+  };
 
   const handleAddToCart = () => {
-    if (isAvailable && hasPrice) {
-      addToCart(product, selectedColor, selectedSize);
+    if (isAvailable && hasPrice && !isSoldOut(selectedColor, selectedSize)) {
+      addToCart({ ...product, product_variants: variants }, selectedColor, selectedSize, 1, getAppliedTierPrice());
+      trackAddToCart({ ...product, product_variants: variants }, currency, { color: selectedColor, size: selectedSize });
     }
   };
 
   const handleUpdateQuantity = (newQuantity: number) => {
-    const variantId = `${product.id}-${selectedColor || 'no-color'}-${selectedSize || 'no-size'}`;
+    const variantId = selectedVariant?.id ?? `${product.id}-${selectedColor || 'no-color'}-${selectedSize || 'no-size'}`;
     updateVariantQuantity(variantId, newQuantity);
   };
 
@@ -100,17 +151,22 @@ export default function ProductVariantSelector({
                 const colorValue = getColorValue(color);
                 const isLightColor = ['branco', 'amarelo', 'bege', 'off-white', 'creme'].includes(color.toLowerCase());
                 const isSelected = selectedColor === color;
+                const soldOut = isSoldOut(color, selectedSize);
 
                 return (
                   <button
                     key={color}
                     type="button"
-                    onClick={() => setSelectedColor(isSelected ? undefined : color)}
+                    disabled={soldOut}
+                    onClick={() => selectColor(isSelected ? undefined : color)}
                     className={`flex items-center gap-2 px-3 py-2 rounded-lg border transition-all ${
-                      isSelected 
+                      soldOut
+                        ? 'border-gray-200 opacity-50 cursor-not-allowed line-through'
+                        : isSelected 
                         ? 'border-primary bg-primary/10 text-primary' 
                         : 'border-gray-300 hover:border-primary/50 hover:bg-accent'
                     }`}
+                    title={soldOut ? 'Esgotado' : undefined}
                   >
                     <div 
                       className={`w-4 h-4 rounded-full border ${isLightColor ? 'border-gray-400' : 'border-gray-300'} shadow-sm`}
@@ -146,16 +202,21 @@ export default function ProductVariantSelector({
                       <div className="flex flex-wrap gap-2">
                         {sortedApparelSizes.map((size: string) => {
                           const isSelected = selectedSize === size;
+                          const soldOut = isSoldOut(selectedColor, size);
                           return (
                             <button
                               key={size}
                               type="button"
-                              onClick={() => setSelectedSize(isSelected ? undefined : size)}
+                              disabled={soldOut}
+                              onClick={() => selectSize(isSelected ? undefined : size)}
                               className={`flex items-center justify-center w-12 h-10 border rounded-lg transition-all text-sm font-medium ${
-                                isSelected 
+                                soldOut
+                                  ? 'border-gray-200 opacity-50 cursor-not-allowed line-through'
+                                  : isSelected 
                                   ? 'border-primary bg-primary text-primary-foreground' 
                                   : 'border-gray-300 hover:border-primary/50 hover:bg-accent'
                               }`}
+                              title={soldOut ? 'Esgotado' : undefined}
                             >
                               {size}
                             </button>
@@ -172,16 +233,21 @@ export default function ProductVariantSelector({
                       <div className="flex flex-wrap gap-2">
                         {sortedShoeSizes.map((size: string) => {
                           const isSelected = selectedSize === size;
+                          const soldOut = isSoldOut(selectedColor, size);
                           return (
                             <button
                               key={size}
                               type="button"
-                              onClick={() => setSelectedSize(isSelected ? undefined : size)}
+                              disabled={soldOut}
+                              onClick={() => selectSize(isSelected ? undefined : size)}
                               className={`flex items-center justify-center w-12 h-10 border rounded-lg transition-all text-sm font-medium ${
-                                isSelected 
+                                soldOut
+                                  ? 'border-gray-200 opacity-50 cursor-not-allowed line-through'
+                                  : isSelected 
                                   ? 'border-primary bg-primary text-primary-foreground' 
                                   : 'border-gray-300 hover:border-primary/50 hover:bg-accent'
                               }`}
+                              title={soldOut ? 'Esgotado' : undefined}
                             >
                               {size}
                             </button>
@@ -199,6 +265,30 @@ export default function ProductVariantSelector({
             )}
           </div>
         )}
+
+        {/* Selected variant details */}
+        {selectedVariant && (hasPriceOverride || selectedVariant.sku) && (
+          <>
+            <Separator />
+            <div className="flex items-center justify-between gap-4">
+              {hasPriceOverride && variantPricing.price ? (
+                <div className="flex items-baseline gap-2">
+                  {variantPricing.discounted_price && variantPricing.discounted_price < variantPricing.price && (
+                    <span className="text-sm text-muted-foreground line-through">
+                      {formatCurrencyI18n(variantPricing.price, currency, language)}
+                    </span>
+                  )}
+                  <span className="text-lg font-semibold text-primary">
+                    {formatCurrencyI18n(variantPricing.discounted_price || variantPricing.price, currency, language)}
+                  </span>
+                </div>
+              ) : <span />}
+              {selectedVariant.sku && (
+                <Badge variant="outline" className="font-mono">SKU {selectedVariant.sku}</Badge>
+              )}
+            </div>
+          </>
+        )}
       </CardContent>
     </Card>
   );
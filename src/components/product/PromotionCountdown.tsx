@@ -0,0 +1,85 @@
+import { useEffect, useState } from 'react';
+import { Timer } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useTranslation, type SupportedLanguage } from '@/lib/i18n';
+import type { ActivePromotion } from '@/types';
+
+interface PromotionCountdownProps {
+  promotion: ActivePromotion;
+  language: SupportedLanguage;
+  /** Single line for product cards; the full version also names the promotion */
+  compact?: boolean;
+  className?: string;
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * "2d 04:15:09", or "04:15:09" on the last day
+ */
+function formatRemaining(milliseconds: number): string {
+  const totalSeconds = Math.floor(milliseconds / 1000);
+  const days = Math.floor(totalSeconds / 86400);
+  const hours = Math.floor((totalSeconds % 86400) / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  const time = `${pad(hours)}:${pad(minutes)}:${pad(seconds)}`;
+  return days > 0 ? `${days}d ${time}` : time;
+}
+
+export default function PromotionCountdown({
+  promotion,
+  language,
+  compact = false,
+  className,
+}: PromotionCountdownProps) {
+  const { t } = useTranslation(language);
+  const endsAt = new Date(promotion.ends_at).getTime();
+  const [remaining, setRemaining] = useState(() => endsAt - Date.now());
+
+  useEffect(() => {
+    setRemaining(endsAt - Date.now());
+
+    const interval = setInterval(() => {
+      const left = endsAt - Date.now();
+      setRemaining(left);
+      if (left <= 0) clearInterval(interval);
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [endsAt]);
+
+  if (remaining <= 0) return null;
+
+  if (compact) {
+    return (
+      <div className={cn('flex items-center gap-1 text-[10px] md:text-xs font-medium text-red-600', className)}>
+        <Timer className="h-3 w-3 shrink-0" />
+        <span className="truncate">{t('product.promotion_ends_in')}</span>
+        <span className="font-mono tabular-nums">{formatRemaining(remaining)}</span>
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className={cn(
+        'flex items-center justify-between gap-3 rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-red-700 dark:border-red-800 dark:bg-red-950/20 dark:text-red-300',
+        className
+      )}
+    >
+      <div className="flex items-center gap-2 min-w-0">
+        <Timer className="h-5 w-5 shrink-0" />
+        <div className="min-w-0">
+          <p className="text-xs font-semibold uppercase tracking-wide">{t('product.flash_sale')}</p>
+          <p className="text-sm truncate">{promotion.name}</p>
+        </div>
+      </div>
+      <div className="text-right">
+        <p className="text-xs">{t('product.promotion_ends_in')}</p>
+        <p className="font-mono text-lg font-bold tabular-nums">{formatRemaining(remaining)}</p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,257 @@
+import { useState, useEffect } from 'react';
+import { Check, ChevronsUpDown, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+} from '@/components/ui/command';
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { supabase } from '@/lib/supabase';
+import { formatCurrency, cn } from '@/lib/utils';
+import { fetchProductVariants, findProductVariant } from '@/lib/variantUtils';
+import { formatBundleItem, getBundleComponentsTotal } from '@/lib/bundleUtils';
+import type { ProductBundleItem } from '@/types';
+
+type BundleComponent = NonNullable<ProductBundleItem['component']>;
+
+interface BundleItemsManagerProps {
+  userId?: string;
+  /** The bundle being edited, which can't include itself */
+  bundleId?: string;
+  items: ProductBundleItem[];
+  onChange: (items: ProductBundleItem[]) => void;
+  /** Price the bundle is sold for, compared with the components bought separately */
+  bundlePrice?: number;
+}
+
+export function BundleItemsManager({ userId, bundleId, items, onChange, bundlePrice }: BundleItemsManagerProps) {
+  const [products, setProducts] = useState<BundleComponent[]>([]);
+  const [open, setOpen] = useState(false);
+  const [component, setComponent] = useState<BundleComponent | null>(null);
+  const [color, setColor] = useState('');
+  const [size, setSize] = useState('');
+  const [quantity, setQuantity] = useState(1);
+
+  useEffect(() => {
+    const fetchProducts = async () => {
+      if (!userId) return;
+
+      const { data, error } = await supabase
+        .from('products')
+        .select('id, title, featured_image_url, price, discounted_price, status, colors, sizes')
+        .eq('user_id', userId)
+        .neq('product_type', 'bundle')
+        .order('title');
+
+      if (error) {
+        console.error('Error fetching bundle components:', error);
+        return;
+      }
+
+      setProducts((data || []).filter(product => product.id !== bundleId));
+    };
+
+    fetchProducts();
+  }, [userId, bundleId]);
+
+  const selectComponent = (product: BundleComponent) => {
+    setComponent(product);
+    setColor('');
+    setSize('');
+    setQuantity(1);
+    setOpen(false);
+  };
+
+  const addItem = async () => {
+    if (!component) return;
+
+    const variants = await fetchProductVariants(component.id);
+    const existing = items.find(item =>
+      item.component_id === component.id && item.color === color && item.size === size
+    );
+
+    if (existing) {
+      onChange(items.map(item =>
+        item === existing ? { ...item, quantity: item.quantity + quantity } : item
+      ));
+    } else {
+      onChange([...items, {
+        component_id: component.id,
+        variant_id: findProductVariant(variants, color, size)?.id ?? null,
+        color,
+        size,
+        quantity,
+        component,
+      }]);
+    }
+
+    setComponent(null);
+  };
+
+  const updateQuantity = (target: ProductBundleItem, value: string) => {
+    const newQuantity = Math.max(1, parseInt(value) || 1);
+    onChange(items.map(item => (item === target ? { ...item, quantity: newQuantity } : item)));
+  };
+
+  const removeItem = (target: ProductBundleItem) => {
+    onChange(items.filter(item => item !== target));
+  };
+
+  const componentsTotal = getBundleComponentsTotal(items);
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-12 gap-3 items-end">
+        <div className="md:col-span-5 space-y-2">
+          <Label>Produto</Label>
+          <Popover open={open} onOpenChange={setOpen}>
+            <PopoverTrigger asChild>
+              <Button type="button" variant="outline" role="combobox" className="w-full justify-between font-normal">
+                <span className="truncate">{component?.title || 'Selecione um produto'}</span>
+                <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-[320px] p-0" align="start">
+              <Command>
+                <CommandInput placeholder="Buscar produto..." />
+                <CommandEmpty>Nenhum produto encontrado.</CommandEmpty>
+                <CommandGroup className="max-h-64 overflow-auto">
+                  {products.map(product => (
+                    <CommandItem
+                      key={product.id}
+                      value={`${product.title} ${product.id}`}
+                      onSelect={() => selectComponent(product)}
+                    >
+                      <Check className={cn('mr-2 h-4 w-4', component?.id === product.id ? 'opacity-100' : 'opacity-0')} />
+                      <span className="truncate">{product.title}</span>
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              </Command>
+            </PopoverContent>
+          </Popover>
+        </div>
+
+        {component?.colors && component.colors.length > 0 && (
+          <div className="md:col-span-2 space-y-2">
+            <Label>Cor</Label>
+            <Select value={color || 'any'} onValueChange={(value) => setColor(value === 'any' ? '' : value)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="any">Qualquer</SelectItem>
+                {component.colors.map(option => (
+                  <SelectItem key={option} value={option} className="capitalize">{option}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        {component?.sizes && component.sizes.length > 0 && (
+          <div className="md:col-span-2 space-y-2">
+            <Label>Tamanho</Label>
+            <Select value={size || 'any'} onValueChange={(value) => setSize(value === 'any' ? '' : value)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="any">Qualquer</SelectItem>
+                {component.sizes.map(option => (
+                  <SelectItem key={option} value={option}>{option}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        <div className="md:col-span-1 space-y-2">
+          <Label>Qtd.</Label>
+          <Input
+            type="number"
+            min={1}
+            value={quantity}
+            onChange={(e) => setQuantity(Math.max(1, parseInt(e.target.value) || 1))}
+          />
+        </div>
+
+        <div className="md:col-span-2">
+          <Button type="button" className="w-full" onClick={addItem} disabled={!component}>
+            <Plus className="h-4 w-4 mr-1" />
+            Adicionar
+          </Button>
+        </div>
+      </div>
+
+      {items.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Nenhum produto no kit ainda.</p>
+      ) : (
+        <div className="rounded-md border divide-y">
+          {items.map((item, index) => (
+            <div key={`${item.component_id}-${item.color}-${item.size}-${index}`} className="flex items-center gap-3 p-3">
+              {item.component?.featured_image_url && (
+                <img
+                  src={item.component.featured_image_url}
+                  alt=""
+                  className="h-10 w-10 rounded object-cover border"
+                />
+              )}
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium truncate">
+                  {formatBundleItem({
+                    title: item.component?.title || 'Produto removido',
+                    quantity: item.quantity,
+                    color: item.color,
+                    size: item.size,
+                  })}
+                </p>
+                {item.component?.status && item.component.status !== 'disponivel' && (
+                  <p className="text-xs text-destructive">Produto indisponível</p>
+                )}
+              </div>
+              <Input
+                type="number"
+                min={1}
+                value={item.quantity}
+                onChange={(e) => updateQuantity(item, e.target.value)}
+                className="w-20 text-center"
+              />
+              <Button type="button" variant="ghost" size="icon" onClick={() => removeItem(item)}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {componentsTotal !== null && (
+        <div className="flex items-center justify-between text-sm text-muted-foreground">
+          <span>Valor dos itens comprados separadamente</span>
+          <span className="font-medium text-foreground">
+            {formatCurrency(componentsTotal)}
+            {bundlePrice && bundlePrice > 0 && bundlePrice < componentsTotal
+              ? ` (economia de ${formatCurrency(componentsTotal - bundlePrice)})`
+              : ''}
+          </span>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,169 @@
+import { useMemo } from 'react';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { CurrencyInput } from '@/components/ui/currency-input';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Check, ImageIcon, Info } from 'lucide-react';
+import { buildVariantMatrix } from '@/lib/variantUtils';
+import type { ProductVariant } from '@/types';
+
+interface VariantImage {
+  id: string;
+  url: string;
+}
+
+interface VariantDetailsManagerProps {
+  colors: string[];
+  sizes: string[];
+  variants: ProductVariant[];
+  /** Saved product photos that can be linked to a variant */
+  images: VariantImage[];
+  /** Photos picked in the form but not uploaded yet, which can only be linked after saving */
+  pendingImageCount?: number;
+  onChange: (variants: ProductVariant[]) => void;
+}
+
+export function VariantDetailsManager({
+  colors,
+  sizes,
+  variants,
+  images,
+  pendingImageCount = 0,
+  onChange,
+}: VariantDetailsManagerProps) {
+  const matrix = useMemo(() => buildVariantMatrix(colors, sizes, variants), [colors, sizes, variants]);
+
+  const getLabel = (variant: ProductVariant) =>
+    [variant.color, variant.size].filter(Boolean).join(' / ') || 'Único';
+
+  const updateVariant = (target: ProductVariant, changes: Partial<ProductVariant>) => {
+    onChange(matrix.map(variant =>
+      variant.color === target.color && variant.size === target.size
+        ? { ...variant, ...changes }
+        : variant
+    ));
+  };
+
+  const toggleImage = (variant: ProductVariant, imageId: string) => {
+    const imageIds = variant.image_ids.includes(imageId)
+      ? variant.image_ids.filter(id => id !== imageId)
+      : [...variant.image_ids, imageId];
+    updateVariant(variant, { image_ids: imageIds });
+  };
+
+  return (
+    <div className="space-y-4">
+      {pendingImageCount > 0 && (
+        <Alert>
+          <Info className="h-4 w-4" />
+          <AlertDescription>
+            Fotos novas poderão ser vinculadas às variações depois que o produto for salvo.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="rounded-md border overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Variação</TableHead>
+              <TableHead>SKU</TableHead>
+              <TableHead>Código de barras</TableHead>
+              <TableHead>Preço</TableHead>
+              <TableHead>Preço promocional</TableHead>
+              <TableHead className="text-center">Fotos</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {matrix.map(variant => (
+              <TableRow key={`${variant.color || 'no-color'}-${variant.size || 'no-size'}`}>
+                <TableCell className="font-medium capitalize whitespace-nowrap">{getLabel(variant)}</TableCell>
+                <TableCell>
+                  <Input
+                    value={variant.sku || ''}
+                    onChange={(e) => updateVariant(variant, { sku: e.target.value })}
+                    placeholder="Ex: CAM-AZ-M"
+                    className="w-32"
+                  />
+                </TableCell>
+                <TableCell>
+                  <Input
+                    value={variant.barcode || ''}
+                    onChange={(e) => updateVariant(variant, { barcode: e.target.value.replace(/\D/g, '') })}
+                    placeholder="EAN"
+                    inputMode="numeric"
+                    className="w-36"
+                  />
+                </TableCell>
+                <TableCell>
+                  <CurrencyInput
+                    value={variant.price ?? ''}
+                    onChange={(value) => updateVariant(variant, { price: value || null })}
+                    placeholder="Padrão"
+                    className="w-28"
+                  />
+                </TableCell>
+                <TableCell>
+                  <CurrencyInput
+                    value={variant.discounted_price ?? ''}
+                    onChange={(value) => updateVariant(variant, { discounted_price: value || null })}
+                    placeholder="Padrão"
+                    className="w-28"
+                  />
+                </TableCell>
+                <TableCell className="text-center">
+                  <Popover>
+                    <PopoverTrigger asChild>
+                      <Button type="button" variant="outline" size="sm" disabled={images.length === 0}>
+                        <ImageIcon className="h-4 w-4 mr-1" />
+                        {variant.image_ids.length}
+                      </Button>
+                    </PopoverTrigger>
+                    <PopoverContent className="w-72">
+                      <p className="text-sm font-medium mb-2">Fotos de {getLabel(variant)}</p>
+                      <div className="grid grid-cols-4 gap-2">
+                        {images.map(image => {
+                          const isLinked = variant.image_ids.includes(image.id);
+                          return (
+                            <button
+                              key={image.id}
+                              type="button"
+                              onClick={() => toggleImage(variant, image.id)}
+                              className={`relative aspect-square overflow-hidden rounded-md border-2 transition-all ${
+                                isLinked ? 'border-primary' : 'border-transparent hover:border-primary/50'
+                              }`}
+                            >
+                              <img src={image.url} alt="" className="w-full h-full object-cover" />
+                              {isLinked && (
+                                <span className="absolute top-1 right-1 rounded-full bg-primary p-0.5 text-primary-foreground">
+                                  <Check className="h-3 w-3" />
+                                </span>
+                              )}
+                            </button>
+                          );
+                        })}
+                      </div>
+                    </PopoverContent>
+                  </Popover>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      <p className="text-sm text-muted-foreground">
+        Campos em branco usam os dados do produto. Ao escolher uma cor na vitrine, a galeria mostra as fotos vinculadas a ela.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+import { useMemo } from 'react';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Info } from 'lucide-react';
+import { buildStockMatrix } from '@/lib/stockUtils';
+import type { ProductVariantStock } from '@/types';
+
+interface VariantStockManagerProps {
+  colors: string[];
+  sizes: string[];
+  stock: ProductVariantStock[];
+  onChange: (stock: ProductVariantStock[]) => void;
+}
+
+export function VariantStockManager({ colors, sizes, stock, onChange }: VariantStockManagerProps) {
+  const matrix = useMemo(() => buildStockMatrix(colors, sizes, stock), [colors, sizes, stock]);
+  const totalUnits = matrix.reduce((sum, entry) => sum + entry.quantity, 0);
+
+  const rowKeys = colors.length > 0 ? colors : [''];
+  const columnKeys = sizes.length > 0 ? sizes : [''];
+
+  const getQuantity = (color: string, size: string) =>
+    matrix.find(entry => entry.color === color && entry.size === size)?.quantity ?? 0;
+
+  const handleQuantityChange = (color: string, size: string, value: string) => {
+    const quantity = Math.max(0, parseInt(value) || 0);
+    onChange(matrix.map(entry =>
+      entry.color === color && entry.size === size ? { ...entry, quantity } : entry
+    ));
+  };
+
+  return (
+    <div className="space-y-4">
+      {colors.length === 0 && sizes.length === 0 && (
+        <Alert>
+          <Info className="h-4 w-4" />
+          <AlertDescription>
+            Sem cores ou tamanhos cadastrados, o estoque é controlado para o produto inteiro.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="rounded-md border overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>{colors.length > 0 ? 'Cor' : ''}</TableHead>
+              {columnKeys.map(size => (
+                <TableHead key={size || 'no-size'} className="text-center">
+                  {size || 'Quantidade'}
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rowKeys.map(color => (
+              <TableRow key={color || 'no-color'}>
+                <TableCell className="font-medium capitalize">{color || 'Único'}</TableCell>
+                {columnKeys.map(size => {
+                  const quantity = getQuantity(color, size);
+                  return (
+                    <TableCell key={size || 'no-size'} className="text-center">
+                      <Input
+                        type="number"
+                        min={0}
+                        value={quantity}
+                        onChange={(e) => handleQuantityChange(color, size, e.target.value)}
+                        className={`w-20 mx-auto text-center ${quantity === 0 ? 'border-destructive/50' : ''}`}
+                      />
+                    </TableCell>
+                  );
+                })}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div className="flex items-center justify-between text-sm text-muted-foreground">
+        <span>Variações com estoque zero aparecem como esgotadas na vitrine.</span>
+        <Badge variant="secondary">{totalUnits} unidade{totalUnits !== 1 ? 's' : ''}</Badge>
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,14 @@
 import { createContext, useContext, useEffect, useState, ReactNode } from 'react';
 import { toast } from 'sonner';
-import type { CartItem, CartState, Product, PriceTier, VariantDistribution, DistributionItem, CartDistribution } from '@/types';
+import type { CartItem, CartState, Product, ProductVariant, PriceTier, VariantDistribution, DistributionItem, CartDistribution } from '@/types';
 import { fetchProductPriceTiers, calculateApplicablePrice } from '@/lib/tieredPricingUtils';
 import { createDistribution, updateDistribution, deleteDistribution, fetchUserDistributions } from '@/lib/distributionUtils';
+import { findStorefrontCoupon, validateCoupon, calculateCouponDiscount } from '@/lib/couponUtils';
+import { findProductVariant, getVariantPricing } from '@/lib/variantUtils';
+import { getBundleItemSummaries } from '@/lib/bundleUtils';
+import { isPromotionRunning } from '@/lib/promotionUtils';
 import { supabase } from '@/lib/supabase';
+import { trackStorefrontEvent } from '@/lib/tracking';
 
 interface CartContextType {
   cart: CartState;
@@ -26,18 +31,56 @@ interface CartContextType {
   updateDistributionItems: (distributionId: string, items: Array<{ color?: string; size?: string; quantity: number }>) => Promise<boolean>;
   loadDistributions: () => Promise<void>;
   getDistributions: () => CartDistribution[];
+  applyCoupon: (sellerId: string, code: string) => Promise<boolean>;
+  removeCoupon: () => void;
+  setDelivery: (methodId: string | null, postalCode?: string) => void;
 }
 
 const CartContext = createContext<CartContextType | undefined>(undefined);
 
 const STORAGE_KEY = 'vitrineturbo_cart';
 
+/**
+ * Cart line for a color/size selection. Matches on the selection rather than variantId,
+ * so lines saved before the combination had a variant record are still found.
+ */
+const findCartItem = (items: CartItem[], productId: string, color?: string, size?: string) =>
+  items.find(item =>
+    item.id === productId &&
+    (item.selectedColor || '') === (color || '') &&
+    (item.selectedSize || '') === (size || '')
+  );
+
+/**
+ * Reprice a line from its regular prices once the promotion it was added with is over
+ */
+const revertEndedPromotion = (item: CartItem): CartItem => {
+  if (!item.promotion || isPromotionRunning(item.promotion)) return item;
+
+  const pricing = item.base_price
+    ? getVariantPricing(
+        { price: item.base_price, discounted_price: item.base_discounted_price },
+        findProductVariant(item.availableVariants, item.selectedColor, item.selectedSize)
+      )
+    : null;
+
+  return {
+    ...item,
+    ...(pricing && { price: pricing.price ?? item.price, discounted_price: pricing.discounted_price }),
+    promotion: undefined,
+  };
+};
+
 export function CartProvider({ children }: { children: ReactNode }) {
   const [cart, setCart] = useState<CartState>({
     items: [],
     distributions: [],
+    subtotal: 0,
+    discount: 0,
     total: 0,
     itemCount: 0,
+    coupon: null,
+    delivery: null,
   });
   const [tiersCache, setTiersCache] = useState<Map<string, PriceTier[]>>(new Map());
   const [productsCache, setProductsCache] = useState<Map<string, Product>>(new Map());
@@ -50,10 +93,15 @@ export function CartProvider({ children }: { children: ReactNode }) {
         const parsedCart = JSON.parse(savedCart);
         // Ensure cart has required fields with defaults
         setCart({
-          items: parsedCart.items || [],
+          items: (parsedCart.items || []).map(revertEndedPromotion),
           distributions: parsedCart.distributions || [],
+          subtotal: parsedCart.subtotal || 0,
+          discount: parsedCart.discount || 0,
           total: parsedCart.total || 0,
           itemCount: parsedCart.itemCount || 0,
+          coupon: parsedCart.coupon || null,
+          // Carts saved before only the method id was kept have no methodId
+          delivery: parsedCart.delivery?.methodId ? parsedCart.delivery : null,
         });
       }
     } catch (error) {
@@ -71,6 +119,25 @@ export function CartProvider({ children }: { children: ReactNode }) {
     }
   }, [cart]);
 
+  // Put promotional lines back to their regular price when the promotion ends
+  useEffect(() => {
+    const endTimes = (cart.items || [])
+      .filter(item => item.promotion)
+      .map(item => new Date(item.promotion!.ends_at).getTime());
+    if (endTimes.length === 0) return;
+
+    // Capped so long promotions don't overflow setTimeout; an early wake-up changes nothing
+    const delay = Math.min(Math.max(0, Math.min(...endTimes) - Date.now()) + 50, 2_147_483_647);
+    const timer = setTimeout(() => {
+      setCart(prev => {
+        const items = prev.items.map(revertEndedPromotion);
+        return items.some((item, index) => item !== prev.items[index]) ? { ...prev, items } : prev;
+      });
+    }, delay);
+
+    return () => clearTimeout(timer);
+  }, [cart.items]);
+
   // Calculate totals whenever items or distributions change
   useEffect(() => {
     const calculateTotals = async () => {
@@ -78,20 +145,32 @@ export function CartProvider({ children }: { children: ReactNode }) {
       const distributionCount = (cart.distributions || []).reduce((sum, dist) => sum + dist.distribution.total_quantity, 0);
       const totalCount = itemCount + distributionCount;
 
-      let total = 0;
+      let subtotal = 0;
 
       for (const item of (cart.items || [])) {
         const effectivePrice = item.applied_tier_price || item.discounted_price || item.price;
-        total += effectivePrice * item.quantity;
+        subtotal += effectivePrice * item.quantity;
       }
 
       for (const dist of (cart.distributions || [])) {
-        total += dist.distribution.applied_tier_price * dist.distribution.total_quantity;
+        subtotal += dist.distribution.applied_tier_price * dist.distribution.total_quantity;
       }
 
-      if (cart.total !== total || cart.itemCount !== totalCount) {
+      const discount = cart.coupon
+        ? calculateCouponDiscount(cart.coupon, cart.items || [], cart.distributions || [])
+        : 0;
+      const total = Math.max(0, subtotal - discount);
+
+      if (
+        cart.subtotal !== subtotal ||
+        cart.discount !== discount ||
+        cart.total !== total ||
+        cart.itemCount !== totalCount
+      ) {
         setCart(prev => ({
           ...prev,
+          subtotal,
+          discount,
           total,
           itemCount: totalCount,
         }));
@@ -99,12 +178,21 @@ export function CartProvider({ children }: { children: ReactNode }) {
     };
 
     calculateTotals();
-  }, [cart.items, cart.distributions]);
+  }, [cart.items, cart.distributions, cart.coupon, cart.subtotal, cart.discount, cart.total, cart.itemCount]);
 
   const generateVariantId = (productId: string, color?: string, size?: string) => {
     return `${productId}-${color || 'no-color'}-${size || 'no-size'}`;
   };
 
+  /** Caps a cart quantity at the units left of a tracked variant, telling the buyer when it does */
+  const capToStock = (quantity: number, variants?: ProductVariant[], color?: string, size?: string) => {
+    const available = findProductVariant(variants, color, size)?.stock_quantity;
+    if (available === null || available === undefined || quantity <= available) return quantity;
+
+    toast.error(`Só há ${available} unidade(s) disponível(is) em estoque.`);
+    return available;
+  };
+
   const addToCart = (product: Product, selectedColor?: string, selectedSize?: string, quantity: number = 1, appliedTierPrice?: number) => {
     // Check if product has a price (either base price or tiered price)
     const hasValidPrice = (product.price && product.price > 0) || (product.has_tiered_pricing && appliedTierPrice && appliedTierPrice > 0);
@@ -114,18 +202,28 @@ export function CartProvider({ children }: { children: ReactNode }) {
       return;
     }
 
-    const variantId = generateVariantId(product.id, selectedColor, selectedSize);
+    const variant = findProductVariant(product.product_variants, selectedColor, selectedSize);
+    const variantId = variant?.id ?? generateVariantId(product.id, selectedColor, selectedSize);
+    const pricing = getVariantPricing(product, variant);
+
+    trackStorefrontEvent(product.user_id, 'add_to_cart', {
+      productIds: [product.id],
+      metadata: { color: selectedColor, size: selectedSize, quantity },
+    });
 
     setCart(prev => {
-      const existingItem = prev.items.find(item => item.variantId === variantId);
+      const existingItem = findCartItem(prev.items, product.id, selectedColor, selectedSize);
 
       if (existingItem) {
         // Update quantity if item already exists
+        const newQuantity = capToStock(existingItem.quantity + quantity, product.product_variants, selectedColor, selectedSize);
+        if (newQuantity <= existingItem.quantity) return prev;
+
         const updatedItems = prev.items.map(item =>
-          item.variantId === variantId
+          item === existingItem
             ? {
                 ...item,
-                quantity: item.quantity + quantity,
+                quantity: newQuantity,
                 applied_tier_price: appliedTierPrice || item.applied_tier_price,
                 has_tiered_pricing: product.has_tiered_pricing || item.has_tiered_pricing
               }
@@ -137,18 +235,24 @@ export function CartProvider({ children }: { children: ReactNode }) {
         return { ...prev, items: updatedItems };
       } else {
         // Add new item to cart
+        const newQuantity = capToStock(quantity, product.product_variants, selectedColor, selectedSize);
+        if (newQuantity <= 0) return prev;
+
         // For tiered pricing products without base price, use applied tier price as base price
         const effectivePrice = product.has_tiered_pricing && appliedTierPrice && (!product.price || product.price === 0)
           ? appliedTierPrice
-          : product.price;
+          : pricing.price;
 
         const newItem: CartItem = {
           id: product.id,
           variantId,
+          sku: variant?.sku || undefined,
           title: product.title,
           price: effectivePrice,
-          discounted_price: product.discounted_price,
-          quantity: quantity,
+          discounted_price: pricing.discounted_price,
+          base_price: product.price,
+          base_discounted_price: product.discounted_price,
+          quantity: newQuantity,
           featured_image_url: product.featured_image_url,
           short_description: product.short_description,
           is_starting_price: product.is_starting_price,
@@ -157,8 +261,12 @@ export function CartProvider({ children }: { children: ReactNode }) {
           selectedSize,
           availableColors: product.colors,
           availableSizes: product.sizes,
+          availableVariants: product.product_variants,
+          bundleItems: product.product_type === 'bundle' ? getBundleItemSummaries(product.bundle_items) : undefined,
+          promotion: product.active_promotion || undefined,
           has_tiered_pricing: product.has_tiered_pricing,
           applied_tier_price: appliedTierPrice,
+          category: product.category,
         };
 
         const variantText = [selectedColor, selectedSize].filter(Boolean).join(', ');
@@ -206,7 +314,7 @@ export function CartProvider({ children }: { children: ReactNode }) {
       ...prev,
       items: prev.items.map(item =>
         item.id === productId
-          ? { ...item, quantity }
+          ? { ...item, quantity: capToStock(quantity, item.availableVariants, item.selectedColor, item.selectedSize) }
           : item
       )
     }));
@@ -222,7 +330,7 @@ export function CartProvider({ children }: { children: ReactNode }) {
       ...prev,
       items: prev.items.map(item =>
         item.variantId === variantId
-          ? { ...item, quantity }
+          ? { ...item, quantity: capToStock(quantity, item.availableVariants, item.selectedColor, item.selectedSize) }
           : item
       )
     }));
@@ -231,19 +339,49 @@ export function CartProvider({ children }: { children: ReactNode }) {
     setCart({
       items: [],
       distributions: [],
+      subtotal: 0,
+      discount: 0,
       total: 0,
       itemCount: 0,
+      coupon: null,
+      delivery: null,
     });
     toast.success('Carrinho limpo');
   };
 
+  const applyCoupon = async (sellerId: string, code: string): Promise<boolean> => {
+    const coupon = await findStorefrontCoupon(sellerId, code);
+
+    if (!coupon) {
+      toast.error('Cupom inválido ou expirado');
+      return false;
+    }
+
+    const validation = validateCoupon(coupon, cart.items, cart.distributions);
+    if (!validation.isValid) {
+      toast.error(validation.error);
+      return false;
+    }
+
+    setCart(prev => ({ ...prev, coupon }));
+    toast.success(`Cupom ${coupon.code} aplicado`);
+    return true;
+  };
+
+  const removeCoupon = () => {
+    setCart(prev => ({ ...prev, coupon: null }));
+  };
+
+  const setDelivery = (methodId: string | null, postalCode?: string) => {
+    setCart(prev => ({ ...prev, delivery: methodId ? { methodId, postalCode } : null }));
+  };
+
   const isInCart = (productId: string): boolean => {
     return cart.items.some(item => item.id === productId);
   };
 
   const hasVariant = (productId: string, color?: string, size?: string): boolean => {
-    const variantId = generateVariantId(productId, color, size);
-    return cart.items.some(item => item.variantId === variantId);
+    return !!findCartItem(cart.items, productId, color, size);
   };
   const getItemQuantity = (productId: string): number => {
     // Return total quantity for all variants of this product
@@ -253,9 +391,7 @@ export function CartProvider({ children }: { children: ReactNode }) {
   };
 
   const getVariantQuantity = (productId: string, color?: string, size?: string): number => {
-    const variantId = generateVariantId(productId, color, size);
-    const item = cart.items.find(item => item.variantId === variantId);
-    return item?.quantity || 0;
+    return findCartItem(cart.items, productId, color, size)?.quantity || 0;
   };
 
   const updateItemNotes = (productId: string, notes: string) => {
@@ -285,30 +421,41 @@ export function CartProvider({ children }: { children: ReactNode }) {
       const item = prev.items.find(item => item.variantId === variantId);
       if (!item) return prev;
 
-      const newVariantId = generateVariantId(item.id, color, size);
+      const variant = findProductVariant(item.availableVariants, color, size);
+      const newVariantId = variant?.id ?? generateVariantId(item.id, color, size);
       
       // Check if this new variant already exists
-      const existingVariant = prev.items.find(item => item.variantId === newVariantId);
+      const existingVariant = findCartItem(prev.items, item.id, color, size);
       
-      if (existingVariant && newVariantId !== variantId) {
+      if (existingVariant && existingVariant !== item) {
         // Merge quantities if variant already exists
         const updatedItems = prev.items
-          .filter(item => item.variantId !== variantId) // Remove old variant
-          .map(item => 
-            item.variantId === newVariantId
-              ? { ...item, quantity: item.quantity + item.quantity }
-              : item
+          .filter(cartItem => cartItem !== item) // Remove old variant
+          .map(cartItem => 
+            cartItem === existingVariant
+              ? { ...cartItem, quantity: cartItem.quantity + item.quantity }
+              : cartItem
           );
         
         toast.success('Variações combinadas no carrinho');
         return { ...prev, items: updatedItems };
       } else {
+        // Variant prices replace the product price, so reprice from the product's base price
+        const pricing = item.base_price
+          ? getVariantPricing(
+              { price: item.base_price, discounted_price: item.base_discounted_price, active_promotion: item.promotion },
+              variant
+            )
+          : null;
+
         // Update the variant options
         const updatedItems = prev.items.map(item =>
           item.variantId === variantId
             ? { 
                 ...item, 
+                ...(pricing && { price: pricing.price ?? item.price, discounted_price: pricing.discounted_price }),
                 variantId: newVariantId,
+                sku: variant?.sku || undefined,
                 selectedColor: color,
                 selectedSize: size
               }
@@ -389,6 +536,10 @@ export function CartProvider({ children }: { children: ReactNode }) {
       }
 
       await loadDistributions();
+      trackStorefrontEvent(product.user_id, 'add_to_cart', {
+        productIds: [product.id],
+        metadata: { quantity: totalQuantity, distribution: true },
+      });
       toast.success('Distribuição adicionada ao carrinho');
       return true;
     } catch (error) {
@@ -525,6 +676,9 @@ export function CartProvider({ children }: { children: ReactNode }) {
     updateDistributionItems,
     loadDistributions,
     getDistributions,
+    applyCoupon,
+    removeCoupon,
+    setDelivery,
   };
 
   return <CartContext.Provider value={value}>{children}</CartContext.Provider>;
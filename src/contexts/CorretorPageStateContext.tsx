@@ -1,9 +1,10 @@
 import React, { createContext, ReactNode } from 'react';
+import type { ProductFilters } from '@/utils/productDisplayUtils';
 
 export interface CorretorPageState {
   currentPage: number;
   isSearchActive: boolean;
-  filters: any;
+  filters: ProductFilters;
   searchQuery: string;
   scrollPosition: number;
   slug: string;
@@ -0,0 +1,54 @@
+import { useEffect, useState, ReactNode } from 'react';
+import type { FavoriteItem, Product } from '@/types';
+import { FavoritesContext, type FavoritesContextType } from '@/hooks/useFavorites';
+import {
+  loadFavorites,
+  saveFavorites,
+  toFavoriteItem,
+  recordFavorite,
+  removeFavoriteRecord,
+} from '@/lib/favoriteUtils';
+
+export function FavoritesProvider({ children }: { children: ReactNode }) {
+  const [favorites, setFavorites] = useState<FavoriteItem[]>(() => loadFavorites());
+
+  useEffect(() => {
+    saveFavorites(favorites);
+  }, [favorites]);
+
+  const isFavorite = (productId: string) => favorites.some(item => item.id === productId);
+
+  const removeFavorite = (productId: string) => {
+    setFavorites(prev => prev.filter(item => item.id !== productId));
+    removeFavoriteRecord(productId);
+  };
+
+  const toggleFavorite = (product: Product) => {
+    if (isFavorite(product.id)) {
+      removeFavorite(product.id);
+      return;
+    }
+
+    setFavorites(prev => [toFavoriteItem(product), ...prev]);
+    recordFavorite(product.id);
+  };
+
+  const getSellerFavorites = (sellerId: string) => favorites.filter(item => item.seller_id === sellerId);
+
+  const clearSellerFavorites = (sellerId: string) => {
+    const removed = getSellerFavorites(sellerId);
+    setFavorites(prev => prev.filter(item => item.seller_id !== sellerId));
+    removed.forEach(item => removeFavoriteRecord(item.id));
+  };
+
+  const value: FavoritesContextType = {
+    favorites,
+    isFavorite,
+    toggleFavorite,
+    removeFavorite,
+    getSellerFavorites,
+    clearSellerFavorites,
+  };
+
+  return <FavoritesContext.Provider value={value}>{children}</FavoritesContext.Provider>;
+}
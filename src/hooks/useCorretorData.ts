@@ -1,6 +1,6 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '@/lib/supabase';
-import { loadTrackingSettings, injectMetaPixel, injectGoogleAnalytics } from '@/lib/tracking';
+import { loadTrackingSettings, loadStorefrontTracking } from '@/lib/tracking';
 import { logCategoryOperation, sanitizeCategoryName } from '@/lib/categoryUtils';
 import { updateMetaTags, updateFavicon, getCorretorMetaTags, resetMetaTags } from '@/utils/metaTags';
 import { validateSession } from '@/lib/auth/simpleAuth';
@@ -131,6 +131,7 @@ export function useCorretorData({ slug }: UseCorretorDataProps): UseCorretorData
       }
 
       // Load global Meta Pixel from site settings
+      let globalMetaPixelId: string | null = null;
       try {
         const { data: siteSettings, error: siteSettingsError } = await supabase
           .from('site_settings')
@@ -139,8 +140,7 @@ export function useCorretorData({ slug }: UseCorretorDataProps): UseCorretorData
           .maybeSingle();
 
         if (!siteSettingsError && siteSettings?.setting_value) {
-          console.log('Injecting global Meta Pixel:', siteSettings.setting_value);
-          injectMetaPixel(siteSettings.setting_value);
+          globalMetaPixelId = siteSettings.setting_value;
         }
       } catch (globalPixelError) {
         console.warn('Error loading global Meta Pixel:', globalPixelError);
@@ -149,18 +149,12 @@ export function useCorretorData({ slug }: UseCorretorDataProps): UseCorretorData
 
       // Handle tracking settings result (non-blocking)
       if (trackingResult.status === 'fulfilled') {
-        const trackingSettings = trackingResult.value;
-        
-        if (trackingSettings?.meta_pixel_id) {
-          injectMetaPixel(trackingSettings.meta_pixel_id);
-        }
-        
-        if (trackingSettings?.ga_measurement_id) {
-          injectGoogleAnalytics(trackingSettings.ga_measurement_id);
-        }
+        // Waits for the visitor's cookie consent when the seller requires it
+        loadStorefrontTracking(trackingResult.value, globalMetaPixelId);
       } else {
         console.warn('Error loading tracking settings:', trackingResult.reason);
         // Don't fail the entire page load for tracking errors
+        loadStorefrontTracking(null, globalMetaPixelId);
       }
 
     } catch (err: any) {
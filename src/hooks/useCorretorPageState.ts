@@ -1,11 +1,12 @@
 import { useContext, useEffect, useRef, useCallback } from 'react';
 import { CorretorPageStateContext, CorretorPageState } from '@/contexts/CorretorPageStateContext';
+import type { ProductFilters } from '@/utils/productDisplayUtils';
 
 interface UseCorretorPageStateOptions {
   slug: string;
   currentPage: number;
   isSearchActive: boolean;
-  filters: any;
+  filters: ProductFilters;
   searchQuery: string;
 }
 
@@ -0,0 +1,37 @@
+import { useState, useEffect, useCallback } from 'react';
+import { fetchDeliveryMethods } from '@/lib/deliveryUtils';
+import type { DeliveryMethod } from '@/types';
+
+interface UseDeliveryMethodsResult {
+  methods: DeliveryMethod[];
+  loading: boolean;
+  refresh: () => Promise<void>;
+}
+
+export function useDeliveryMethods(sellerId: string | undefined, onlyActive = false): UseDeliveryMethodsResult {
+  const [methods, setMethods] = useState<DeliveryMethod[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const loadMethods = useCallback(async () => {
+    if (!sellerId) {
+      setMethods([]);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    const data = await fetchDeliveryMethods(sellerId, onlyActive);
+    setMethods(data);
+    setLoading(false);
+  }, [sellerId, onlyActive]);
+
+  useEffect(() => {
+    loadMethods();
+  }, [loadMethods]);
+
+  return {
+    methods,
+    loading,
+    refresh: loadMethods,
+  };
+}
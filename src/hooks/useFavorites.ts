@@ -0,0 +1,22 @@
+import { createContext, useContext } from 'react';
+import type { FavoriteItem, Product } from '@/types';
+
+export interface FavoritesContextType {
+  favorites: FavoriteItem[];
+  isFavorite: (productId: string) => boolean;
+  toggleFavorite: (product: Product) => void;
+  removeFavorite: (productId: string) => void;
+  /** Favorites saved on one storefront */
+  getSellerFavorites: (sellerId: string) => FavoriteItem[];
+  clearSellerFavorites: (sellerId: string) => void;
+}
+
+export const FavoritesContext = createContext<FavoritesContextType | undefined>(undefined);
+
+export function useFavorites() {
+  const context = useContext(FavoritesContext);
+  if (context === undefined) {
+    throw new Error('useFavorites deve ser usado dentro de um FavoritesProvider');
+  }
+  return context;
+}
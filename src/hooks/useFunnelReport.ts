@@ -0,0 +1,77 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  fetchProductFunnel,
+  fetchStorefrontFunnel,
+  FUNNEL_STEPS,
+  type FunnelStep,
+  type ProductFunnelRow,
+  type ReportDateRange,
+} from '@/lib/funnelUtils';
+
+interface UseFunnelReportReturn {
+  steps: FunnelStep[];
+  products: ProductFunnelRow[];
+  loading: boolean;
+  error: string | null;
+  refresh: () => Promise<void>;
+}
+
+const EMPTY_STEPS: FunnelStep[] = FUNNEL_STEPS.map(step => ({ ...step, viewers: 0, events: 0, dropOff: null }));
+
+export function useFunnelReport(range: ReportDateRange): UseFunnelReportReturn {
+  const { user } = useAuth();
+  const [steps, setSteps] = useState<FunnelStep[]>(EMPTY_STEPS);
+  const [products, setProducts] = useState<ProductFunnelRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fromTime = range.from.getTime();
+  const toTime = range.to.getTime();
+
+  const loadReport = useCallback(async () => {
+    if (!user?.id) {
+      setSteps(EMPTY_STEPS);
+      setProducts([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const reportRange = { from: new Date(fromTime), to: new Date(toTime) };
+      const [funnelSteps, productRows] = await Promise.all([
+        fetchStorefrontFunnel(reportRange),
+        fetchProductFunnel(reportRange),
+      ]);
+
+      setSteps(funnelSteps);
+      setProducts(productRows);
+    } catch (err) {
+      if (err && typeof err === 'object' && 'code' in err && (err.code === 'PGRST202' || err.code === '42883')) {
+        console.warn('Storefront event tables not found. Please apply database migrations.');
+        setSteps(EMPTY_STEPS);
+        setProducts([]);
+        return;
+      }
+      console.error('Error fetching funnel report:', err);
+      setError('Erro ao carregar o funil de vendas');
+    } finally {
+      setLoading(false);
+    }
+  }, [user?.id, fromTime, toTime]);
+
+  useEffect(() => {
+    loadReport();
+  }, [loadReport]);
+
+  return {
+    steps,
+    products,
+    loading,
+    error,
+    refresh: loadReport,
+  };
+}
@@ -0,0 +1,36 @@
+import { useState, useEffect, useCallback } from 'react';
+import { fetchMostFavoritedProducts, type MostFavoritedProduct } from '@/lib/favoriteUtils';
+
+interface UseMostFavoritedProductsResult {
+  products: MostFavoritedProduct[];
+  loading: boolean;
+  refresh: () => Promise<void>;
+}
+
+export function useMostFavoritedProducts(sellerId: string | undefined, limit = 5): UseMostFavoritedProductsResult {
+  const [products, setProducts] = useState<MostFavoritedProduct[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const loadProducts = useCallback(async () => {
+    if (!sellerId) {
+      setProducts([]);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    const data = await fetchMostFavoritedProducts(sellerId, limit);
+    setProducts(data);
+    setLoading(false);
+  }, [sellerId, limit]);
+
+  useEffect(() => {
+    loadProducts();
+  }, [loadProducts]);
+
+  return {
+    products,
+    loading,
+    refresh: loadProducts,
+  };
+}
@@ -1,52 +1,100 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef, useCallback } from 'react';
 import { supabase } from '@/lib/supabase';
 import { db } from '@/lib/db';
-import type { Product, CategoryDisplaySetting } from '@/types';
+import type { Product, CategoryDisplaySetting, ProductSortOption, StorefrontDisplaySettings } from '@/types';
 import { logCategoryOperation, sanitizeCategoryName } from '@/lib/categoryUtils';
 import { type SupportedLanguage } from '@/lib/i18n';
 import { loadSizeTypeMapping, type SizeTypeMapping } from '@/lib/sizeTypeUtils';
 import { autoPopulateSizesForUser } from '@/lib/autoPopulateSizes';
+import { BUNDLE_ITEMS_EMBED } from '@/lib/bundleUtils';
+import { fetchStorefrontFacets } from '@/lib/searchUtils';
+import {
+  buildProductCursorFilter,
+  getProductCursor,
+  getProductSortOrder,
+  resolveProductSort
+} from '@/utils/productDisplayUtils';
 
 interface UseProductDataProps {
   userId: string;
   language?: SupportedLanguage;
-  page?: number;
-  pageSize?: number;
+  /** Sort chosen by the buyer; falls back to the seller's default sort */
+  sort?: ProductSortOption;
 }
 
 interface UseProductDataReturn {
   allProducts: Product[];
   categorySettings: CategoryDisplaySetting[];
-  settings: any;
+  settings: StorefrontDisplaySettings | null;
   loading: boolean;
   error: string | null;
   refetch: () => Promise<void>;
   sizeTypeMapping: SizeTypeMapping;
   totalProducts: number;
-  currentPage: number;
-  totalPages: number;
-  hasNextPage: boolean;
-  hasPreviousPage: boolean;
-  paginationEnabled: boolean;
+  pageSize: number;
+  /** Number of pages loaded so far */
+  loadedPages: number;
+  hasMore: boolean;
+  loadingMore: boolean;
+  /** Load the next `pageCount` pages after the last loaded product */
+  loadMore: (pageCount?: number) => Promise<void>;
 }
 
+const DEFAULT_PAGE_SIZE = 24;
+
+const PRODUCT_LIST_COLUMNS = `
+  id,
+  user_id,
+  title,
+  price,
+  discounted_price,
+  is_starting_price,
+  short_description,
+  status,
+  category,
+  brand,
+  gender,
+  condition,
+  featured_image_url,
+  colors,
+  sizes,
+  display_order,
+  external_checkout_url,
+  has_tiered_pricing,
+  min_tiered_price,
+  max_tiered_price,
+  track_stock,
+  created_at,
+  sort_price,
+  discount_percent,
+  view_count,
+  product_type,
+  ${BUNDLE_ITEMS_EMBED}
+`;
+
 /**
- * Custom hook for managing product data and storefront settings
+ * Custom hook for managing product data and storefront settings.
+ * Products are loaded a page at a time with keyset (cursor) pagination
+ * in the active sort order, so large catalogs are never loaded at once.
  */
 export function useProductData({
   userId,
   language = 'pt-BR',
-  page = 1,
-  pageSize = 250
+  sort
 }: UseProductDataProps): UseProductDataReturn {
   const [allProducts, setAllProducts] = useState<Product[]>([]);
   const [categorySettings, setCategorySettings] = useState<CategoryDisplaySetting[]>([]);
-  const [settings, setSettings] = useState<any>(null);
+  const [settings, setSettings] = useState<StorefrontDisplaySettings | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [sizeTypeMapping, setSizeTypeMapping] = useState<SizeTypeMapping>({});
   const [totalProducts, setTotalProducts] = useState(0);
-  const [paginationEnabled, setPaginationEnabled] = useState(false);
+  const [pageSize, setPageSize] = useState(DEFAULT_PAGE_SIZE);
+  const [activeSort, setActiveSort] = useState<ProductSortOption>('display-order');
+  const [hasMore, setHasMore] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  // Ignore pages that arrive after the sort changed or the data was reloaded
+  const requestIdRef = useRef(0);
 
   const loadStorefrontSettings = async (userId: string) => {
     try {
@@ -64,7 +112,7 @@ export function useProductData({
       }
 
       // Default settings
-      const effectiveSettings = {
+      const effectiveSettings: StorefrontDisplaySettings = {
         showFilters: true,
         showSearch: true,
         showPriceRange: true,
@@ -73,7 +121,8 @@ export function useProductData({
         showGender: true,
         showStatus: true,
         showCondition: true,
-        itemsPerPage: 24,
+        itemsPerPage: DEFAULT_PAGE_SIZE,
+        infiniteScroll: true,
         priceRange: {
           minPrice: 10,
           maxPrice: 5000
@@ -88,8 +137,10 @@ export function useProductData({
           Object.assign(effectiveSettings, {
             ...effectiveSettings,
             ...storefrontSettings.settings.filters,
-            itemsPerPage: storefrontSettings.settings.itemsPerPage || 24,
-            priceRange: storefrontSettings.settings.priceRange || effectiveSettings.priceRange
+            itemsPerPage: storefrontSettings.settings.itemsPerPage || DEFAULT_PAGE_SIZE,
+            infiniteScroll: storefrontSettings.settings.infiniteScroll ?? true,
+            priceRange: storefrontSettings.settings.priceRange || effectiveSettings.priceRange,
+            defaultSort: storefrontSettings.settings.defaultSort
           });
         } else {
           Object.assign(effectiveSettings, {
@@ -121,126 +172,84 @@ export function useProductData({
     }
   };
 
-  const loadAllProducts = async (userId: string, pageNum: number = 1, pageSize: number = 300) => {
-    try {
-      logCategoryOperation('LOADING_ALL_PRODUCTS', { userId, page: pageNum, pageSize });
+  const loadProductCount = async (userId: string) => {
+    const { count, error: countError } = await supabase
+      .from('products')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .eq('is_visible_on_storefront', true);
 
-      // First, get the total count
-      const { count: totalCount, error: countError } = await supabase
-        .from('products')
-        .select('id', { count: 'exact', head: true })
-        .eq('user_id', userId)
-        .eq('is_visible_on_storefront', true);
+    if (countError) {
+      throw countError;
+    }
 
-      if (countError) {
-        throw countError;
-      }
+    return count || 0;
+  };
 
-      const total = totalCount || 0;
-      const shouldPaginate = total > 500;
+  // Categories of the visible products, aggregated in the database, to keep category settings in sync
+  const loadProductCategories = async (userId: string) => {
+    const options = await fetchStorefrontFacets(userId);
+    return options.filter(option => option.facet === 'category').map(option => option.value);
+  };
 
-      // Calculate offset
-      const offset = shouldPaginate ? (pageNum - 1) * pageSize : 0;
+  const loadProductsPage = async (
+    userId: string,
+    sortBy: ProductSortOption,
+    limit: number,
+    after?: Product
+  ) => {
+    try {
+      logCategoryOperation('LOADING_PRODUCTS_PAGE', { userId, sortBy, limit, after: after?.id });
 
-      // Load products with or without pagination
       let query = supabase
         .from('products')
-        .select(`
-          id,
-          title,
-          price,
-          discounted_price,
-          is_starting_price,
-          short_description,
-          status,
-          category,
-          brand,
-          gender,
-          condition,
-          featured_image_url,
-          colors,
-          sizes,
-          display_order,
-          external_checkout_url,
-          has_tiered_pricing,
-          min_tiered_price,
-          max_tiered_price
-        `)
+        .select(PRODUCT_LIST_COLUMNS)
         .eq('user_id', userId)
-        .eq('is_visible_on_storefront', true)
-        .order('display_order', { ascending: true, nullsLast: true })
-        .order('id', { ascending: false });
+        .eq('is_visible_on_storefront', true);
 
-      // Apply pagination if needed
-      if (shouldPaginate) {
-        query = query.range(offset, offset + pageSize - 1);
+      if (after) {
+        const cursorFilter = buildProductCursorFilter(sortBy, getProductCursor(after, sortBy));
+        if (!cursorFilter) {
+          return { products: [], hasMore: false };
+        }
+        query = query.or(cursorFilter);
       }
 
-      const { data: productsData, error: productsError } = await query;
+      getProductSortOrder(sortBy).forEach(({ column, ascending, nullsFirst }) => {
+        query = query.order(column, { ascending, nullsFirst });
+      });
+
+      const { data: productsData, error: productsError } = await query.limit(limit);
 
       if (productsError) {
         throw productsError;
       }
 
-      const products = productsData || [];
+      const products = (productsData || []) as unknown as Product[];
 
-      // Detailed analysis of loaded products
-      const productAnalysis = {
-        totalCount: total,
-        paginationEnabled: shouldPaginate,
-        currentPageLoaded: products.length,
-        withCategories: products.filter(p => p.category && Array.isArray(p.category) && p.category.length > 0).length,
-        withoutCategories: products.filter(p => !p.category || !Array.isArray(p.category) || p.category.length === 0).length,
+      logCategoryOperation('PRODUCTS_PAGE_LOADED', {
+        loaded: products.length,
         byStatus: {
           disponivel: products.filter(p => p.status === 'disponivel').length,
           vendido: products.filter(p => p.status === 'vendido').length,
           reservado: products.filter(p => p.status === 'reservado').length
-        },
-        categoryBreakdown: {} as Record<string, number>
-      };
-
-      // Analysis by category
-      products.forEach(product => {
-        if (product.category && Array.isArray(product.category)) {
-          product.category.forEach(cat => {
-            const sanitized = sanitizeCategoryName(cat);
-            if (sanitized) {
-              productAnalysis.categoryBreakdown[sanitized] =
-                (productAnalysis.categoryBreakdown[sanitized] || 0) + 1;
-            }
-          });
         }
       });
 
-      logCategoryOperation('ALL_PRODUCTS_LOADED', productAnalysis);
-
-      return { products, total, paginationEnabled: shouldPaginate };
+      return { products, hasMore: products.length === limit };
 
     } catch (error) {
-      logCategoryOperation('LOAD_ALL_PRODUCTS_ERROR', error);
+      logCategoryOperation('LOAD_PRODUCTS_PAGE_ERROR', error);
       throw error;
     }
   };
   const syncCategorySettings = async (
-    products: Product[],
+    productCategories: string[],
     currentSettings: CategoryDisplaySetting[],
     userId: string
   ): Promise<CategoryDisplaySetting[]> => {
     try {
-      const categoriesInProducts = new Set<string>();
-
-      products.forEach(product => {
-        if (product.category && Array.isArray(product.category)) {
-          product.category.forEach(cat => {
-            const sanitized = sanitizeCategoryName(cat);
-            if (sanitized) {
-              categoriesInProducts.add(sanitized);
-            }
-          });
-        }
-      });
-
-      const categoriesArray = Array.from(categoriesInProducts);
+      const categoriesArray = Array.from(new Set(productCategories.map(sanitizeCategoryName).filter(Boolean)));
 
       if (currentSettings.length === 0 && categoriesArray.length > 0) {
         logCategoryOperation('INITIALIZING_ALL_CATEGORIES', {
@@ -337,25 +346,37 @@ export function useProductData({
   };
 
   const fetchData = async () => {
+    const requestId = ++requestIdRef.current;
+
     try {
       setLoading(true);
       setError(null);
 
-      const [productsResult, settingsData, sizeMapping] = await Promise.all([
-        loadAllProducts(userId, page, pageSize),
-        loadStorefrontSettings(userId),
+      // Settings first: the seller's default sort and page size decide the first page
+      const settingsData = await loadStorefrontSettings(userId);
+      const sortBy = resolveProductSort(sort, settingsData.effectiveSettings);
+      const limit = settingsData.effectiveSettings.itemsPerPage || DEFAULT_PAGE_SIZE;
+
+      const [pageResult, total, productCategories, sizeMapping] = await Promise.all([
+        loadProductsPage(userId, sortBy, limit),
+        loadProductCount(userId),
+        loadProductCategories(userId),
         loadSizeTypeMapping(userId)
       ]);
 
       const syncedCategorySettings = await syncCategorySettings(
-        productsResult.products,
+        productCategories,
         settingsData.categoryDisplaySettings,
         userId
       );
 
-      setAllProducts(productsResult.products);
-      setTotalProducts(productsResult.total);
-      setPaginationEnabled(productsResult.paginationEnabled);
+      if (requestId !== requestIdRef.current) return;
+
+      setAllProducts(pageResult.products);
+      setHasMore(pageResult.hasMore);
+      setActiveSort(sortBy);
+      setPageSize(limit);
+      setTotalProducts(total);
       setSettings(settingsData.effectiveSettings);
       setCategorySettings(syncedCategorySettings);
       setSizeTypeMapping(sizeMapping);
@@ -368,10 +389,34 @@ export function useProductData({
       logCategoryOperation('FETCH_DATA_ERROR', err);
       setError(err.message || 'Error loading data');
     } finally {
-      setLoading(false);
+      if (requestId === requestIdRef.current) {
+        setLoading(false);
+      }
     }
   };
 
+  const loadMore = useCallback(async (pageCount: number = 1) => {
+    const lastProduct = allProducts[allProducts.length - 1];
+    if (!userId || !hasMore || loadingMore || loading || !lastProduct) return;
+
+    const requestId = requestIdRef.current;
+
+    try {
+      setLoadingMore(true);
+      const pageResult = await loadProductsPage(userId, activeSort, pageSize * pageCount, lastProduct);
+
+      if (requestId !== requestIdRef.current) return;
+
+      setAllProducts(prev => [...prev, ...pageResult.products]);
+      setHasMore(pageResult.hasMore);
+    } catch (err) {
+      logCategoryOperation('LOAD_MORE_ERROR', err);
+      setError(err instanceof Error ? err.message : 'Error loading data');
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [userId, allProducts, hasMore, loadingMore, loading, activeSort, pageSize]);
+
   const refetch = async () => {
     setAllProducts([]);
     await fetchData();
@@ -381,11 +426,7 @@ export function useProductData({
     if (userId) {
       fetchData();
     }
-  }, [userId, page, pageSize]);
-
-  const totalPages = pageSize > 0 ? Math.ceil(totalProducts / pageSize) : 1;
-  const hasNextPage = page < totalPages;
-  const hasPreviousPage = page > 1;
+  }, [userId, sort]);
 
   return {
     allProducts,
@@ -396,10 +437,10 @@ export function useProductData({
     refetch,
     sizeTypeMapping,
     totalProducts,
-    currentPage: page,
-    totalPages,
-    hasNextPage,
-    hasPreviousPage,
-    paginationEnabled,
+    pageSize,
+    loadedPages: Math.ceil(allProducts.length / pageSize),
+    hasMore,
+    loadingMore,
+    loadMore,
   };
 }
\ No newline at end of file
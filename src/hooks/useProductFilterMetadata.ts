@@ -1,6 +1,15 @@
-import { useState, useEffect } from 'react';
-import { supabase } from '@/lib/supabase';
-import { sanitizeCategoryName, logCategoryOperation } from '@/lib/categoryUtils';
+import { useState, useEffect, useRef } from 'react';
+import { logCategoryOperation } from '@/lib/categoryUtils';
+import { fetchStorefrontFacets } from '@/lib/searchUtils';
+import {
+  buildFacetCounts,
+  hasActiveFilters,
+  toStorefrontFilterParams,
+  type FacetCounts,
+  type ProductFilterSettings,
+  type ProductFilters,
+  type StorefrontFacetOption
+} from '@/utils/productDisplayUtils';
 
 export interface ProductFilterMetadata {
   categories: string[];
@@ -12,10 +21,14 @@ export interface ProductFilterMetadata {
 interface UseProductFilterMetadataProps {
   userId: string;
   enabled?: boolean;
+  /** Current filters, used to compute live option counts */
+  filters?: ProductFilters;
+  settings?: ProductFilterSettings;
 }
 
 interface UseProductFilterMetadataReturn {
   metadata: ProductFilterMetadata;
+  facetCounts: FacetCounts | null;
   loading: boolean;
   error: string | null;
   refetch: () => Promise<void>;
@@ -23,7 +36,9 @@ interface UseProductFilterMetadataReturn {
 
 export function useProductFilterMetadata({
   userId,
-  enabled = true
+  enabled = true,
+  filters,
+  settings
 }: UseProductFilterMetadataProps): UseProductFilterMetadataReturn {
   const [metadata, setMetadata] = useState<ProductFilterMetadata>({
     categories: [],
@@ -31,8 +46,18 @@ export function useProductFilterMetadata({
     genders: [],
     sizes: []
   });
+  const [allFacetCounts, setAllFacetCounts] = useState<FacetCounts | null>(null);
+  const [filteredFacetCounts, setFilteredFacetCounts] = useState<FacetCounts | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Ignore counts that arrive after the filters changed again
+  const countsRequestIdRef = useRef(0);
+
+  const optionValues = (options: StorefrontFacetOption[], facet: StorefrontFacetOption['facet']) =>
+    options
+      .filter(option => option.facet === facet)
+      .map(option => option.value)
+      .sort();
 
   const fetchFilterMetadata = async () => {
     if (!enabled || !userId) return;
@@ -43,55 +68,18 @@ export function useProductFilterMetadata({
 
       logCategoryOperation('FETCHING_FILTER_METADATA', { userId });
 
-      const { data: products, error: productsError } = await supabase
-        .from('products')
-        .select('category, brand, gender, sizes, price, discounted_price, has_tiered_pricing, min_tiered_price, max_tiered_price')
-        .eq('user_id', userId)
-        .eq('is_visible_on_storefront', true);
-
-      if (productsError) {
-        throw productsError;
-      }
-
-      const productList = products || [];
-
-      const categoriesSet = new Set<string>();
-      const brandsSet = new Set<string>();
-      const gendersSet = new Set<string>();
-      const sizesSet = new Set<string>();
-
-      productList.forEach(product => {
-        if (product.category && Array.isArray(product.category)) {
-          product.category.forEach((cat: string) => {
-            const sanitized = sanitizeCategoryName(cat);
-            if (sanitized) {
-              categoriesSet.add(sanitized);
-            }
-          });
-        }
-        if (product.brand) {
-          brandsSet.add(product.brand);
-        }
-        if (product.gender) {
-          gendersSet.add(product.gender);
-        }
-        if (product.sizes && Array.isArray(product.sizes)) {
-          product.sizes.forEach((size: string) => {
-            if (size) {
-              sizesSet.add(size);
-            }
-          });
-        }
-      });
+      // Options are aggregated in the database instead of reading every product
+      const options = await fetchStorefrontFacets(userId);
 
       const newMetadata: ProductFilterMetadata = {
-        categories: Array.from(categoriesSet).sort(),
-        brands: Array.from(brandsSet).sort(),
-        genders: Array.from(gendersSet).sort(),
-        sizes: Array.from(sizesSet).sort()
+        categories: optionValues(options, 'category'),
+        brands: optionValues(options, 'brand'),
+        genders: optionValues(options, 'gender'),
+        sizes: optionValues(options, 'sizes')
       };
 
       setMetadata(newMetadata);
+      setAllFacetCounts(buildFacetCounts(options));
 
       logCategoryOperation('FILTER_METADATA_FETCHED', {
         categories: newMetadata.categories.length,
@@ -100,14 +88,33 @@ export function useProductFilterMetadata({
         sizes: newMetadata.sizes.length
       });
 
-    } catch (err: any) {
+    } catch (err) {
       logCategoryOperation('FILTER_METADATA_ERROR', err);
-      setError(err.message || 'Error fetching filter metadata');
+      setError((err as { message?: string } | null)?.message || 'Error fetching filter metadata');
     } finally {
       setLoading(false);
     }
   };
 
+  const isFiltering = !!filters && hasActiveFilters(filters, settings);
+
+  // Live option counts for the current filters; without filters they are the totals.
+  // The previous counts stay on screen until the new ones arrive.
+  useEffect(() => {
+    const requestId = ++countsRequestIdRef.current;
+    if (!enabled || !userId || !filters || !isFiltering) return;
+
+    fetchStorefrontFacets(userId, toStorefrontFilterParams(filters, settings))
+      .then(options => {
+        if (requestId === countsRequestIdRef.current) {
+          setFilteredFacetCounts(buildFacetCounts(options));
+        }
+      })
+      .catch(err => logCategoryOperation('FACET_COUNTS_ERROR', err));
+  }, [userId, enabled, filters, settings, isFiltering]);
+
+  const facetCounts = filters ? (isFiltering ? filteredFacetCounts : allFacetCounts) : null;
+
   const refetch = async () => {
     await fetchFilterMetadata();
   };
@@ -120,6 +127,7 @@ export function useProductFilterMetadata({
 
   return {
     metadata,
+    facetCounts,
     loading,
     error,
     refetch
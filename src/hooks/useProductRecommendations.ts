@@ -0,0 +1,48 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { fetchProductRecommendations } from '@/lib/recommendationUtils';
+import type { Product } from '@/types';
+
+interface UseProductRecommendationsResult {
+  related: Product[];
+  alsoViewed: Product[];
+  loading: boolean;
+  refresh: () => Promise<void>;
+}
+
+export function useProductRecommendations(productId: string | undefined): UseProductRecommendationsResult {
+  const [related, setRelated] = useState<Product[]>([]);
+  const [alsoViewed, setAlsoViewed] = useState<Product[]>([]);
+  const [loading, setLoading] = useState(true);
+  // Buyers hop from one recommendation to the next; drop answers for the previous product
+  const requestIdRef = useRef(0);
+
+  const loadRecommendations = useCallback(async () => {
+    const requestId = ++requestIdRef.current;
+
+    if (!productId) {
+      setRelated([]);
+      setAlsoViewed([]);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    const data = await fetchProductRecommendations(productId);
+    if (requestId !== requestIdRef.current) return;
+
+    setRelated(data.related);
+    setAlsoViewed(data.alsoViewed);
+    setLoading(false);
+  }, [productId]);
+
+  useEffect(() => {
+    loadRecommendations();
+  }, [loadRecommendations]);
+
+  return {
+    related,
+    alsoViewed,
+    loading,
+    refresh: loadRecommendations,
+  };
+}
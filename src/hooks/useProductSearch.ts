@@ -1,7 +1,14 @@
-import { useState, useEffect } from 'react';
-import { useSearchParams } from 'react-router-dom';
-import { filterProducts, parseUrlFilters, type ProductFilters } from '@/utils/productDisplayUtils';
-import { logCategoryOperation, sanitizeCategoryName } from '@/lib/categoryUtils';
+import { useState, useEffect, useRef } from 'react';
+import { useLocation, useSearchParams } from 'react-router-dom';
+import {
+  applyFiltersToSearchParams,
+  createDefaultFilters,
+  filterProducts,
+  hasUrlFilters,
+  parseUrlFilters,
+  type ProductFilters
+} from '@/utils/productDisplayUtils';
+import { logCategoryOperation } from '@/lib/categoryUtils';
 import type { Product } from '@/types';
 
 interface UseProductSearchProps {
@@ -18,49 +25,42 @@ interface UseProductSearchReturn {
 }
 
 /**
- * Custom hook for managing product search and filtering
+ * Custom hook for managing product search and filtering.
+ * The filter state is mirrored in the query string so filtered views can be shared.
  */
 export function useProductSearch({
   allProducts,
   settings
 }: UseProductSearchProps): UseProductSearchReturn {
-  const [searchParams] = useSearchParams();
+  const location = useLocation();
+  const [searchParams, setSearchParams] = useSearchParams();
   const [filteredProducts, setFilteredProducts] = useState<Product[]>([]);
   const [isSearchActive, setIsSearchActive] = useState(false);
-  const [filters, setFilters] = useState<ProductFilters>({
-    query: '',
-    status: 'todos',
-    minPrice: 0,
-    maxPrice: 5000,
-    category: 'todos',
-    brand: 'todos',
-    gender: 'todos',
-    sizes: 'todos',
-    condition: 'todos'
-  });
+  const [filters, setFilters] = useState<ProductFilters>(() => createDefaultFilters(settings));
+  // Query string last written by handleSearch, so our own URL updates aren't parsed again
+  const syncedSearchRef = useRef<string | null>(null);
 
   // Initialize filtered products
   useEffect(() => {
     setFilteredProducts(allProducts);
   }, [allProducts]);
 
-  // Apply URL filters when products and settings are loaded
+  // Apply URL filters when products and settings are loaded, and on back/forward navigation
   useEffect(() => {
     if (allProducts.length > 0 && settings) {
-      const urlCategory = searchParams.get('category');
-      const urlQuery = searchParams.get('query');
-      
-      if (urlCategory || urlQuery) {
-        logCategoryOperation('APPLYING_URL_FILTERS', { 
-          urlCategory, 
-          urlQuery,
+      const currentSearch = searchParams.toString();
+      if (currentSearch === syncedSearchRef.current) return;
+
+      if (hasUrlFilters(searchParams)) {
+        logCategoryOperation('APPLYING_URL_FILTERS', {
+          search: currentSearch,
           productsLoaded: allProducts.length,
           settingsLoaded: !!settings
         });
-        
-        const urlFilters = parseUrlFilters(searchParams, settings);
-        
-        handleSearch(urlFilters);
+
+        handleSearch(parseUrlFilters(searchParams, settings));
+      } else if (syncedSearchRef.current !== null) {
+        handleSearch(createDefaultFilters(settings));
       }
     }
   }, [allProducts, settings, searchParams]);
@@ -68,11 +68,18 @@ export function useProductSearch({
   const handleSearch = (newFilters: ProductFilters) => {
     // Update filters state
     setFilters(newFilters);
-    
+
     // Use the extracted filter function
     const result = filterProducts(allProducts, newFilters, settings);
     setFilteredProducts(result.filteredProducts);
     setIsSearchActive(result.isSearchActive);
+
+    const nextParams = applyFiltersToSearchParams(searchParams, newFilters, settings);
+    syncedSearchRef.current = nextParams.toString();
+    if (nextParams.toString() !== searchParams.toString()) {
+      // Keep the navigation state: it tells the page we're returning from a product
+      setSearchParams(nextParams, { replace: true, state: location.state });
+    }
   };
 
   return {
@@ -82,4 +89,4 @@ export function useProductSearch({
     handleSearch,
     setFilters
   };
-}
\ No newline at end of file
+}
@@ -0,0 +1,53 @@
+import { useState, useEffect, useCallback } from 'react';
+import { fetchProductStock, getAvailableStock, isVariantSoldOut } from '@/lib/stockUtils';
+import type { ProductVariantStock } from '@/types';
+
+interface UseProductStockResult {
+  stock: ProductVariantStock[];
+  loading: boolean;
+  getAvailable: (color?: string, size?: string) => number | null;
+  isSoldOut: (color?: string, size?: string) => boolean;
+  refresh: () => Promise<void>;
+}
+
+export function useProductStock(
+  productId: string | undefined,
+  trackStock?: boolean
+): UseProductStockResult {
+  const [stock, setStock] = useState<ProductVariantStock[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const loadStock = useCallback(async () => {
+    if (!trackStock || !productId) {
+      setStock([]);
+      return;
+    }
+
+    setLoading(true);
+    const fetchedStock = await fetchProductStock(productId);
+    setStock(fetchedStock);
+    setLoading(false);
+  }, [productId, trackStock]);
+
+  useEffect(() => {
+    loadStock();
+  }, [loadStock]);
+
+  const getAvailable = useCallback(
+    (color?: string, size?: string) => getAvailableStock(stock, color, size),
+    [stock]
+  );
+
+  const isSoldOut = useCallback(
+    (color?: string, size?: string) => isVariantSoldOut(stock, color, size),
+    [stock]
+  );
+
+  return {
+    stock,
+    loading,
+    getAvailable,
+    isSoldOut,
+    refresh: loadStock,
+  };
+}
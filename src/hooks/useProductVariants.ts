@@ -0,0 +1,43 @@
+import { useState, useEffect, useCallback } from 'react';
+import { fetchProductVariants, findProductVariant } from '@/lib/variantUtils';
+import type { ProductVariant } from '@/types';
+
+interface UseProductVariantsResult {
+  variants: ProductVariant[];
+  loading: boolean;
+  findVariant: (color?: string, size?: string) => ProductVariant | undefined;
+  refresh: () => Promise<void>;
+}
+
+export function useProductVariants(productId: string | undefined): UseProductVariantsResult {
+  const [variants, setVariants] = useState<ProductVariant[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const loadVariants = useCallback(async () => {
+    if (!productId) {
+      setVariants([]);
+      return;
+    }
+
+    setLoading(true);
+    const fetchedVariants = await fetchProductVariants(productId);
+    setVariants(fetchedVariants);
+    setLoading(false);
+  }, [productId]);
+
+  useEffect(() => {
+    loadVariants();
+  }, [loadVariants]);
+
+  const findVariant = useCallback(
+    (color?: string, size?: string) => findProductVariant(variants, color, size),
+    [variants]
+  );
+
+  return {
+    variants,
+    loading,
+    findVariant,
+    refresh: loadVariants,
+  };
+}
@@ -0,0 +1,51 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { getSellerRecentlyViewedIds } from '@/lib/recentlyViewedUtils';
+import { fetchStorefrontProductsByIds } from '@/lib/recommendationUtils';
+import type { Product } from '@/types';
+
+interface UseRecentlyViewedProductsResult {
+  products: Product[];
+  loading: boolean;
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Products from the buyer's own history with a seller, current data only:
+ * products since hidden or sold are left out
+ */
+export function useRecentlyViewedProducts(
+  sellerId: string | undefined,
+  excludeId?: string
+): UseRecentlyViewedProductsResult {
+  const [products, setProducts] = useState<Product[]>([]);
+  const [loading, setLoading] = useState(true);
+  const requestIdRef = useRef(0);
+
+  const loadProducts = useCallback(async () => {
+    const requestId = ++requestIdRef.current;
+
+    const ids = sellerId ? getSellerRecentlyViewedIds(sellerId, excludeId) : [];
+    if (ids.length === 0) {
+      setProducts([]);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    const data = await fetchStorefrontProductsByIds(ids);
+    if (requestId !== requestIdRef.current) return;
+
+    setProducts(data);
+    setLoading(false);
+  }, [sellerId, excludeId]);
+
+  useEffect(() => {
+    loadProducts();
+  }, [loadProducts]);
+
+  return {
+    products,
+    loading,
+    refresh: loadProducts,
+  };
+}
@@ -0,0 +1,86 @@
+import { useState, useEffect, useCallback } from 'react';
+import { toast } from 'sonner';
+import { fetchSellerCoupons, saveCoupon, deleteCoupon, type CouponInput } from '@/lib/couponUtils';
+import type { Coupon } from '@/types';
+
+interface UseSellerCouponsResult {
+  coupons: Coupon[];
+  loading: boolean;
+  save: (coupon: CouponInput, couponId?: string) => Promise<boolean>;
+  remove: (couponId: string) => Promise<boolean>;
+  toggleActive: (coupon: Coupon) => Promise<boolean>;
+  refresh: () => Promise<void>;
+}
+
+export function useSellerCoupons(sellerId: string | undefined): UseSellerCouponsResult {
+  const [coupons, setCoupons] = useState<Coupon[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const loadCoupons = useCallback(async () => {
+    if (!sellerId) {
+      setCoupons([]);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    const data = await fetchSellerCoupons(sellerId);
+    setCoupons(data);
+    setLoading(false);
+  }, [sellerId]);
+
+  useEffect(() => {
+    loadCoupons();
+  }, [loadCoupons]);
+
+  const save = async (coupon: CouponInput, couponId?: string): Promise<boolean> => {
+    if (!sellerId) return false;
+
+    try {
+      const saved = await saveCoupon(sellerId, coupon, couponId);
+      setCoupons(prev => (couponId
+        ? prev.map(item => (item.id === couponId ? saved : item))
+        : [saved, ...prev]));
+      toast.success(couponId ? 'Cupom atualizado' : 'Cupom criado');
+      return true;
+    } catch (error) {
+      console.error('Error saving coupon:', error);
+      if (error && typeof error === 'object' && 'code' in error && error.code === '23505') {
+        toast.error('Já existe um cupom com este código');
+      } else {
+        toast.error('Erro ao salvar cupom');
+      }
+      return false;
+    }
+  };
+
+  const remove = async (couponId: string): Promise<boolean> => {
+    const success = await deleteCoupon(couponId);
+
+    if (!success) {
+      toast.error('Erro ao excluir cupom');
+      return false;
+    }
+
+    setCoupons(prev => prev.filter(coupon => coupon.id !== couponId));
+    toast.success('Cupom excluído');
+    return true;
+  };
+
+  const toggleActive = async (coupon: Coupon): Promise<boolean> => {
+    const { code, discount_type, discount_value, min_cart_total, expires_at, usage_limit, category_names } = coupon;
+    return save(
+      { code, discount_type, discount_value, min_cart_total, expires_at, usage_limit, category_names, is_active: !coupon.is_active },
+      coupon.id
+    );
+  };
+
+  return {
+    coupons,
+    loading,
+    save,
+    remove,
+    toggleActive,
+    refresh: loadCoupons,
+  };
+}
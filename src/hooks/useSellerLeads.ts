@@ -0,0 +1,128 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { toast } from 'sonner';
+import {
+  fetchSellerLeads,
+  fetchLeadProducts,
+  updateLead,
+  LEAD_STATUS_LABELS,
+  type LeadFilters,
+  type LeadProductOption,
+} from '@/lib/leadUtils';
+import type { Lead, LeadStatus } from '@/types';
+
+interface UseSellerLeadsResult {
+  leads: Lead[];
+  /** Leads matching the filters, including the pages not loaded yet */
+  total: number;
+  hasMore: boolean;
+  products: LeadProductOption[];
+  loading: boolean;
+  loadingMore: boolean;
+  loadMore: () => Promise<void>;
+  filters: LeadFilters;
+  setFilters: (filters: LeadFilters) => void;
+  changeStatus: (leadId: string, status: LeadStatus, silent?: boolean) => Promise<boolean>;
+  saveNotes: (leadId: string, notes: string) => Promise<boolean>;
+  refresh: () => Promise<void>;
+}
+
+export function useSellerLeads(sellerId: string | undefined): UseSellerLeadsResult {
+  const [leads, setLeads] = useState<Lead[]>([]);
+  const [total, setTotal] = useState(0);
+  const [products, setProducts] = useState<LeadProductOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  // Ignore pages that arrive after the filters changed
+  const requestIdRef = useRef(0);
+  const [filters, setFilters] = useState<LeadFilters>({
+    status: 'todos',
+    productId: 'todos',
+    search: '',
+    sinceDays: 30,
+  });
+
+  const loadLeads = useCallback(async () => {
+    const requestId = ++requestIdRef.current;
+
+    if (!sellerId) {
+      setLeads([]);
+      setTotal(0);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    const page = await fetchSellerLeads(sellerId, filters);
+    if (requestId !== requestIdRef.current) return;
+
+    setLeads(page.leads);
+    setTotal(page.total);
+    setLoading(false);
+  }, [sellerId, filters]);
+
+  const loadMore = async () => {
+    if (!sellerId || loadingMore) return;
+
+    const requestId = requestIdRef.current;
+    setLoadingMore(true);
+    const page = await fetchSellerLeads(sellerId, filters, leads.length);
+    setLoadingMore(false);
+    if (requestId !== requestIdRef.current) return;
+
+    setLeads(prev => [...prev, ...page.leads]);
+    setTotal(page.total);
+  };
+
+  useEffect(() => {
+    loadLeads();
+  }, [loadLeads]);
+
+  useEffect(() => {
+    if (sellerId) {
+      fetchLeadProducts(sellerId).then(setProducts);
+    }
+  }, [sellerId]);
+
+  const changeStatus = async (leadId: string, status: LeadStatus, silent = false): Promise<boolean> => {
+    const success = await updateLead(leadId, { status });
+
+    if (!success) {
+      toast.error('Erro ao atualizar status do lead');
+      return false;
+    }
+
+    setLeads(prev => prev.map(lead => (lead.id === leadId ? { ...lead, status } : lead)));
+    if (!silent) {
+      toast.success(`Lead marcado como ${LEAD_STATUS_LABELS[status].toLowerCase()}`);
+    }
+    return true;
+  };
+
+  const saveNotes = async (leadId: string, notes: string): Promise<boolean> => {
+    const success = await updateLead(leadId, { notes: notes.trim() || null });
+
+    if (!success) {
+      toast.error('Erro ao salvar notas');
+      return false;
+    }
+
+    setLeads(prev => prev.map(lead => (lead.id === leadId ? { ...lead, notes: notes.trim() || null } : lead)));
+    toast.success('Notas salvas');
+    return true;
+  };
+
+  return {
+    leads,
+    total,
+    hasMore: leads.length < total,
+    products,
+    loading,
+    loadingMore,
+    loadMore,
+    filters,
+    setFilters,
+    changeStatus,
+    saveNotes,
+    refresh: loadLeads,
+  };
+}
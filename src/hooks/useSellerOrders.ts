@@ -0,0 +1,81 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { toast } from 'sonner';
+import { fetchSellerOrders, updateOrderStatus, ORDER_STATUS_LABELS, type OrderFilters } from '@/lib/orderUtils';
+import type { Order, OrderStatus } from '@/types';
+
+// Wait for a pause in typing before searching by reference code
+const REFERENCE_CODE_SEARCH_DELAY_MS = 300;
+
+interface UseSellerOrdersResult {
+  orders: Order[];
+  loading: boolean;
+  filters: OrderFilters;
+  setFilters: (filters: OrderFilters) => void;
+  changeStatus: (orderId: string, status: OrderStatus) => Promise<boolean>;
+  refresh: () => Promise<void>;
+}
+
+export function useSellerOrders(sellerId: string | undefined): UseSellerOrdersResult {
+  const [orders, setOrders] = useState<Order[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filters, setFilters] = useState<OrderFilters>({
+    status: 'todos',
+    referenceCode: '',
+    sinceDays: 30,
+  });
+  const [referenceCode, setReferenceCode] = useState(filters.referenceCode);
+  // Ignore responses that arrive after a newer search started
+  const requestIdRef = useRef(0);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setReferenceCode(filters.referenceCode), REFERENCE_CODE_SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [filters.referenceCode]);
+
+  const loadOrders = useCallback(async () => {
+    const requestId = ++requestIdRef.current;
+
+    if (!sellerId) {
+      setOrders([]);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    const data = await fetchSellerOrders(sellerId, {
+      status: filters.status,
+      sinceDays: filters.sinceDays,
+      referenceCode,
+    });
+    if (requestId !== requestIdRef.current) return;
+
+    setOrders(data);
+    setLoading(false);
+  }, [sellerId, filters.status, filters.sinceDays, referenceCode]);
+
+  useEffect(() => {
+    loadOrders();
+  }, [loadOrders]);
+
+  const changeStatus = async (orderId: string, status: OrderStatus): Promise<boolean> => {
+    const success = await updateOrderStatus(orderId, status);
+
+    if (!success) {
+      toast.error('Erro ao atualizar status do pedido');
+      return false;
+    }
+
+    setOrders(prev => prev.map(order => (order.id === orderId ? { ...order, status } : order)));
+    toast.success(`Pedido marcado como ${ORDER_STATUS_LABELS[status].toLowerCase()}`);
+    return true;
+  };
+
+  return {
+    orders,
+    loading,
+    filters,
+    setFilters,
+    changeStatus,
+    refresh: loadOrders,
+  };
+}
@@ -0,0 +1,82 @@
+import { useState, useEffect, useCallback } from 'react';
+import { toast } from 'sonner';
+import { fetchSellerPromotions, savePromotion, deletePromotion, type PromotionInput } from '@/lib/promotionUtils';
+import type { Promotion } from '@/types';
+
+interface UseSellerPromotionsResult {
+  promotions: Promotion[];
+  loading: boolean;
+  save: (promotion: PromotionInput, promotionId?: string) => Promise<boolean>;
+  remove: (promotionId: string) => Promise<boolean>;
+  toggleActive: (promotion: Promotion) => Promise<boolean>;
+  refresh: () => Promise<void>;
+}
+
+export function useSellerPromotions(sellerId: string | undefined): UseSellerPromotionsResult {
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const loadPromotions = useCallback(async () => {
+    if (!sellerId) {
+      setPromotions([]);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    const data = await fetchSellerPromotions(sellerId);
+    setPromotions(data);
+    setLoading(false);
+  }, [sellerId]);
+
+  useEffect(() => {
+    loadPromotions();
+  }, [loadPromotions]);
+
+  const save = async (promotion: PromotionInput, promotionId?: string): Promise<boolean> => {
+    if (!sellerId) return false;
+
+    try {
+      const saved = await savePromotion(sellerId, promotion, promotionId);
+      setPromotions(prev => (promotionId
+        ? prev.map(item => (item.id === promotionId ? saved : item))
+        : [saved, ...prev]));
+      toast.success(promotionId ? 'Promoção atualizada' : 'Promoção criada');
+      return true;
+    } catch (error) {
+      console.error('Error saving promotion:', error);
+      toast.error('Erro ao salvar promoção');
+      return false;
+    }
+  };
+
+  const remove = async (promotionId: string): Promise<boolean> => {
+    const success = await deletePromotion(promotionId);
+
+    if (!success) {
+      toast.error('Erro ao excluir promoção');
+      return false;
+    }
+
+    setPromotions(prev => prev.filter(promotion => promotion.id !== promotionId));
+    toast.success('Promoção excluída');
+    return true;
+  };
+
+  const toggleActive = async (promotion: Promotion): Promise<boolean> => {
+    const { name, discount_type, discount_value, product_ids, category_names, starts_at, ends_at } = promotion;
+    return save(
+      { name, discount_type, discount_value, product_ids, category_names, starts_at, ends_at, is_active: !promotion.is_active },
+      promotion.id
+    );
+  };
+
+  return {
+    promotions,
+    loading,
+    save,
+    remove,
+    toggleActive,
+    refresh: loadPromotions,
+  };
+}
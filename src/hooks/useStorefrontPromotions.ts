@@ -0,0 +1,68 @@
+import { useState, useEffect, useCallback } from 'react';
+import { fetchStorefrontPromotions, findActivePromotion, getNextPromotionChange } from '@/lib/promotionUtils';
+import type { ActivePromotion, Product, Promotion } from '@/types';
+
+// setTimeout overflows past ~24.8 days; waking up earlier just re-arms the timer
+const MAX_TIMER_DELAY = 2_147_483_647;
+
+interface UseStorefrontPromotionsResult {
+  promotions: Promotion[];
+  loading: boolean;
+  getPromotion: (product: Product) => ActivePromotion | null;
+  /** Products with `active_promotion` set to the promotion running for each of them */
+  applyPromotions: <T extends Product>(products: T[]) => T[];
+  refresh: () => Promise<void>;
+}
+
+export function useStorefrontPromotions(sellerId: string | undefined): UseStorefrontPromotionsResult {
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [now, setNow] = useState(() => new Date());
+
+  const loadPromotions = useCallback(async () => {
+    if (!sellerId) {
+      setPromotions([]);
+      return;
+    }
+
+    setLoading(true);
+    const data = await fetchStorefrontPromotions(sellerId);
+    setPromotions(data);
+    setNow(new Date());
+    setLoading(false);
+  }, [sellerId]);
+
+  useEffect(() => {
+    loadPromotions();
+  }, [loadPromotions]);
+
+  // Re-price when the next promotion starts or ends, without reloading the page
+  useEffect(() => {
+    const delay = getNextPromotionChange(promotions, now);
+    if (delay === null) return;
+
+    const timer = setTimeout(() => setNow(new Date()), Math.min(delay + 50, MAX_TIMER_DELAY));
+    return () => clearTimeout(timer);
+  }, [promotions, now]);
+
+  const getPromotion = useCallback(
+    (product: Product) => findActivePromotion(product, promotions, now),
+    [promotions, now]
+  );
+
+  const applyPromotions = useCallback(
+    <T extends Product>(products: T[]): T[] => {
+      if (promotions.length === 0) return products;
+      return products.map(product => ({ ...product, active_promotion: findActivePromotion(product, promotions, now) }));
+    },
+    [promotions, now]
+  );
+
+  return {
+    promotions,
+    loading,
+    getPromotion,
+    applyPromotions,
+    refresh: loadPromotions,
+  };
+}
@@ -0,0 +1,33 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  answerTrackingConsent,
+  isTrackingConsentPending,
+  subscribeTrackingConsent,
+} from '@/lib/tracking';
+
+interface UseTrackingConsentReturn {
+  pending: boolean;
+  accept: () => void;
+  decline: () => void;
+}
+
+/**
+ * Whether the storefront is waiting for the visitor to accept or decline tracking cookies
+ */
+export function useTrackingConsent(): UseTrackingConsentReturn {
+  const [pending, setPending] = useState(isTrackingConsentPending);
+
+  useEffect(() => {
+    setPending(isTrackingConsentPending());
+    return subscribeTrackingConsent(() => setPending(isTrackingConsentPending()));
+  }, []);
+
+  const accept = useCallback(() => answerTrackingConsent('granted'), []);
+  const decline = useCallback(() => answerTrackingConsent('denied'), []);
+
+  return {
+    pending,
+    accept,
+    decline,
+  };
+}
@@ -0,0 +1,56 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { fetchTrafficSources, type TrafficSourceRow } from '@/lib/trafficSourceUtils';
+import type { ReportDateRange } from '@/lib/funnelUtils';
+
+interface UseTrafficSourcesReturn {
+  rows: TrafficSourceRow[];
+  loading: boolean;
+  error: string | null;
+  refresh: () => Promise<void>;
+}
+
+export function useTrafficSources(range: ReportDateRange): UseTrafficSourcesReturn {
+  const { user } = useAuth();
+  const [rows, setRows] = useState<TrafficSourceRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fromTime = range.from.getTime();
+  const toTime = range.to.getTime();
+
+  const loadRows = useCallback(async () => {
+    if (!user?.id) {
+      setRows([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+      setRows(await fetchTrafficSources({ from: new Date(fromTime), to: new Date(toTime) }));
+    } catch (err) {
+      if (err && typeof err === 'object' && 'code' in err && (err.code === 'PGRST202' || err.code === '42883')) {
+        console.warn('Attribution columns not found. Please apply database migrations.');
+        setRows([]);
+        return;
+      }
+      console.error('Error fetching traffic sources:', err);
+      setError('Erro ao carregar a origem do tráfego');
+    } finally {
+      setLoading(false);
+    }
+  }, [user?.id, fromTime, toTime]);
+
+  useEffect(() => {
+    loadRows();
+  }, [loadRows]);
+
+  return {
+    rows,
+    loading,
+    error,
+    refresh: loadRows,
+  };
+}
@@ -0,0 +1,105 @@
+import { supabase } from './supabase';
+import type { BundleItemSummary, ProductBundleItem } from '@/types';
+
+const BUNDLE_ITEM_COLUMNS = `
+  id,
+  bundle_id,
+  component_id,
+  variant_id,
+  color,
+  size,
+  quantity,
+  display_order,
+  component:products!component_id(id, title, featured_image_url, price, discounted_price, status, colors, sizes)
+`;
+
+/**
+ * Embed for product queries, so storefront lists load bundle contents with the products
+ */
+export const BUNDLE_ITEMS_EMBED = `bundle_items:product_bundle_items!bundle_id(${BUNDLE_ITEM_COLUMNS})`;
+
+export async function fetchBundleItems(bundleId: string): Promise<ProductBundleItem[]> {
+  try {
+    const { data, error } = await supabase
+      .from('product_bundle_items')
+      .select(BUNDLE_ITEM_COLUMNS)
+      .eq('bundle_id', bundleId)
+      .order('display_order', { ascending: true });
+
+    if (error) throw error;
+    return (data || []) as unknown as ProductBundleItem[];
+  } catch (error) {
+    if (error && typeof error === 'object' && 'code' in error && error.code === '42P01') {
+      console.warn('Bundle tables not found. Please apply database migrations.');
+      return [];
+    }
+    console.error('Error fetching bundle items:', error);
+    return [];
+  }
+}
+
+/**
+ * Replace the items of a bundle. Passing an empty list clears it.
+ */
+export async function saveBundleItems(bundleId: string, items: ProductBundleItem[]): Promise<void> {
+  const { error: deleteError } = await supabase
+    .from('product_bundle_items')
+    .delete()
+    .eq('bundle_id', bundleId);
+
+  if (deleteError) throw deleteError;
+
+  if (items.length === 0) return;
+
+  const { error: insertError } = await supabase
+    .from('product_bundle_items')
+    .insert(items.map((item, index) => ({
+      bundle_id: bundleId,
+      component_id: item.component_id,
+      variant_id: item.variant_id ?? null,
+      color: item.color,
+      size: item.size,
+      quantity: Math.max(1, Math.floor(item.quantity || 1)),
+      display_order: index,
+    })));
+
+  if (insertError) throw insertError;
+}
+
+/**
+ * Bundle contents in display order, skipping components that no longer exist
+ */
+export function getBundleItemSummaries(items: ProductBundleItem[] = []): BundleItemSummary[] {
+  return [...items]
+    .sort((a, b) => (a.display_order ?? 0) - (b.display_order ?? 0))
+    .filter(item => item.component)
+    .map(item => ({
+      title: item.component!.title,
+      quantity: item.quantity,
+      color: item.color || undefined,
+      size: item.size || undefined,
+    }));
+}
+
+/**
+ * "3x Camiseta Básica (Azul, M)"
+ */
+export function formatBundleItem(item: BundleItemSummary): string {
+  const options = [item.color, item.size].filter(Boolean).join(', ');
+  return `${item.quantity}x ${item.title}${options ? ` (${options})` : ''}`;
+}
+
+/**
+ * What the components would cost bought separately, or null when one has no price
+ */
+export function getBundleComponentsTotal(items: ProductBundleItem[] = []): number | null {
+  if (items.length === 0) return null;
+
+  let total = 0;
+  for (const item of items) {
+    const price = item.component?.discounted_price || item.component?.price;
+    if (!price) return null;
+    total += price * item.quantity;
+  }
+  return total;
+}
@@ -1,5 +1,9 @@
-import type { CartItem, CartDistribution } from '@/types';
+import type { CartItem, CartDistribution, BuyerDetails } from '@/types';
 import { formatCurrencyI18n, generateWhatsAppMessage, type SupportedLanguage, type SupportedCurrency } from '@/lib/i18n';
+import { getOrderPageUrl } from '@/lib/orderUtils';
+import { formatBuyerAddress } from '@/lib/leadUtils';
+import { formatPhone } from '@/lib/utils';
+import { formatBundleItem } from '@/lib/bundleUtils';
 
 /**
  * Generate a formatted WhatsApp message for a cart order
@@ -11,7 +15,11 @@ export function generateCartOrderMessage(
   corretorSlug: string,
   currency: SupportedCurrency = 'BRL',
   language: SupportedLanguage = 'pt-BR',
-  distributions: CartDistribution[] = []
+  distributions: CartDistribution[] = [],
+  orderReference?: string,
+  couponDiscount?: { code: string; amount: number },
+  delivery?: { method: string; fee: number; postalCode?: string },
+  buyer?: BuyerDetails
 ): string {
   if (cartItems.length === 0 && distributions.length === 0) return '';
 
@@ -28,6 +36,16 @@ export function generateCartOrderMessage(
   };
   
   orderMessage += `*${orderTitles[language] || orderTitles['pt-BR']}*\n`;
+
+  if (orderReference) {
+    const referenceLabels = {
+      'pt-BR': 'Código do pedido',
+      'en-US': 'Order code',
+      'es-ES': 'Código del pedido',
+    };
+    orderMessage += `${referenceLabels[language] || referenceLabels['pt-BR']}: *#${orderReference}*\n`;
+  }
+
   orderMessage += `━━━━━━━━━━━━━━━━━━━━━━━━━━\n\n`;
 
   let itemNumber = 1;
@@ -123,6 +141,24 @@ export function generateCartOrderMessage(
       }
     }
 
+    if (item.sku) {
+      orderMessage += `   SKU: ${item.sku}\n`;
+    }
+
+    // Expand bundles so the seller knows exactly what to pick
+    if (item.bundleItems && item.bundleItems.length > 0) {
+      const bundleLabels = {
+        'pt-BR': 'Itens do kit',
+        'en-US': 'Bundle items',
+        'es-ES': 'Artículos del kit',
+      };
+      orderMessage += `   ${bundleLabels[language] || bundleLabels['pt-BR']}:\n`;
+      item.bundleItems.forEach((bundleItem) => {
+        // Units for every bundle ordered, not just one
+        orderMessage += `   • ${formatBundleItem({ ...bundleItem, quantity: bundleItem.quantity * item.quantity })}\n`;
+      });
+    }
+
     // Add product link for easy access to full details
     if (corretorSlug) {
       try {
@@ -179,6 +215,52 @@ export function generateCartOrderMessage(
 
   // Order footer
   orderMessage += `━━━━━━━━━━━━━━━━━━━━━━━━━━\n`;
+
+  const discountAmount = couponDiscount?.amount || 0;
+
+  if (discountAmount > 0 || delivery) {
+    const subtotalLabels = {
+      'pt-BR': 'Subtotal',
+      'en-US': 'Subtotal',
+      'es-ES': 'Subtotal',
+    };
+    const itemsSubtotal = total + discountAmount - (delivery?.fee || 0);
+    orderMessage += `${subtotalLabels[language] || subtotalLabels['pt-BR']}: ${formatCurrencyI18n(itemsSubtotal, currency, language)}\n`;
+  }
+
+  if (couponDiscount && discountAmount > 0) {
+    const discountLabels = {
+      'pt-BR': 'Desconto',
+      'en-US': 'Discount',
+      'es-ES': 'Descuento',
+    };
+    orderMessage += `${discountLabels[language] || discountLabels['pt-BR']} (${couponDiscount.code}): -${formatCurrencyI18n(discountAmount, currency, language)}\n`;
+  }
+
+  if (delivery) {
+    const deliveryLabels = {
+      'pt-BR': 'Entrega',
+      'en-US': 'Delivery',
+      'es-ES': 'Entrega',
+    };
+    const freeLabels = {
+      'pt-BR': 'Grátis',
+      'en-US': 'Free',
+      'es-ES': 'Gratis',
+    };
+    const postalCodeLabels = {
+      'pt-BR': 'CEP',
+      'en-US': 'Postal code',
+      'es-ES': 'Código postal',
+    };
+    const feeText = delivery.fee > 0
+      ? formatCurrencyI18n(delivery.fee, currency, language)
+      : (freeLabels[language] || freeLabels['pt-BR']);
+    orderMessage += `${deliveryLabels[language] || deliveryLabels['pt-BR']} (${delivery.method}): ${feeText}\n`;
+    if (delivery.postalCode) {
+      orderMessage += `${postalCodeLabels[language] || postalCodeLabels['pt-BR']}: ${delivery.postalCode}\n`;
+    }
+  }
   
   const totalLabels = {
     'pt-BR': 'TOTAL',
@@ -194,8 +276,48 @@ export function generateCartOrderMessage(
     'es-ES': 'Espero su respuesta con información de pago y entrega.',
   };
   
+  if (buyer) {
+    const buyerTitles = {
+      'pt-BR': 'Dados do cliente',
+      'en-US': 'Customer details',
+      'es-ES': 'Datos del cliente',
+    };
+    const nameLabels = {
+      'pt-BR': 'Nome',
+      'en-US': 'Name',
+      'es-ES': 'Nombre',
+    };
+    const phoneLabels = {
+      'pt-BR': 'Telefone',
+      'en-US': 'Phone',
+      'es-ES': 'Teléfono',
+    };
+    const addressLabels = {
+      'pt-BR': 'Endereço',
+      'en-US': 'Address',
+      'es-ES': 'Dirección',
+    };
+
+    orderMessage += `*${buyerTitles[language] || buyerTitles['pt-BR']}*\n`;
+    orderMessage += `${nameLabels[language] || nameLabels['pt-BR']}: ${buyer.name.trim()}\n`;
+    orderMessage += `${phoneLabels[language] || phoneLabels['pt-BR']}: +${buyer.country_code} ${formatPhone(buyer.phone, buyer.country_code)}\n`;
+    if (buyer.address) {
+      orderMessage += `${addressLabels[language] || addressLabels['pt-BR']}: ${formatBuyerAddress(buyer.address)}\n`;
+    }
+    orderMessage += `\n`;
+  }
+
   orderMessage += footerMessages[language] || footerMessages['pt-BR'];
 
+  if (orderReference && corretorSlug) {
+    const trackLabels = {
+      'pt-BR': 'Acompanhe seu pedido',
+      'en-US': 'Track your order',
+      'es-ES': 'Sigue tu pedido',
+    };
+    orderMessage += `\n\n${trackLabels[language] || trackLabels['pt-BR']}: ${getOrderPageUrl(corretorSlug, orderReference)}`;
+  }
+
   return orderMessage;
 }
 
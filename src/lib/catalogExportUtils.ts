@@ -0,0 +1,273 @@
+import JSZip from 'jszip';
+import type { PostgrestError } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase';
+import { toCsv, type CsvColumn } from '@/lib/csvUtils';
+import type { PriceTier, Product, ProductImage, ProductVariant, ProductVariantStock } from '@/types';
+
+export type CatalogExportFormat = 'csv' | 'json' | 'zip';
+
+export interface CatalogExportImage extends Pick<ProductImage, 'url' | 'is_featured' | 'display_order'> {
+  file?: string;
+}
+
+export type CatalogExportVariant = Pick<ProductVariant, 'color' | 'size' | 'sku' | 'barcode' | 'price' | 'discounted_price'>;
+
+export interface CatalogExportProduct extends Omit<Product, 'product_images' | 'price_tiers' | 'product_variants'> {
+  images: CatalogExportImage[];
+  price_tiers: PriceTier[];
+  variant_stock: ProductVariantStock[];
+  variants: CatalogExportVariant[];
+}
+
+type CatalogExportProductRow = Omit<Product, 'product_images' | 'price_tiers' | 'product_variants'> & {
+  product_images: CatalogExportImage[] | null;
+  product_price_tiers: PriceTier[] | null;
+};
+
+export interface CatalogExport {
+  version: 1;
+  exported_at: string;
+  categories: string[];
+  products: CatalogExportProduct[];
+}
+
+const EXPORT_PAGE_SIZE = 500;
+const STORAGE_PUBLIC_PREFIX = '/storage/v1/object/public/public/';
+
+function getStoragePath(url: string): string | null {
+  try {
+    const { pathname } = new URL(url);
+    const index = pathname.indexOf(STORAGE_PUBLIC_PREFIX);
+    return index === -1 ? null : decodeURIComponent(pathname.slice(index + STORAGE_PUBLIC_PREFIX.length));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Load every row of a query in pages, since PostgREST caps a single response at 1000 rows
+ */
+async function fetchAllPages<T>(
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: PostgrestError | null }>
+): Promise<{ data: T[]; error: PostgrestError | null }> {
+  const rows: T[] = [];
+
+  for (let from = 0; ; from += EXPORT_PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + EXPORT_PAGE_SIZE - 1);
+    if (error) return { data: rows, error };
+
+    rows.push(...(data || []));
+    if (!data || data.length < EXPORT_PAGE_SIZE) return { data: rows, error: null };
+  }
+}
+
+async function fetchVariantStock(userId: string): Promise<ProductVariantStock[]> {
+  const { data, error } = await fetchAllPages<Pick<ProductVariant, 'product_id' | 'color' | 'size' | 'stock_quantity'>>((from, to) =>
+    supabase
+      .from('product_variants')
+      .select('product_id, color, size, stock_quantity, products!inner(user_id)')
+      .eq('products.user_id', userId)
+      .not('stock_quantity', 'is', null)
+      .order('id')
+      .range(from, to)
+  );
+
+  if (error) {
+    if (error.code === '42P01') {
+      console.warn('Stock tables not found. Please apply database migrations.');
+    } else {
+      console.error('Error fetching variant stock for export:', error);
+    }
+    return [];
+  }
+
+  return data.map(({ product_id, color, size, stock_quantity }) => ({
+    product_id,
+    color,
+    size,
+    quantity: stock_quantity ?? 0,
+  }));
+}
+
+async function fetchVariants(userId: string): Promise<(CatalogExportVariant & { product_id: string })[]> {
+  const { data, error } = await fetchAllPages<CatalogExportVariant & { product_id: string }>((from, to) =>
+    supabase
+      .from('product_variants')
+      .select('product_id, color, size, sku, barcode, price, discounted_price, products!inner(user_id)')
+      .eq('products.user_id', userId)
+      .order('id')
+      .range(from, to)
+  );
+
+  if (error) {
+    if (error.code === '42P01') {
+      console.warn('Variant tables not found. Please apply database migrations.');
+    } else {
+      console.error('Error fetching variants for export:', error);
+    }
+    return [];
+  }
+
+  return data.map(({ product_id, color, size, sku, barcode, price, discounted_price }) => ({
+    product_id,
+    color,
+    size,
+    sku,
+    barcode,
+    price,
+    discounted_price,
+  }));
+}
+
+/**
+ * Load every product of a seller with images, price tiers, variant stock and variants
+ */
+export async function fetchCatalogForExport(userId: string): Promise<CatalogExport | null> {
+  try {
+    const { data: rawProducts, error: productsError } = await fetchAllPages<CatalogExportProductRow>((from, to) =>
+      supabase
+        .from('products')
+        .select('*, product_images(url, is_featured, display_order), product_price_tiers(min_quantity, max_quantity, unit_price, discounted_unit_price)')
+        .eq('user_id', userId)
+        .order('display_order', { ascending: true, nullsFirst: false })
+        .order('created_at', { ascending: false })
+        .order('id')
+        .range(from, to)
+    );
+
+    if (productsError) throw productsError;
+
+    const [stock, variants, { data: categoryRows, error: categoriesError }] = await Promise.all([
+      fetchVariantStock(userId),
+      fetchVariants(userId),
+      supabase
+        .from('user_product_categories')
+        .select('name')
+        .eq('user_id', userId)
+        .order('name'),
+    ]);
+
+    if (categoriesError) throw categoriesError;
+
+    const products: CatalogExportProduct[] = rawProducts.map(({ product_images, product_price_tiers, ...product }) => ({
+      ...product,
+      images: [...(product_images || [])].sort((a, b) =>
+        Number(b.is_featured) - Number(a.is_featured) || (a.display_order ?? 0) - (b.display_order ?? 0)
+      ),
+      price_tiers: [...(product_price_tiers || [])].sort((a, b) => a.min_quantity - b.min_quantity),
+      variant_stock: stock
+        .filter(entry => entry.product_id === product.id)
+        .map(({ color, size, quantity }) => ({ color, size, quantity })),
+      variants: variants
+        .filter(variant => variant.product_id === product.id)
+        .map(({ color, size, sku, barcode, price, discounted_price }) => ({ color, size, sku, barcode, price, discounted_price })),
+    }));
+
+    return {
+      version: 1,
+      exported_at: new Date().toISOString(),
+      categories: (categoryRows || []).map(row => row.name),
+      products,
+    };
+  } catch (error) {
+    console.error('Error fetching catalog for export:', error);
+    return null;
+  }
+}
+
+/**
+ * Columns use the same headers the product import wizard recognises,
+ * so an exported file can be imported back without remapping.
+ */
+const CATALOG_CSV_COLUMNS: CsvColumn<CatalogExportProduct>[] = [
+  { header: 'id', value: product => product.id },
+  { header: 'nome', value: product => product.title },
+  { header: 'descricao', value: product => product.description },
+  { header: 'descricao curta', value: product => product.short_description },
+  { header: 'preco', value: product => (product.has_tiered_pricing ? '' : product.price) },
+  { header: 'preco promocional', value: product => (product.has_tiered_pricing ? '' : product.discounted_price) },
+  { header: 'marca', value: product => product.brand },
+  { header: 'categorias', value: product => (product.category || []).filter(name => name !== 'Sem Categoria').join(', ') },
+  { header: 'cores', value: product => (product.colors || []).join(', ') },
+  { header: 'tamanhos', value: product => (product.sizes || []).join(', ') },
+  { header: 'genero', value: product => product.model },
+  { header: 'condicao', value: product => product.condition },
+  { header: 'status', value: product => product.status },
+  { header: 'visivel na vitrine', value: product => (product.is_visible_on_storefront === false ? 'não' : 'sim') },
+  { header: 'imagens', value: product => product.images.map(image => image.file || image.url).join('|') },
+  {
+    header: 'precos por quantidade',
+    value: product => product.price_tiers
+      .map(tier => [tier.min_quantity, tier.unit_price, tier.discounted_unit_price].filter(part => part !== null && part !== undefined).join(':'))
+      .join('|'),
+  },
+  {
+    header: 'estoque',
+    value: product => product.variant_stock
+      .map(entry => `${[entry.color, entry.size].filter(Boolean).join('/') || 'único'}:${entry.quantity}`)
+      .join('|'),
+  },
+  {
+    header: 'skus',
+    value: product => product.variants
+      .filter(variant => variant.sku)
+      .map(variant => `${[variant.color, variant.size].filter(Boolean).join('/') || 'único'}:${variant.sku}`)
+      .join('|'),
+  },
+];
+
+export function buildCatalogCsv(catalog: CatalogExport): string {
+  return toCsv(catalog.products, CATALOG_CSV_COLUMNS);
+}
+
+export function buildCatalogJson(catalog: CatalogExport): string {
+  return JSON.stringify(catalog, null, 2);
+}
+
+/**
+ * Bundle the catalog with its images from the `public` bucket.
+ * Image references in the CSV and JSON point to files inside the zip;
+ * images hosted elsewhere keep their original URL.
+ */
+export async function buildCatalogZip(
+  catalog: CatalogExport,
+  onProgress?: (done: number, total: number) => void
+): Promise<Blob> {
+  const zip = new JSZip();
+  const imagesFolder = zip.folder('imagens')!;
+  const total = catalog.products.reduce((sum, product) => sum + product.images.length, 0);
+  let done = 0;
+
+  const products: CatalogExportProduct[] = [];
+  for (const product of catalog.products) {
+    const images: CatalogExportImage[] = [];
+
+    for (let i = 0; i < product.images.length; i++) {
+      const image = product.images[i];
+      const path = getStoragePath(image.url);
+      let file: string | undefined;
+
+      if (path) {
+        const { data, error } = await supabase.storage.from('public').download(path);
+        if (error || !data) {
+          console.error(`Error downloading image ${path}:`, error);
+        } else {
+          const extension = path.split('.').pop() || 'jpg';
+          file = `${product.id}-${i + 1}.${extension}`;
+          imagesFolder.file(file, data);
+        }
+      }
+
+      images.push(file ? { ...image, file } : image);
+      onProgress?.(++done, total);
+    }
+
+    products.push({ ...product, images });
+  }
+
+  const bundled: CatalogExport = { ...catalog, products };
+  zip.file('produtos.csv', `\uFEFF${buildCatalogCsv(bundled)}`);
+  zip.file('produtos.json', buildCatalogJson(bundled));
+
+  return zip.generateAsync({ type: 'blob' });
+}
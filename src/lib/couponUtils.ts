@@ -0,0 +1,167 @@
+import { supabase } from './supabase';
+import { getCartItemUnitPrice } from './orderUtils';
+import type { CartItem, CartDistribution, Coupon } from '@/types';
+
+export type CouponInput = Omit<Coupon, 'id' | 'seller_id' | 'usage_count' | 'created_at' | 'updated_at'>;
+
+export interface CouponValidationResult {
+  isValid: boolean;
+  error?: string;
+}
+
+export function normalizeCouponCode(code: string): string {
+  return code.replace(/\s+/g, '').toUpperCase();
+}
+
+/**
+ * Whether a product with these categories counts towards the coupon
+ */
+function isCategoryEligible(coupon: Coupon, categories: string[] = []): boolean {
+  if (coupon.category_names.length === 0) return true;
+
+  const normalized = categories.map(category => category.trim().toLowerCase());
+  return coupon.category_names.some(name => normalized.includes(name.trim().toLowerCase()));
+}
+
+/**
+ * Sum of the cart lines the coupon applies to
+ */
+export function getCouponEligibleSubtotal(
+  coupon: Coupon,
+  items: CartItem[],
+  distributions: CartDistribution[]
+): number {
+  const itemsSubtotal = items
+    .filter(item => isCategoryEligible(coupon, item.category))
+    .reduce((sum, item) => sum + getCartItemUnitPrice(item) * item.quantity, 0);
+
+  const distributionsSubtotal = distributions
+    .filter(dist => isCategoryEligible(coupon, dist.product.category))
+    .reduce((sum, dist) => sum + dist.distribution.applied_tier_price * dist.distribution.total_quantity, 0);
+
+  return itemsSubtotal + distributionsSubtotal;
+}
+
+export function validateCoupon(
+  coupon: Coupon,
+  items: CartItem[],
+  distributions: CartDistribution[]
+): CouponValidationResult {
+  if (!coupon.is_active) {
+    return { isValid: false, error: 'Cupom inativo' };
+  }
+
+  if (coupon.expires_at && new Date(coupon.expires_at) <= new Date()) {
+    return { isValid: false, error: 'Cupom expirado' };
+  }
+
+  if (coupon.usage_limit && coupon.usage_count >= coupon.usage_limit) {
+    return { isValid: false, error: 'Cupom esgotado' };
+  }
+
+  const eligibleSubtotal = getCouponEligibleSubtotal(coupon, items, distributions);
+
+  if (eligibleSubtotal <= 0) {
+    return { isValid: false, error: 'Nenhum produto do carrinho é elegível para este cupom' };
+  }
+
+  if (coupon.min_cart_total && eligibleSubtotal < coupon.min_cart_total) {
+    return { isValid: false, error: 'Valor mínimo do pedido não atingido para este cupom' };
+  }
+
+  return { isValid: true };
+}
+
+/**
+ * Discount amount for the current cart, never more than the eligible subtotal
+ */
+export function calculateCouponDiscount(
+  coupon: Coupon,
+  items: CartItem[],
+  distributions: CartDistribution[]
+): number {
+  if (!validateCoupon(coupon, items, distributions).isValid) return 0;
+
+  const eligibleSubtotal = getCouponEligibleSubtotal(coupon, items, distributions);
+  const discount = coupon.discount_type === 'percentage'
+    ? eligibleSubtotal * (coupon.discount_value / 100)
+    : coupon.discount_value;
+
+  return Math.round(Math.min(discount, eligibleSubtotal) * 100) / 100;
+}
+
+/**
+ * Look up a redeemable coupon of a storefront by its code
+ */
+export async function findStorefrontCoupon(sellerId: string, code: string): Promise<Coupon | null> {
+  try {
+    const { data, error } = await supabase
+      .rpc('get_storefront_coupon', {
+        p_seller_id: sellerId,
+        p_code: normalizeCouponCode(code),
+      })
+      .maybeSingle();
+
+    if (error) throw error;
+    return (data as Coupon | null) || null;
+  } catch (error) {
+    console.error('Error fetching coupon:', error);
+    return null;
+  }
+}
+
+export async function fetchSellerCoupons(sellerId: string): Promise<Coupon[]> {
+  try {
+    const { data, error } = await supabase
+      .from('coupons')
+      .select('*')
+      .eq('seller_id', sellerId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    if (error && typeof error === 'object' && 'code' in error && error.code === '42P01') {
+      console.warn('Coupon tables not found. Please apply database migrations.');
+      return [];
+    }
+    console.error('Error fetching coupons:', error);
+    return [];
+  }
+}
+
+/**
+ * Create a coupon, or update it when an id is given.
+ * Throws so callers can surface duplicate-code errors (23505).
+ */
+export async function saveCoupon(sellerId: string, coupon: CouponInput, couponId?: string): Promise<Coupon> {
+  const record = {
+    ...coupon,
+    code: normalizeCouponCode(coupon.code),
+    seller_id: sellerId,
+  };
+
+  const query = couponId
+    ? supabase.from('coupons').update(record).eq('id', couponId)
+    : supabase.from('coupons').insert(record);
+
+  const { data, error } = await query.select().single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function deleteCoupon(couponId: string): Promise<boolean> {
+  try {
+    const { error } = await supabase
+      .from('coupons')
+      .delete()
+      .eq('id', couponId);
+
+    if (error) throw error;
+    return true;
+  } catch (error) {
+    console.error('Error deleting coupon:', error);
+    return false;
+  }
+}
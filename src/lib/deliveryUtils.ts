@@ -0,0 +1,135 @@
+import { supabase } from './supabase';
+import type { DeliveryMethod, DeliveryMethodType } from '@/types';
+
+export type DeliveryMethodInput = Omit<DeliveryMethod, 'id' | 'seller_id' | 'created_at' | 'updated_at'>;
+
+export const DELIVERY_METHOD_TYPE_LABELS: Record<DeliveryMethodType, string> = {
+  pickup: 'Retirada no local',
+  flat_rate: 'Taxa fixa',
+  postal_code_table: 'Tabela por CEP',
+};
+
+/**
+ * Keep only the digits of a postal code (CEP "01310-100" -> "01310100")
+ */
+export function normalizePostalCode(postalCode: string): string {
+  return postalCode.replace(/\D/g, '');
+}
+
+export function requiresPostalCode(method: DeliveryMethod): boolean {
+  return method.type === 'postal_code_table';
+}
+
+/**
+ * Delivery fee for a cart, or null when the method cannot deliver there
+ * (fee tables without a postal code, or a postal code outside every range).
+ * `orderValue` is the cart total before delivery, used for free-delivery thresholds.
+ */
+export function calculateDeliveryFee(
+  method: DeliveryMethod,
+  orderValue: number,
+  postalCode?: string
+): number | null {
+  if (method.type === 'pickup') return 0;
+
+  let fee = method.fee;
+
+  if (method.type === 'postal_code_table') {
+    const digits = normalizePostalCode(postalCode || '');
+    if (!digits) return null;
+
+    const code = parseInt(digits, 10);
+    const range = method.postal_code_ranges.find(item =>
+      code >= parseInt(normalizePostalCode(item.from), 10) &&
+      code <= parseInt(normalizePostalCode(item.to), 10)
+    );
+
+    if (!range) return null;
+    fee = range.fee;
+  }
+
+  if (method.free_above && orderValue >= method.free_above) return 0;
+
+  return fee;
+}
+
+/**
+ * Fetch a seller's delivery methods in display order.
+ * Storefronts pass `onlyActive` so inactive methods are never offered.
+ */
+export async function fetchDeliveryMethods(sellerId: string, onlyActive = false): Promise<DeliveryMethod[]> {
+  try {
+    let query = supabase
+      .from('delivery_methods')
+      .select('*')
+      .eq('seller_id', sellerId)
+      .order('display_order', { ascending: true })
+      .order('created_at', { ascending: true });
+
+    if (onlyActive) {
+      query = query.eq('is_active', true);
+    }
+
+    const { data, error } = await query;
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    if (error && typeof error === 'object' && 'code' in error && error.code === '42P01') {
+      console.warn('Delivery tables not found. Please apply database migrations.');
+      return [];
+    }
+    console.error('Error fetching delivery methods:', error);
+    return [];
+  }
+}
+
+/**
+ * Create a delivery method, or update it when an id is given
+ */
+export async function saveDeliveryMethod(
+  sellerId: string,
+  method: DeliveryMethodInput,
+  methodId?: string
+): Promise<DeliveryMethod | null> {
+  try {
+    const record = {
+      ...method,
+      seller_id: sellerId,
+      postal_code_ranges: method.type === 'postal_code_table'
+        ? method.postal_code_ranges.map(range => ({
+            from: normalizePostalCode(range.from),
+            to: normalizePostalCode(range.to),
+            fee: range.fee,
+          }))
+        : [],
+    };
+
+    const query = methodId
+      ? supabase.from('delivery_methods').update(record).eq('id', methodId)
+      : supabase.from('delivery_methods').insert(record);
+
+    const { data, error } = await query.select().single();
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error('Error saving delivery method:', error);
+    return null;
+  }
+}
+
+export async function deleteDeliveryMethod(methodId: string): Promise<boolean> {
+  try {
+    const { error } = await supabase
+      .from('delivery_methods')
+      .delete()
+      .eq('id', methodId);
+
+    if (error) throw error;
+    return true;
+  } catch (error) {
+    console.error('Error deleting delivery method:', error);
+    return false;
+  }
+}
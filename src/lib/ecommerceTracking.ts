@@ -0,0 +1,188 @@
+import type { CartState, Product } from '@/types';
+import { findProductVariant, getVariantPricing } from './variantUtils';
+import {
+  pushDataLayerEvent,
+  trackGoogleAdsConversion,
+  trackGoogleEvent,
+  trackMetaConversion,
+  trackTikTokEvent,
+  type MetaConversionEvent,
+} from './tracking';
+
+/**
+ * Product as GA4 e-commerce events describe it
+ */
+export interface EcommerceItem {
+  item_id: string;
+  item_name: string;
+  item_brand?: string;
+  item_category?: string;
+  item_variant?: string;
+  item_list_name?: string;
+  price?: number;
+  quantity: number;
+}
+
+// Cards in view are reported together instead of one event per card
+const ITEM_LIST_FLUSH_DELAY_MS = 1000;
+// GA4 accepts at most 200 items per event
+const MAX_EVENT_ITEMS = 200;
+
+const reportedListItems = new Set<string>();
+const pendingItemLists = new Map<string, { currency: string; listName: string; items: EcommerceItem[] }>();
+let itemListFlushTimer: ReturnType<typeof setTimeout> | null = null;
+
+const getItemsValue = (items: EcommerceItem[]) =>
+  items.reduce((sum, item) => sum + (item.price || 0) * item.quantity, 0);
+
+const formatVariant = (color?: string, size?: string) =>
+  [color, size].filter(Boolean).join(' / ') || undefined;
+
+const getMainCategory = (categories?: string[]) =>
+  categories?.find(category => category && category !== 'Sem Categoria');
+
+/**
+ * Product priced like the storefront shows it: variant override and running promotion included
+ */
+export function toEcommerceItem(
+  product: Product,
+  options: { quantity?: number; color?: string; size?: string; price?: number } = {}
+): EcommerceItem {
+  const variant = findProductVariant(product.product_variants, options.color, options.size);
+  const pricing = getVariantPricing(product, variant);
+
+  return {
+    item_id: product.id,
+    item_name: product.title,
+    item_brand: product.brand || undefined,
+    item_category: getMainCategory(product.category),
+    item_variant: formatVariant(options.color, options.size),
+    price: options.price || pricing.discounted_price || pricing.price || undefined,
+    quantity: options.quantity ?? 1,
+  };
+}
+
+/**
+ * Cart lines and distributions at the unit price they were added with
+ */
+export function cartToEcommerceItems(cart: CartState): EcommerceItem[] {
+  return [
+    ...cart.items.map(item => ({
+      item_id: item.id,
+      item_name: item.title,
+      item_category: getMainCategory(item.category),
+      item_variant: formatVariant(item.selectedColor, item.selectedSize),
+      price: item.applied_tier_price || item.discounted_price || item.price,
+      quantity: item.quantity,
+    })),
+    ...cart.distributions.map(({ product, distribution }) => ({
+      item_id: product.id,
+      item_name: product.title,
+      item_brand: product.brand || undefined,
+      item_category: getMainCategory(product.category),
+      price: distribution.applied_tier_price,
+      quantity: distribution.total_quantity,
+    })),
+  ];
+}
+
+/**
+ * Send one e-commerce event to GA4, Google Tag Manager and Google Ads, and its
+ * standard equivalent to the Meta and TikTok pixels (both use the same event names)
+ */
+function trackEcommerceEvent(
+  googleEvent: string,
+  metaEvent: MetaConversionEvent,
+  sellerId: string | undefined,
+  currency: string,
+  items: EcommerceItem[],
+  value: number = getItemsValue(items)
+) {
+  trackGoogleEvent(googleEvent, { currency, value, items });
+  pushDataLayerEvent(googleEvent, { currency, value, items });
+  trackGoogleAdsConversion(sellerId, googleEvent, { value, currency });
+  trackTikTokEvent(metaEvent, {
+    contents: items.map(item => ({
+      content_id: item.item_id,
+      content_name: item.item_name,
+      quantity: item.quantity,
+      price: item.price,
+    })),
+    content_type: 'product',
+    value,
+    currency,
+  });
+  trackMetaConversion(sellerId, metaEvent, {
+    content_ids: Array.from(new Set(items.map(item => item.item_id))),
+    contents: items.map(item => ({ id: item.item_id, quantity: item.quantity, item_price: item.price })),
+    content_name: items.length === 1 ? items[0].item_name : undefined,
+    content_type: 'product',
+    value,
+    currency,
+    num_items: items.reduce((sum, item) => sum + item.quantity, 0),
+  });
+}
+
+export function trackViewItem(product: Product, currency: string) {
+  trackEcommerceEvent('view_item', 'ViewContent', product.user_id, currency, [toEcommerceItem(product)]);
+}
+
+export function trackAddToCart(
+  product: Product,
+  currency: string,
+  options: { quantity?: number; color?: string; size?: string; price?: number } = {}
+) {
+  trackEcommerceEvent('add_to_cart', 'AddToCart', product.user_id, currency, [toEcommerceItem(product, options)]);
+}
+
+/**
+ * Product added in several color/size combinations at once
+ */
+export function trackAddToCartItems(product: Product, currency: string, items: EcommerceItem[]) {
+  if (items.length === 0) return;
+  trackEcommerceEvent('add_to_cart', 'AddToCart', product.user_id, currency, items);
+}
+
+export function trackBeginCheckout(sellerId: string, cart: CartState, currency: string, value: number = cart.total) {
+  trackEcommerceEvent('begin_checkout', 'InitiateCheckout', sellerId, currency, cartToEcommerceItems(cart), value);
+}
+
+const flushItemLists = () => {
+  itemListFlushTimer = null;
+
+  pendingItemLists.forEach(({ currency, listName, items }) => {
+    for (let start = 0; start < items.length; start += MAX_EVENT_ITEMS) {
+      const chunk = items.slice(start, start + MAX_EVENT_ITEMS);
+      trackGoogleEvent('view_item_list', { item_list_name: listName, currency, items: chunk });
+      pushDataLayerEvent('view_item_list', { item_list_name: listName, currency, items: chunk });
+      // Meta has no standard list event
+      if (typeof window.fbq === 'function') {
+        window.fbq('trackCustom', 'ViewItemList', {
+          content_ids: chunk.map(item => item.item_id),
+          content_type: 'product',
+          content_category: listName,
+        });
+      }
+    }
+  });
+  pendingItemLists.clear();
+};
+
+/**
+ * Report a product card that came into view. Each product is reported once per
+ * list and page load; cards seen together go out in one view_item_list event.
+ */
+export function trackItemListImpression(product: Product, currency: string, listName: string) {
+  const reportKey = `${listName}:${product.id}`;
+  if (reportedListItems.has(reportKey)) return;
+  reportedListItems.add(reportKey);
+
+  const listKey = `${product.user_id}:${listName}`;
+  const pending = pendingItemLists.get(listKey) || { currency, listName, items: [] };
+  pending.items.push({ ...toEcommerceItem(product), item_list_name: listName });
+  pendingItemLists.set(listKey, pending);
+
+  if (!itemListFlushTimer) {
+    itemListFlushTimer = setTimeout(flushItemLists, ITEM_LIST_FLUSH_DELAY_MS);
+  }
+}
@@ -0,0 +1,140 @@
+import { supabase } from './supabase';
+import { getViewerId } from './tracking';
+import { getStorefrontBaseUrl } from './orderUtils';
+import { formatCurrencyI18n, type SupportedCurrency, type SupportedLanguage } from './i18n';
+import type { FavoriteItem, Product } from '@/types';
+
+export type MostFavoritedProduct = Pick<Product, 'id' | 'title' | 'featured_image_url' | 'favorite_count'>;
+
+/**
+ * Favorites are kept per visitor, under the same viewer id used for view tracking
+ */
+const getStorageKey = () => `vitrineturbo_favorites_${getViewerId()}`;
+
+export function loadFavorites(): FavoriteItem[] {
+  try {
+    const saved = localStorage.getItem(getStorageKey());
+    return saved ? JSON.parse(saved) : [];
+  } catch (error) {
+    console.error('Error loading favorites from localStorage:', error);
+    return [];
+  }
+}
+
+export function saveFavorites(items: FavoriteItem[]): void {
+  try {
+    localStorage.setItem(getStorageKey(), JSON.stringify(items));
+  } catch (error) {
+    console.error('Error saving favorites to localStorage:', error);
+  }
+}
+
+export function toFavoriteItem(product: Product): FavoriteItem {
+  return {
+    id: product.id,
+    seller_id: product.user_id,
+    title: product.title,
+    price: product.price,
+    discounted_price: product.discounted_price,
+    featured_image_url: product.featured_image_url,
+    added_at: new Date().toISOString(),
+  };
+}
+
+/**
+ * Count a favorite for the seller's stats. Favoriting again is a no-op.
+ */
+export async function recordFavorite(productId: string): Promise<boolean> {
+  try {
+    const { error } = await supabase
+      .from('product_favorites')
+      .insert({ product_id: productId, viewer_id: getViewerId() });
+
+    if (error && error.code !== '23505') throw error;
+    return true;
+  } catch (error) {
+    if (error && typeof error === 'object' && 'code' in error && error.code === '42P01') {
+      console.warn('Favorite tables not found. Please apply database migrations.');
+      return false;
+    }
+    console.error('Error recording favorite:', error);
+    return false;
+  }
+}
+
+export async function removeFavoriteRecord(productId: string): Promise<boolean> {
+  try {
+    const { error } = await supabase.rpc('remove_product_favorite', {
+      p_product_id: productId,
+      p_viewer_id: getViewerId(),
+    });
+
+    if (error) throw error;
+    return true;
+  } catch (error) {
+    console.error('Error removing favorite:', error);
+    return false;
+  }
+}
+
+export async function fetchMostFavoritedProducts(sellerId: string, limit = 5): Promise<MostFavoritedProduct[]> {
+  try {
+    const { data, error } = await supabase
+      .from('products')
+      .select('id, title, featured_image_url, favorite_count')
+      .eq('user_id', sellerId)
+      .gt('favorite_count', 0)
+      .order('favorite_count', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    if (error && typeof error === 'object' && 'code' in error && error.code === '42703') {
+      console.warn('Favorite columns not found. Please apply database migrations.');
+      return [];
+    }
+    console.error('Error fetching most favorited products:', error);
+    return [];
+  }
+}
+
+/**
+ * WhatsApp message listing the buyer's favorites with a link to each product
+ */
+export function generateFavoritesMessage(
+  items: FavoriteItem[],
+  sellerName: string,
+  corretorSlug: string,
+  currency: SupportedCurrency = 'BRL',
+  language: SupportedLanguage = 'pt-BR'
+): string {
+  if (items.length === 0) return '';
+
+  const greetings = {
+    'pt-BR': `Olá ${sellerName}, tenho interesse nestes produtos da sua vitrine:`,
+    'en-US': `Hi ${sellerName}, I'm interested in these products from your storefront:`,
+    'es-ES': `Hola ${sellerName}, me interesan estos productos de tu escaparate:`,
+  };
+  const footers = {
+    'pt-BR': 'Pode me passar mais informações?',
+    'en-US': 'Could you send me more information?',
+    'es-ES': '¿Me puedes dar más información?',
+  };
+
+  const baseUrl = getStorefrontBaseUrl();
+  let message = `${greetings[language] || greetings['pt-BR']}\n\n`;
+
+  items.forEach((item, index) => {
+    const price = item.discounted_price || item.price;
+
+    message += `${index + 1}. *${item.title.trim()}*\n`;
+    if (price) {
+      message += `   ${formatCurrencyI18n(price, currency, language)}\n`;
+    }
+    message += `   ${baseUrl}/${corretorSlug}/produtos/${item.id}\n\n`;
+  });
+
+  message += footers[language] || footers['pt-BR'];
+  return message;
+}
@@ -0,0 +1,102 @@
+import { supabase } from './supabase';
+import { endOfDay, startOfDay, subDays } from 'date-fns';
+import type { StorefrontEventType } from './tracking';
+
+export interface ReportDateRange {
+  from: Date;
+  to: Date;
+}
+
+export interface FunnelStep {
+  eventType: StorefrontEventType;
+  label: string;
+  /** Distinct buyers who reached the step */
+  viewers: number;
+  events: number;
+  /** Share of the previous step's buyers who did not reach this one (0-100) */
+  dropOff: number | null;
+}
+
+export interface ProductFunnelRow {
+  product_id: string;
+  title: string;
+  featured_image_url?: string | null;
+  views: number;
+  variant_selects: number;
+  add_to_carts: number;
+  checkouts: number;
+}
+
+export const FUNNEL_STEPS: { eventType: StorefrontEventType; label: string }[] = [
+  { eventType: 'storefront_visit', label: 'Visitas à vitrine' },
+  { eventType: 'product_view', label: 'Produtos vistos' },
+  { eventType: 'variant_select', label: 'Variação escolhida' },
+  { eventType: 'add_to_cart', label: 'Adicionou ao carrinho' },
+  { eventType: 'cart_open', label: 'Abriu o carrinho' },
+  { eventType: 'checkout_sent', label: 'Pedido enviado' },
+];
+
+export function getLastDaysRange(days: number): ReportDateRange {
+  return {
+    from: startOfDay(subDays(new Date(), days - 1)),
+    to: endOfDay(new Date()),
+  };
+}
+
+/**
+ * Percentage of `previous` lost before `current`, or null when there is nothing to compare
+ */
+export function getDropOff(previous: number, current: number): number | null {
+  if (previous <= 0) return null;
+  return Math.max(0, Math.round((1 - current / previous) * 100));
+}
+
+export async function fetchStorefrontFunnel(range: ReportDateRange): Promise<FunnelStep[]> {
+  const { data, error } = await supabase.rpc('get_storefront_funnel', {
+    p_start: range.from.toISOString(),
+    p_end: range.to.toISOString(),
+  });
+
+  if (error) throw error;
+
+  const byType = new Map<string, { viewers: number; events: number }>(
+    (data || []).map((row: { event_type: string; viewers: number; events: number }) => [
+      row.event_type,
+      { viewers: Number(row.viewers), events: Number(row.events) },
+    ])
+  );
+
+  return FUNNEL_STEPS.map((step, index) => {
+    const counts = byType.get(step.eventType) || { viewers: 0, events: 0 };
+    const previous = index > 0 ? byType.get(FUNNEL_STEPS[index - 1].eventType)?.viewers || 0 : 0;
+
+    return {
+      ...step,
+      viewers: counts.viewers,
+      events: counts.events,
+      dropOff: index > 0 ? getDropOff(previous, counts.viewers) : null,
+    };
+  });
+}
+
+/**
+ * Products with storefront activity in the range, most viewed first
+ */
+export async function fetchProductFunnel(range: ReportDateRange): Promise<ProductFunnelRow[]> {
+  const { data, error } = await supabase.rpc('get_product_funnel', {
+    p_start: range.from.toISOString(),
+    p_end: range.to.toISOString(),
+  });
+
+  if (error) throw error;
+
+  return ((data || []) as ProductFunnelRow[])
+    .map(row => ({
+      ...row,
+      views: Number(row.views),
+      variant_selects: Number(row.variant_selects),
+      add_to_carts: Number(row.add_to_carts),
+      checkouts: Number(row.checkouts),
+    }))
+    .sort((a, b) => b.views - a.views || b.checkouts - a.checkouts);
+}
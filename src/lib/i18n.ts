@@ -46,6 +46,13 @@ export const translations = {
     'filters.clear_filters': 'Limpar Filtros',
     'filters.apply_filters': 'Aplicar Filtros',
     'filters.refine_search': 'Refine sua busca usando os filtros abaixo',
+    'sort.label': 'Ordenar por',
+    'sort.display_order': 'Destaques',
+    'sort.price_asc': 'Menor preço',
+    'sort.price_desc': 'Maior preço',
+    'sort.newest': 'Mais recentes',
+    'sort.discount': 'Maior desconto',
+    'sort.most_viewed': 'Mais vistos',
     
     // Product details
     'product.starting_from': 'A partir de',
@@ -56,6 +63,20 @@ export const translations = {
     'product.description': 'Descrição',
     'product.share': 'Compartilhar',
     'product.copy_link': 'Copiar link do produto',
+    'product.bundle': 'Kit',
+    'product.bundle_contents': 'O que vem no kit',
+    'product.bundle_separately': 'Comprando separado',
+    'product.bundle_savings': 'Economia de',
+    'product.flash_sale': 'Oferta relâmpago',
+    'product.promotion_ends_in': 'Termina em',
+    'product.related': 'Você também pode gostar',
+    'product.also_viewed': 'Clientes também viram',
+    'product.recently_viewed': 'Vistos recentemente',
+    
+    // Cookie consent
+    'consent.message': 'Usamos cookies para medir visitas e melhorar os anúncios desta loja.',
+    'consent.accept': 'Aceitar',
+    'consent.decline': 'Recusar',
     
     // Contact and social
     'contact.talk_now': 'Fale agora conosco',
@@ -81,6 +102,7 @@ export const translations = {
     'messages.products': 'produtos',
     'messages.found': 'encontrado(s)',
     'messages.loading_search_results': 'Carregando resultados da busca...',
+    'messages.loading_more': 'Carregando mais produtos...',
     'messages.showing_active_products_only': 'Mostrando apenas produtos ativos nesta categoria',
     
     // Categories
@@ -106,6 +128,36 @@ export const translations = {
     'cart.unit_price': 'Preço unitário',
     'cart.order_title': 'PEDIDO DE COMPRA',
     'cart.order_footer': 'Gostaria de finalizar este pedido. Aguardo retorno com informações sobre pagamento e entrega.',
+
+    // Favorites
+    'favorites.title': 'Favoritos',
+    'favorites.add': 'Adicionar aos favoritos',
+    'favorites.remove': 'Remover dos favoritos',
+    'favorites.empty': 'Nenhum favorito ainda',
+    'favorites.empty_description': 'Toque no coração dos produtos para salvá-los aqui.',
+    'favorites.send_whatsapp': 'Enviar favoritos pelo WhatsApp',
+    'favorites.clear': 'Limpar favoritos',
+
+    // Order confirmation
+    'order.title': 'Pedido',
+    'order.code': 'Código do pedido',
+    'order.placed_at': 'Realizado em',
+    'order.items': 'Itens',
+    'order.subtotal': 'Subtotal',
+    'order.discount': 'Desconto',
+    'order.delivery': 'Entrega',
+    'order.free': 'Grátis',
+    'order.total': 'Total',
+    'order.not_found': 'Pedido não encontrado',
+    'order.not_found_description': 'Verifique se o link está correto ou fale com o vendedor.',
+    'order.back_to_store': 'Voltar para a loja',
+    'order.contact_seller': 'Falar com o vendedor',
+    'order.status.new': 'Recebido',
+    'order.status.confirmed': 'Confirmado',
+    'order.status.paid': 'Pago',
+    'order.status.shipped': 'Enviado',
+    'order.status.delivered': 'Entregue',
+    'order.status.cancelled': 'Cancelado',
   },
   
   'en-US': {
@@ -150,6 +202,13 @@ export const translations = {
     'filters.clear_filters': 'Clear Filters',
     'filters.apply_filters': 'Apply Filters',
     'filters.refine_search': 'Refine your search using the filters below',
+    'sort.label': 'Sort by',
+    'sort.display_order': 'Featured',
+    'sort.price_asc': 'Lowest price',
+    'sort.price_desc': 'Highest price',
+    'sort.newest': 'Newest',
+    'sort.discount': 'Biggest discount',
+    'sort.most_viewed': 'Most viewed',
     
     // Product details
     'product.starting_from': 'Starting from',
@@ -160,6 +219,20 @@ export const translations = {
     'product.description': 'Description',
     'product.share': 'Share',
     'product.copy_link': 'Copy product link',
+    'product.bundle': 'Bundle',
+    'product.bundle_contents': "What's in the bundle",
+    'product.bundle_separately': 'Bought separately',
+    'product.bundle_savings': 'You save',
+    'product.flash_sale': 'Flash sale',
+    'product.promotion_ends_in': 'Ends in',
+    'product.related': 'You may also like',
+    'product.also_viewed': 'Customers also viewed',
+    'product.recently_viewed': 'Recently viewed',
+    
+    // Cookie consent
+    'consent.message': 'We use cookies to measure visits and improve the ads of this store.',
+    'consent.accept': 'Accept',
+    'consent.decline': 'Decline',
     
     // Contact and social
     'contact.talk_now': 'Contact us now',
@@ -185,6 +258,7 @@ export const translations = {
     'messages.products': 'products',
     'messages.found': 'found',
     'messages.loading_search_results': 'Loading search results...',
+    'messages.loading_more': 'Loading more products...',
     'messages.showing_active_products_only': 'Showing active products only in this category',
 
     // Categories
@@ -210,6 +284,36 @@ export const translations = {
     'cart.unit_price': 'Unit price',
     'cart.order_title': 'PURCHASE ORDER',
     'cart.order_footer': 'I would like to finalize this order. I await your response with payment and delivery information.',
+
+    // Favorites
+    'favorites.title': 'Favorites',
+    'favorites.add': 'Add to favorites',
+    'favorites.remove': 'Remove from favorites',
+    'favorites.empty': 'No favorites yet',
+    'favorites.empty_description': 'Tap the heart on products to save them here.',
+    'favorites.send_whatsapp': 'Send favorites via WhatsApp',
+    'favorites.clear': 'Clear favorites',
+
+    // Order confirmation
+    'order.title': 'Order',
+    'order.code': 'Order code',
+    'order.placed_at': 'Placed on',
+    'order.items': 'Items',
+    'order.subtotal': 'Subtotal',
+    'order.discount': 'Discount',
+    'order.delivery': 'Delivery',
+    'order.free': 'Free',
+    'order.total': 'Total',
+    'order.not_found': 'Order not found',
+    'order.not_found_description': 'Check that the link is correct or contact the seller.',
+    'order.back_to_store': 'Back to store',
+    'order.contact_seller': 'Contact seller',
+    'order.status.new': 'Received',
+    'order.status.confirmed': 'Confirmed',
+    'order.status.paid': 'Paid',
+    'order.status.shipped': 'Shipped',
+    'order.status.delivered': 'Delivered',
+    'order.status.cancelled': 'Cancelled',
   },
   
   'es-ES': {
@@ -254,6 +358,13 @@ export const translations = {
     'filters.clear_filters': 'Limpiar Filtros',
     'filters.apply_filters': 'Aplicar Filtros',
     'filters.refine_search': 'Refina tu búsqueda usando los filtros de abajo',
+    'sort.label': 'Ordenar por',
+    'sort.display_order': 'Destacados',
+    'sort.price_asc': 'Menor precio',
+    'sort.price_desc': 'Mayor precio',
+    'sort.newest': 'Más recientes',
+    'sort.discount': 'Mayor descuento',
+    'sort.most_viewed': 'Más vistos',
     
     // Product details
     'product.starting_from': 'Desde',
@@ -264,6 +375,20 @@ export const translations = {
     'product.description': 'Descripción',
     'product.share': 'Compartir',
     'product.copy_link': 'Copiar enlace del producto',
+    'product.bundle': 'Kit',
+    'product.bundle_contents': 'Qué incluye el kit',
+    'product.bundle_separately': 'Comprando por separado',
+    'product.bundle_savings': 'Ahorras',
+    'product.flash_sale': 'Oferta relámpago',
+    'product.promotion_ends_in': 'Termina en',
+    'product.related': 'También te puede gustar',
+    'product.also_viewed': 'Los clientes también vieron',
+    'product.recently_viewed': 'Vistos recientemente',
+    
+    // Cookie consent
+    'consent.message': 'Usamos cookies para medir visitas y mejorar los anuncios de esta tienda.',
+    'consent.accept': 'Aceptar',
+    'consent.decline': 'Rechazar',
     'product.available_colors': 'Colores Disponibles',
     'product.available_sizes': 'Tallas Disponibles',
 
@@ -291,6 +416,7 @@ export const translations = {
     'messages.products': 'productos',
     'messages.found': 'encontrado(s)',
     'messages.loading_search_results': 'Cargando resultados de búsqueda...',
+    'messages.loading_more': 'Cargando más productos...',
     'messages.showing_active_products_only': 'Mostrando solo productos activos en esta categoría',
 
     // Categories
@@ -316,6 +442,36 @@ export const translations = {
     'cart.unit_price': 'Precio unitario',
     'cart.order_title': 'ORDEN DE COMPRA',
     'cart.order_footer': 'Me gustaría finalizar este pedido. Espero su respuesta con información de pago y entrega.',
+
+    // Favorites
+    'favorites.title': 'Favoritos',
+    'favorites.add': 'Añadir a favoritos',
+    'favorites.remove': 'Quitar de favoritos',
+    'favorites.empty': 'Aún no hay favoritos',
+    'favorites.empty_description': 'Toca el corazón de los productos para guardarlos aquí.',
+    'favorites.send_whatsapp': 'Enviar favoritos por WhatsApp',
+    'favorites.clear': 'Borrar favoritos',
+
+    // Order confirmation
+    'order.title': 'Pedido',
+    'order.code': 'Código del pedido',
+    'order.placed_at': 'Realizado el',
+    'order.items': 'Artículos',
+    'order.subtotal': 'Subtotal',
+    'order.discount': 'Descuento',
+    'order.delivery': 'Entrega',
+    'order.free': 'Gratis',
+    'order.total': 'Total',
+    'order.not_found': 'Pedido no encontrado',
+    'order.not_found_description': 'Verifique que el enlace sea correcto o contacte al vendedor.',
+    'order.back_to_store': 'Volver a la tienda',
+    'order.contact_seller': 'Contactar al vendedor',
+    'order.status.new': 'Recibido',
+    'order.status.confirmed': 'Confirmado',
+    'order.status.paid': 'Pagado',
+    'order.status.shipped': 'Enviado',
+    'order.status.delivered': 'Entregado',
+    'order.status.cancelled': 'Cancelado',
   },
 };
 
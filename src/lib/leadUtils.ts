@@ -0,0 +1,358 @@
+import { supabase } from './supabase';
+import { STOREFRONT_UUID, WHATSAPP_CLICK_LEAD_NAME, getAttribution } from './tracking';
+import { toCsv, type CsvColumn } from './csvUtils';
+import { formatPhone } from './utils';
+import type { BuyerAddress, BuyerDetails, Lead, LeadStatus } from '@/types';
+
+const BUYER_DETAILS_STORAGE_KEY = 'buyer_details';
+
+export const LEADS_PAGE_SIZE = 50;
+
+export const LEAD_STATUSES: LeadStatus[] = ['new', 'contacted', 'won', 'lost'];
+
+export const LEAD_STATUS_LABELS: Record<LeadStatus, string> = {
+  new: 'Novo',
+  contacted: 'Contatado',
+  won: 'Ganho',
+  lost: 'Perdido',
+};
+
+export const LEAD_SOURCE_LABELS: Record<string, string> = {
+  cart_checkout: 'Pedido pelo carrinho',
+  contact_sidebar: 'WhatsApp do produto',
+  header_social: 'WhatsApp da vitrine',
+  whatsapp: 'WhatsApp',
+  form: 'Formulário',
+};
+
+/**
+ * Placeholders: {nome}, {produto}, {loja}
+ */
+export const DEFAULT_LEAD_FOLLOW_UP_TEMPLATE =
+  'Olá {nome}, tudo bem? Aqui é {loja}. Vi seu interesse em {produto} e estou à disposição para ajudar a finalizar sua compra!';
+
+export interface LeadFilters {
+  status?: LeadStatus | 'todos';
+  productId?: string | 'todos';
+  search?: string;
+  sinceDays?: number | null;
+}
+
+export interface SellerLeadsPage {
+  leads: Lead[];
+  /** Leads matching the filters, across all pages */
+  total: number;
+}
+
+export interface LeadProductOption {
+  id: string;
+  title: string;
+}
+
+export interface CreateCheckoutLeadParams {
+  sellerId: string;
+  buyer: BuyerDetails;
+  message?: string;
+  source?: string;
+}
+
+/**
+ * Buyer details from a previous checkout on this device, so repeat buyers don't retype them
+ */
+export function loadSavedBuyerDetails(): BuyerDetails | null {
+  try {
+    const saved = localStorage.getItem(BUYER_DETAILS_STORAGE_KEY);
+    return saved ? JSON.parse(saved) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveBuyerDetails(buyer: BuyerDetails) {
+  localStorage.setItem(BUYER_DETAILS_STORAGE_KEY, JSON.stringify(buyer));
+}
+
+export function isValidBuyerName(name: string): boolean {
+  return name.trim().length >= 2;
+}
+
+export function isValidBuyerPhone(phone: string, countryCode: string): boolean {
+  // Brazilian numbers carry a 2-digit area code; elsewhere accept any plausible length
+  const minLength = countryCode === '55' ? 10 : 8;
+  return phone.replace(/\D/g, '').length >= minLength;
+}
+
+/**
+ * Name and phone are required to send an order; the address is optional
+ */
+export function isBuyerDetailsComplete(buyer: BuyerDetails): boolean {
+  return isValidBuyerName(buyer.name) && isValidBuyerPhone(buyer.phone, buyer.country_code);
+}
+
+/**
+ * Single-line address for messages and tables
+ * (e.g. "Rua A, 10 - Apto 2, Centro, São Paulo/SP, CEP 01310-100")
+ */
+export function formatBuyerAddress(address: BuyerAddress): string {
+  const street = [address.street, address.number].filter(Boolean).join(', ');
+  const cityState = [address.city, address.state].filter(Boolean).join('/');
+  const postalCode = address.postal_code ? `CEP ${address.postal_code}` : '';
+
+  return [
+    address.complement ? `${street} - ${address.complement}` : street,
+    address.neighborhood,
+    cityState,
+    postalCode,
+  ].filter(Boolean).join(', ');
+}
+
+/**
+ * Store a checkout lead with the buyer's contact details, linked to the seller. Leads of
+ * stored orders are saved by `create_order` with the order; this covers checkouts whose
+ * order could not be stored.
+ */
+export async function createCheckoutLead(params: CreateCheckoutLeadParams): Promise<boolean> {
+  try {
+    const { error } = await supabase
+      .from('leads')
+      .insert({
+        property_id: STOREFRONT_UUID,
+        listing_type: 'product',
+        seller_id: params.sellerId,
+        viewer_id: localStorage.getItem('viewer_id'),
+        name: params.buyer.name.trim(),
+        email: null,
+        phone: params.buyer.phone,
+        country_code: params.buyer.country_code,
+        address: params.buyer.address || null,
+        message: params.message || null,
+        source: params.source || 'cart_checkout',
+        status: 'new',
+        attribution: getAttribution(),
+      });
+
+    if (error) throw error;
+    return true;
+  } catch (error) {
+    console.error('Error creating checkout lead:', error);
+    return false;
+  }
+}
+
+/**
+ * Lead captured together with an order, if any. Only `create_order` links leads to
+ * orders; the earliest one is the buyer's.
+ */
+export async function fetchOrderLead(orderId: string): Promise<Lead | null> {
+  try {
+    const { data, error } = await supabase
+      .from('leads')
+      .select('*')
+      .eq('order_id', orderId)
+      .order('created_at', { ascending: true })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error('Error fetching order lead:', error);
+    return null;
+  }
+}
+
+/**
+ * Fetch a page of a seller's leads, newest first, with the title of the product each came from.
+ * WhatsApp click rows are left out: they only count clicks and have no contact to follow up.
+ */
+export async function fetchSellerLeads(
+  sellerId: string,
+  filters: LeadFilters = {},
+  from = 0
+): Promise<SellerLeadsPage> {
+  try {
+    let query = supabase
+      .from('leads')
+      .select('*', { count: 'exact' })
+      .eq('seller_id', sellerId)
+      .neq('name', WHATSAPP_CLICK_LEAD_NAME)
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false });
+
+    if (filters.status && filters.status !== 'todos') {
+      query = query.eq('status', filters.status);
+    }
+
+    if (filters.productId && filters.productId !== 'todos') {
+      query = query.eq('property_id', filters.productId);
+    }
+
+    // Commas and parentheses would break the `or` filter syntax
+    const search = filters.search?.replace(/[,()]/g, ' ').trim();
+    if (search) {
+      query = query.or(`name.ilike.%${search}%,phone.ilike.%${search}%,email.ilike.%${search}%`);
+    }
+
+    if (filters.sinceDays) {
+      const since = new Date();
+      since.setDate(since.getDate() - filters.sinceDays);
+      query = query.gte('created_at', since.toISOString());
+    }
+
+    const { data, error, count } = await query.range(from, from + LEADS_PAGE_SIZE - 1);
+
+    if (error) throw error;
+
+    const leads = (data || []) as Lead[];
+    const productTitles = await fetchProductTitles(
+      Array.from(new Set(leads.map(lead => lead.property_id).filter(Boolean))) as string[]
+    );
+
+    return {
+      leads: leads.map(lead => ({
+        ...lead,
+        product_title: lead.property_id ? productTitles.get(lead.property_id) || null : null,
+      })),
+      total: count ?? from + leads.length,
+    };
+  } catch (error) {
+    if (error && typeof error === 'object' && 'code' in error && error.code === '42P01') {
+      console.warn('Leads table not found. Please apply database migrations.');
+      return { leads: [], total: 0 };
+    }
+    console.error('Error fetching leads:', error);
+    return { leads: [], total: 0 };
+  }
+}
+
+async function fetchProductTitles(productIds: string[]): Promise<Map<string, string>> {
+  const titles = new Map<string, string>();
+  if (productIds.length === 0) return titles;
+
+  const { data, error } = await supabase
+    .from('products')
+    .select('id, title')
+    .in('id', productIds);
+
+  if (error) {
+    console.error('Error fetching lead product titles:', error);
+    return titles;
+  }
+
+  data?.forEach(product => titles.set(product.id, product.title));
+  return titles;
+}
+
+/**
+ * Products that received at least one lead, for the inbox product filter
+ */
+export async function fetchLeadProducts(sellerId: string): Promise<LeadProductOption[]> {
+  try {
+    const { data, error } = await supabase
+      .from('leads')
+      .select('property_id')
+      .eq('seller_id', sellerId)
+      .neq('name', WHATSAPP_CLICK_LEAD_NAME);
+
+    if (error) throw error;
+
+    const productIds = Array.from(new Set((data || []).map(lead => lead.property_id).filter(Boolean))) as string[];
+    const titles = await fetchProductTitles(productIds);
+
+    return Array.from(titles.entries())
+      .map(([id, title]) => ({ id, title }))
+      .sort((a, b) => a.title.localeCompare(b.title));
+  } catch (error) {
+    console.error('Error fetching lead products:', error);
+    return [];
+  }
+}
+
+export async function updateLead(
+  leadId: string,
+  updates: Partial<Pick<Lead, 'status' | 'notes'>>
+): Promise<boolean> {
+  try {
+    const { error } = await supabase
+      .from('leads')
+      .update(updates)
+      .eq('id', leadId);
+
+    if (error) throw error;
+    return true;
+  } catch (error) {
+    console.error('Error updating lead:', error);
+    return false;
+  }
+}
+
+/**
+ * Fill a follow-up template for a lead. Missing values fall back to neutral wording.
+ */
+export function fillLeadFollowUpTemplate(template: string, lead: Lead, storeName: string): string {
+  const firstName = lead.name.trim().split(/\s+/)[0] || '';
+
+  return template
+    .replace(/\{nome\}/g, firstName)
+    .replace(/\{produto\}/g, lead.product_title || 'nossos produtos')
+    .replace(/\{loja\}/g, storeName);
+}
+
+export async function fetchLeadFollowUpTemplate(sellerId: string): Promise<string> {
+  const { data, error } = await supabase
+    .from('user_storefront_settings')
+    .select('settings')
+    .eq('user_id', sellerId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error loading follow-up template:', error);
+  }
+
+  return data?.settings?.leadFollowUpTemplate || DEFAULT_LEAD_FOLLOW_UP_TEMPLATE;
+}
+
+export async function saveLeadFollowUpTemplate(sellerId: string, template: string): Promise<boolean> {
+  try {
+    const { data: currentSettings } = await supabase
+      .from('user_storefront_settings')
+      .select('settings')
+      .eq('user_id', sellerId)
+      .maybeSingle();
+
+    const { error } = await supabase
+      .from('user_storefront_settings')
+      .upsert({
+        user_id: sellerId,
+        settings: {
+          ...currentSettings?.settings,
+          leadFollowUpTemplate: template,
+        },
+      }, {
+        onConflict: 'user_id'
+      });
+
+    if (error) throw error;
+    return true;
+  } catch (error) {
+    console.error('Error saving follow-up template:', error);
+    return false;
+  }
+}
+
+const LEAD_CSV_COLUMNS: CsvColumn<Lead>[] = [
+  { header: 'Data', value: lead => new Date(lead.created_at).toLocaleString('pt-BR') },
+  { header: 'Nome', value: lead => lead.name },
+  { header: 'Telefone', value: lead => lead.phone ? `+${lead.country_code || '55'} ${formatPhone(lead.phone, lead.country_code || '55')}` : '' },
+  { header: 'E-mail', value: lead => lead.email },
+  { header: 'Produto', value: lead => lead.product_title },
+  { header: 'Origem', value: lead => LEAD_SOURCE_LABELS[lead.source] || lead.source },
+  { header: 'Status', value: lead => LEAD_STATUS_LABELS[lead.status] || lead.status },
+  { header: 'Endereço', value: lead => lead.address ? formatBuyerAddress(lead.address) : '' },
+  { header: 'Mensagem', value: lead => lead.message },
+  { header: 'Notas', value: lead => lead.notes },
+];
+
+export function buildLeadsCsv(leads: Lead[]): string {
+  return toCsv(leads, LEAD_CSV_COLUMNS);
+}
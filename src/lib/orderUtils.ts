@@ -0,0 +1,255 @@
+import { supabase } from './supabase';
+import { getAttribution } from './tracking';
+import type { BuyerDetails, CartItem, CartDistribution, Order, OrderItem, OrderStatus } from '@/types';
+
+// Raised by create_order when the cart's coupon can no longer be used
+const COUPON_UNAVAILABLE_ERROR = 'coupon_unavailable';
+// Raised by create_order when a tracked variant has fewer units left than ordered
+const OUT_OF_STOCK_ERROR = 'out_of_stock';
+
+export const ORDER_STATUSES: OrderStatus[] = ['new', 'confirmed', 'paid', 'shipped', 'delivered', 'cancelled'];
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  new: 'Novo',
+  confirmed: 'Confirmado',
+  paid: 'Pago',
+  shipped: 'Enviado',
+  delivered: 'Entregue',
+  cancelled: 'Cancelado',
+};
+
+export interface OrderFilters {
+  status?: OrderStatus | 'todos';
+  referenceCode?: string;
+  sinceDays?: number | null;
+}
+
+export interface CreateOrderParams {
+  sellerId: string;
+  items: CartItem[];
+  distributions: CartDistribution[];
+  /** Stored as the order's lead */
+  buyer?: BuyerDetails;
+  couponCode?: string | null;
+  deliveryMethod?: string | null;
+  deliveryFee?: number;
+  deliveryPostalCode?: string | null;
+  currency: string;
+  language: string;
+}
+
+/**
+ * Whether an order was refused because its coupon expired or ran out after it was applied
+ */
+export function isCouponUnavailableError(error: unknown): boolean {
+  return !!error && typeof error === 'object' && 'message' in error && error.message === COUPON_UNAVAILABLE_ERROR;
+}
+
+/**
+ * Whether an order was refused because a variant sold out after it was added to the cart
+ */
+export function isOutOfStockError(error: unknown): boolean {
+  return !!error && typeof error === 'object' && 'message' in error && error.message === OUT_OF_STOCK_ERROR;
+}
+
+/**
+ * Public storefront domain in production, otherwise the current origin
+ */
+export function getStorefrontBaseUrl(): string {
+  const isProduction = typeof window !== 'undefined' &&
+    (window.location.hostname === 'vitrineturbo.com' ||
+     window.location.hostname.includes('netlify.app') ||
+     window.location.hostname.includes('vercel.app'));
+  return isProduction ? 'https://vitrineturbo.com' :
+    (typeof window !== 'undefined' ? window.location.origin : 'https://vitrineturbo.com');
+}
+
+/**
+ * Public link where the buyer can check an order's status
+ */
+export function getOrderPageUrl(corretorSlug: string, referenceCode: string): string {
+  return `${getStorefrontBaseUrl()}/${corretorSlug}/pedido/${referenceCode}`;
+}
+
+/**
+ * Get the effective unit price for a regular cart item
+ */
+export function getCartItemUnitPrice(item: CartItem): number {
+  return item.applied_tier_price || item.discounted_price || item.price;
+}
+
+/**
+ * Persist a cart checkout as an order with its items, counting the coupon use in the
+ * same transaction, together with the buyer's lead. The server prices the items and computes the discount and total
+ * from the catalog, and picks the reference code: build the buyer's message from the
+ * returned one. Returns null when the order could not be saved, and throws
+ * when the coupon is no longer available or a variant ran out of stock
+ * (see `isCouponUnavailableError` and `isOutOfStockError`).
+ */
+export async function createOrderFromCart(
+  params: CreateOrderParams
+): Promise<Pick<Order, 'id' | 'reference_code'> | null> {
+  const orderItems = [
+    ...params.distributions.map(dist => ({
+      product_id: dist.product.id,
+      title: dist.product.title,
+      quantity: dist.distribution.total_quantity,
+      distribution_id: dist.distribution.id,
+      distribution_items: dist.items.map(item => ({
+        color: item.color,
+        size: item.size,
+        quantity: item.quantity,
+      })),
+    })),
+    ...params.items.map(item => ({
+      product_id: item.id,
+      title: item.title,
+      selected_color: item.selectedColor ?? null,
+      selected_size: item.selectedSize ?? null,
+      // Lines without a variant record carry a generated `${productId}-${color}-${size}` id
+      variant_id: item.availableVariants?.some(variant => variant.id === item.variantId) ? item.variantId : null,
+      sku: item.sku ?? null,
+      bundle_items: item.bundleItems ?? [],
+      quantity: item.quantity,
+      notes: item.notes?.trim() || null,
+    })),
+  ];
+
+  try {
+    const { data, error } = await supabase.rpc('create_order', {
+      p_order: {
+        seller_id: params.sellerId,
+        currency: params.currency,
+        language: params.language,
+        coupon_code: params.couponCode || null,
+        delivery_method: params.deliveryMethod || null,
+        delivery_fee: params.deliveryFee || 0,
+        delivery_postal_code: params.deliveryPostalCode || null,
+        viewer_id: localStorage.getItem('viewer_id'),
+        attribution: getAttribution(),
+        buyer: params.buyer
+          ? {
+              name: params.buyer.name.trim(),
+              phone: params.buyer.phone,
+              country_code: params.buyer.country_code,
+              address: params.buyer.address || null,
+            }
+          : null,
+      },
+      p_items: orderItems,
+    });
+
+    if (error) throw error;
+    return data as Pick<Order, 'id' | 'reference_code'>;
+  } catch (error) {
+    if (isCouponUnavailableError(error) || isOutOfStockError(error)) throw error;
+    if (error && typeof error === 'object' && 'code' in error && (error.code === '42P01' || error.code === 'PGRST202')) {
+      console.warn('Order tables not found. Please apply database migrations.');
+      return null;
+    }
+    console.error('Error creating order:', error);
+    return null;
+  }
+}
+
+/**
+ * Fetch a seller's orders, newest first, with optional status, reference and period filters
+ */
+export async function fetchSellerOrders(sellerId: string, filters: OrderFilters = {}): Promise<Order[]> {
+  try {
+    let query = supabase
+      .from('orders')
+      .select('*')
+      .eq('seller_id', sellerId)
+      .order('created_at', { ascending: false });
+
+    if (filters.status && filters.status !== 'todos') {
+      query = query.eq('status', filters.status);
+    }
+
+    const referenceCode = filters.referenceCode?.replace('#', '').trim().toUpperCase();
+    if (referenceCode) {
+      query = query.ilike('reference_code', `%${referenceCode}%`);
+    }
+
+    if (filters.sinceDays) {
+      const since = new Date();
+      since.setDate(since.getDate() - filters.sinceDays);
+      query = query.gte('created_at', since.toISOString());
+    }
+
+    const { data, error } = await query;
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    if (error && typeof error === 'object' && 'code' in error && error.code === '42P01') {
+      console.warn('Order tables not found. Please apply database migrations.');
+      return [];
+    }
+    console.error('Error fetching orders:', error);
+    return [];
+  }
+}
+
+/**
+ * Fetch a single order together with its items
+ */
+export async function fetchOrderWithItems(orderId: string): Promise<Order | null> {
+  try {
+    const { data: order, error: orderError } = await supabase
+      .from('orders')
+      .select('*')
+      .eq('id', orderId)
+      .maybeSingle();
+
+    if (orderError) throw orderError;
+    if (!order) return null;
+
+    const { data: items, error: itemsError } = await supabase
+      .from('order_items')
+      .select('*')
+      .eq('order_id', orderId)
+      .order('created_at', { ascending: true });
+
+    if (itemsError) throw itemsError;
+
+    return { ...order, items: (items || []) as OrderItem[] };
+  } catch (error) {
+    console.error('Error fetching order:', error);
+    return null;
+  }
+}
+
+/**
+ * Fetch an order by seller slug and reference code for the buyer-facing order page
+ */
+export async function fetchPublicOrder(corretorSlug: string, referenceCode: string): Promise<Order | null> {
+  try {
+    const { data, error } = await supabase.rpc('get_public_order', {
+      p_slug: corretorSlug,
+      p_reference_code: referenceCode.replace('#', '').trim(),
+    });
+
+    if (error) throw error;
+    return (data as Order | null) || null;
+  } catch (error) {
+    console.error('Error fetching public order:', error);
+    return null;
+  }
+}
+
+export async function updateOrderStatus(orderId: string, status: OrderStatus): Promise<boolean> {
+  try {
+    const { error } = await supabase
+      .from('orders')
+      .update({ status })
+      .eq('id', orderId);
+
+    if (error) throw error;
+    return true;
+  } catch (error) {
+    console.error('Error updating order status:', error);
+    return false;
+  }
+}
@@ -0,0 +1,53 @@
+import { normalizePostalCode } from './deliveryUtils';
+import type { BuyerAddress } from '@/types';
+
+export type PostalCodeLookupResult = Pick<BuyerAddress, 'street' | 'neighborhood' | 'city' | 'state'>;
+
+/**
+ * Resolves a CEP to street data. Swap the active provider with
+ * `setPostalCodeLookupProvider` to use another service.
+ */
+export interface PostalCodeLookupProvider {
+  name: string;
+  lookup: (postalCode: string) => Promise<PostalCodeLookupResult | null>;
+}
+
+export const viaCepProvider: PostalCodeLookupProvider = {
+  name: 'viacep',
+  lookup: async (postalCode) => {
+    const response = await fetch(`https://viacep.com.br/ws/${postalCode}/json/`);
+    if (!response.ok) return null;
+
+    const data = await response.json();
+    if (data.erro) return null;
+
+    return {
+      street: data.logradouro || '',
+      neighborhood: data.bairro || '',
+      city: data.localidade || '',
+      state: data.uf || '',
+    };
+  },
+};
+
+let activeProvider: PostalCodeLookupProvider = viaCepProvider;
+
+export function setPostalCodeLookupProvider(provider: PostalCodeLookupProvider) {
+  activeProvider = provider;
+}
+
+/**
+ * Look up a Brazilian postal code with the active provider.
+ * Returns null for incomplete codes, unknown codes or provider failures.
+ */
+export async function lookupPostalCode(postalCode: string): Promise<PostalCodeLookupResult | null> {
+  const digits = normalizePostalCode(postalCode);
+  if (digits.length !== 8) return null;
+
+  try {
+    return await activeProvider.lookup(digits);
+  } catch (error) {
+    console.error(`Error looking up postal code with ${activeProvider.name}:`, error);
+    return null;
+  }
+}
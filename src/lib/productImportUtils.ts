@@ -0,0 +1,416 @@
+import JSZip from 'jszip';
+import { supabase } from '@/lib/supabase';
+import { uploadProductImages, saveProductImages } from '@/lib/productImageService';
+import { validateAndSanitizeCategories } from '@/lib/categoryUtils';
+import type { SpreadsheetData } from '@/lib/spreadsheetUtils';
+import type { PriceTier, Product } from '@/types';
+
+export type ProductImportField =
+  | 'title'
+  | 'description'
+  | 'price'
+  | 'discounted_price'
+  | 'brand'
+  | 'category'
+  | 'colors'
+  | 'sizes'
+  | 'gender'
+  | 'condition'
+  | 'images'
+  | 'price_tiers';
+
+export interface ProductImportFieldDefinition {
+  key: ProductImportField;
+  label: string;
+  required?: boolean;
+  hint?: string;
+  aliases: string[];
+}
+
+export const PRODUCT_IMPORT_FIELDS: ProductImportFieldDefinition[] = [
+  { key: 'title', label: 'Nome do produto', required: true, aliases: ['title', 'titulo', 'nome', 'produto', 'name'] },
+  { key: 'description', label: 'Descrição', aliases: ['description', 'descricao'] },
+  { key: 'price', label: 'Preço', hint: 'Obrigatório quando não houver preços por quantidade', aliases: ['price', 'preco', 'valor'] },
+  { key: 'discounted_price', label: 'Preço promocional', aliases: ['discounted_price', 'preco promocional', 'promocao', 'preco com desconto', 'oferta'] },
+  { key: 'brand', label: 'Marca', aliases: ['brand', 'marca'] },
+  { key: 'category', label: 'Categorias', hint: 'Separe várias categorias com vírgula', aliases: ['category', 'categoria', 'categorias', 'categories'] },
+  { key: 'colors', label: 'Cores', hint: 'Separe várias cores com vírgula', aliases: ['colors', 'cores', 'cor', 'color'] },
+  { key: 'sizes', label: 'Tamanhos', hint: 'Separe vários tamanhos com vírgula', aliases: ['sizes', 'tamanhos', 'tamanho', 'size'] },
+  { key: 'gender', label: 'Gênero', hint: 'Masculino, Feminino ou Unissex', aliases: ['gender', 'genero'] },
+  { key: 'condition', label: 'Condição', hint: 'Novo, Usado ou Seminovo', aliases: ['condition', 'condicao', 'estado'] },
+  { key: 'images', label: 'Imagens', required: true, hint: 'URLs ou nomes de arquivos do zip, separados por ; ou |', aliases: ['images', 'imagens', 'imagem', 'image', 'fotos', 'foto', 'image_urls'] },
+  { key: 'price_tiers', label: 'Preços por quantidade', hint: 'Formato quantidade:preço[:promocional], ex.: 10:49,90|50:44,90', aliases: ['price_tiers', 'precos por quantidade', 'atacado', 'tiers'] },
+];
+
+export type ProductImportMapping = Partial<Record<ProductImportField, number>>;
+
+export interface ProductImportDraft {
+  title: string;
+  description: string;
+  price: number | null;
+  discounted_price: number | null;
+  brand: string;
+  category: string[];
+  colors: string[];
+  sizes: string[];
+  gender: string;
+  condition: Product['condition'];
+  images: string[];
+  price_tiers: PriceTier[];
+}
+
+export interface ProductImportRow {
+  rowNumber: number;
+  draft: ProductImportDraft;
+  errors: string[];
+}
+
+export type ProductImageArchive = Map<string, JSZip.JSZipObject>;
+
+const IMAGE_FILE_PATTERN = /\.(jpe?g|png|webp|gif)$/i;
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  gif: 'image/gif',
+};
+
+const CONDITION_VALUES: Record<string, Product['condition']> = {
+  novo: 'novo',
+  new: 'novo',
+  usado: 'usado',
+  used: 'usado',
+  seminovo: 'seminovo',
+  'semi-novo': 'seminovo',
+  'semi novo': 'seminovo',
+};
+
+const GENDER_VALUES: Record<string, string> = {
+  masculino: 'Masculino',
+  male: 'Masculino',
+  feminino: 'Feminino',
+  female: 'Feminino',
+  unissex: 'Unissex',
+  unisex: 'Unissex',
+};
+
+function normalizeKey(value: string): string {
+  return value
+    .trim()
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[_\s]+/g, ' ');
+}
+
+function splitList(value: string): string[] {
+  return value.split(/[,;|]/).map(item => item.trim()).filter(Boolean);
+}
+
+function splitImages(value: string): string[] {
+  return value.split(/[;|\s]+/).map(item => item.trim()).filter(Boolean);
+}
+
+function isImageUrl(value: string): boolean {
+  return /^https?:\/\//i.test(value);
+}
+
+function archiveKey(fileName: string): string {
+  return (fileName.split('/').pop() || fileName).toLowerCase();
+}
+
+/**
+ * Parse a price written either in pt-BR ("1.234,56", "R$ 49,90")
+ * or in plain decimal notation ("1234.56", as exported by XLSX).
+ */
+export function parseImportNumber(value: string): number | null {
+  const cleaned = value.replace(/[^\d.,-]/g, '');
+  if (!cleaned) return null;
+
+  const lastComma = cleaned.lastIndexOf(',');
+  const lastDot = cleaned.lastIndexOf('.');
+  let normalized: string;
+
+  if (lastComma > lastDot) {
+    normalized = cleaned.replace(/\./g, '').replace(',', '.');
+  } else if (lastDot > lastComma && lastComma !== -1) {
+    normalized = cleaned.replace(/,/g, '');
+  } else if ((cleaned.match(/\./g) || []).length > 1) {
+    normalized = cleaned.replace(/\./g, '');
+  } else {
+    normalized = cleaned;
+  }
+
+  const parsed = Number(normalized);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function parsePriceTiers(value: string, errors: string[]): PriceTier[] {
+  const tiers: PriceTier[] = [];
+
+  value.split(/[|;\n]/).map(item => item.trim()).filter(Boolean).forEach(entry => {
+    const [quantityText, priceText, discountedText] = entry.split(':').map(part => part.trim());
+    const minQuantity = Number(quantityText);
+    const unitPrice = priceText ? parseImportNumber(priceText) : null;
+    const discountedPrice = discountedText ? parseImportNumber(discountedText) : null;
+
+    if (!Number.isInteger(minQuantity) || minQuantity < 1 || unitPrice === null || unitPrice <= 0) {
+      errors.push(`Preço por quantidade inválido: "${entry}"`);
+      return;
+    }
+
+    if (discountedText && (discountedPrice === null || discountedPrice >= unitPrice)) {
+      errors.push(`Preço promocional deve ser menor que o preço na faixa "${entry}"`);
+      return;
+    }
+
+    tiers.push({
+      min_quantity: minQuantity,
+      unit_price: unitPrice,
+      discounted_unit_price: discountedPrice,
+    });
+  });
+
+  const quantities = tiers.map(tier => tier.min_quantity);
+  if (new Set(quantities).size !== quantities.length) {
+    errors.push('Preços por quantidade com quantidades repetidas');
+  }
+
+  return tiers.sort((a, b) => a.min_quantity - b.min_quantity);
+}
+
+/**
+ * Guess the column for each field by comparing headers with known aliases
+ */
+export function autoMapImportColumns(headers: string[]): ProductImportMapping {
+  const mapping: ProductImportMapping = {};
+  const normalizedHeaders = headers.map(normalizeKey);
+
+  PRODUCT_IMPORT_FIELDS.forEach(field => {
+    const index = normalizedHeaders.findIndex(header =>
+      field.aliases.some(alias => normalizeKey(alias) === header)
+    );
+    if (index !== -1) {
+      mapping[field.key] = index;
+    }
+  });
+
+  return mapping;
+}
+
+export async function loadProductImageArchive(file: File): Promise<ProductImageArchive> {
+  const zip = await JSZip.loadAsync(file);
+  const archive: ProductImageArchive = new Map();
+
+  zip.forEach((path, entry) => {
+    if (!entry.dir && IMAGE_FILE_PATTERN.test(path) && !path.startsWith('__MACOSX/')) {
+      archive.set(archiveKey(path), entry);
+    }
+  });
+
+  return archive;
+}
+
+/**
+ * Turn spreadsheet rows into product drafts, collecting every problem
+ * found on a row so the seller can fix the file before importing.
+ */
+export function buildProductImportRows(
+  data: SpreadsheetData,
+  mapping: ProductImportMapping,
+  imageArchive: ProductImageArchive | null
+): ProductImportRow[] {
+  return data.rows.map((row, index) => {
+    const errors: string[] = [];
+    const cell = (field: ProductImportField) => {
+      const column = mapping[field];
+      return column === undefined ? '' : (row[column] || '').trim();
+    };
+
+    const title = cell('title');
+    if (!title) {
+      errors.push('Nome do produto é obrigatório');
+    }
+
+    const price_tiers = cell('price_tiers') ? parsePriceTiers(cell('price_tiers'), errors) : [];
+
+    const priceText = cell('price');
+    const price = priceText ? parseImportNumber(priceText) : null;
+    if (priceText && (price === null || price < 0)) {
+      errors.push(`Preço inválido: "${priceText}"`);
+    } else if (price === null && price_tiers.length === 0) {
+      errors.push('Informe o preço ou os preços por quantidade');
+    }
+
+    const discountedText = cell('discounted_price');
+    const discounted_price = discountedText ? parseImportNumber(discountedText) : null;
+    if (discountedText && (discounted_price === null || discounted_price < 0)) {
+      errors.push(`Preço promocional inválido: "${discountedText}"`);
+    } else if (discounted_price !== null && price !== null && discounted_price >= price) {
+      errors.push('Preço promocional deve ser menor que o preço');
+    }
+
+    const conditionText = cell('condition');
+    const condition = conditionText ? CONDITION_VALUES[normalizeKey(conditionText)] : 'novo';
+    if (!condition) {
+      errors.push(`Condição inválida: "${conditionText}" (use Novo, Usado ou Seminovo)`);
+    }
+
+    const genderText = cell('gender');
+    const gender = genderText ? GENDER_VALUES[normalizeKey(genderText)] : '';
+    if (gender === undefined) {
+      errors.push(`Gênero inválido: "${genderText}" (use Masculino, Feminino ou Unissex)`);
+    }
+
+    const { valid: category, invalid: invalidCategories } = validateAndSanitizeCategories(splitList(cell('category')));
+    if (invalidCategories.length > 0) {
+      errors.push(`Categorias inválidas: ${invalidCategories.join(', ')}`);
+    }
+
+    const images = splitImages(cell('images'));
+    if (images.length === 0) {
+      errors.push('Adicione pelo menos uma imagem do produto');
+    }
+    images.filter(image => !isImageUrl(image)).forEach(image => {
+      if (!imageArchive) {
+        errors.push(`Imagem "${image}" requer o arquivo zip de imagens`);
+      } else if (!imageArchive.has(archiveKey(image))) {
+        errors.push(`Imagem "${image}" não encontrada no arquivo zip`);
+      }
+    });
+
+    return {
+      rowNumber: data.rowNumbers[index],
+      errors,
+      draft: {
+        title,
+        description: cell('description'),
+        price,
+        discounted_price,
+        brand: cell('brand'),
+        category,
+        colors: splitList(cell('colors')),
+        sizes: splitList(cell('sizes')),
+        gender: gender || '',
+        condition: condition || 'novo',
+        images,
+        price_tiers,
+      },
+    };
+  });
+}
+
+async function fetchImageFromUrl(url: string, index: number): Promise<File> {
+  const { data, error } = await supabase.functions.invoke('fetch-import-image', {
+    body: { url },
+  });
+
+  if (error || !data?.data) {
+    // Error responses carry their message in the body of `error.context`
+    const body = error?.context instanceof Response ? await error.context.json().catch(() => null) : data;
+    throw new Error(body?.error || `Não foi possível baixar a imagem ${url}`);
+  }
+
+  const bytes = Uint8Array.from(atob(data.data), char => char.charCodeAt(0));
+  const extension = String(data.contentType).split('/')[1] || 'jpg';
+  return new File([bytes], `imagem-${index + 1}.${extension}`, { type: data.contentType });
+}
+
+async function resolveImportImages(
+  images: string[],
+  imageArchive: ProductImageArchive | null
+): Promise<File[]> {
+  const files: File[] = [];
+
+  for (let i = 0; i < images.length; i++) {
+    const image = images[i];
+
+    if (isImageUrl(image)) {
+      files.push(await fetchImageFromUrl(image, i));
+      continue;
+    }
+
+    const entry = imageArchive?.get(archiveKey(image));
+    if (!entry) {
+      throw new Error(`Imagem "${image}" não encontrada no arquivo zip`);
+    }
+
+    const extension = image.split('.').pop()?.toLowerCase() || 'jpg';
+    const blob = await entry.async('blob');
+    files.push(new File([blob], archiveKey(image), { type: IMAGE_MIME_TYPES[extension] || 'image/jpeg' }));
+  }
+
+  return files;
+}
+
+/**
+ * Create a product from an import draft, mirroring the manual creation flow:
+ * product row, uploaded images and featured image, then price tiers.
+ * Images are resolved before inserting so a broken link doesn't leave an empty product behind.
+ */
+export async function importProduct(
+  draft: ProductImportDraft,
+  userId: string,
+  imageArchive: ProductImageArchive | null
+): Promise<void> {
+  const imageFiles = await resolveImportImages(draft.images, imageArchive);
+  const hasTieredPricing = draft.price_tiers.length > 0;
+
+  const { data: product, error: productError } = await supabase
+    .from('products')
+    .insert({
+      user_id: userId,
+      title: draft.title,
+      description: draft.description,
+      short_description: '',
+      price: hasTieredPricing ? 0 : draft.price ?? 0,
+      discounted_price: hasTieredPricing ? null : draft.discounted_price,
+      is_starting_price: false,
+      featured_offer_price: hasTieredPricing ? null : draft.discounted_price,
+      status: 'disponivel',
+      category: draft.category.length > 0 ? draft.category : ['Sem Categoria'],
+      brand: draft.brand,
+      model: draft.gender,
+      condition: draft.condition,
+      featured_image_url: '',
+      is_visible_on_storefront: true,
+      colors: draft.colors,
+      sizes: draft.sizes,
+      has_tiered_pricing: hasTieredPricing,
+      track_stock: false,
+    })
+    .select()
+    .single();
+
+  if (productError) throw productError;
+
+  const uploadedImages = await uploadProductImages(imageFiles, userId, product.id);
+  if (uploadedImages.length > 0) {
+    const featuredImage = uploadedImages.find(img => img.is_featured);
+    if (featuredImage) {
+      await supabase
+        .from('products')
+        .update({ featured_image_url: featuredImage.url })
+        .eq('id', product.id);
+    }
+
+    await saveProductImages(product.id, uploadedImages, userId);
+  }
+
+  if (hasTieredPricing) {
+    const tierRecords = draft.price_tiers.map((tier, index, array) => ({
+      product_id: product.id,
+      min_quantity: tier.min_quantity,
+      max_quantity: index < array.length - 1 ? array[index + 1].min_quantity - 1 : null,
+      unit_price: tier.unit_price,
+      discounted_unit_price: tier.discounted_unit_price,
+    }));
+
+    const { error: tiersError } = await supabase
+      .from('product_price_tiers')
+      .insert(tierRecords);
+
+    if (tiersError) throw tiersError;
+  }
+}
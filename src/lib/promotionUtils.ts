@@ -0,0 +1,177 @@
+import { supabase } from './supabase';
+import type { ActivePromotion, Product, Promotion } from '@/types';
+
+export type PromotionInput = Omit<Promotion, 'id' | 'seller_id' | 'created_at' | 'updated_at'>;
+
+export type PromotionStatus = 'scheduled' | 'running' | 'ended' | 'paused';
+
+const PROMOTION_COLUMNS = 'id, seller_id, name, discount_type, discount_value, product_ids, category_names, starts_at, ends_at, is_active, created_at, updated_at';
+
+export function isPromotionRunning(
+  promotion: Pick<Promotion, 'starts_at' | 'ends_at'>,
+  now: Date = new Date()
+): boolean {
+  return new Date(promotion.starts_at) <= now && now < new Date(promotion.ends_at);
+}
+
+export function getPromotionStatus(promotion: Promotion, now: Date = new Date()): PromotionStatus {
+  if (new Date(promotion.ends_at) <= now) return 'ended';
+  if (!promotion.is_active) return 'paused';
+  return new Date(promotion.starts_at) > now ? 'scheduled' : 'running';
+}
+
+/**
+ * Whether the promotion covers a product. No products and no categories means the whole storefront.
+ */
+function isProductEligible(promotion: Promotion, product: Pick<Product, 'id' | 'category'>): boolean {
+  if (promotion.product_ids.length === 0 && promotion.category_names.length === 0) return true;
+  if (promotion.product_ids.includes(product.id)) return true;
+
+  const normalized = (product.category || []).map(category => category.trim().toLowerCase());
+  return promotion.category_names.some(name => normalized.includes(name.trim().toLowerCase()));
+}
+
+/**
+ * Unit price after the promotion, rounded to cents and never below zero
+ */
+export function getPromotionalPrice(price: number, promotion: Pick<Promotion, 'discount_type' | 'discount_value'>): number {
+  const discounted = promotion.discount_type === 'percentage'
+    ? price * (1 - promotion.discount_value / 100)
+    : price - promotion.discount_value;
+
+  return Math.max(0, Math.round(discounted * 100) / 100);
+}
+
+/**
+ * Apply a running promotion on top of the current selling price. The regular price is
+ * kept as the "from" price, so cards and pages show the usual strike-through.
+ */
+export function applyPromotion<T extends { price?: number; discounted_price?: number }>(
+  pricing: T,
+  promotion?: ActivePromotion | null
+): T {
+  if (!promotion || !pricing.price || !isPromotionRunning(promotion)) return pricing;
+
+  const currentPrice = pricing.discounted_price || pricing.price;
+  const promotionalPrice = getPromotionalPrice(currentPrice, promotion);
+
+  return promotionalPrice < currentPrice
+    ? { ...pricing, discounted_price: promotionalPrice }
+    : pricing;
+}
+
+/**
+ * Running promotion that gives a product its lowest price, if any
+ */
+export function findActivePromotion(
+  product: Pick<Product, 'id' | 'category' | 'price' | 'discounted_price' | 'has_tiered_pricing'>,
+  promotions: Promotion[],
+  now: Date = new Date()
+): ActivePromotion | null {
+  const currentPrice = product.discounted_price || product.price;
+  if (!currentPrice || product.has_tiered_pricing) return null;
+
+  let best: Promotion | null = null;
+  for (const promotion of promotions) {
+    if (!promotion.is_active || !isPromotionRunning(promotion, now) || !isProductEligible(promotion, product)) continue;
+
+    if (!best || getPromotionalPrice(currentPrice, promotion) < getPromotionalPrice(currentPrice, best)) {
+      best = promotion;
+    }
+  }
+
+  if (!best) return null;
+
+  const { id, name, discount_type, discount_value, starts_at, ends_at } = best;
+  return { id, name, discount_type, discount_value, starts_at, ends_at };
+}
+
+/**
+ * Milliseconds until the next promotion starts or ends, so prices can switch on time
+ */
+export function getNextPromotionChange(promotions: Promotion[], now: Date = new Date()): number | null {
+  const upcoming = promotions
+    .flatMap(promotion => [new Date(promotion.starts_at).getTime(), new Date(promotion.ends_at).getTime()])
+    .filter(time => time > now.getTime());
+
+  return upcoming.length > 0 ? Math.min(...upcoming) - now.getTime() : null;
+}
+
+/**
+ * Active promotions of a storefront that are running or still to come
+ */
+export async function fetchStorefrontPromotions(sellerId: string): Promise<Promotion[]> {
+  try {
+    const { data, error } = await supabase
+      .from('promotions')
+      .select(PROMOTION_COLUMNS)
+      .eq('seller_id', sellerId)
+      .eq('is_active', true)
+      .gt('ends_at', new Date().toISOString());
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    if (error && typeof error === 'object' && 'code' in error && error.code === '42P01') {
+      console.warn('Promotion tables not found. Please apply database migrations.');
+      return [];
+    }
+    console.error('Error fetching storefront promotions:', error);
+    return [];
+  }
+}
+
+export async function fetchSellerPromotions(sellerId: string): Promise<Promotion[]> {
+  try {
+    const { data, error } = await supabase
+      .from('promotions')
+      .select(PROMOTION_COLUMNS)
+      .eq('seller_id', sellerId)
+      .order('starts_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    if (error && typeof error === 'object' && 'code' in error && error.code === '42P01') {
+      console.warn('Promotion tables not found. Please apply database migrations.');
+      return [];
+    }
+    console.error('Error fetching promotions:', error);
+    return [];
+  }
+}
+
+/**
+ * Create a promotion, or update it when an id is given
+ */
+export async function savePromotion(sellerId: string, promotion: PromotionInput, promotionId?: string): Promise<Promotion> {
+  const record = {
+    ...promotion,
+    name: promotion.name.trim(),
+    seller_id: sellerId,
+  };
+
+  const query = promotionId
+    ? supabase.from('promotions').update(record).eq('id', promotionId)
+    : supabase.from('promotions').insert(record);
+
+  const { data, error } = await query.select(PROMOTION_COLUMNS).single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function deletePromotion(promotionId: string): Promise<boolean> {
+  try {
+    const { error } = await supabase
+      .from('promotions')
+      .delete()
+      .eq('id', promotionId);
+
+    if (error) throw error;
+    return true;
+  } catch (error) {
+    console.error('Error deleting promotion:', error);
+    return false;
+  }
+}
@@ -0,0 +1,48 @@
+import { getViewerId } from './tracking';
+
+export interface RecentlyViewedEntry {
+  id: string;
+  seller_id: string;
+  viewed_at: string;
+}
+
+// Across every storefront the buyer visited
+const MAX_ENTRIES = 50;
+
+/**
+ * History is kept per visitor, under the same viewer id used for view tracking
+ */
+const getStorageKey = () => `vitrineturbo_recently_viewed_${getViewerId()}`;
+
+export function loadRecentlyViewed(): RecentlyViewedEntry[] {
+  try {
+    const saved = localStorage.getItem(getStorageKey());
+    return saved ? JSON.parse(saved) : [];
+  } catch (error) {
+    console.error('Error loading recently viewed products from localStorage:', error);
+    return [];
+  }
+}
+
+/**
+ * Move the product to the front of the buyer's history
+ */
+export function recordRecentlyViewed(productId: string, sellerId: string): void {
+  try {
+    const entries = loadRecentlyViewed().filter(entry => entry.id !== productId);
+    entries.unshift({ id: productId, seller_id: sellerId, viewed_at: new Date().toISOString() });
+    localStorage.setItem(getStorageKey(), JSON.stringify(entries.slice(0, MAX_ENTRIES)));
+  } catch (error) {
+    console.error('Error saving recently viewed products to localStorage:', error);
+  }
+}
+
+/**
+ * Ids of the products the buyer viewed on one storefront, most recent first
+ */
+export function getSellerRecentlyViewedIds(sellerId: string, excludeId?: string, limit = 12): string[] {
+  return loadRecentlyViewed()
+    .filter(entry => entry.seller_id === sellerId && entry.id !== excludeId)
+    .slice(0, limit)
+    .map(entry => entry.id);
+}
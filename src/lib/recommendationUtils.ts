@@ -0,0 +1,185 @@
+import { supabase } from './supabase';
+import { BUNDLE_ITEMS_EMBED } from './bundleUtils';
+import type { Product } from '@/types';
+
+export interface RelatedProductScore {
+  product_id: string;
+  /** Buyers who viewed both products in the last 90 days */
+  co_views: number;
+  score: number;
+}
+
+export interface ProductRecommendations {
+  /** Pinned cross-sells first, then products sharing categories, brand or price band */
+  related: Product[];
+  /** Products other buyers viewed alongside this one */
+  alsoViewed: Product[];
+}
+
+const RELATED_LIMIT = 8;
+const ALSO_VIEWED_LIMIT = 4;
+
+const RECOMMENDED_PRODUCT_COLUMNS = `
+  id,
+  user_id,
+  title,
+  price,
+  discounted_price,
+  is_starting_price,
+  short_description,
+  status,
+  category,
+  brand,
+  condition,
+  featured_image_url,
+  colors,
+  sizes,
+  external_checkout_url,
+  has_tiered_pricing,
+  min_tiered_price,
+  max_tiered_price,
+  track_stock,
+  created_at,
+  sort_price,
+  product_type,
+  ${BUNDLE_ITEMS_EMBED}
+`;
+
+/**
+ * Products the seller pinned to a product, in display order
+ */
+export async function fetchCrossSellIds(productId: string): Promise<string[]> {
+  try {
+    const { data, error } = await supabase
+      .from('product_cross_sells')
+      .select('related_product_id')
+      .eq('product_id', productId)
+      .order('display_order', { ascending: true });
+
+    if (error) throw error;
+    return (data || []).map(row => row.related_product_id);
+  } catch (error) {
+    if (error && typeof error === 'object' && 'code' in error && error.code === '42P01') {
+      console.warn('Cross-sell tables not found. Please apply database migrations.');
+      return [];
+    }
+    console.error('Error fetching cross-sells:', error);
+    return [];
+  }
+}
+
+/**
+ * Replace the cross-sells of a product. Passing an empty list clears them.
+ */
+export async function saveCrossSells(productId: string, relatedProductIds: string[]): Promise<void> {
+  const { error: deleteError } = await supabase
+    .from('product_cross_sells')
+    .delete()
+    .eq('product_id', productId);
+
+  if (deleteError) throw deleteError;
+
+  const uniqueIds = Array.from(new Set(relatedProductIds)).filter(id => id !== productId);
+  if (uniqueIds.length === 0) return;
+
+  const { error: insertError } = await supabase
+    .from('product_cross_sells')
+    .insert(uniqueIds.map((relatedProductId, index) => ({
+      product_id: productId,
+      related_product_id: relatedProductId,
+      display_order: index,
+    })));
+
+  if (insertError) throw insertError;
+}
+
+/**
+ * The seller's other products scored by co-views, categories, brand and price band
+ */
+export async function fetchRelatedProductScores(productId: string, limit = 12): Promise<RelatedProductScore[]> {
+  try {
+    const { data, error } = await supabase.rpc('get_related_products', {
+      p_product_id: productId,
+      p_limit: limit,
+    });
+
+    if (error) throw error;
+    return (data || []) as RelatedProductScore[];
+  } catch (error) {
+    if (error && typeof error === 'object' && 'code' in error && (error.code === '42883' || error.code === 'PGRST202')) {
+      console.warn('Recommendation functions not found. Please apply database migrations.');
+      return [];
+    }
+    console.error('Error fetching related products:', error);
+    return [];
+  }
+}
+
+/**
+ * Storefront products by id, in the given order, skipping hidden and sold ones
+ */
+export async function fetchStorefrontProductsByIds(productIds: string[]): Promise<Product[]> {
+  if (productIds.length === 0) return [];
+
+  try {
+    const { data, error } = await supabase
+      .from('products')
+      .select(RECOMMENDED_PRODUCT_COLUMNS)
+      .in('id', productIds)
+      .eq('is_visible_on_storefront', true)
+      .neq('status', 'vendido');
+
+    if (error) throw error;
+
+    const products = (data || []) as unknown as Product[];
+    const byId = new Map(products.map(product => [product.id, product]));
+    return productIds
+      .map(id => byId.get(id))
+      .filter((product): product is Product => !!product);
+  } catch (error) {
+    console.error('Error fetching storefront products:', error);
+    return [];
+  }
+}
+
+/**
+ * Split the scored products into the two storefront blocks. Pinned cross-sells lead
+ * "related"; the most co-viewed products go to "also viewed"; no product shows twice.
+ */
+export function buildRecommendationIds(
+  crossSellIds: string[],
+  scores: RelatedProductScore[]
+): { relatedIds: string[]; alsoViewedIds: string[] } {
+  const pinned = new Set(crossSellIds);
+
+  const alsoViewedIds = scores
+    .filter(item => item.co_views > 0 && !pinned.has(item.product_id))
+    .sort((a, b) => b.co_views - a.co_views || b.score - a.score)
+    .slice(0, ALSO_VIEWED_LIMIT)
+    .map(item => item.product_id);
+
+  const taken = new Set([...crossSellIds, ...alsoViewedIds]);
+  const relatedIds = [
+    ...crossSellIds,
+    ...scores.filter(item => !taken.has(item.product_id)).map(item => item.product_id),
+  ].slice(0, RELATED_LIMIT);
+
+  return { relatedIds, alsoViewedIds };
+}
+
+export async function fetchProductRecommendations(productId: string): Promise<ProductRecommendations> {
+  const [crossSellIds, scores] = await Promise.all([
+    fetchCrossSellIds(productId),
+    fetchRelatedProductScores(productId),
+  ]);
+
+  const { relatedIds, alsoViewedIds } = buildRecommendationIds(crossSellIds, scores);
+  const products = await fetchStorefrontProductsByIds([...relatedIds, ...alsoViewedIds]);
+  const byId = new Map(products.map(product => [product.id, product]));
+  const pick = (ids: string[]) => ids.map(id => byId.get(id)).filter((product): product is Product => !!product);
+
+  return {
+    related: pick(relatedIds),
+    alsoViewed: pick(alsoViewedIds),
+  };
+}
@@ -0,0 +1,87 @@
+import { supabase } from './supabase';
+import type { Product } from '@/types';
+import type { StorefrontFacetOption, StorefrontFilterParams } from '@/utils/productDisplayUtils';
+
+export interface HighlightSegment {
+  text: string;
+  highlight: boolean;
+}
+
+/**
+ * Lowercase and strip accents so "Tênis" and "tenis" compare equal
+ */
+export function normalizeSearchText(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '');
+}
+
+function getSearchTerms(query: string): string[] {
+  return normalizeSearchText(query)
+    .split(/[^a-z0-9]+/)
+    .filter(term => term.length > 1);
+}
+
+/**
+ * Rough stand-in for the Portuguese stemmer used by the database:
+ * drop plural/gender endings so "camisas" also matches "camisa" and "camiseta".
+ */
+function getTermRoot(term: string): string {
+  return term.length > 4 ? term.slice(0, term.length - 2) : term;
+}
+
+/**
+ * Facet options of a storefront with their product counts for the given filters;
+ * without filters, every option of the visible products
+ */
+export async function fetchStorefrontFacets(
+  userId: string,
+  filters?: StorefrontFilterParams
+): Promise<StorefrontFacetOption[]> {
+  const { data, error } = await supabase.rpc('storefront_product_facets', {
+    p_user_id: userId,
+    p_filters: filters ?? {},
+  });
+
+  if (error) throw error;
+  return (data || []) as StorefrontFacetOption[];
+}
+
+/**
+ * Client-side fallback: every query term must appear (accent-insensitive)
+ * in the title, brand, model, short description or categories.
+ */
+export function matchesSearchQuery(
+  product: Pick<Product, 'title' | 'brand' | 'model' | 'short_description' | 'category'>,
+  query: string
+): boolean {
+  const haystack = normalizeSearchText([
+    product.title,
+    product.brand,
+    product.model,
+    product.short_description,
+    ...(product.category || []),
+  ].filter(Boolean).join(' '));
+
+  return getSearchTerms(query).every(term => haystack.includes(getTermRoot(term)));
+}
+
+/**
+ * Split text into segments, flagging words that match a query term
+ */
+export function getHighlightSegments(text: string, query: string): HighlightSegment[] {
+  const roots = getSearchTerms(query).map(getTermRoot);
+  if (!text || roots.length === 0) return [{ text, highlight: false }];
+
+  return text
+    .split(/([\p{L}\p{N}]+)/u)
+    .filter(Boolean)
+    .map(part => {
+      const normalized = normalizeSearchText(part);
+      return {
+        text: part,
+        highlight: roots.some(root => normalized.startsWith(root)),
+      };
+    });
+}
@@ -0,0 +1,133 @@
+import JSZip from 'jszip';
+import { parseCsv } from '@/lib/csvUtils';
+
+export interface SpreadsheetData {
+  headers: string[];
+  rows: string[][];
+  /** Line of each entry of `rows` in the file, for messages that point the seller at it */
+  rowNumbers: number[];
+}
+
+interface SpreadsheetRow {
+  number: number;
+  cells: string[];
+}
+
+export const SPREADSHEET_ACCEPT = '.csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+function parseXml(content: string): Document {
+  return new DOMParser().parseFromString(content, 'application/xml');
+}
+
+function columnIndexFromReference(reference: string): number {
+  const letters = reference.replace(/[^A-Z]/gi, '').toUpperCase();
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+async function readSharedStrings(zip: JSZip): Promise<string[]> {
+  const file = zip.file('xl/sharedStrings.xml');
+  if (!file) return [];
+
+  const doc = parseXml(await file.async('string'));
+  return Array.from(doc.getElementsByTagName('si')).map(item =>
+    Array.from(item.getElementsByTagName('t'))
+      .filter(node => node.parentElement?.tagName !== 'rPh')
+      .map(node => node.textContent || '')
+      .join('')
+  );
+}
+
+/**
+ * Resolve the path of the first worksheet through the workbook relationships,
+ * falling back to the default location used by Excel and Google Sheets.
+ */
+async function resolveFirstSheetPath(zip: JSZip): Promise<string> {
+  const fallback = 'xl/worksheets/sheet1.xml';
+  const workbookFile = zip.file('xl/workbook.xml');
+  const relsFile = zip.file('xl/_rels/workbook.xml.rels');
+  if (!workbookFile || !relsFile) return fallback;
+
+  const workbook = parseXml(await workbookFile.async('string'));
+  const firstSheet = workbook.getElementsByTagName('sheet')[0];
+  const relationId = firstSheet?.getAttribute('r:id');
+  if (!relationId) return fallback;
+
+  const rels = parseXml(await relsFile.async('string'));
+  const relation = Array.from(rels.getElementsByTagName('Relationship'))
+    .find(node => node.getAttribute('Id') === relationId);
+  const target = relation?.getAttribute('Target');
+  if (!target) return fallback;
+
+  return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+}
+
+async function parseXlsx(file: File): Promise<SpreadsheetRow[]> {
+  const zip = await JSZip.loadAsync(file);
+  const sharedStrings = await readSharedStrings(zip);
+  const sheetFile = zip.file(await resolveFirstSheetPath(zip));
+  if (!sheetFile) {
+    throw new Error('Planilha sem abas de dados');
+  }
+
+  const sheet = parseXml(await sheetFile.async('string'));
+  const rows: SpreadsheetRow[] = [];
+
+  Array.from(sheet.getElementsByTagName('row')).forEach(rowNode => {
+    // Rows without cells are left out of the sheet, so the line comes from `r`
+    const number = Number(rowNode.getAttribute('r')) || (rows[rows.length - 1]?.number ?? 0) + 1;
+    const cells: string[] = [];
+
+    Array.from(rowNode.getElementsByTagName('c')).forEach((cellNode, position) => {
+      const reference = cellNode.getAttribute('r');
+      const column = reference ? columnIndexFromReference(reference) : position;
+      const type = cellNode.getAttribute('t');
+      const rawValue = cellNode.getElementsByTagName('v')[0]?.textContent ?? '';
+
+      let value: string;
+      if (type === 's') {
+        value = sharedStrings[Number(rawValue)] ?? '';
+      } else if (type === 'inlineStr') {
+        value = Array.from(cellNode.getElementsByTagName('t')).map(node => node.textContent || '').join('');
+      } else if (type === 'b') {
+        value = rawValue === '1' ? 'TRUE' : 'FALSE';
+      } else {
+        value = rawValue;
+      }
+
+      while (cells.length < column) cells.push('');
+      cells[column] = value;
+    });
+
+    rows.push({ number, cells });
+  });
+
+  return rows;
+}
+
+/**
+ * Read a CSV or XLSX file into a header row and data rows.
+ * Only the first worksheet of XLSX files is considered.
+ */
+export async function readSpreadsheet(file: File): Promise<SpreadsheetData> {
+  const isXlsx = file.name.toLowerCase().endsWith('.xlsx');
+  const allRows = isXlsx
+    ? await parseXlsx(file)
+    : parseCsv(await file.text()).map((cells, index) => ({ number: index + 1, cells }));
+  const filledRows = allRows.filter(row => row.cells.some(value => value.trim() !== ''));
+
+  if (filledRows.length === 0) {
+    return { headers: [], rows: [], rowNumbers: [] };
+  }
+
+  const headers = filledRows[0].cells.map(header => header.trim());
+  const dataRows = filledRows.slice(1);
+  const rows = dataRows.map(row =>
+    headers.map((_, index) => (row.cells[index] ?? '').trim())
+  );
+
+  return { headers, rows, rowNumbers: dataRows.map(row => row.number) };
+}
@@ -0,0 +1,69 @@
+import { supabase } from './supabase';
+import type { ProductVariantStock } from '@/types';
+
+/**
+ * Stock of a product's variants; it is kept on the `product_variants` records and
+ * saved with them through `saveProductVariants`
+ */
+export async function fetchProductStock(productId: string): Promise<ProductVariantStock[]> {
+  try {
+    const { data, error } = await supabase
+      .from('product_variants')
+      .select('id, product_id, color, size, stock_quantity')
+      .eq('product_id', productId)
+      .not('stock_quantity', 'is', null);
+
+    if (error) throw error;
+    return (data || []).map(({ stock_quantity, ...variant }) => ({ ...variant, quantity: stock_quantity ?? 0 }));
+  } catch (error) {
+    if (error && typeof error === 'object' && 'code' in error && error.code === '42P01') {
+      console.warn('Stock tables not found. Please apply database migrations.');
+      return [];
+    }
+    console.error('Error fetching product stock:', error);
+    return [];
+  }
+}
+
+/**
+ * Build one stock entry per color × size combination, keeping quantities already set.
+ * Products without colors or sizes use '' for that dimension.
+ */
+export function buildStockMatrix(
+  colors: string[] = [],
+  sizes: string[] = [],
+  existing: ProductVariantStock[] = []
+): ProductVariantStock[] {
+  const colorKeys = colors.length > 0 ? colors : [''];
+  const sizeKeys = sizes.length > 0 ? sizes : [''];
+
+  return colorKeys.flatMap(color =>
+    sizeKeys.map(size => ({
+      color,
+      size,
+      quantity: existing.find(entry => entry.color === color && entry.size === size)?.quantity ?? 0,
+    }))
+  );
+}
+
+/**
+ * Units available for a color/size selection, or null when the selection is not tracked.
+ * Omitting color or size sums across that dimension (e.g. all sizes of a color).
+ */
+export function getAvailableStock(
+  stock: ProductVariantStock[],
+  color?: string,
+  size?: string
+): number | null {
+  const matching = stock.filter(entry =>
+    (color === undefined || entry.color === color) &&
+    (size === undefined || entry.size === size)
+  );
+
+  if (matching.length === 0) return null;
+  return matching.reduce((sum, entry) => sum + entry.quantity, 0);
+}
+
+export function isVariantSoldOut(stock: ProductVariantStock[], color?: string, size?: string): boolean {
+  return getAvailableStock(stock, color, size) === 0;
+}
@@ -1,10 +1,34 @@
 import { supabase } from '@/lib/supabase';
 import { v4 as uuidv4 } from 'uuid';
+import { sanitizeHeadSnippet, TRACKING_ID_PATTERNS } from './trackingProviders';
+import type { TrackingSettings, TrafficAttribution } from '@/types';
 
 // Dedicated UUID for storefront tracking to avoid UUID type mismatch
 export const STOREFRONT_UUID = '00000000-0000-0000-0000-000000000001';
 
-export const loadTrackingSettings = async (userIdOrSlug: string) => {
+// Name of the rows trackWhatsAppClick stores in leads: they count clicks and hold no contact
+export const WHATSAPP_CLICK_LEAD_NAME = 'WhatsApp Contact';
+
+declare global {
+  interface Window {
+    fbq?: (...args: unknown[]) => void;
+    gtag?: (...args: unknown[]) => void;
+    ttq?: { track: (event: string, data?: Record<string, unknown>) => void };
+    dataLayer?: unknown[];
+  }
+}
+
+// The access token itself is never readable from the browser
+const TRACKING_SETTINGS_COLUMNS = `
+  id, user_id, meta_pixel_id, meta_events, meta_capi_enabled, ga_measurement_id, ga_events,
+  tiktok_pixel_id, gtm_container_id, google_ads_id, google_ads_conversions, custom_head_html,
+  require_consent, is_active
+`;
+
+// Sellers whose pixel events are also sent through the Meta Conversions API
+const metaConversionsSellers = new Set<string>();
+
+export const loadTrackingSettings = async (userIdOrSlug: string): Promise<TrackingSettings | null> => {
   // If it looks like a slug, get the user ID first
   let userId = userIdOrSlug;
   
@@ -28,7 +52,7 @@ export const loadTrackingSettings = async (userIdOrSlug: string) => {
   
   const { data, error } = await supabase
     .from('tracking_settings')
-    .select('*')
+    .select(TRACKING_SETTINGS_COLUMNS)
     .eq('user_id', userId)
     .eq('is_active', true)
     .maybeSingle();
@@ -89,6 +113,67 @@ export const injectGoogleAnalytics = (measurementId: string) => {
   document.head.appendChild(configScript);
 };
 
+export const injectTikTokPixel = (pixelId: string) => {
+  if (!pixelId) return;
+
+  // TikTok Pixel base code
+  const script = document.createElement('script');
+  script.innerHTML = `
+    !function (w, d, t) {
+      w.TiktokAnalyticsObject=t;var ttq=w[t]=w[t]||[];ttq.methods=["page","track","identify","instances","debug","on","off","once","ready","alias","group","enableCookie","disableCookie"],ttq.setAndDefer=function(t,e){t[e]=function(){t.push([e].concat(Array.prototype.slice.call(arguments,0)))}};for(var i=0;i<ttq.methods.length;i++)ttq.setAndDefer(ttq,ttq.methods[i]);ttq.instance=function(t){for(var e=ttq._i[t]||[],n=0;n<ttq.methods.length;n++)ttq.setAndDefer(e,ttq.methods[n]);return e},ttq.load=function(e,n){var i="https://analytics.tiktok.com/i18n/pixel/events.js";ttq._i=ttq._i||{},ttq._i[e]=[],ttq._i[e]._u=i,ttq._t=ttq._t||{},ttq._t[e]=+new Date,ttq._o=ttq._o||{},ttq._o[e]=n||{};var o=document.createElement("script");o.type="text/javascript",o.async=!0,o.src=i+"?sdkid="+e+"&lib="+t;var a=document.getElementsByTagName("script")[0];a.parentNode.insertBefore(o,a)};
+      ttq.load('${pixelId}');
+      ttq.page();
+    }(window, document, 'ttq');
+  `;
+  document.head.appendChild(script);
+};
+
+export const injectGoogleTagManager = (containerId: string) => {
+  if (!containerId) return;
+
+  window.dataLayer = window.dataLayer || [];
+  window.dataLayer.push({ 'gtm.start': Date.now(), event: 'gtm.js' });
+
+  const script = document.createElement('script');
+  script.async = true;
+  script.src = `https://www.googletagmanager.com/gtm.js?id=${containerId}`;
+  document.head.appendChild(script);
+};
+
+export const injectGoogleAds = (adsId: string) => {
+  if (!adsId) return;
+
+  const script = document.createElement('script');
+  script.async = true;
+  script.src = `https://www.googletagmanager.com/gtag/js?id=${adsId}`;
+  document.head.appendChild(script);
+
+  // Shares gtag with Google Analytics when both are configured
+  const configScript = document.createElement('script');
+  configScript.innerHTML = `
+    window.dataLayer = window.dataLayer || [];
+    if (typeof window.gtag !== 'function') {
+      window.gtag = function(){dataLayer.push(arguments);};
+      gtag('js', new Date());
+    }
+    gtag('config', '${adsId}');
+  `;
+  document.head.appendChild(configScript);
+};
+
+/**
+ * Add the tags of a custom head snippet that pass sanitization
+ */
+export const injectHeadSnippet = (snippet: string) => {
+  const template = document.createElement('template');
+  template.innerHTML = sanitizeHeadSnippet(snippet).html;
+
+  Array.from(template.content.children).forEach(element => {
+    element.setAttribute('data-custom-head-snippet', '');
+    document.head.appendChild(element);
+  });
+};
+
 export const trackMetaEvent = (event: string, data?: any) => {
   if (typeof window.fbq !== 'function') return;
   window.fbq('track', event, data);
@@ -99,11 +184,243 @@ export const trackGoogleEvent = (event: string, data?: any) => {
   window.gtag('event', event, data);
 };
 
+export const trackTikTokEvent = (event: string, data?: Record<string, unknown>) => {
+  if (!window.ttq) return;
+  window.ttq.track(event, data);
+};
+
+// Tags already on the page, so moving around the storefront does not load them twice
+const loadedTags = new Set<string>();
+// Google Ads tag and conversion labels of the storefronts whose tags are loaded
+const googleAdsConversions = new Map<string, { adsId: string; labels: Record<string, string> }>();
+
+const loadTagOnce = (key: string, load: () => void) => {
+  if (loadedTags.has(key)) return;
+  loadedTags.add(key);
+  load();
+};
+
+/**
+ * E-commerce event for Google Tag Manager triggers, when a container is loaded
+ */
+export const pushDataLayerEvent = (event: string, ecommerce: Record<string, unknown>) => {
+  if (!window.dataLayer || ![...loadedTags].some(key => key.startsWith('gtm:'))) return;
+  // Clear the previous ecommerce object so GTM does not merge the two
+  window.dataLayer.push({ ecommerce: null });
+  window.dataLayer.push({ event, ecommerce });
+};
+
+/**
+ * Google Ads conversion for a storefront event the seller mapped to a conversion label
+ */
+export const trackGoogleAdsConversion = (
+  sellerId: string | undefined,
+  event: string,
+  data: { value?: number; currency?: string }
+) => {
+  const ads = sellerId ? googleAdsConversions.get(sellerId) : undefined;
+  const label = ads?.labels[event];
+  if (!ads || !label || typeof window.gtag !== 'function') return;
+  window.gtag('event', 'conversion', { send_to: `${ads.adsId}/${label}`, ...data });
+};
+
+const isValidTrackingId = (id: string | null | undefined, pattern: RegExp): id is string =>
+  !!id && pattern.test(id);
+
+const injectTrackingTags = (settings: TrackingSettings | null, globalMetaPixelId?: string | null) => {
+  // Ids end up inside inline scripts, so anything unexpected is skipped
+  if (isValidTrackingId(globalMetaPixelId, TRACKING_ID_PATTERNS.metaPixel)) {
+    loadTagOnce(`meta:${globalMetaPixelId}`, () => injectMetaPixel(globalMetaPixelId));
+  }
+
+  if (!settings) return;
+
+  if (isValidTrackingId(settings.meta_pixel_id, TRACKING_ID_PATTERNS.metaPixel)) {
+    const pixelId = settings.meta_pixel_id;
+    loadTagOnce(`meta:${pixelId}`, () => injectMetaPixel(pixelId));
+    if (settings.meta_capi_enabled) {
+      metaConversionsSellers.add(settings.user_id);
+    }
+  }
+
+  if (isValidTrackingId(settings.ga_measurement_id, TRACKING_ID_PATTERNS.gaMeasurement)) {
+    const measurementId = settings.ga_measurement_id;
+    loadTagOnce(`ga:${measurementId}`, () => injectGoogleAnalytics(measurementId));
+  }
+
+  if (isValidTrackingId(settings.tiktok_pixel_id, TRACKING_ID_PATTERNS.tiktokPixel)) {
+    const pixelId = settings.tiktok_pixel_id;
+    loadTagOnce(`tiktok:${pixelId}`, () => injectTikTokPixel(pixelId));
+  }
+
+  if (isValidTrackingId(settings.gtm_container_id, TRACKING_ID_PATTERNS.gtmContainer)) {
+    const containerId = settings.gtm_container_id;
+    loadTagOnce(`gtm:${containerId}`, () => injectGoogleTagManager(containerId));
+  }
+
+  if (isValidTrackingId(settings.google_ads_id, TRACKING_ID_PATTERNS.googleAds)) {
+    const adsId = settings.google_ads_id;
+    loadTagOnce(`ads:${adsId}`, () => injectGoogleAds(adsId));
+    googleAdsConversions.set(settings.user_id, { adsId, labels: settings.google_ads_conversions || {} });
+  }
+
+  if (settings.custom_head_html) {
+    const snippet = settings.custom_head_html;
+    loadTagOnce(`snippet:${settings.user_id}`, () => injectHeadSnippet(snippet));
+  }
+};
+
+export type TrackingConsent = 'granted' | 'denied';
+
+const getConsentStorageKey = (sellerId: string) => `vitrineturbo_tracking_consent_${sellerId}`;
+
+/**
+ * The visitor's answer to a seller's cookie banner, if they gave one
+ */
+export const getTrackingConsent = (sellerId: string): TrackingConsent | null => {
+  try {
+    const consent = localStorage.getItem(getConsentStorageKey(sellerId));
+    return consent === 'granted' || consent === 'denied' ? consent : null;
+  } catch {
+    return null;
+  }
+};
+
+// Tags waiting for the visitor to answer the cookie banner
+let pendingTracking: { settings: TrackingSettings; globalMetaPixelId?: string | null } | null = null;
+const consentListeners = new Set<() => void>();
+
+const setPendingTracking = (pending: typeof pendingTracking) => {
+  pendingTracking = pending;
+  consentListeners.forEach(listener => listener());
+};
+
+/**
+ * Load the seller's tags, plus the platform-wide Meta Pixel. Sellers who require
+ * consent get nothing loaded, not even server-side Meta events, until the visitor
+ * accepts cookies.
+ */
+export const loadStorefrontTracking = (settings: TrackingSettings | null, globalMetaPixelId?: string | null) => {
+  if (settings?.require_consent) {
+    const consent = getTrackingConsent(settings.user_id);
+    if (consent !== 'granted') {
+      setPendingTracking(consent === 'denied' ? null : { settings, globalMetaPixelId });
+      return;
+    }
+  }
+
+  setPendingTracking(null);
+  injectTrackingTags(settings, globalMetaPixelId);
+};
+
+export const isTrackingConsentPending = () => pendingTracking !== null;
+
+export const subscribeTrackingConsent = (listener: () => void) => {
+  consentListeners.add(listener);
+  return () => {
+    consentListeners.delete(listener);
+  };
+};
+
+/**
+ * Remember the visitor's answer to the cookie banner and load the tags if they accepted
+ */
+export const answerTrackingConsent = (consent: TrackingConsent) => {
+  if (!pendingTracking) return;
+
+  const { settings, globalMetaPixelId } = pendingTracking;
+  try {
+    localStorage.setItem(getConsentStorageKey(settings.user_id), consent);
+  } catch (error) {
+    console.error('Error saving tracking consent to localStorage:', error);
+  }
+
+  setPendingTracking(null);
+  if (consent === 'granted') {
+    injectTrackingTags(settings, globalMetaPixelId);
+  }
+};
+
+/**
+ * Anonymous id of this storefront visitor, created on first use
+ */
+export const getViewerId = (): string => {
+  const viewerId = localStorage.getItem('viewer_id') || uuidv4();
+  localStorage.setItem('viewer_id', viewerId);
+  return viewerId;
+};
+
+// A campaign keeps the credit for a week unless the buyer lands from another one
+const ATTRIBUTION_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+const getAttributionStorageKey = () => `vitrineturbo_attribution_${getViewerId()}`;
+
+/**
+ * Traffic source of this visitor, while still inside the attribution window
+ */
+export const getAttribution = (): TrafficAttribution | null => {
+  try {
+    const saved = localStorage.getItem(getAttributionStorageKey());
+    if (!saved) return null;
+
+    const attribution: TrafficAttribution = JSON.parse(saved);
+    if (Date.now() - new Date(attribution.captured_at).getTime() > ATTRIBUTION_WINDOW_MS) {
+      localStorage.removeItem(getAttributionStorageKey());
+      return null;
+    }
+    return attribution;
+  } catch (error) {
+    console.error('Error loading attribution from localStorage:', error);
+    return null;
+  }
+};
+
+/**
+ * Remember UTM parameters and ad click ids of the landing URL. Without them, an
+ * external referrer is kept only when there is no campaign on record.
+ */
+export const captureAttribution = (search: string = window.location.search, referrer: string = document.referrer) => {
+  try {
+    const params = new URLSearchParams(search);
+    const param = (name: string) => params.get(name)?.trim().slice(0, 200) || null;
+
+    const fbclid = param('fbclid');
+    const gclid = param('gclid');
+    const utmSource = param('utm_source');
+    const hasCampaign = !!(utmSource || param('utm_campaign') || fbclid || gclid);
+
+    let referrerHost: string | null = null;
+    try {
+      referrerHost = referrer ? new URL(referrer).hostname.replace(/^www\./, '') : null;
+    } catch {
+      referrerHost = null;
+    }
+    const isExternalReferrer = !!referrerHost && referrerHost !== window.location.hostname.replace(/^www\./, '');
+
+    if (!hasCampaign && (!isExternalReferrer || getAttribution())) return;
+
+    const attribution: TrafficAttribution = {
+      source: (utmSource || (fbclid ? 'facebook' : gclid ? 'google' : referrerHost) || 'direct').toLowerCase(),
+      medium: param('utm_medium')?.toLowerCase() || (fbclid || gclid ? 'cpc' : hasCampaign ? null : 'referral'),
+      campaign: param('utm_campaign'),
+      content: param('utm_content'),
+      term: param('utm_term'),
+      fbclid,
+      gclid,
+      referrer: isExternalReferrer ? referrer : null,
+      landing_page: window.location.pathname,
+      captured_at: new Date().toISOString(),
+    };
+
+    localStorage.setItem(getAttributionStorageKey(), JSON.stringify(attribution));
+  } catch (error) {
+    console.error('Error capturing attribution:', error);
+  }
+};
+
 export const trackView = async (itemId: string, type: 'product' = 'product') => {
   try {
-    // Generate or get viewer ID
-    const viewerId = localStorage.getItem('viewer_id') || uuidv4();
-    localStorage.setItem('viewer_id', viewerId);
+    const viewerId = getViewerId();
 
     // Get current date for unique daily views
     const viewDate = new Date().toISOString().split('T')[0]; // Format as YYYY-MM-DD
@@ -120,7 +437,8 @@ export const trackView = async (itemId: string, type: 'product' = 'product') =>
           source: document.referrer || 'direct',
           view_date: viewDate,
           viewed_at: new Date().toISOString(),
-          is_unique: true
+          is_unique: true,
+          attribution: getAttribution()
         },
         {
           onConflict: 'property_id,viewer_id,view_date,listing_type',
@@ -164,7 +482,8 @@ export const trackLead = async (data: {
         phone: data.phone,
         message: data.message,
         source: data.source || 'form',
-        status: 'new'
+        status: 'new',
+        attribution: getAttribution()
       })
       .select();
 
@@ -183,9 +502,7 @@ export const trackLead = async (data: {
 
 export const trackWhatsAppClick = async (itemId: string, itemType: 'product' = 'product', source: string = 'whatsapp') => {
   try {
-    // Generate or get viewer ID
-    const viewerId = localStorage.getItem('viewer_id') || uuidv4();
-    localStorage.setItem('viewer_id', viewerId);
+    const viewerId = getViewerId();
 
     // Use STOREFRONT_UUID for general storefront tracking
     const propertyId = itemId === 'storefront' ? STOREFRONT_UUID : itemId;
@@ -197,12 +514,13 @@ export const trackWhatsAppClick = async (itemId: string, itemType: 'product' = '
       .insert({
         property_id: propertyId,
         listing_type: itemType,
-        name: 'WhatsApp Contact',
+        name: WHATSAPP_CLICK_LEAD_NAME,
         email: 'whatsapp@contact.com',
         phone: '',
         message: `WhatsApp click from ${source}`,
         source: source,
-        status: 'new'
+        status: 'new',
+        attribution: getAttribution()
       })
       .select();
 
@@ -219,6 +537,131 @@ export const trackWhatsAppClick = async (itemId: string, itemType: 'product' = '
   }
 };
 
+export type StorefrontEventType =
+  | 'storefront_visit'
+  | 'product_view'
+  | 'variant_select'
+  | 'add_to_cart'
+  | 'cart_open'
+  | 'checkout_sent';
+
+/**
+ * Record a step of the buying journey for the seller's funnel report.
+ * Never throws: a lost event must not break the storefront.
+ */
+export const trackStorefrontEvent = async (
+  sellerId: string | undefined,
+  eventType: StorefrontEventType,
+  options: { productIds?: string[]; metadata?: Record<string, unknown> } = {}
+) => {
+  if (!sellerId) return false;
+
+  try {
+    const viewerId = getViewerId();
+    // One row per product, so the product funnel sees every product of a checkout
+    const productIds = options.productIds && options.productIds.length > 0
+      ? Array.from(new Set(options.productIds))
+      : [null];
+
+    const { error } = await supabase
+      .from('storefront_events')
+      .insert(productIds.map(productId => ({
+        seller_id: sellerId,
+        viewer_id: viewerId,
+        event_type: eventType,
+        product_id: productId,
+        metadata: options.metadata || {},
+      })));
+
+    if (error) {
+      console.error('Error tracking storefront event:', error);
+      return false;
+    }
+
+    return true;
+  } catch (err) {
+    console.error('Error tracking storefront event:', err);
+    return false;
+  }
+};
+
+export type MetaConversionEvent = 'ViewContent' | 'AddToCart' | 'InitiateCheckout' | 'Lead';
+
+export interface MetaConversionData {
+  content_ids?: string[];
+  contents?: Array<{ id: string; quantity: number; item_price?: number }>;
+  content_name?: string;
+  content_type?: 'product';
+  value?: number;
+  currency?: string;
+  num_items?: number;
+  order_id?: string;
+}
+
+const getCookie = (name: string): string | null => {
+  const cookie = document.cookie.split('; ').find(row => row.startsWith(`${name}=`));
+  return cookie ? decodeURIComponent(cookie.slice(name.length + 1)) : null;
+};
+
+/**
+ * Meta click id: the `_fbc` cookie set by the pixel, or one built from the
+ * `fbclid` the buyer landed with when the pixel is blocked
+ */
+const getMetaClickId = (): string | null => {
+  const cookie = getCookie('_fbc');
+  if (cookie) return cookie;
+
+  const attribution = getAttribution();
+  return attribution?.fbclid
+    ? `fb.1.${new Date(attribution.captured_at).getTime()}.${attribution.fbclid}`
+    : null;
+};
+
+/**
+ * Send a standard Meta event from the browser pixel and, for sellers with a
+ * Conversions API token, from the server too. Both share one event id so Meta
+ * counts the event once. Never throws.
+ */
+export const trackMetaConversion = (
+  sellerId: string | undefined,
+  eventName: MetaConversionEvent,
+  data: MetaConversionData = {},
+  buyer: { phone?: string; email?: string } = {}
+) => {
+  try {
+    const eventId = uuidv4();
+
+    if (typeof window.fbq === 'function') {
+      window.fbq('track', eventName, data, { eventID: eventId });
+    }
+
+    if (!sellerId || !metaConversionsSellers.has(sellerId)) return;
+
+    supabase.functions
+      .invoke('meta-conversions', {
+        body: {
+          seller_id: sellerId,
+          event_name: eventName,
+          event_id: eventId,
+          event_source_url: window.location.href,
+          custom_data: data,
+          user_data: {
+            external_id: getViewerId(),
+            fbp: getCookie('_fbp'),
+            fbc: getMetaClickId(),
+            phone: buyer.phone,
+            email: buyer.email,
+          },
+        },
+      })
+      .then(({ error }) => {
+        if (error) console.error('Error forwarding Meta conversion:', error);
+      });
+  } catch (err) {
+    console.error('Error tracking Meta conversion:', err);
+  }
+};
+
 export const getStats = async (itemId: string, type: 'product' = 'product') => {
   try {
     const [viewsResponse, leadsResponse] = await Promise.all([
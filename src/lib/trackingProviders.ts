@@ -0,0 +1,90 @@
+/**
+ * Id formats accepted for each tracking provider
+ */
+export const TRACKING_ID_PATTERNS = {
+  metaPixel: /^\d+$/,
+  gaMeasurement: /^(G|UA)-[A-Z0-9-]+$/,
+  tiktokPixel: /^[A-Z0-9]{15,25}$/,
+  gtmContainer: /^GTM-[A-Z0-9]+$/,
+  googleAds: /^AW-\d+$/,
+  googleAdsLabel: /^[A-Za-z0-9_-]+$/,
+};
+
+/**
+ * Storefront events a seller can count as Google Ads conversions
+ */
+export const GOOGLE_ADS_CONVERSION_EVENTS = [
+  { event: 'begin_checkout', label: 'Início do checkout' },
+  { event: 'add_to_cart', label: 'Adição ao carrinho' },
+  { event: 'view_item', label: 'Visualização de produto' },
+] as const;
+
+/**
+ * Hosts the supported providers load scripts from. The Content-Security-Policy in
+ * netlify.toml allows them in script-src, and the hosts they send data to in
+ * img-src/connect-src: change both together.
+ */
+export const TRACKING_SCRIPT_HOSTS = [
+  'connect.facebook.net',
+  'www.googletagmanager.com',
+  'analytics.tiktok.com',
+  'www.googleadservices.com',
+  'googleads.g.doubleclick.net',
+];
+
+// Scripts run on the app's origin, so providers are only loaded from their ids and a
+// snippet keeps the inert tags; anything else is dropped
+const ALLOWED_SNIPPET_TAGS = ['META', 'LINK'];
+const ALLOWED_ATTRIBUTES: Record<string, string[]> = {
+  META: ['name', 'property', 'content'],
+  LINK: ['rel', 'href', 'crossorigin'],
+};
+const ALLOWED_LINK_RELS = ['preconnect', 'dns-prefetch'];
+
+export interface SanitizedHeadSnippet {
+  /** Tags kept, one per line */
+  html: string;
+  /** What was dropped, to show the seller */
+  removed: string[];
+}
+
+/**
+ * Keep only the `meta` and `link` tags of a custom head snippet, without event handler
+ * attributes. Scripts are always dropped: tracking tags are loaded from provider ids.
+ */
+export function sanitizeHeadSnippet(snippet: string): SanitizedHeadSnippet {
+  const template = document.createElement('template');
+  template.innerHTML = snippet;
+
+  const kept: string[] = [];
+  const removed: string[] = [];
+
+  Array.from(template.content.childNodes).forEach(node => {
+    if (node.nodeType === Node.TEXT_NODE && !node.textContent?.trim()) return;
+    if (node.nodeType === Node.COMMENT_NODE) return;
+
+    if (!(node instanceof Element) || !ALLOWED_SNIPPET_TAGS.includes(node.tagName)) {
+      removed.push(node instanceof Element ? `<${node.tagName.toLowerCase()}>` : 'texto solto');
+      return;
+    }
+
+    Array.from(node.attributes).forEach(attribute => {
+      if (!ALLOWED_ATTRIBUTES[node.tagName].includes(attribute.name)) {
+        node.removeAttribute(attribute.name);
+      }
+    });
+
+    if (node.tagName === 'LINK') {
+      const rel = node.getAttribute('rel') || '';
+      const href = node.getAttribute('href') || '';
+      if (!ALLOWED_LINK_RELS.includes(rel) || !href.startsWith('https://')) {
+        removed.push(`<link rel="${rel}">`);
+        return;
+      }
+    }
+
+    kept.push(node.outerHTML);
+  });
+
+  return { html: kept.join('\n'), removed };
+}
@@ -0,0 +1,87 @@
+import { supabase } from './supabase';
+import type { ReportDateRange } from './funnelUtils';
+import type { TrafficAttribution } from '@/types';
+
+export interface TrafficSourceRow {
+  source: string;
+  medium: string | null;
+  campaign: string | null;
+  views: number;
+  leads: number;
+  orders: number;
+  revenue: number;
+}
+
+export type TrafficGrouping = 'source' | 'campaign';
+
+const SOURCE_LABELS: Record<string, string> = {
+  direct: 'Acesso direto',
+  facebook: 'Facebook',
+  fb: 'Facebook',
+  instagram: 'Instagram',
+  ig: 'Instagram',
+  google: 'Google',
+  whatsapp: 'WhatsApp',
+  tiktok: 'TikTok',
+};
+
+export function getSourceLabel(source: string): string {
+  return SOURCE_LABELS[source] || source;
+}
+
+/**
+ * "Instagram · cpc · black-friday"
+ */
+export function formatAttribution(attribution: TrafficAttribution): string {
+  return [getSourceLabel(attribution.source), attribution.medium, attribution.campaign]
+    .filter(Boolean)
+    .join(' · ');
+}
+
+export async function fetchTrafficSources(range: ReportDateRange): Promise<TrafficSourceRow[]> {
+  const { data, error } = await supabase.rpc('get_traffic_sources', {
+    p_start: range.from.toISOString(),
+    p_end: range.to.toISOString(),
+  });
+
+  if (error) throw error;
+
+  return ((data || []) as TrafficSourceRow[]).map(row => ({
+    ...row,
+    views: Number(row.views),
+    leads: Number(row.leads),
+    orders: Number(row.orders),
+    revenue: Number(row.revenue) || 0,
+  }));
+}
+
+/**
+ * Rows per source (campaigns merged) or per source/medium/campaign, best sellers first
+ */
+export function groupTrafficSources(rows: TrafficSourceRow[], grouping: TrafficGrouping): TrafficSourceRow[] {
+  const grouped = grouping === 'campaign'
+    ? rows
+    : Array.from(
+        rows.reduce((bySource, row) => {
+          const current = bySource.get(row.source) || {
+            source: row.source,
+            medium: null,
+            campaign: null,
+            views: 0,
+            leads: 0,
+            orders: 0,
+            revenue: 0,
+          };
+          bySource.set(row.source, {
+            ...current,
+            views: current.views + row.views,
+            leads: current.leads + row.leads,
+            orders: current.orders + row.orders,
+            revenue: current.revenue + row.revenue,
+          });
+          return bySource;
+        }, new Map<string, TrafficSourceRow>()).values()
+      );
+
+  return [...grouped].sort((a, b) => b.revenue - a.revenue || b.orders - a.orders || b.views - a.views);
+}
@@ -0,0 +1,165 @@
+import { supabase } from './supabase';
+import { applyPromotion } from './promotionUtils';
+import type { Product, ProductVariant, ProductVariantStock } from '@/types';
+
+interface ProductVariantRow {
+  id: string;
+  product_id: string;
+  color: string;
+  size: string;
+  sku: string | null;
+  barcode: string | null;
+  price: number | string | null;
+  discounted_price: number | string | null;
+  stock_quantity: number | null;
+  product_variant_images: { image_id: string; display_order: number }[] | null;
+}
+
+const toPrice = (value: number | string | null): number | null =>
+  value === null || value === '' ? null : Number(value);
+
+export async function fetchProductVariants(productId: string): Promise<ProductVariant[]> {
+  try {
+    const { data, error } = await supabase
+      .from('product_variants')
+      .select('id, product_id, color, size, sku, barcode, price, discounted_price, stock_quantity, product_variant_images(image_id, display_order)')
+      .eq('product_id', productId);
+
+    if (error) throw error;
+
+    return ((data || []) as ProductVariantRow[]).map(row => ({
+      id: row.id,
+      product_id: row.product_id,
+      color: row.color,
+      size: row.size,
+      sku: row.sku,
+      barcode: row.barcode,
+      price: toPrice(row.price),
+      discounted_price: toPrice(row.discounted_price),
+      stock_quantity: row.stock_quantity,
+      image_ids: [...(row.product_variant_images || [])]
+        .sort((a, b) => a.display_order - b.display_order)
+        .map(image => image.image_id),
+    }));
+  } catch (error) {
+    if (error && typeof error === 'object' && 'code' in error && error.code === '42P01') {
+      console.warn('Variant tables not found. Please apply database migrations.');
+      return [];
+    }
+    console.error('Error fetching product variants:', error);
+    return [];
+  }
+}
+
+/**
+ * Whether a variant carries anything beyond its color and size, i.e. needs a record
+ */
+export function hasVariantDetails(variant: ProductVariant): boolean {
+  return Boolean(
+    variant.sku?.trim() ||
+    variant.barcode?.trim() ||
+    variant.price ||
+    variant.discounted_price ||
+    variant.image_ids.length > 0 ||
+    (variant.stock_quantity !== null && variant.stock_quantity !== undefined)
+  );
+}
+
+/**
+ * Save the variants of a product with their stock, in one transaction. Stock entries
+ * (empty when the product does not track stock) set each combination's quantity;
+ * combinations left without details or stock are removed. Records are upserted on
+ * color/size so their ids stay the same across edits.
+ */
+export async function saveProductVariants(
+  productId: string,
+  variants: ProductVariant[],
+  stock: ProductVariantStock[] = []
+): Promise<void> {
+  const entries = variants
+    .map(variant => {
+      const stockEntry = stock.find(entry => entry.color === variant.color && entry.size === variant.size);
+      return {
+        ...variant,
+        stock_quantity: stockEntry ? Math.max(0, Math.floor(stockEntry.quantity || 0)) : null,
+      };
+    })
+    .filter(hasVariantDetails);
+
+  const { error } = await supabase.rpc('save_product_variants', {
+    p_product_id: productId,
+    p_variants: entries.map(entry => ({
+      color: entry.color,
+      size: entry.size,
+      sku: entry.sku?.trim() || null,
+      barcode: entry.barcode?.trim() || null,
+      price: entry.price || null,
+      discounted_price: entry.discounted_price || null,
+      stock_quantity: entry.stock_quantity,
+      image_ids: entry.image_ids,
+    })),
+  });
+
+  if (error) throw error;
+}
+
+/**
+ * Build one variant per color × size combination, keeping details already set.
+ * Products without colors or sizes use '' for that dimension.
+ */
+export function buildVariantMatrix(
+  colors: string[] = [],
+  sizes: string[] = [],
+  existing: ProductVariant[] = []
+): ProductVariant[] {
+  const colorKeys = colors.length > 0 ? colors : [''];
+  const sizeKeys = sizes.length > 0 ? sizes : [''];
+
+  return colorKeys.flatMap(color =>
+    sizeKeys.map(size =>
+      findProductVariant(existing, color, size) ?? { color, size, image_ids: [] }
+    )
+  );
+}
+
+export function findProductVariant(
+  variants: ProductVariant[] = [],
+  color?: string,
+  size?: string
+): ProductVariant | undefined {
+  return variants.find(variant =>
+    variant.color === (color || '') && variant.size === (size || '')
+  );
+}
+
+/**
+ * Price and discounted price for a selection. A variant price replaces the product
+ * price; the product discount only carries over when the variant keeps the base price.
+ * A running promotion of the product then applies on top.
+ */
+export function getVariantPricing(
+  product: Pick<Product, 'price' | 'discounted_price' | 'active_promotion'>,
+  variant?: ProductVariant | null
+): { price?: number; discounted_price?: number } {
+  if (!variant?.price && !variant?.discounted_price) {
+    return applyPromotion({ price: product.price, discounted_price: product.discounted_price }, product.active_promotion);
+  }
+
+  return applyPromotion({
+    price: variant.price || product.price,
+    discounted_price: variant.discounted_price || (variant.price ? undefined : product.discounted_price),
+  }, product.active_promotion);
+}
+
+/**
+ * Photos linked to any variant of a color, in the order they were linked
+ */
+export function getColorImageIds(variants: ProductVariant[] = [], color?: string): string[] {
+  if (!color) return [];
+
+  return [...new Set(
+    variants
+      .filter(variant => variant.color === color)
+      .flatMap(variant => variant.image_ids)
+  )];
+}
@@ -10,35 +10,43 @@ import { useProductSearch } from '@/hooks/useProductSearch';
 import { useCorretorPageState } from '@/hooks/useCorretorPageState';
 import { useProductFilterMetadata } from '@/hooks/useProductFilterMetadata';
 import { useServerSideProductSearch } from '@/hooks/useServerSideProductSearch';
+import { useStorefrontPromotions } from '@/hooks/useStorefrontPromotions';
+import { useRecentlyViewedProducts } from '@/hooks/useRecentlyViewedProducts';
 import CorretorHeader from '@/components/corretor/CorretorHeader';
 import PromotionalBanner from '@/components/corretor/PromotionalBanner';
+import RecentlyViewedStrip from '@/components/corretor/RecentlyViewedStrip';
+import TrackingConsentBanner from '@/components/corretor/TrackingConsentBanner';
 import ProductSearch from '@/components/product/ProductSearch';
 import { ProductCard } from '@/components/product/ProductCard';
-import { groupProductsByCategory } from '@/utils/productDisplayUtils';
+import { groupProductsByCategory, isProductSortOption, normalizeProductFilters } from '@/utils/productDisplayUtils';
 import ShareCategoryButton from '@/components/corretor/ShareCategoryButton';
-import PaginationControls from '@/components/corretor/PaginationControls';
+import LoadMoreTrigger from '@/components/corretor/LoadMoreTrigger';
 import { logCategoryOperation } from '@/lib/categoryUtils';
 import { useTranslation, type SupportedLanguage, type SupportedCurrency } from '@/lib/i18n';
 import { updateMetaTags, getCorretorMetaTags } from '@/utils/metaTags';
 import { scrollCoordinator } from '@/lib/scrollCoordinator';
+import { captureAttribution, trackStorefrontEvent } from '@/lib/tracking';
+import type { Product } from '@/types';
 
 export default function CorretorPage() {
   const { slug } = useParams();
   const [searchParams] = useSearchParams();
   const location = useLocation();
-  const [currentPage, setCurrentPage] = useState(1);
   const [searchResultsPage, setSearchResultsPage] = useState(1);
   const [hasRestoredState, setHasRestoredState] = useState(false);
   const [isReturningFromProduct, setIsReturningFromProduct] = useState(false);
-  const [serverSearchResults, setServerSearchResults] = useState<any[]>([]);
-  const [allServerSearchResults, setAllServerSearchResults] = useState<any[]>([]);
+  const [serverSearchResults, setServerSearchResults] = useState<Product[]>([]);
+  const [serverSearchTotal, setServerSearchTotal] = useState(0);
   const [isRestoringState, setIsRestoringState] = useState(false);
   const productsContainerRef = useRef<HTMLDivElement>(null);
   const userInitiatedSearchRef = useRef(false);
   const scrollRestoredRef = useRef(false);
   const previousFiltersRef = useRef<any>(null);
   const isRestoringStateRef = useRef(false);
-  const pageSize = 250;
+  // Search result pages to show again once the restored search completes
+  const restoredSearchPagesRef = useRef<number | null>(null);
+  // Ignore search pages that arrive after the filters changed again
+  const searchRequestIdRef = useRef(0);
 
   // Load corretor data and apply theme/tracking
   const { corretor, loading: corretorLoading, error: corretorError } = useCorretorData({ slug });
@@ -49,7 +57,10 @@ export default function CorretorPage() {
 
   const { t } = useTranslation(language);
 
-  // Load product data with pagination
+  // The buyer's sort lives in the query string with the other filters
+  const sortParam = searchParams.get('sort');
+
+  // Load product data a page at a time
   const {
     allProducts,
     categorySettings,
@@ -58,25 +69,39 @@ export default function CorretorPage() {
     error: productsError,
     sizeTypeMapping,
     totalProducts,
-    totalPages,
-    hasNextPage,
-    hasPreviousPage,
-    paginationEnabled,
+    pageSize,
+    loadedPages,
+    hasMore,
+    loadingMore,
+    loadMore,
   } = useProductData({
     userId: corretor?.id || '',
     language,
-    page: currentPage,
-    pageSize: 250
+    sort: isProductSortOption(sortParam) ? sortParam : undefined
   });
 
-  // Load filter metadata from all products
-  const { metadata: filterMetadata, loading: filterMetadataLoading } = useProductFilterMetadata({
-    userId: corretor?.id || '',
-    enabled: true
-  });
+  // Scheduled promotions re-price the products while they run
+  const { applyPromotions } = useStorefrontPromotions(corretor?.id);
+
+  // Returning buyers pick up where they left off
+  const { products: recentlyViewed } = useRecentlyViewedProducts(corretor?.id);
+
+  // Campaign links land here: keep their UTM parameters before filters rewrite the URL
+  useEffect(() => {
+    captureAttribution();
+  }, [slug]);
+
+  // First step of the seller's conversion funnel
+  useEffect(() => {
+    trackStorefrontEvent(corretor?.id, 'storefront_visit');
+  }, [corretor?.id]);
 
   // Server-side search hook
-  const { searchProducts, loading: serverSearchLoading } = useServerSideProductSearch();
+  const {
+    searchProducts,
+    loading: serverSearchLoading,
+    loadingMore: serverSearchLoadingMore
+  } = useServerSideProductSearch();
 
   // Handle product search and filtering
   const {
@@ -90,36 +115,44 @@ export default function CorretorPage() {
     settings
   });
 
-  // When search is active, fetch results from server
+  // Load filter metadata from all products, with live option counts for the current filters
+  const { metadata: filterMetadata, facetCounts, loading: filterMetadataLoading } = useProductFilterMetadata({
+    userId: corretor?.id || '',
+    enabled: true,
+    filters,
+    settings
+  });
+
+  // When search is active, fetch the first pages of results from the server
   useEffect(() => {
-    if (isSearchActive && corretor?.id && filters) {
-      const performServerSearch = async () => {
-        const results = await searchProducts(corretor.id, filters);
-        setAllServerSearchResults(results);
-        setSearchResultsPage(1);
-      };
-      performServerSearch();
-    } else {
-      setAllServerSearchResults([]);
+    const requestId = ++searchRequestIdRef.current;
+
+    if (!isSearchActive || !corretor?.id || !filters) {
       setServerSearchResults([]);
+      setServerSearchTotal(0);
       setSearchResultsPage(1);
+      return;
     }
-  }, [isSearchActive, filters, corretor?.id, searchProducts]);
 
+    // A restored search loads every page that was on screen in one request
+    const pages = restoredSearchPagesRef.current ?? 1;
+    restoredSearchPagesRef.current = null;
 
-  // Apply pagination to server search results
-  useEffect(() => {
-    if (allServerSearchResults.length > 0) {
-      const offset = (searchResultsPage - 1) * pageSize;
-      const paginated = allServerSearchResults.slice(offset, offset + pageSize);
-      setServerSearchResults(paginated);
-    }
-  }, [allServerSearchResults, searchResultsPage, pageSize]);
+    searchProducts(corretor.id, filters, settings, 0, pageSize * pages).then(page => {
+      if (requestId !== searchRequestIdRef.current) return;
+      setServerSearchResults(page.products);
+      setServerSearchTotal(page.total);
+      setSearchResultsPage(pages);
+    });
+  }, [isSearchActive, filters, corretor?.id, searchProducts, settings, pageSize]);
+
+  const hasMoreSearchResults = serverSearchResults.length < serverSearchTotal;
 
   // Initialize state management hook
   const pageStateHook = useCorretorPageState({
     slug: slug || '',
-    currentPage,
+    // Pages loaded so far, so the same products are on screen when coming back
+    currentPage: isSearchActive ? searchResultsPage : loadedPages,
     isSearchActive,
     filters,
     searchQuery,
@@ -165,15 +198,18 @@ export default function CorretorPage() {
       if (savedState && savedState.slug === slug) {
         // Restore filters if search was active
         if (savedState.isSearchActive && savedState.filters) {
-          handleSearch(savedState.filters);
-          previousFiltersRef.current = savedState.filters;
+          // State saved before multi-select filters holds one value per facet
+          const restoredFilters = normalizeProductFilters(savedState.filters, settings);
           if (savedState.currentPage > 1) {
-            setSearchResultsPage(savedState.currentPage);
+            restoredSearchPagesRef.current = savedState.currentPage;
           }
+          handleSearch(restoredFilters);
+          previousFiltersRef.current = restoredFilters;
           console.log('✅ Restored search state with filters');
         } else if (savedState.currentPage > 1) {
-          setCurrentPage(savedState.currentPage);
-          console.log('✅ Restored pagination state:', savedState.currentPage);
+          // Load the pages that were on screen in one request
+          loadMore(savedState.currentPage - 1);
+          console.log('✅ Restored loaded pages:', savedState.currentPage);
         }
         userInitiatedSearchRef.current = false;
       }
@@ -182,7 +218,7 @@ export default function CorretorPage() {
       setIsRestoringState(false);
       isRestoringStateRef.current = false;
     }
-  }, [isReturningFromProduct, hasRestoredState, slug, corretorLoading, productsLoading, pageStateHook, handleSearch]);
+  }, [isReturningFromProduct, hasRestoredState, slug, corretorLoading, productsLoading, pageStateHook, handleSearch, loadMore, settings]);
 
   // Detect filter changes and scroll to top
   const filtersHaveChanged = (newFilters: any, oldFilters: any) => {
@@ -208,15 +244,8 @@ export default function CorretorPage() {
     }
   }, [filters]);
 
-  // Only reset to page 1 if user explicitly initiates search
-  useEffect(() => {
-    if (userInitiatedSearchRef.current && isSearchActive && currentPage !== 1) {
-      setCurrentPage(1);
-    }
-  }, [isSearchActive, currentPage]);
-
   // Use server search results when search is active, otherwise use paginated products
-  const productsToDisplay = isSearchActive ? serverSearchResults : allProducts;
+  const productsToDisplay = applyPromotions(isSearchActive ? serverSearchResults : allProducts);
 
   // Organize products by category
   const organizedProducts = groupProductsByCategory(
@@ -238,9 +267,9 @@ export default function CorretorPage() {
   useEffect(() => {
     if (hasRestoredState && !productsLoading && isReturningFromProduct && !scrollRestoredRef.current) {
       // For search/filter context, wait for server search to complete and results to load
-      const isWaitingForServerSearch = isSearchActive && (serverSearchLoading || allServerSearchResults.length === 0);
+      const isWaitingForServerSearch = isSearchActive && (serverSearchLoading || serverSearchResults.length === 0);
 
-      if (!isWaitingForServerSearch) {
+      if (!isWaitingForServerSearch && !loadingMore) {
         scrollRestoredRef.current = true;
         const savedState = pageStateHook.restoreCurrentState();
 
@@ -275,10 +304,10 @@ export default function CorretorPage() {
         }
       }
     }
-  }, [hasRestoredState, productsLoading, serverSearchLoading, isSearchActive, allServerSearchResults.length, isReturningFromProduct, pageStateHook]);
+  }, [hasRestoredState, productsLoading, serverSearchLoading, isSearchActive, serverSearchResults.length, isReturningFromProduct, pageStateHook, loadingMore]);
 
-  // Loading state
-  if (corretorLoading || productsLoading || filterMetadataLoading) {
+  // Loading state - only on first load, so changing the sort keeps the page in place
+  if (corretorLoading || (productsLoading && allProducts.length === 0) || filterMetadataLoading) {
     return (
       <div className="flex-1 flex items-center justify-center min-h-screen">
         <div className="text-center">
@@ -305,35 +334,30 @@ export default function CorretorPage() {
     );
   }
 
-  const handlePageChange = (newPage: number) => {
-    const currentScrollPosition = window.scrollY || document.documentElement.scrollTop;
-    pageStateHook.saveCurrentState(currentScrollPosition);
-
+  const handleLoadMore = () => {
     if (isSearchActive) {
-      setSearchResultsPage(newPage);
+      if (serverSearchLoadingMore) return;
+      const requestId = searchRequestIdRef.current;
+      searchProducts(corretor.id, filters, settings, serverSearchResults.length, pageSize).then(page => {
+        if (requestId !== searchRequestIdRef.current) return;
+        setServerSearchResults(results => [...results, ...page.products]);
+        setServerSearchTotal(page.total);
+        setSearchResultsPage(current => current + 1);
+      });
     } else {
-      setCurrentPage(newPage);
+      loadMore();
     }
-
-    // Scroll to products section when changing pages
-    setTimeout(() => {
-      requestAnimationFrame(() => {
-        if (productsContainerRef.current) {
-          productsContainerRef.current.scrollIntoView({ behavior: 'smooth', block: 'start' });
-        }
-      });
-    }, 50);
   };
 
   logCategoryOperation('CORRETOR_PAGE_RENDER', {
     corretorId: corretor.id,
     corretorName: corretor.name,
     totalProducts,
-    currentPageProducts: allProducts.length,
+    loadedProducts: allProducts.length,
     productsDisplayed: productsToDisplay.length,
     organizedCategories: Object.keys(organizedProducts).length,
-    paginationEnabled,
-    currentPage,
+    loadedPages,
+    hasMore,
     isSearchActive,
     usingServerSearch: isSearchActive,
     filterMetadataCount: {
@@ -365,9 +389,10 @@ export default function CorretorPage() {
           }}
           products={allProducts}
           filterMetadata={filterMetadata}
+          facetCounts={facetCounts}
           currency={currency}
           language={language}
-          settings={settings}
+          settings={settings ?? undefined}
           sizeTypeMapping={sizeTypeMapping}
           initialFilters={filters}
         />
@@ -378,6 +403,22 @@ export default function CorretorPage() {
         <PromotionalBanner corretor={corretor} />
       </div>
 
+      {/* Recently Viewed */}
+      {!isSearchActive && recentlyViewed.length > 0 && (
+        <div className="container mx-auto px-4 mb-8">
+          <RecentlyViewedStrip
+            products={applyPromotions(recentlyViewed)}
+            corretorSlug={corretor.slug || ''}
+            currency={currency}
+            language={language}
+            onNavigate={() => {
+              const currentScrollPosition = window.scrollY || document.documentElement.scrollTop;
+              pageStateHook.saveCurrentState(currentScrollPosition);
+            }}
+          />
+        </div>
+      )}
+
       {/* Products Section */}
       <section className="py-2" ref={productsContainerRef}>
         <div className="container mx-auto px-4">
@@ -437,6 +478,7 @@ export default function CorretorPage() {
                           corretorSlug={corretor.slug || ''}
                           currency={currency}
                           language={language}
+                          highlightQuery={isSearchActive ? filters.query : undefined}
                           onNavigate={() => {
                             const currentScrollPosition = window.scrollY || document.documentElement.scrollTop;
                             pageStateHook.saveCurrentState(currentScrollPosition);
@@ -448,36 +490,25 @@ export default function CorretorPage() {
                 ))}
               </div>
 
-              {/* Bottom pagination controls - show for regular products or search results */}
-              {paginationEnabled && !isSearchActive && (
-                <div className="mt-12">
-                  <PaginationControls
-                    currentPage={currentPage}
-                    totalPages={totalPages}
-                    hasNextPage={hasNextPage}
-                    hasPreviousPage={hasPreviousPage}
-                    onPageChange={handlePageChange}
-                    totalProducts={totalProducts}
-                    pageSize={pageSize}
-                    isLoading={productsLoading}
-                  />
-                </div>
-              )}
-
-              {/* Search results pagination */}
-              {isSearchActive && allServerSearchResults.length > 0 && !serverSearchLoading && (
-                <div className="mt-12">
-                  <PaginationControls
-                    currentPage={searchResultsPage}
-                    totalPages={Math.ceil(allServerSearchResults.length / pageSize)}
-                    hasNextPage={searchResultsPage < Math.ceil(allServerSearchResults.length / pageSize)}
-                    hasPreviousPage={searchResultsPage > 1}
-                    onPageChange={handlePageChange}
-                    totalProducts={allServerSearchResults.length}
-                    pageSize={pageSize}
-                    isLoading={serverSearchLoading}
+              {/* Next page of the product list or of the search results, loaded from the server */}
+              {isSearchActive ? (
+                !serverSearchLoading && (
+                  <LoadMoreTrigger
+                    hasMore={hasMoreSearchResults}
+                    loading={serverSearchLoadingMore}
+                    onLoadMore={handleLoadMore}
+                    infiniteScroll={settings?.infiniteScroll !== false}
+                    language={language}
                   />
-                </div>
+                )
+              ) : (
+                <LoadMoreTrigger
+                  hasMore={hasMore}
+                  loading={loadingMore}
+                  onLoadMore={handleLoadMore}
+                  infiniteScroll={settings?.infiniteScroll !== false}
+                  language={language}
+                />
               )}
 
               {/* Loading indicator for server search - show first */}
@@ -489,12 +520,12 @@ export default function CorretorPage() {
               )}
 
               {/* Search results count - only show when not loading and results exist */}
-              {isSearchActive && allServerSearchResults.length > 0 && !serverSearchLoading && (
+              {isSearchActive && serverSearchTotal > 0 && !serverSearchLoading && (
                 <div className="mt-8 p-4 bg-muted/50 rounded-lg text-center">
                   <p className="text-sm text-muted-foreground">
-                    {allServerSearchResults.length} {allServerSearchResults.length === 1 ? t('messages.product') : t('messages.products')} {t('messages.found')}
+                    {serverSearchTotal} {serverSearchTotal === 1 ? t('messages.product') : t('messages.products')} {t('messages.found')}
                   </p>
-                  {filters.category && filters.category !== 'todos' && (
+                  {filters.category.length > 0 && (
                     <p className="text-xs text-muted-foreground mt-2">
                       {t('messages.showing_active_products_only')}
                     </p>
@@ -505,6 +536,8 @@ export default function CorretorPage() {
           )}
         </div>
       </section>
+
+      <TrackingConsentBanner language={language} />
     </div>
   );
 }
\ No newline at end of file
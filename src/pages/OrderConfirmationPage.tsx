@@ -0,0 +1,254 @@
+import { useState, useEffect } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { ArrowLeft, Check, Loader, MessageCircle, Package, Palette, Ruler } from 'lucide-react';
+import { supabase } from '@/lib/supabase';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Separator } from '@/components/ui/separator';
+import OrderStatusBadge from '@/components/dashboard/OrderStatusBadge';
+import { cn, generateWhatsAppUrl } from '@/lib/utils';
+import { fetchPublicOrder } from '@/lib/orderUtils';
+import {
+  useTranslation,
+  formatCurrencyI18n,
+  formatDateI18n,
+  type SupportedLanguage,
+  type SupportedCurrency,
+} from '@/lib/i18n';
+import type { Order, OrderStatus, User } from '@/types';
+
+// Happy-path progression shown to the buyer; cancelled orders skip the timeline
+const STATUS_STEPS: OrderStatus[] = ['new', 'confirmed', 'paid', 'shipped', 'delivered'];
+
+type OrderSeller = Pick<User, 'id' | 'name' | 'avatar_url' | 'whatsapp' | 'country_code' | 'theme' | 'currency' | 'language'>;
+
+export default function OrderConfirmationPage() {
+  const { slug, orderCode } = useParams();
+  const [order, setOrder] = useState<Order | null>(null);
+  const [corretor, setCorretor] = useState<OrderSeller | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [language, setLanguage] = useState<SupportedLanguage>('pt-BR');
+  const [currency, setCurrency] = useState<SupportedCurrency>('BRL');
+  const { t } = useTranslation(language);
+
+  useEffect(() => {
+    const loadOrder = async () => {
+      if (!slug || !orderCode) {
+        setLoading(false);
+        return;
+      }
+
+      try {
+        const { data: corretorData } = await supabase
+          .from('users')
+          .select('id, name, avatar_url, whatsapp, country_code, theme, currency, language')
+          .eq('slug', slug)
+          .maybeSingle();
+
+        setCorretor(corretorData);
+
+        if (corretorData?.theme) {
+          document.documentElement.classList.remove('light', 'dark');
+          document.documentElement.classList.add(corretorData.theme);
+        }
+
+        const orderData = await fetchPublicOrder(slug, orderCode);
+        setOrder(orderData);
+
+        // Render in the language and currency the order was placed in
+        setLanguage((orderData?.language || corretorData?.language || 'pt-BR') as SupportedLanguage);
+        setCurrency((orderData?.currency || corretorData?.currency || 'BRL') as SupportedCurrency);
+      } catch (err) {
+        console.error('Error loading order:', err);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadOrder();
+
+    return () => {
+      document.documentElement.classList.remove('light', 'dark');
+    };
+  }, [slug, orderCode]);
+
+  if (loading) {
+    return (
+      <div className="flex-1 flex items-center justify-center">
+        <Loader className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!order) {
+    return (
+      <div className="flex-1 flex flex-col items-center justify-center gap-4 px-4 text-center">
+        <Package className="h-12 w-12 text-muted-foreground" />
+        <div>
+          <p className="text-lg font-medium">{t('order.not_found')}</p>
+          <p className="text-sm text-muted-foreground">{t('order.not_found_description')}</p>
+        </div>
+        <Button asChild>
+          <Link to={slug ? `/${slug}` : '/'}>{t('order.back_to_store')}</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  const currentStepIndex = STATUS_STEPS.indexOf(order.status);
+  const contactMessage = `${t('order.code')}: #${order.reference_code}`;
+
+  return (
+    <div className="flex-1">
+      <div className="container mx-auto px-4 py-4 max-w-2xl">
+        <Button variant="ghost" asChild className="pl-0 hover:pl-1 transition-all">
+          <Link to={`/${slug}`} className="flex items-center">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            {t('order.back_to_store')}
+          </Link>
+        </Button>
+      </div>
+
+      <section className="container mx-auto px-4 pb-12 max-w-2xl space-y-6">
+        <Card>
+          <CardHeader className="space-y-2">
+            <div className="flex items-center justify-between gap-4">
+              <CardTitle className="flex items-center gap-2">
+                <Package className="h-5 w-5" />
+                {t('order.title')} #{order.reference_code}
+              </CardTitle>
+              <OrderStatusBadge status={order.status} label={t(`order.status.${order.status}`)} />
+            </div>
+            <p className="text-sm text-muted-foreground">
+              {corretor?.name && <span className="font-medium text-foreground">{corretor.name} · </span>}
+              {t('order.placed_at')}{' '}
+              {formatDateI18n(order.created_at, language, {
+                day: '2-digit',
+                month: 'long',
+                year: 'numeric',
+                hour: '2-digit',
+                minute: '2-digit',
+              })}
+            </p>
+          </CardHeader>
+
+          {order.status !== 'cancelled' && (
+            <CardContent>
+              <ol className="flex items-start justify-between gap-2">
+                {STATUS_STEPS.map((step, index) => {
+                  const reached = index <= currentStepIndex;
+                  return (
+                    <li key={step} className="flex flex-1 flex-col items-center gap-2 text-center">
+                      <div
+                        className={cn(
+                          'flex h-8 w-8 items-center justify-center rounded-full border text-xs font-medium',
+                          reached ? 'bg-primary border-primary text-primary-foreground' : 'text-muted-foreground'
+                        )}
+                      >
+                        {reached ? <Check className="h-4 w-4" /> : index + 1}
+                      </div>
+                      <span className={cn('text-xs', reached ? 'font-medium' : 'text-muted-foreground')}>
+                        {t(`order.status.${step}`)}
+                      </span>
+                    </li>
+                  );
+                })}
+              </ol>
+            </CardContent>
+          )}
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">{t('order.items')}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {(order.items || []).map(item => {
+              const unitPrice = item.applied_tier_price || item.discounted_price || item.unit_price;
+
+              return (
+                <div key={item.id} className="flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <h4 className="font-medium text-sm">{item.title}</h4>
+                    <div className="flex flex-wrap items-center gap-2 mt-1 text-xs text-muted-foreground">
+                      {item.selected_color && (
+                        <span className="flex items-center gap-1">
+                          <Palette className="h-3 w-3" />
+                          <span className="capitalize">{item.selected_color}</span>
+                        </span>
+                      )}
+                      {item.selected_size && (
+                        <span className="flex items-center gap-1">
+                          <Ruler className="h-3 w-3" />
+                          {item.selected_size}
+                        </span>
+                      )}
+                      {item.distribution_items.map((distItem, index) => (
+                        <span key={index}>
+                          {distItem.quantity}x {[distItem.color, distItem.size].filter(Boolean).join(' • ')}
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="text-right text-sm whitespace-nowrap">
+                    <div className="text-muted-foreground">
+                      {item.quantity} x {formatCurrencyI18n(unitPrice, currency, language)}
+                    </div>
+                    <div className="font-semibold">
+                      {formatCurrencyI18n(item.subtotal, currency, language)}
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+
+            <Separator />
+
+            {((!!order.discount && order.discount > 0) || order.delivery_method) && (
+              <div className="space-y-1 text-sm">
+                <div className="flex justify-between text-muted-foreground">
+                  <span>{t('order.subtotal')}</span>
+                  <span>{formatCurrencyI18n(order.subtotal, currency, language)}</span>
+                </div>
+                {!!order.discount && order.discount > 0 && (
+                  <div className="flex justify-between text-green-600">
+                    <span>{t('order.discount')}{order.coupon_code ? ` (${order.coupon_code})` : ''}</span>
+                    <span>-{formatCurrencyI18n(order.discount, currency, language)}</span>
+                  </div>
+                )}
+                {order.delivery_method && (
+                  <div className="flex justify-between text-muted-foreground">
+                    <span>{t('order.delivery')} ({order.delivery_method})</span>
+                    <span>
+                      {order.delivery_fee
+                        ? formatCurrencyI18n(order.delivery_fee, currency, language)
+                        : t('order.free')}
+                    </span>
+                  </div>
+                )}
+              </div>
+            )}
+
+            <div className="flex justify-between text-lg font-semibold">
+              <span>{t('order.total')}</span>
+              <span className="text-primary">{formatCurrencyI18n(order.total, currency, language)}</span>
+            </div>
+          </CardContent>
+        </Card>
+
+        {corretor?.whatsapp && (
+          <Button asChild className="w-full bg-green-600 hover:bg-green-700">
+            <a
+              href={generateWhatsAppUrl(corretor.whatsapp, contactMessage, corretor.country_code || '55')}
+              target="_blank"
+              rel="noopener noreferrer"
+            >
+              <MessageCircle className="h-4 w-4 mr-2" />
+              {t('order.contact_seller')}
+            </a>
+          </Button>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -12,7 +12,9 @@ import {
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { formatCurrency, getColorValue } from '@/lib/utils';
-import { loadTrackingSettings, injectMetaPixel, injectGoogleAnalytics, trackView } from '@/lib/tracking';
+import { loadTrackingSettings, loadStorefrontTracking, trackView, trackStorefrontEvent, captureAttribution } from '@/lib/tracking';
+import { trackAddToCart, trackViewItem } from '@/lib/ecommerceTracking';
+import { recordRecentlyViewed } from '@/lib/recentlyViewedUtils';
 import { useTheme } from '@/contexts/ThemeContext';
 import { toast } from 'sonner';
 import { useTranslation, getPageTitle, formatCurrencyI18n, type SupportedLanguage, type SupportedCurrency } from '@/lib/i18n';
@@ -22,9 +24,22 @@ import ItemDescription from '@/components/details/ItemDescription';
 import ContactSidebar from '@/components/details/ContactSidebar';
 import TieredPricingTable from '@/components/details/TieredPricingTable';
 import TieredPricingSkeleton from '@/components/details/TieredPricingSkeleton';
+import BundleContents from '@/components/details/BundleContents';
+import RecommendedProducts from '@/components/details/RecommendedProducts';
+import RecentlyViewedStrip from '@/components/corretor/RecentlyViewedStrip';
+import TrackingConsentBanner from '@/components/corretor/TrackingConsentBanner';
 import { useTieredPricing } from '@/hooks/useTieredPricing';
+import { useProductVariants } from '@/hooks/useProductVariants';
+import { useStorefrontPromotions } from '@/hooks/useStorefrontPromotions';
+import { useProductRecommendations } from '@/hooks/useProductRecommendations';
+import { useRecentlyViewedProducts } from '@/hooks/useRecentlyViewedProducts';
+import { getColorImageIds, getVariantPricing } from '@/lib/variantUtils';
+import { BUNDLE_ITEMS_EMBED } from '@/lib/bundleUtils';
 import { useCart } from '@/contexts/CartContext';
 import ProductVariantModal from '@/components/product/ProductVariantModal';
+import ProductVariantSelector from '@/components/product/ProductVariantSelector';
+import PromotionCountdown from '@/components/product/PromotionCountdown';
+import FavoriteButton from '@/components/product/FavoriteButton';
 
 export default function ProductDetailsPage() {
   const { slug, productId } = useParams();
@@ -34,6 +49,8 @@ export default function ProductDetailsPage() {
   const [error, setError] = useState<string | null>(null);
   const [shareSupported, setShareSupported] = useState(false);
   const [showVariantModal, setShowVariantModal] = useState(false);
+  const [selectedColor, setSelectedColor] = useState<string | undefined>();
+  const [selectedSize, setSelectedSize] = useState<string | undefined>();
   const { theme } = useTheme();
   const [language, setLanguage] = useState<SupportedLanguage>('pt-BR');
   const [currency, setCurrency] = useState<SupportedCurrency>('BRL');
@@ -46,9 +63,18 @@ export default function ProductDetailsPage() {
     product?.discounted_price,
     product?.has_tiered_pricing
   );
+  const { variants, findVariant } = useProductVariants(product?.id);
+  const { getPromotion, applyPromotions } = useStorefrontPromotions(product?.user_id);
+  const { related, alsoViewed } = useProductRecommendations(product?.id);
+  const { products: recentlyViewed } = useRecentlyViewedProducts(product?.user_id, product?.id);
 
   useEffect(() => {
     setShareSupported(!!navigator.share && window.isSecureContext);
+    // Ads also link straight to products
+    captureAttribution();
+    // Recommendations open another product on this same page
+    setSelectedColor(undefined);
+    setSelectedSize(undefined);
 
     const fetchProductDetails = async () => {
       try {
@@ -68,7 +94,8 @@ export default function ProductDetailsPage() {
               is_featured,
               media_type,
               display_order
-            )
+            ),
+            ${BUNDLE_ITEMS_EMBED}
           `)
           .eq('id', productId)
           .order('is_featured', { referencedTable: 'product_images', ascending: false })
@@ -92,6 +119,7 @@ export default function ProductDetailsPage() {
           allKeys: Object.keys(productData)
         });
         setProduct(productData);
+        recordRecentlyViewed(productData.id, productData.user_id);
 
         // Fetch corretor details
         const { data: corretorData, error: corretorError } = await supabase
@@ -125,14 +153,7 @@ export default function ProductDetailsPage() {
 
           // Load tracking settings
           const trackingSettings = await loadTrackingSettings(corretorData.id);
-          
-          if (trackingSettings?.meta_pixel_id) {
-            injectMetaPixel(trackingSettings.meta_pixel_id);
-          }
-          
-          if (trackingSettings?.ga_measurement_id) {
-            injectGoogleAnalytics(trackingSettings.ga_measurement_id);
-          }
+          loadStorefrontTracking(trackingSettings);
         }
 
         // Track product view - this is crucial for the stats
@@ -141,6 +162,8 @@ export default function ProductDetailsPage() {
         if (!viewTracked) {
           console.error('Failed to track product view');
         }
+        trackStorefrontEvent(productData.user_id, 'product_view', { productIds: [productData.id] });
+        trackViewItem(productData, corretorData.currency || 'BRL');
 
       } catch (err) {
         console.error('Error fetching product details:', err);
@@ -251,8 +274,21 @@ export default function ProductDetailsPage() {
     });
   }
 
+  // Show the selected color's photos when the seller linked any to its variants
+  const colorImageIds = getColorImageIds(variants, selectedColor);
+  const colorMedia = galleryMedia.filter(item => colorImageIds.includes(item.id));
+  const visibleMedia = colorMedia.length > 0 ? colorMedia : galleryMedia;
+
+  // Running promotion travels with the product into pricing, the selector and the cart
+  const activePromotion = getPromotion(product);
+  const promotedProduct = { ...product, active_promotion: activePromotion };
+
   // Determinar preços e desconto
-  const hasDiscount = product.discounted_price && product.discounted_price < product.price;
+  const { price: basePrice, discounted_price: baseDiscountedPrice } = getVariantPricing(
+    promotedProduct,
+    findVariant(selectedColor, selectedSize)
+  );
+  const hasDiscount = baseDiscountedPrice && basePrice && baseDiscountedPrice < basePrice;
 
   // Check if we should use tiered pricing minimum price
   const minimumTieredPrice = priceTiers.length > 0 && product.has_tiered_pricing
@@ -260,10 +296,10 @@ export default function ProductDetailsPage() {
     : null;
 
   const isTieredPricing = product.has_tiered_pricing && minimumTieredPrice && minimumTieredPrice > 0;
-  const displayPrice = isTieredPricing ? minimumTieredPrice : (hasDiscount ? product.discounted_price : product.price);
-  const originalPrice = hasDiscount ? product.price : null;
+  const displayPrice = isTieredPricing ? minimumTieredPrice : (hasDiscount ? baseDiscountedPrice : basePrice);
+  const originalPrice = hasDiscount ? basePrice : null;
   const discountPercentage = hasDiscount
-    ? Math.round(((product.price - product.discounted_price) / product.price) * 100)
+    ? Math.round(((basePrice - baseDiscountedPrice) / basePrice) * 100)
     : null;
 
   const isAvailable = product.status === 'disponivel';
@@ -283,10 +319,23 @@ export default function ProductDetailsPage() {
   const hasOptions = hasColors || hasSizes;
 
   const totalInCart = getItemQuantity(product.id);
+  const isSelectionComplete = (!hasColors || !!selectedColor) && (!hasSizes || !!selectedSize);
+
+  const handleSelectionChange = (color?: string, size?: string) => {
+    setSelectedColor(color);
+    setSelectedSize(size);
+  };
 
   const handleAddToCart = () => {
     if (!isAvailable || !hasPrice) return;
 
+    // Options already picked on the page go straight to the cart
+    if (hasOptions && isSelectionComplete && !product.has_tiered_pricing) {
+      addToCart({ ...promotedProduct, product_variants: variants }, selectedColor, selectedSize);
+      trackAddToCart({ ...promotedProduct, product_variants: variants }, currency, { color: selectedColor, size: selectedSize });
+      return;
+    }
+
     // If product has options (colors/sizes) OR tiered pricing, show variant modal
     if (hasOptions || product.has_tiered_pricing) {
       setShowVariantModal(true);
@@ -294,7 +343,8 @@ export default function ProductDetailsPage() {
     }
 
     // For simple products without options or tiered pricing, add directly to cart
-    addToCart(product);
+    addToCart(promotedProduct);
+    trackAddToCart(promotedProduct, currency);
   };
 
   return (
@@ -326,6 +376,11 @@ export default function ProductDetailsPage() {
                         {product.category[0]}
                       </Badge>
                     )}
+                    {product.product_type === 'bundle' && (
+                      <Badge variant="secondary" className="bg-background/80 backdrop-blur-sm border-primary/20">
+                        {t('product.bundle')}
+                      </Badge>
+                    )}
                     {hasDiscount && discountPercentage && (
                       <Badge className="bg-green-600 hover:bg-green-700 text-white border-transparent">
                         -{discountPercentage}% OFF
@@ -336,13 +391,16 @@ export default function ProductDetailsPage() {
                   <h1 className="text-2xl md:text-3xl font-bold">{product.title}</h1>
                 </div>
 
-                <Button 
-                  variant="ghost" 
-                  size="icon"
-                  onClick={handleShareClick}
-                >
-                  <Share2 className="h-5 w-5" />
-                </Button>
+                <div className="flex items-center gap-1">
+                  <FavoriteButton product={product} language={language} />
+                  <Button 
+                    variant="ghost" 
+                    size="icon"
+                    onClick={handleShareClick}
+                  >
+                    <Share2 className="h-5 w-5" />
+                  </Button>
+                </div>
               </div>
               
               {/* Price information */}
@@ -401,6 +459,14 @@ export default function ProductDetailsPage() {
                   </div>
                 )}
 
+                {activePromotion && hasDiscount && !isTieredPricing && (
+                  <PromotionCountdown
+                    promotion={activePromotion}
+                    language={language}
+                    className="mt-4"
+                  />
+                )}
+
                 {/* Featured Offer */}
                 {product.featured_offer_price && product.featured_offer_installment && (
                   <div className="mt-4 p-4 bg-primary/10 rounded-lg">
@@ -426,10 +492,23 @@ export default function ProductDetailsPage() {
 
               {/* Photo Gallery */}
               <ImageGallery
-                media={galleryMedia}
+                media={visibleMedia}
                 title={product.title}
               />
 
+              {/* Bundle contents */}
+              {product.product_type === 'bundle' && product.bundle_items?.length > 0 && (
+                <div className="mt-8">
+                  <BundleContents
+                    items={product.bundle_items}
+                    bundlePrice={displayPrice || undefined}
+                    corretorSlug={slug}
+                    currency={currency}
+                    language={language}
+                  />
+                </div>
+              )}
+
               {/* Tiered Pricing Table - Moved right after gallery */}
               {product.has_tiered_pricing && (
                 <div className="mt-8">
@@ -447,8 +526,20 @@ export default function ProductDetailsPage() {
                 </div>
               )}
 
+              {/* Variant selection drives the gallery and the price */}
+              {hasOptions && isAvailable && hasPrice && (
+                <ProductVariantSelector
+                  key={product.id}
+                  product={promotedProduct}
+                  variants={variants}
+                  onSelectionChange={handleSelectionChange}
+                  currency={currency}
+                  language={language}
+                />
+              )}
+
               {/* Product Variants Display */}
-              {hasOptions && (
+              {hasOptions && !(isAvailable && hasPrice) && (
                 <div className="mt-8 space-y-6">
                   {/* Available Colors */}
                   {hasColors && (
@@ -614,14 +705,45 @@ export default function ProductDetailsPage() {
         </div>
       </section>
 
+      {/* Recommendations keep the buyer browsing */}
+      {(related.length > 0 || alsoViewed.length > 0 || recentlyViewed.length > 0) && (
+        <div className="container mx-auto px-4 pb-12 space-y-10">
+          <RecommendedProducts
+            title={t('product.related')}
+            listName="related_products"
+            products={applyPromotions(related)}
+            corretorSlug={slug || corretor.slug || ''}
+            currency={currency}
+            language={language}
+          />
+          <RecommendedProducts
+            title={t('product.also_viewed')}
+            listName="also_viewed"
+            products={applyPromotions(alsoViewed)}
+            corretorSlug={slug || corretor.slug || ''}
+            currency={currency}
+            language={language}
+          />
+          <RecentlyViewedStrip
+            products={applyPromotions(recentlyViewed)}
+            corretorSlug={slug || corretor.slug || ''}
+            currency={currency}
+            language={language}
+            onNavigate={() => window.scrollTo({ top: 0 })}
+          />
+        </div>
+      )}
+
       {/* Variant Selection Modal */}
       <ProductVariantModal
         open={showVariantModal}
         onOpenChange={setShowVariantModal}
-        product={product}
+        product={promotedProduct}
         currency={currency}
         language={language}
       />
+
+      <TrackingConsentBanner language={language} />
     </div>
   );
 }
@@ -0,0 +1,98 @@
+import { useState } from 'react';
+import { Loader2, Plus, Ticket } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useAuth } from '@/contexts/AuthContext';
+import { CouponsTable } from '@/components/dashboard/CouponsTable';
+import { CouponFormDialog } from '@/components/dashboard/CouponFormDialog';
+import { useSellerCoupons } from '@/hooks/useSellerCoupons';
+import type { SupportedCurrency } from '@/lib/i18n';
+import type { Coupon } from '@/types';
+
+export default function CouponsPage() {
+  const { user } = useAuth();
+  const { coupons, loading, save, remove, toggleActive } = useSellerCoupons(user?.id);
+  const [formOpen, setFormOpen] = useState(false);
+  const [editingCoupon, setEditingCoupon] = useState<Coupon | null>(null);
+  const [couponToDelete, setCouponToDelete] = useState<Coupon | null>(null);
+
+  const currency = (user?.currency || 'BRL') as SupportedCurrency;
+
+  const openForm = (coupon: Coupon | null) => {
+    setEditingCoupon(coupon);
+    setFormOpen(true);
+  };
+
+  return (
+    <div className="w-full px-4 sm:px-6 lg:px-8 xl:px-12 2xl:px-16 py-6 space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">Cupons</h1>
+          <p className="text-muted-foreground">Crie códigos promocionais para sua vitrine</p>
+        </div>
+        <Button onClick={() => openForm(null)}>
+          <Plus className="h-4 w-4 mr-2" />
+          Novo Cupom
+        </Button>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-6 w-6 animate-spin text-primary" />
+        </div>
+      ) : coupons.length === 0 ? (
+        <div className="text-center py-12">
+          <Ticket className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+          <p className="text-muted-foreground">Nenhum cupom cadastrado</p>
+        </div>
+      ) : (
+        <CouponsTable
+          coupons={coupons}
+          currency={currency}
+          onEdit={openForm}
+          onDelete={setCouponToDelete}
+          onToggleActive={toggleActive}
+        />
+      )}
+
+      <CouponFormDialog
+        open={formOpen}
+        onOpenChange={setFormOpen}
+        coupon={editingCoupon}
+        userId={user?.id}
+        onSave={save}
+      />
+
+      <AlertDialog open={couponToDelete !== null} onOpenChange={(open) => !open && setCouponToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Excluir cupom?</AlertDialogTitle>
+            <AlertDialogDescription>
+              O cupom <strong>{couponToDelete?.code}</strong> deixará de funcionar imediatamente.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (couponToDelete) remove(couponToDelete.id);
+                setCouponToDelete(null);
+              }}
+            >
+              Excluir
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
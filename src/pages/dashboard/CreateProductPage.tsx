@@ -18,12 +18,18 @@ import { GenderSelector } from '@/components/ui/gender-selector';
 import { SizesColorsSelector } from '@/components/ui/sizes-colors-selector';
 import { TieredPricingManager } from '@/components/ui/tiered-pricing-manager';
 import { PricingModeToggle } from '@/components/ui/pricing-mode-toggle';
+import { VariantStockManager } from '@/components/ui/variant-stock-manager';
+import { VariantDetailsManager } from '@/components/ui/variant-details-manager';
+import { BundleItemsManager } from '@/components/ui/bundle-items-manager';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Switch } from '@/components/ui/switch';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
 import { ChevronDown, ArrowLeft } from 'lucide-react';
 import { toast } from 'sonner';
-import type { PriceTier } from '@/types';
+import type { PriceTier, ProductBundleItem, ProductVariant, ProductVariantStock } from '@/types';
+import { buildStockMatrix } from '@/lib/stockUtils';
+import { buildVariantMatrix, saveProductVariants } from '@/lib/variantUtils';
+import { saveBundleItems } from '@/lib/bundleUtils';
 import { ProductImageManager } from '@/components/product/ProductImageManager';
 import { uploadProductImages, saveProductImages } from '@/lib/productImageService';
 import { PromotionalPhraseSelector } from '@/components/ui/promotional-phrase-selector';
@@ -70,6 +76,11 @@ export default function CreateProductPage() {
   const [priceTiers, setPriceTiers] = useState<PriceTier[]>([]);
   const [isPriceTiersValid, setIsPriceTiersValid] = useState(true);
   const [isSizesColorsOpen, setIsSizesColorsOpen] = useState(false);
+  const [trackStock, setTrackStock] = useState(false);
+  const [variantStock, setVariantStock] = useState<ProductVariantStock[]>([]);
+  const [variants, setVariants] = useState<ProductVariant[]>([]);
+  const [isBundle, setIsBundle] = useState(false);
+  const [bundleItems, setBundleItems] = useState<ProductBundleItem[]>([]);
   const [images, setImages] = useState<MediaItem[]>([]);
   const [uploadingImages, setUploadingImages] = useState(false);
 
@@ -114,6 +125,11 @@ export default function CreateProductPage() {
       return;
     }
 
+    if (isBundle && bundleItems.length === 0) {
+      toast.error('Adicione pelo menos um produto ao kit');
+      return;
+    }
+
     if (pricingMode === 'tiered' && !isPriceTiersValid) {
       toast.error('Por favor, corrija os erros nos níveis de preço antes de salvar');
       return;
@@ -143,6 +159,8 @@ export default function CreateProductPage() {
         colors: data.colors,
         sizes: data.sizes,
         has_tiered_pricing: pricingMode === 'tiered',
+        track_stock: trackStock,
+        product_type: isBundle ? 'bundle' : 'simple',
       };
 
       const { data: product, error: productError } = await supabase
@@ -208,6 +226,16 @@ export default function CreateProductPage() {
         if (tiersError) throw tiersError;
       }
 
+      await saveProductVariants(
+        product.id,
+        buildVariantMatrix(data.colors, data.sizes, variants),
+        trackStock ? buildStockMatrix(data.colors, data.sizes, variantStock) : []
+      );
+
+      if (isBundle) {
+        await saveBundleItems(product.id, bundleItems);
+      }
+
       toast.success('Produto criado com sucesso!');
       navigate('/dashboard/listings');
     } catch (error) {
@@ -333,6 +361,73 @@ export default function CreateProductPage() {
             </Card>
           </Collapsible>
 
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between gap-4">
+                <div className="space-y-1">
+                  <CardTitle>Estoque</CardTitle>
+                  <p className="text-sm text-muted-foreground">
+                    Controle a quantidade disponível de cada cor e tamanho
+                  </p>
+                </div>
+                <Switch checked={trackStock} onCheckedChange={setTrackStock} />
+              </div>
+            </CardHeader>
+            {trackStock && (
+              <CardContent>
+                <VariantStockManager
+                  colors={form.watch('colors')}
+                  sizes={form.watch('sizes')}
+                  stock={variantStock}
+                  onChange={setVariantStock}
+                />
+              </CardContent>
+            )}
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Variações</CardTitle>
+              <p className="text-sm text-muted-foreground">
+                SKU, código de barras, preço e fotos de cada cor e tamanho
+              </p>
+            </CardHeader>
+            <CardContent>
+              <VariantDetailsManager
+                colors={form.watch('colors')}
+                sizes={form.watch('sizes')}
+                variants={variants}
+                images={[]}
+                pendingImageCount={images.length}
+                onChange={setVariants}
+              />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between gap-4">
+                <div className="space-y-1">
+                  <CardTitle>Kit / Combo</CardTitle>
+                  <p className="text-sm text-muted-foreground">
+                    Venda produtos já cadastrados juntos, como um único item com preço próprio
+                  </p>
+                </div>
+                <Switch checked={isBundle} onCheckedChange={setIsBundle} />
+              </div>
+            </CardHeader>
+            {isBundle && (
+              <CardContent>
+                <BundleItemsManager
+                  userId={user?.id}
+                  items={bundleItems}
+                  onChange={setBundleItems}
+                  bundlePrice={form.watch('featured_offer_price') || form.watch('price')}
+                />
+              </CardContent>
+            )}
+          </Card>
+
           <Card>
             <CardHeader>
               <CardTitle>Preços</CardTitle>
@@ -5,6 +5,7 @@ import { useDashboardStats } from '@/hooks/useDashboardStats';
 import { Button } from '@/components/ui/button';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { ViewsAndLeadsChart } from '@/components/dashboard/ViewsAndLeadsChart';
+import { MostFavoritedProducts } from '@/components/dashboard/MostFavoritedProducts';
 
 export default function DashboardPage() {
   const { user } = useAuth();
@@ -116,6 +117,10 @@ export default function DashboardPage() {
       <div className="grid gap-4">
         <ViewsAndLeadsChart days={7} />
       </div>
+
+      <div className="grid gap-4 lg:grid-cols-2">
+        <MostFavoritedProducts userId={user?.id} />
+      </div>
     </div>
   );
 }
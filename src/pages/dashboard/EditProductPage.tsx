@@ -18,12 +18,20 @@ import { GenderSelector } from '@/components/ui/gender-selector';
 import { SizesColorsSelector } from '@/components/ui/sizes-colors-selector';
 import { TieredPricingManager } from '@/components/ui/tiered-pricing-manager';
 import { PricingModeToggle } from '@/components/ui/pricing-mode-toggle';
+import { VariantStockManager } from '@/components/ui/variant-stock-manager';
+import { VariantDetailsManager } from '@/components/ui/variant-details-manager';
+import { BundleItemsManager } from '@/components/ui/bundle-items-manager';
+import { ProductSelector } from '@/components/ui/product-selector';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Switch } from '@/components/ui/switch';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
 import { ChevronDown, ArrowLeft } from 'lucide-react';
 import { toast } from 'sonner';
-import type { PriceTier } from '@/types';
+import type { PriceTier, ProductBundleItem, ProductVariant, ProductVariantStock } from '@/types';
+import { buildStockMatrix, fetchProductStock } from '@/lib/stockUtils';
+import { buildVariantMatrix, fetchProductVariants, saveProductVariants } from '@/lib/variantUtils';
+import { fetchBundleItems, saveBundleItems } from '@/lib/bundleUtils';
+import { fetchCrossSellIds, saveCrossSells } from '@/lib/recommendationUtils';
 import { ProductImageManager } from '@/components/product/ProductImageManager';
 import {
   uploadProductImages,
@@ -86,6 +94,12 @@ export default function EditProductPage() {
   const [priceTiers, setPriceTiers] = useState<PriceTier[]>([]);
   const [isPriceTiersValid, setIsPriceTiersValid] = useState(true);
   const [isSizesColorsOpen, setIsSizesColorsOpen] = useState(false);
+  const [trackStock, setTrackStock] = useState(false);
+  const [variantStock, setVariantStock] = useState<ProductVariantStock[]>([]);
+  const [variants, setVariants] = useState<ProductVariant[]>([]);
+  const [isBundle, setIsBundle] = useState(false);
+  const [bundleItems, setBundleItems] = useState<ProductBundleItem[]>([]);
+  const [crossSellIds, setCrossSellIds] = useState<string[]>([]);
   const [images, setImages] = useState<MediaItem[]>([]);
   const [uploadingImages, setUploadingImages] = useState(false);
   const [initialImages, setInitialImages] = useState<MediaItem[]>([]);
@@ -155,6 +169,20 @@ export default function EditProductPage() {
         });
 
         setPricingMode(product.has_tiered_pricing ? 'tiered' : 'simple');
+        setTrackStock(product.track_stock || false);
+
+        if (product.track_stock) {
+          setVariantStock(await fetchProductStock(id));
+        }
+
+        setVariants(await fetchProductVariants(id));
+
+        if (product.product_type === 'bundle') {
+          setIsBundle(true);
+          setBundleItems(await fetchBundleItems(id));
+        }
+
+        setCrossSellIds(await fetchCrossSellIds(id));
 
         if (product.has_tiered_pricing) {
           const { data: tiers, error: tiersError } = await supabase
@@ -221,6 +249,11 @@ export default function EditProductPage() {
       return;
     }
 
+    if (isBundle && bundleItems.length === 0) {
+      toast.error('Adicione pelo menos um produto ao kit');
+      return;
+    }
+
     if (pricingMode === 'tiered' && !isPriceTiersValid) {
       toast.error('Por favor, corrija os erros nos níveis de preço antes de salvar');
       return;
@@ -249,6 +282,8 @@ export default function EditProductPage() {
         colors: data.colors,
         sizes: data.sizes,
         has_tiered_pricing: pricingMode === 'tiered',
+        track_stock: trackStock,
+        product_type: isBundle ? 'bundle' : 'simple',
       };
 
       const { error: productError } = await supabase
@@ -345,6 +380,19 @@ export default function EditProductPage() {
         if (deleteAllTiersError) throw deleteAllTiersError;
       }
 
+      // Photos removed in this edit are gone, so drop their variant links
+      await saveProductVariants(
+        id,
+        buildVariantMatrix(data.colors, data.sizes, variants).map(variant => ({
+          ...variant,
+          image_ids: variant.image_ids.filter(imageId => reorderedImages.some(img => img.id === imageId)),
+        })),
+        trackStock ? buildStockMatrix(data.colors, data.sizes, variantStock) : []
+      );
+
+      await saveBundleItems(id, isBundle ? bundleItems : []);
+      await saveCrossSells(id, crossSellIds);
+
       toast.success('Produto atualizado com sucesso!');
       navigate('/dashboard/listings');
     } catch (error) {
@@ -484,6 +532,91 @@ export default function EditProductPage() {
             </Card>
           </Collapsible>
 
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between gap-4">
+                <div className="space-y-1">
+                  <CardTitle>Estoque</CardTitle>
+                  <p className="text-sm text-muted-foreground">
+                    Controle a quantidade disponível de cada cor e tamanho
+                  </p>
+                </div>
+                <Switch checked={trackStock} onCheckedChange={setTrackStock} />
+              </div>
+            </CardHeader>
+            {trackStock && (
+              <CardContent>
+                <VariantStockManager
+                  colors={form.watch('colors')}
+                  sizes={form.watch('sizes')}
+                  stock={variantStock}
+                  onChange={setVariantStock}
+                />
+              </CardContent>
+            )}
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Variações</CardTitle>
+              <p className="text-sm text-muted-foreground">
+                SKU, código de barras, preço e fotos de cada cor e tamanho
+              </p>
+            </CardHeader>
+            <CardContent>
+              <VariantDetailsManager
+                colors={form.watch('colors')}
+                sizes={form.watch('sizes')}
+                variants={variants}
+                images={images.filter((img) => !img.file)}
+                pendingImageCount={images.filter((img) => img.file).length}
+                onChange={setVariants}
+              />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between gap-4">
+                <div className="space-y-1">
+                  <CardTitle>Kit / Combo</CardTitle>
+                  <p className="text-sm text-muted-foreground">
+                    Venda produtos já cadastrados juntos, como um único item com preço próprio
+                  </p>
+                </div>
+                <Switch checked={isBundle} onCheckedChange={setIsBundle} />
+              </div>
+            </CardHeader>
+            {isBundle && (
+              <CardContent>
+                <BundleItemsManager
+                  userId={user?.id}
+                  bundleId={id}
+                  items={bundleItems}
+                  onChange={setBundleItems}
+                  bundlePrice={form.watch('featured_offer_price') || form.watch('price')}
+                />
+              </CardContent>
+            )}
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Produtos Relacionados</CardTitle>
+              <p className="text-sm text-muted-foreground">
+                Aparecem primeiro em "Você também pode gostar" na página deste produto
+              </p>
+            </CardHeader>
+            <CardContent>
+              <ProductSelector
+                value={crossSellIds}
+                onChange={setCrossSellIds}
+                userId={user?.id}
+                excludeId={id}
+              />
+            </CardContent>
+          </Card>
+
           <Card>
             <CardHeader>
               <CardTitle>Preços</CardTitle>
@@ -0,0 +1,53 @@
+import { useState } from 'react';
+import { Filter, Loader2 } from 'lucide-react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { ConversionFunnel } from '@/components/dashboard/ConversionFunnel';
+import { ProductFunnelTable } from '@/components/dashboard/ProductFunnelTable';
+import { DateRangeFilter } from '@/components/dashboard/DateRangeFilter';
+import { useFunnelReport } from '@/hooks/useFunnelReport';
+import { getLastDaysRange, type ReportDateRange } from '@/lib/funnelUtils';
+
+export default function FunnelPage() {
+  const [range, setRange] = useState<ReportDateRange>(() => getLastDaysRange(30));
+  const { steps, products, loading, error } = useFunnelReport(range);
+
+  return (
+    <div className="w-full px-4 sm:px-6 lg:px-8 xl:px-12 2xl:px-16 py-6 space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">Funil de Vendas</h1>
+          <p className="text-muted-foreground">Veja em que etapa os clientes desistem da compra</p>
+        </div>
+        <DateRangeFilter value={range} onChange={setRange} />
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-6 w-6 animate-spin text-primary" />
+        </div>
+      ) : (
+        <>
+          <ConversionFunnel steps={steps} />
+
+          <div className="space-y-3">
+            <h2 className="text-xl font-semibold">Por produto</h2>
+            {products.length === 0 ? (
+              <div className="text-center py-12">
+                <Filter className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                <p className="text-muted-foreground">Nenhuma atividade de produtos no período</p>
+              </div>
+            ) : (
+              <ProductFunnelTable products={products} />
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,319 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, Download, FileSpreadsheet, FileArchive, Loader2, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { ProductImportMapping } from '@/components/dashboard/ProductImportMapping';
+import { ProductImportPreview } from '@/components/dashboard/ProductImportPreview';
+import { useAuth } from '@/contexts/AuthContext';
+import { downloadCsv, toCsv } from '@/lib/csvUtils';
+import { readSpreadsheet, SPREADSHEET_ACCEPT, type SpreadsheetData } from '@/lib/spreadsheetUtils';
+import { syncUserCategoriesWithStorefrontSettings } from '@/lib/utils';
+import {
+  autoMapImportColumns,
+  buildProductImportRows,
+  importProduct,
+  loadProductImageArchive,
+  PRODUCT_IMPORT_FIELDS,
+  type ProductImageArchive,
+  type ProductImportMapping as Mapping,
+  type ProductImportRow,
+} from '@/lib/productImportUtils';
+
+type ImportStep = 'upload' | 'mapping' | 'preview' | 'importing' | 'done';
+
+interface ImportFailure {
+  rowNumber: number;
+  title: string;
+  error: string;
+}
+
+const TEMPLATE_ROWS = [
+  ['Camiseta Básica', 'Camiseta 100% algodão', '59,90', '49,90', 'Minha Marca', 'Camisetas, Básicos', 'Preto, Branco', 'P, M, G', 'Unissex', 'Novo', 'https://exemplo.com/camiseta.jpg', ''],
+  ['Meia Esportiva', 'Kit com 3 pares', '', '', 'Minha Marca', 'Meias', 'Branco', 'Único', 'Unissex', 'Novo', 'meia-1.jpg;meia-2.jpg', '1:29,90|10:24,90|50:19,90'],
+];
+
+export default function ImportProductsPage() {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const [step, setStep] = useState<ImportStep>('upload');
+  const [spreadsheetFile, setSpreadsheetFile] = useState<File | null>(null);
+  const [archiveFile, setArchiveFile] = useState<File | null>(null);
+  const [reading, setReading] = useState(false);
+  const [data, setData] = useState<SpreadsheetData | null>(null);
+  const [imageArchive, setImageArchive] = useState<ProductImageArchive | null>(null);
+  const [mapping, setMapping] = useState<Mapping>({});
+  const [rows, setRows] = useState<ProductImportRow[]>([]);
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [importedCount, setImportedCount] = useState(0);
+  const [failures, setFailures] = useState<ImportFailure[]>([]);
+
+  const validRows = rows.filter(row => row.errors.length === 0);
+  const invalidCount = rows.length - validRows.length;
+  const missingRequired = PRODUCT_IMPORT_FIELDS.filter(field => field.required && mapping[field.key] === undefined);
+
+  const handleDownloadTemplate = () => {
+    const headers = ['nome', 'descricao', 'preco', 'preco promocional', 'marca', 'categorias', 'cores', 'tamanhos', 'genero', 'condicao', 'imagens', 'precos por quantidade'];
+    downloadCsv('modelo-importacao-produtos.csv', toCsv(TEMPLATE_ROWS, headers.map((header, index) => ({
+      header,
+      value: (row: string[]) => row[index],
+    }))));
+  };
+
+  const handleReadFiles = async () => {
+    if (!spreadsheetFile) return;
+
+    setReading(true);
+    try {
+      const spreadsheet = await readSpreadsheet(spreadsheetFile);
+      if (spreadsheet.rows.length === 0) {
+        toast.error('A planilha não possui produtos');
+        return;
+      }
+
+      setImageArchive(archiveFile ? await loadProductImageArchive(archiveFile) : null);
+      setData(spreadsheet);
+      setMapping(autoMapImportColumns(spreadsheet.headers));
+      setStep('mapping');
+    } catch (error) {
+      console.error('Error reading import files:', error);
+      toast.error('Não foi possível ler os arquivos. Verifique se a planilha é CSV ou XLSX e as imagens estão em .zip');
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const handleValidate = () => {
+    if (!data) return;
+    setRows(buildProductImportRows(data, mapping, imageArchive));
+    setStep('preview');
+  };
+
+  const handleImport = async () => {
+    if (!user?.id || validRows.length === 0) return;
+
+    setStep('importing');
+    setProgress({ done: 0, total: validRows.length });
+    const importFailures: ImportFailure[] = [];
+    let imported = 0;
+
+    for (const row of validRows) {
+      try {
+        await importProduct(row.draft, user.id, imageArchive);
+        imported++;
+      } catch (error) {
+        console.error(`Error importing row ${row.rowNumber}:`, error);
+        importFailures.push({
+          rowNumber: row.rowNumber,
+          title: row.draft.title,
+          error: error instanceof Error ? error.message : 'Erro ao criar produto',
+        });
+      }
+      setProgress(prev => ({ ...prev, done: prev.done + 1 }));
+    }
+
+    if (imported > 0) {
+      await syncUserCategoriesWithStorefrontSettings(user.id);
+    }
+
+    setImportedCount(imported);
+    setFailures(importFailures);
+    setStep('done');
+
+    if (importFailures.length === 0) {
+      toast.success(`${imported} produto${imported !== 1 ? 's importados' : ' importado'} com sucesso!`);
+    } else {
+      toast.error(`${importFailures.length} produto${importFailures.length !== 1 ? 's' : ''} não pôde ser importado`);
+    }
+  };
+
+  const handleRestart = () => {
+    setStep('upload');
+    setSpreadsheetFile(null);
+    setArchiveFile(null);
+    setData(null);
+    setImageArchive(null);
+    setMapping({});
+    setRows([]);
+    setFailures([]);
+    setImportedCount(0);
+  };
+
+  return (
+    <div className="container mx-auto p-6 max-w-5xl space-y-6">
+      <div className="flex items-center gap-4">
+        <Button variant="ghost" size="icon" onClick={() => navigate('/dashboard/listings')}>
+          <ArrowLeft className="h-5 w-5" />
+        </Button>
+        <div>
+          <h1 className="text-3xl font-bold">Importar Produtos</h1>
+          <p className="text-muted-foreground">Cadastre vários produtos de uma vez a partir de uma planilha CSV ou XLSX</p>
+        </div>
+      </div>
+
+      {step === 'upload' && (
+        <Card>
+          <CardHeader>
+            <CardTitle>1. Arquivos</CardTitle>
+            <CardDescription>
+              Cada linha da planilha vira um produto. As imagens podem ser links ou nomes de arquivos de um .zip enviado junto.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="import-spreadsheet" className="flex items-center gap-2">
+                <FileSpreadsheet className="h-4 w-4" />
+                Planilha (CSV ou XLSX) *
+              </Label>
+              <Input
+                id="import-spreadsheet"
+                type="file"
+                accept={SPREADSHEET_ACCEPT}
+                onChange={(e) => setSpreadsheetFile(e.target.files?.[0] || null)}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="import-images" className="flex items-center gap-2">
+                <FileArchive className="h-4 w-4" />
+                Imagens em .zip (opcional)
+              </Label>
+              <Input
+                id="import-images"
+                type="file"
+                accept=".zip,application/zip"
+                onChange={(e) => setArchiveFile(e.target.files?.[0] || null)}
+              />
+            </div>
+
+            <div className="flex flex-col sm:flex-row sm:justify-between gap-2 pt-2">
+              <Button variant="outline" onClick={handleDownloadTemplate}>
+                <Download className="mr-2 h-4 w-4" />
+                Baixar planilha modelo
+              </Button>
+              <Button onClick={handleReadFiles} disabled={!spreadsheetFile || reading}>
+                {reading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Continuar
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {step === 'mapping' && data && (
+        <Card>
+          <CardHeader>
+            <CardTitle>2. Colunas</CardTitle>
+            <CardDescription>
+              Indique qual coluna da planilha corresponde a cada informação do produto.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <ProductImportMapping
+              headers={data.headers}
+              sampleRow={data.rows[0]}
+              mapping={mapping}
+              onMappingChange={setMapping}
+            />
+
+            <div className="flex justify-between gap-2">
+              <Button variant="outline" onClick={() => setStep('upload')}>
+                Voltar
+              </Button>
+              <Button onClick={handleValidate} disabled={missingRequired.length > 0}>
+                Validar {data.rows.length} linha{data.rows.length !== 1 ? 's' : ''}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {step === 'preview' && (
+        <Card>
+          <CardHeader>
+            <CardTitle>3. Revisão</CardTitle>
+            <CardDescription>
+              {validRows.length} produto{validRows.length !== 1 ? 's' : ''} pronto{validRows.length !== 1 ? 's' : ''} para importar
+              {invalidCount > 0 && ` · ${invalidCount} linha${invalidCount !== 1 ? 's' : ''} com erro`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {invalidCount > 0 && (
+              <Alert variant="destructive">
+                <AlertDescription>
+                  Linhas com erro não serão importadas. Corrija a planilha e envie novamente, ou importe apenas as linhas válidas.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <ProductImportPreview rows={rows} />
+
+            <div className="flex justify-between gap-2">
+              <Button variant="outline" onClick={() => setStep('mapping')}>
+                Voltar
+              </Button>
+              <Button onClick={handleImport} disabled={validRows.length === 0}>
+                <Upload className="mr-2 h-4 w-4" />
+                Importar {validRows.length} produto{validRows.length !== 1 ? 's' : ''}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {step === 'importing' && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Importando produtos...</CardTitle>
+            <CardDescription>
+              Baixando imagens e criando produtos. Mantenha esta página aberta.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <Progress value={progress.total > 0 ? (progress.done / progress.total) * 100 : 0} />
+            <p className="text-sm text-muted-foreground text-center">
+              {progress.done} de {progress.total}
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      {step === 'done' && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Importação concluída</CardTitle>
+            <CardDescription>
+              {importedCount} produto{importedCount !== 1 ? 's importados' : ' importado'}
+              {failures.length > 0 && ` · ${failures.length} com falha`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {failures.length > 0 && (
+              <ul className="space-y-1 text-sm">
+                {failures.map(failure => (
+                  <li key={failure.rowNumber} className="text-destructive">
+                    Linha {failure.rowNumber} ({failure.title}): {failure.error}
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <div className="flex justify-between gap-2">
+              <Button variant="outline" onClick={handleRestart}>
+                Importar outra planilha
+              </Button>
+              <Button onClick={() => navigate('/dashboard/listings')}>
+                Ver produtos
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
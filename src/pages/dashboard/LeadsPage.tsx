@@ -0,0 +1,149 @@
+import { useState, useEffect } from 'react';
+import { Download, Inbox, Loader2, MessageSquareText } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/contexts/AuthContext';
+import { LeadsFilters } from '@/components/dashboard/LeadsFilters';
+import { LeadsTable } from '@/components/dashboard/LeadsTable';
+import { LeadDetailDialog } from '@/components/dashboard/LeadDetailDialog';
+import { LeadFollowUpTemplateDialog } from '@/components/dashboard/LeadFollowUpTemplateDialog';
+import { useSellerLeads } from '@/hooks/useSellerLeads';
+import { generateWhatsAppUrl } from '@/lib/utils';
+import { downloadCsv } from '@/lib/csvUtils';
+import {
+  buildLeadsCsv,
+  DEFAULT_LEAD_FOLLOW_UP_TEMPLATE,
+  fetchLeadFollowUpTemplate,
+  fillLeadFollowUpTemplate,
+  saveLeadFollowUpTemplate,
+} from '@/lib/leadUtils';
+import type { Lead } from '@/types';
+
+export default function LeadsPage() {
+  const { user } = useAuth();
+  const {
+    leads,
+    total,
+    hasMore,
+    products,
+    loading,
+    loadingMore,
+    loadMore,
+    filters,
+    setFilters,
+    changeStatus,
+    saveNotes,
+  } = useSellerLeads(user?.id);
+  const [selectedLeadId, setSelectedLeadId] = useState<string | null>(null);
+  const [template, setTemplate] = useState(DEFAULT_LEAD_FOLLOW_UP_TEMPLATE);
+  const [templateDialogOpen, setTemplateDialogOpen] = useState(false);
+
+  // Read from the list so status and notes changes show up in the open dialog
+  const selectedLead = leads.find(lead => lead.id === selectedLeadId) || null;
+
+  useEffect(() => {
+    if (user?.id) {
+      fetchLeadFollowUpTemplate(user.id).then(setTemplate);
+    }
+  }, [user?.id]);
+
+  const handleFollowUp = (lead: Lead) => {
+    if (!lead.phone) return;
+
+    const message = fillLeadFollowUpTemplate(template, lead, user?.name || '');
+    window.open(generateWhatsAppUrl(lead.phone, message, lead.country_code || '55'), '_blank', 'noopener,noreferrer');
+
+    if (lead.status === 'new') {
+      changeStatus(lead.id, 'contacted', true);
+    }
+  };
+
+  const handleSaveTemplate = async (value: string) => {
+    if (!user?.id) return false;
+
+    const success = await saveLeadFollowUpTemplate(user.id, value);
+    if (!success) {
+      toast.error('Erro ao salvar mensagem de follow-up');
+      return false;
+    }
+
+    setTemplate(value);
+    toast.success('Mensagem de follow-up salva');
+    return true;
+  };
+
+  const handleExport = () => {
+    const date = new Date().toISOString().split('T')[0];
+    downloadCsv(`leads-${date}.csv`, buildLeadsCsv(leads));
+  };
+
+  return (
+    <div className="w-full px-4 sm:px-6 lg:px-8 xl:px-12 2xl:px-16 py-6 space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">Leads</h1>
+          <p className="text-muted-foreground">Acompanhe e responda os contatos recebidos pela sua vitrine</p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => setTemplateDialogOpen(true)}>
+            <MessageSquareText className="mr-2 h-4 w-4" />
+            Mensagem de follow-up
+          </Button>
+          <Button variant="outline" onClick={handleExport} disabled={leads.length === 0}>
+            <Download className="mr-2 h-4 w-4" />
+            Exportar CSV
+          </Button>
+        </div>
+      </div>
+
+      <LeadsFilters filters={filters} products={products} onFiltersChange={setFilters} />
+
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-6 w-6 animate-spin text-primary" />
+        </div>
+      ) : leads.length === 0 ? (
+        <div className="text-center py-12">
+          <Inbox className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+          <p className="text-muted-foreground">Nenhum lead encontrado</p>
+        </div>
+      ) : (
+        <>
+          <p className="text-sm text-muted-foreground">
+            {total} lead{total !== 1 ? 's' : ''}
+          </p>
+          <LeadsTable
+            leads={leads}
+            onViewLead={(lead) => setSelectedLeadId(lead.id)}
+            onFollowUp={handleFollowUp}
+            onStatusChange={changeStatus}
+          />
+          {hasMore && (
+            <div className="flex justify-center">
+              <Button variant="outline" onClick={loadMore} disabled={loadingMore}>
+                {loadingMore && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Carregar mais
+              </Button>
+            </div>
+          )}
+        </>
+      )}
+
+      <LeadDetailDialog
+        lead={selectedLead}
+        open={selectedLead !== null}
+        onOpenChange={(open) => !open && setSelectedLeadId(null)}
+        onStatusChange={changeStatus}
+        onSaveNotes={saveNotes}
+        onFollowUp={handleFollowUp}
+      />
+
+      <LeadFollowUpTemplateDialog
+        open={templateDialogOpen}
+        onOpenChange={setTemplateDialogOpen}
+        template={template}
+        onSave={handleSaveTemplate}
+      />
+    </div>
+  );
+}
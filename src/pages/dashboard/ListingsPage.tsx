@@ -8,6 +8,7 @@ import { ListingsFilters } from '@/components/dashboard/ListingsFilters';
 import { ListingsStatusBar } from '@/components/dashboard/ListingsStatusBar';
 import { ProductGrid } from '@/components/dashboard/ProductGrid';
 import { BulkActionsPanel } from '@/components/dashboard/BulkActionsPanel';
+import { CatalogExportDialog } from '@/components/dashboard/CatalogExportDialog';
 import { useProductListManagement } from '@/hooks/useProductListManagement';
 
 export default function ListingsPage() {
@@ -48,6 +49,7 @@ export default function ListingsPage() {
   } = useProductListManagement({ userId: user?.id });
 
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
+  const [exportDialogOpen, setExportDialogOpen] = useState(false);
 
   return (
     <div className="w-full px-4 sm:px-6 lg:px-8 xl:px-12 2xl:px-16 py-6 space-y-6">
@@ -59,6 +61,7 @@ export default function ListingsPage() {
         filteredProductsLength={filteredProducts.length}
         onToggleReorderMode={() => setIsReorderModeActive(!isReorderModeActive)}
         onSelectAll={handleSelectAll}
+        onExport={() => setExportDialogOpen(true)}
       />
 
       <ListingsFilters
@@ -115,6 +118,12 @@ export default function ListingsPage() {
           </Button>
         </div>
       )}
+
+      <CatalogExportDialog
+        open={exportDialogOpen}
+        onOpenChange={setExportDialogOpen}
+        userId={user?.id}
+      />
     </div>
   );
 }
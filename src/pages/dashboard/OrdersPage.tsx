@@ -0,0 +1,53 @@
+import { useState } from 'react';
+import { Loader2, ShoppingBag } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { OrdersFilters } from '@/components/dashboard/OrdersFilters';
+import { OrdersTable } from '@/components/dashboard/OrdersTable';
+import { OrderDetailDialog } from '@/components/dashboard/OrderDetailDialog';
+import { useSellerOrders } from '@/hooks/useSellerOrders';
+
+export default function OrdersPage() {
+  const { user } = useAuth();
+  const { orders, loading, filters, setFilters, changeStatus } = useSellerOrders(user?.id);
+  const [selectedOrderId, setSelectedOrderId] = useState<string | null>(null);
+
+  return (
+    <div className="w-full px-4 sm:px-6 lg:px-8 xl:px-12 2xl:px-16 py-6 space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Pedidos</h1>
+        <p className="text-muted-foreground">Acompanhe os pedidos enviados pela sua vitrine</p>
+      </div>
+
+      <OrdersFilters filters={filters} onFiltersChange={setFilters} />
+
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-6 w-6 animate-spin text-primary" />
+        </div>
+      ) : orders.length === 0 ? (
+        <div className="text-center py-12">
+          <ShoppingBag className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+          <p className="text-muted-foreground">Nenhum pedido encontrado</p>
+        </div>
+      ) : (
+        <>
+          <p className="text-sm text-muted-foreground">
+            {orders.length} pedido{orders.length !== 1 ? 's' : ''}
+          </p>
+          <OrdersTable
+            orders={orders}
+            onViewOrder={(order) => setSelectedOrderId(order.id)}
+            onStatusChange={changeStatus}
+          />
+        </>
+      )}
+
+      <OrderDetailDialog
+        orderId={selectedOrderId}
+        open={selectedOrderId !== null}
+        onOpenChange={(open) => !open && setSelectedOrderId(null)}
+        onStatusChange={changeStatus}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+import { useState } from 'react';
+import { Loader2, Plus, Timer } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useAuth } from '@/contexts/AuthContext';
+import { PromotionsTable } from '@/components/dashboard/PromotionsTable';
+import { PromotionFormDialog } from '@/components/dashboard/PromotionFormDialog';
+import { useSellerPromotions } from '@/hooks/useSellerPromotions';
+import type { SupportedCurrency } from '@/lib/i18n';
+import type { Promotion } from '@/types';
+
+export default function PromotionsPage() {
+  const { user } = useAuth();
+  const { promotions, loading, save, remove, toggleActive } = useSellerPromotions(user?.id);
+  const [formOpen, setFormOpen] = useState(false);
+  const [editingPromotion, setEditingPromotion] = useState<Promotion | null>(null);
+  const [promotionToDelete, setPromotionToDelete] = useState<Promotion | null>(null);
+
+  const currency = (user?.currency || 'BRL') as SupportedCurrency;
+
+  const openForm = (promotion: Promotion | null) => {
+    setEditingPromotion(promotion);
+    setFormOpen(true);
+  };
+
+  return (
+    <div className="w-full px-4 sm:px-6 lg:px-8 xl:px-12 2xl:px-16 py-6 space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">Promoções</h1>
+          <p className="text-muted-foreground">Agende descontos com início e fim para produtos ou categorias</p>
+        </div>
+        <Button onClick={() => openForm(null)}>
+          <Plus className="h-4 w-4 mr-2" />
+          Nova Promoção
+        </Button>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-6 w-6 animate-spin text-primary" />
+        </div>
+      ) : promotions.length === 0 ? (
+        <div className="text-center py-12">
+          <Timer className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+          <p className="text-muted-foreground">Nenhuma promoção cadastrada</p>
+        </div>
+      ) : (
+        <PromotionsTable
+          promotions={promotions}
+          currency={currency}
+          onEdit={openForm}
+          onDelete={setPromotionToDelete}
+          onToggleActive={toggleActive}
+        />
+      )}
+
+      <PromotionFormDialog
+        open={formOpen}
+        onOpenChange={setFormOpen}
+        promotion={editingPromotion}
+        userId={user?.id}
+        onSave={save}
+      />
+
+      <AlertDialog open={promotionToDelete !== null} onOpenChange={(open) => !open && setPromotionToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Excluir promoção?</AlertDialogTitle>
+            <AlertDialogDescription>
+              A promoção <strong>{promotionToDelete?.name}</strong> deixará de ser aplicada imediatamente.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (promotionToDelete) remove(promotionToDelete.id);
+                setPromotionToDelete(null);
+              }}
+            >
+              Excluir
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+import { useState } from 'react';
+import { Loader2, Megaphone } from 'lucide-react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useAuth } from '@/contexts/AuthContext';
+import { DateRangeFilter } from '@/components/dashboard/DateRangeFilter';
+import { TrafficSourcesTable } from '@/components/dashboard/TrafficSourcesTable';
+import { useTrafficSources } from '@/hooks/useTrafficSources';
+import { getLastDaysRange, type ReportDateRange } from '@/lib/funnelUtils';
+import { groupTrafficSources, type TrafficGrouping } from '@/lib/trafficSourceUtils';
+import type { SupportedCurrency } from '@/lib/i18n';
+
+export default function TrafficSourcesPage() {
+  const { user } = useAuth();
+  const [range, setRange] = useState<ReportDateRange>(() => getLastDaysRange(30));
+  const [grouping, setGrouping] = useState<TrafficGrouping>('source');
+  const { rows, loading, error } = useTrafficSources(range);
+
+  const currency = (user?.currency || 'BRL') as SupportedCurrency;
+  const groupedRows = groupTrafficSources(rows, grouping);
+
+  return (
+    <div className="w-full px-4 sm:px-6 lg:px-8 xl:px-12 2xl:px-16 py-6 space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">Origem do Tráfego</h1>
+          <p className="text-muted-foreground">Descubra quais canais e campanhas trazem visitas, leads e pedidos</p>
+        </div>
+        <DateRangeFilter value={range} onChange={setRange} />
+      </div>
+
+      <Tabs value={grouping} onValueChange={(value) => setGrouping(value as TrafficGrouping)}>
+        <TabsList>
+          <TabsTrigger value="source">Por origem</TabsTrigger>
+          <TabsTrigger value="campaign">Por campanha</TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-6 w-6 animate-spin text-primary" />
+        </div>
+      ) : groupedRows.length === 0 ? (
+        <div className="text-center py-12">
+          <Megaphone className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+          <p className="text-muted-foreground">Nenhuma visita no período</p>
+          <p className="text-sm text-muted-foreground mt-1">
+            Use links com parâmetros UTM (utm_source, utm_campaign) nos seus anúncios para ver cada campanha aqui
+          </p>
+        </div>
+      ) : (
+        <TrafficSourcesTable rows={groupedRows} grouping={grouping} currency={currency} />
+      )}
+    </div>
+  );
+}
@@ -49,6 +49,8 @@ export interface UserImageSettings {
 
 export type ProductStatus = 'disponivel' | 'vendido' | 'reservado';
 export type ProductGender = 'masculino' | 'feminino' | 'unissex';
+export type ProductType = 'simple' | 'bundle';
+export type ProductSortOption = 'display-order' | 'price-asc' | 'price-desc' | 'newest' | 'discount' | 'most-viewed';
 
 export type MediaType = 'image' | 'video';
 
@@ -71,6 +73,53 @@ export interface PriceTier {
   updated_at?: string;
 }
 
+export interface ProductVariantStock {
+  id?: string;
+  product_id?: string;
+  color: string;
+  size: string;
+  quantity: number;
+}
+
+export interface ProductVariant {
+  id?: string;
+  product_id?: string;
+  color: string;
+  size: string;
+  sku?: string | null;
+  barcode?: string | null;
+  /** Replaces the product price for this color/size when set */
+  price?: number | null;
+  discounted_price?: number | null;
+  /** Units available, or null when the product does not track stock */
+  stock_quantity?: number | null;
+  /** Ids of the `product_images` shown for this variant */
+  image_ids: string[];
+}
+
+export interface ProductBundleItem {
+  id?: string;
+  bundle_id?: string;
+  component_id: string;
+  variant_id?: string | null;
+  color: string;
+  size: string;
+  quantity: number;
+  display_order?: number;
+  /** Component product, when loaded together with the bundle */
+  component?: Pick<Product, 'id' | 'title' | 'featured_image_url' | 'price' | 'discounted_price' | 'status' | 'colors' | 'sizes'>;
+}
+
+/**
+ * What a bundle contained when it was added to the cart or ordered
+ */
+export interface BundleItemSummary {
+  title: string;
+  quantity: number;
+  color?: string;
+  size?: string;
+}
+
 export interface Product {
   id: string;
   user_id: string;
@@ -96,12 +145,23 @@ export interface Product {
   has_tiered_pricing?: boolean;
   min_tiered_price?: number;
   max_tiered_price?: number;
+  track_stock?: boolean;
+  display_order?: number | null;
+  sort_price?: number | null;
+  discount_percent?: number;
+  view_count?: number;
+  favorite_count?: number;
   created_at: string;
   updated_at?: string;
   product_images?: ProductImage[];
   colors?: string[];
   sizes?: string[];
   price_tiers?: PriceTier[];
+  product_variants?: ProductVariant[];
+  product_type?: ProductType;
+  bundle_items?: ProductBundleItem[];
+  /** Storefront only: running promotion applied on top of the product prices */
+  active_promotion?: ActivePromotion | null;
 }
 
 export interface ProductCategory {
@@ -133,13 +193,26 @@ export interface StorefrontSettings {
       showCondition?: boolean;
       showSizes?: boolean;
     };
+    priceRange?: {
+      minPrice?: number;
+      maxPrice?: number;
+    };
     itemsPerPage?: number;
+    infiniteScroll?: boolean;
+    defaultSort?: ProductSortOption;
     categoryDisplaySettings?: CategoryDisplaySetting[];
+    leadFollowUpTemplate?: string;
   };
   created_at: string;
   updated_at?: string;
 }
 
+/**
+ * Storefront settings as used by the storefront page, with the filter toggles flattened
+ */
+export type StorefrontDisplaySettings = NonNullable<StorefrontSettings['settings']['filters']> &
+  Omit<StorefrontSettings['settings'], 'filters'>;
+
 export type SubscriptionStatus = 'active' | 'pending' | 'cancelled' | 'suspended';
 export type PaymentStatus = 'paid' | 'pending' | 'overdue';
 export type PaymentMethodStatus = 'completed' | 'pending' | 'failed' | 'refunded';
@@ -195,9 +268,32 @@ export interface CartItem {
   selectedSize?: string;
   availableColors?: string[];
   availableSizes?: string[];
+  availableVariants?: ProductVariant[];
+  /** `product_variants` id, or `${productId}-${color}-${size}` when the combination has no record */
   variantId?: string;
+  sku?: string;
+  /** Product price before any variant override */
+  base_price?: number;
+  base_discounted_price?: number;
+  bundleItems?: BundleItemSummary[];
+  /** Promotion the line was priced with, reverted once it ends */
+  promotion?: ActivePromotion;
   has_tiered_pricing?: boolean;
   applied_tier_price?: number;
+  category?: string[];
+}
+
+/**
+ * Product a storefront buyer saved for later, kept in their browser
+ */
+export interface FavoriteItem {
+  id: string;
+  seller_id: string;
+  title: string;
+  price?: number;
+  discounted_price?: number;
+  featured_image_url?: string;
+  added_at: string;
 }
 
 export interface DistributionItem {
@@ -231,11 +327,215 @@ export interface CartDistribution {
   items: DistributionItem[];
 }
 
+export type CouponDiscountType = 'percentage' | 'fixed';
+
+export interface Coupon {
+  id: string;
+  seller_id: string;
+  code: string;
+  discount_type: CouponDiscountType;
+  discount_value: number;
+  min_cart_total?: number | null;
+  expires_at?: string | null;
+  usage_limit?: number | null;
+  usage_count: number;
+  category_names: string[];
+  is_active: boolean;
+  created_at: string;
+  updated_at?: string;
+}
+
+export interface Promotion {
+  id: string;
+  seller_id: string;
+  name: string;
+  discount_type: CouponDiscountType;
+  discount_value: number;
+  product_ids: string[];
+  category_names: string[];
+  starts_at: string;
+  ends_at: string;
+  is_active: boolean;
+  created_at: string;
+  updated_at?: string;
+}
+
+/**
+ * What a product or cart line keeps of the promotion pricing it
+ */
+export type ActivePromotion = Pick<Promotion, 'id' | 'name' | 'discount_type' | 'discount_value' | 'starts_at' | 'ends_at'>;
+
+export type DeliveryMethodType = 'pickup' | 'flat_rate' | 'postal_code_table';
+
+export interface PostalCodeRange {
+  from: string;
+  to: string;
+  fee: number;
+}
+
+export interface DeliveryMethod {
+  id: string;
+  seller_id: string;
+  name: string;
+  type: DeliveryMethodType;
+  fee: number;
+  free_above?: number | null;
+  postal_code_ranges: PostalCodeRange[];
+  instructions?: string | null;
+  is_active: boolean;
+  display_order: number;
+  created_at: string;
+  updated_at?: string;
+}
+
+/**
+ * Delivery picked in the cart. Only the method id is kept: the fee is worked out from
+ * the seller's current methods, so it follows fee changes made after the choice.
+ */
+export interface CartDelivery {
+  methodId: string;
+  postalCode?: string;
+}
+
 export interface CartState {
   items: CartItem[];
   distributions: CartDistribution[];
+  subtotal: number;
+  discount: number;
+  /** Subtotal after the coupon discount, without delivery */
   total: number;
   itemCount: number;
+  coupon?: Coupon | null;
+  delivery?: CartDelivery | null;
+}
+
+// Checkout Types
+export interface BuyerAddress {
+  postal_code: string;
+  street: string;
+  number: string;
+  complement?: string;
+  neighborhood: string;
+  city: string;
+  state: string;
+}
+
+export interface BuyerDetails {
+  name: string;
+  phone: string;
+  country_code: string;
+  address?: BuyerAddress | null;
+}
+
+export type LeadStatus = 'new' | 'contacted' | 'won' | 'lost';
+
+/**
+ * Where a storefront visitor came from, captured when they land with campaign parameters
+ */
+export interface TrafficAttribution {
+  /** utm_source, or derived from fbclid/gclid/referrer ('direct' when unknown) */
+  source: string;
+  medium?: string | null;
+  campaign?: string | null;
+  content?: string | null;
+  term?: string | null;
+  fbclid?: string | null;
+  gclid?: string | null;
+  referrer?: string | null;
+  landing_page: string;
+  captured_at: string;
+}
+
+/**
+ * Seller's analytics and ad tags, loaded on their storefront
+ */
+export interface TrackingSettings {
+  id: string;
+  user_id: string;
+  meta_pixel_id?: string | null;
+  meta_events?: Record<string, unknown> | null;
+  /** A Conversions API token is saved; the token itself is not readable */
+  meta_capi_enabled?: boolean;
+  ga_measurement_id?: string | null;
+  ga_events?: Record<string, unknown> | null;
+  tiktok_pixel_id?: string | null;
+  gtm_container_id?: string | null;
+  /** Google Ads tag id (AW-...) */
+  google_ads_id?: string | null;
+  /** Conversion label per e-commerce event, e.g. { "begin_checkout": "AbC-D_efG" } */
+  google_ads_conversions?: Record<string, string> | null;
+  custom_head_html?: string | null;
+  /** Load tags only after the visitor accepts cookies */
+  require_consent: boolean;
+  is_active: boolean;
+}
+
+export interface Lead {
+  id: string;
+  property_id?: string | null;
+  seller_id?: string | null;
+  order_id?: string | null;
+  viewer_id?: string | null;
+  name: string;
+  email?: string | null;
+  phone?: string | null;
+  country_code?: string | null;
+  address?: BuyerAddress | null;
+  message?: string | null;
+  source: string;
+  status: LeadStatus;
+  notes?: string | null;
+  attribution?: TrafficAttribution | null;
+  created_at: string;
+  updated_at?: string;
+  product_title?: string | null;
+}
+
+// Order System Types
+export type OrderStatus = 'new' | 'confirmed' | 'paid' | 'shipped' | 'delivered' | 'cancelled';
+
+export interface OrderItem {
+  id: string;
+  order_id: string;
+  product_id?: string | null;
+  title: string;
+  selected_color?: string | null;
+  selected_size?: string | null;
+  variant_id?: string | null;
+  sku?: string | null;
+  quantity: number;
+  unit_price: number;
+  discounted_price?: number | null;
+  applied_tier_price?: number | null;
+  subtotal: number;
+  notes?: string | null;
+  distribution_id?: string | null;
+  distribution_items: Array<{ color?: string; size?: string; quantity: number }>;
+  bundle_items?: BundleItemSummary[];
+  created_at?: string;
+}
+
+export interface Order {
+  id: string;
+  seller_id: string;
+  reference_code: string;
+  status: OrderStatus;
+  currency: string;
+  language: string;
+  subtotal: number;
+  discount?: number;
+  coupon_code?: string | null;
+  coupon_id?: string | null;
+  delivery_method?: string | null;
+  delivery_fee?: number;
+  delivery_postal_code?: string | null;
+  total: number;
+  item_count: number;
+  viewer_id?: string | null;
+  attribution?: TrafficAttribution | null;
+  created_at: string;
+  updated_at?: string;
+  items?: OrderItem[];
 }
 
 // Referral System Types
@@ -1,17 +1,68 @@
-import type { Product, CategoryDisplaySetting } from '@/types';
-import { sanitizeCategoryName } from '@/lib/categoryUtils';
+import type { Product, CategoryDisplaySetting, ProductSortOption, StorefrontDisplaySettings } from '@/types';
+import { sanitizeCategoryName, normalizeCategoryNameForComparison } from '@/lib/categoryUtils';
+import { matchesSearchQuery } from '@/lib/searchUtils';
 import { useTranslation, type SupportedLanguage } from '@/lib/i18n';
 
+export type ProductFacet = 'category' | 'brand' | 'gender' | 'sizes' | 'condition';
+
+export const PRODUCT_FACETS: ProductFacet[] = ['category', 'brand', 'gender', 'sizes', 'condition'];
+
+/**
+ * Storefront filter state. Facets hold any number of selected values:
+ * values of the same facet are combined with OR, different facets with AND.
+ * An empty list means the facet is not filtering.
+ */
 export interface ProductFilters {
-  query?: string;
-  status?: string;
-  category?: string;
-  brand?: string;
-  gender?: string;
-  condition?: string;
-  sizes?: string;
-  minPrice?: number;
-  maxPrice?: number;
+  query: string;
+  status: string;
+  minPrice: number;
+  maxPrice: number;
+  category: string[];
+  brand: string[];
+  gender: string[];
+  sizes: string[];
+  condition: string[];
+  /** Sort chosen by the buyer; empty uses the seller's default sort */
+  sort: ProductSortOption | '';
+}
+
+export type FacetCounts = Record<ProductFacet, Record<string, number>>;
+
+/** The storefront settings that filters and sorting depend on */
+export type ProductFilterSettings = Pick<StorefrontDisplaySettings, 'priceRange' | 'defaultSort'> | null | undefined;
+
+/**
+ * Filters as sent to the storefront search functions in the database.
+ * The price range is null while it is the seller's default, so it does not filter.
+ */
+export interface StorefrontFilterParams extends Omit<ProductFilters, 'sort' | 'minPrice' | 'maxPrice'> {
+  minPrice: number | null;
+  maxPrice: number | null;
+}
+
+/** Order of storefront search results: a sort option, or the text search rank */
+export type StorefrontSearchSort = ProductSortOption | 'relevance';
+
+/** A facet option and the number of products it would show */
+export interface StorefrontFacetOption {
+  facet: ProductFacet;
+  value: string;
+  product_count: number;
+}
+
+export const PRODUCT_SORT_OPTIONS: { value: ProductSortOption; labelKey: string }[] = [
+  { value: 'display-order', labelKey: 'sort.display_order' },
+  { value: 'price-asc', labelKey: 'sort.price_asc' },
+  { value: 'price-desc', labelKey: 'sort.price_desc' },
+  { value: 'newest', labelKey: 'sort.newest' },
+  { value: 'discount', labelKey: 'sort.discount' },
+  { value: 'most-viewed', labelKey: 'sort.most_viewed' },
+];
+
+export interface ProductSortOrder {
+  column: string;
+  ascending: boolean;
+  nullsFirst?: boolean;
 }
 
 /**
@@ -155,118 +206,309 @@ export function getCategoryInfo(
   });
 }
 
+function getDefaultPriceRange(settings: ProductFilterSettings): { minPrice: number; maxPrice: number } {
+  return {
+    minPrice: settings?.priceRange?.minPrice ?? 0,
+    maxPrice: settings?.priceRange?.maxPrice ?? 5000,
+  };
+}
+
+export function createDefaultFilters(settings: ProductFilterSettings): ProductFilters {
+  return {
+    query: '',
+    status: 'todos',
+    ...getDefaultPriceRange(settings),
+    category: [],
+    brand: [],
+    gender: [],
+    sizes: [],
+    condition: [],
+    sort: '',
+  };
+}
+
+export function isProductSortOption(value: unknown): value is ProductSortOption {
+  return PRODUCT_SORT_OPTIONS.some(option => option.value === value);
+}
+
+/**
+ * The sort in effect: the buyer's choice, else the seller's default, else manual order
+ */
+export function resolveProductSort(sort: ProductSortOption | '' | undefined, settings: ProductFilterSettings): ProductSortOption {
+  if (sort) return sort;
+  return isProductSortOption(settings?.defaultSort) ? settings.defaultSort : 'display-order';
+}
+
+/**
+ * Database ordering for a sort. Every sort ends with the id so pages are stable.
+ */
+export function getProductSortOrder(sort: ProductSortOption): ProductSortOrder[] {
+  const displayOrder: ProductSortOrder = { column: 'display_order', ascending: true, nullsFirst: false };
+  const id: ProductSortOrder = { column: 'id', ascending: false };
+
+  switch (sort) {
+    case 'price-asc':
+      return [{ column: 'sort_price', ascending: true, nullsFirst: false }, id];
+    case 'price-desc':
+      return [{ column: 'sort_price', ascending: false, nullsFirst: false }, id];
+    case 'newest':
+      return [{ column: 'created_at', ascending: false }, id];
+    case 'discount':
+      return [{ column: 'discount_percent', ascending: false }, displayOrder, id];
+    case 'most-viewed':
+      return [{ column: 'view_count', ascending: false }, displayOrder, id];
+    default:
+      return [displayOrder, id];
+  }
+}
+
+/** Sort column values of the last loaded product; the next page starts after it */
+export type ProductCursor = Record<string, string | number | null>;
+
+export function getProductCursor(product: Product, sort: ProductSortOption): ProductCursor {
+  const values = product as unknown as Record<string, string | number | null | undefined>;
+  return Object.fromEntries(
+    getProductSortOrder(sort).map(({ column }) => [column, values[column] ?? null])
+  );
+}
+
+/**
+ * PostgREST `or` filter selecting the rows that come after the cursor in the
+ * sort order (keyset pagination). Returns null when nothing can come after it.
+ *
+ * For columns a, b, id the rows after (ka, kb, kid) are:
+ *   a after ka, or (a = ka and b after kb), or (a = ka and b = kb and id after kid)
+ */
+export function buildProductCursorFilter(sort: ProductSortOption, cursor: ProductCursor): string | null {
+  const order = getProductSortOrder(sort);
+  const quote = (value: string | number) => `"${value}"`;
+
+  const equals = ({ column }: ProductSortOrder) => {
+    const value = cursor[column];
+    return value === null ? `${column}.is.null` : `${column}.eq.${quote(value)}`;
+  };
+
+  const after = ({ column, ascending, nullsFirst }: ProductSortOrder): string | null => {
+    const value = cursor[column];
+    // Postgres puts nulls last in ascending order and first in descending order by default
+    const nullsLast = nullsFirst === undefined ? ascending : !nullsFirst;
+
+    if (value === null) {
+      return nullsLast ? null : `${column}.not.is.null`;
+    }
+
+    const comparison = `${column}.${ascending ? 'gt' : 'lt'}.${quote(value)}`;
+    return nullsLast ? `or(${comparison},${column}.is.null)` : comparison;
+  };
+
+  const terms = order
+    .map((entry, index) => {
+      const afterEntry = after(entry);
+      if (!afterEntry) return null;
+
+      const conditions = [...order.slice(0, index).map(equals), afterEntry];
+      return conditions.length === 1 ? conditions[0] : `and(${conditions.join(',')})`;
+    })
+    .filter((term): term is string => term !== null);
+
+  return terms.length > 0 ? terms.join(',') : null;
+}
+
+/**
+ * Price used for sorting: the lowest tier price for tiered products,
+ * otherwise the discounted or regular price. Null when the product has no price.
+ */
+export function getProductSortPrice(product: Product): number | null {
+  const price = product.has_tiered_pricing && product.min_tiered_price != null
+    ? product.min_tiered_price
+    : product.discounted_price ?? product.price;
+
+  return price ? price : null;
+}
+
+function toFacetValues(value: unknown): string[] {
+  if (Array.isArray(value)) return value.filter(item => typeof item === 'string' && item !== '');
+  if (typeof value === 'string' && value !== '' && value !== 'todos') return [value];
+  return [];
+}
+
+/**
+ * Fill in missing fields and convert single-value filters saved by older
+ * versions of the storefront ('todos' or one string per facet).
+ */
+export function normalizeProductFilters(saved: unknown, settings: ProductFilterSettings): ProductFilters {
+  const defaults = createDefaultFilters(settings);
+  if (!saved || typeof saved !== 'object') return defaults;
+
+  const filters = saved as Partial<Record<keyof ProductFilters, unknown>>;
+  return {
+    query: typeof filters.query === 'string' ? filters.query : '',
+    status: typeof filters.status === 'string' && filters.status ? filters.status : 'todos',
+    minPrice: typeof filters.minPrice === 'number' ? filters.minPrice : defaults.minPrice,
+    maxPrice: typeof filters.maxPrice === 'number' ? filters.maxPrice : defaults.maxPrice,
+    category: toFacetValues(filters.category),
+    brand: toFacetValues(filters.brand),
+    gender: toFacetValues(filters.gender),
+    sizes: toFacetValues(filters.sizes),
+    condition: toFacetValues(filters.condition),
+    sort: isProductSortOption(filters.sort) ? filters.sort : '',
+  };
+}
+
+export function hasActiveFilters(filters: ProductFilters, settings: ProductFilterSettings): boolean {
+  const { minPrice, maxPrice } = getDefaultPriceRange(settings);
+
+  return !!(
+    filters.query ||
+    (filters.status && filters.status !== 'todos') ||
+    PRODUCT_FACETS.some(facet => filters[facet].length > 0) ||
+    filters.minPrice !== minPrice ||
+    filters.maxPrice !== maxPrice
+  );
+}
+
+type FacetProduct = Pick<Product, ProductFacet>;
+
+function getProductFacetValues(product: FacetProduct, facet: ProductFacet): string[] {
+  switch (facet) {
+    case 'category':
+      return (product.category || []).map(sanitizeCategoryName).filter(Boolean);
+    case 'brand':
+      return product.brand ? [product.brand] : [];
+    case 'gender':
+      return product.gender ? [product.gender] : [];
+    case 'sizes':
+      return (product.sizes || []).filter(Boolean);
+    case 'condition':
+      return product.condition ? [product.condition] : [];
+  }
+}
+
+function normalizeFacetValue(facet: ProductFacet, value: string): string {
+  return facet === 'sizes' ? value : normalizeCategoryNameForComparison(value);
+}
+
+function matchesFacet(product: FacetProduct, facet: ProductFacet, selected: string[]): boolean {
+  if (selected.length === 0) return true;
+
+  const wanted = new Set(selected.map(value => normalizeFacetValue(facet, value)));
+  return getProductFacetValues(product, facet).some(value => wanted.has(normalizeFacetValue(facet, value)));
+}
+
+function matchesPriceRange(product: Product, filters: ProductFilters, settings: ProductFilterSettings): boolean {
+  const defaults = getDefaultPriceRange(settings);
+  if (filters.minPrice === defaults.minPrice && filters.maxPrice === defaults.maxPrice) {
+    return true;
+  }
+
+  if (product.has_tiered_pricing) {
+    const tierMin = product.min_tiered_price ?? Infinity;
+    const tierMax = product.max_tiered_price ?? 0;
+    return tierMin <= filters.maxPrice && tierMax >= filters.minPrice;
+  }
+
+  const productPrice = product.discounted_price || product.price;
+  if (productPrice === undefined || productPrice === null) return true;
+  return productPrice >= filters.minPrice && productPrice <= filters.maxPrice;
+}
+
+/**
+ * Check only the multi-value facets (category, brand, gender, sizes, condition)
+ */
+export function productMatchesFacets(
+  product: FacetProduct,
+  filters: ProductFilters,
+  ignoreFacet?: ProductFacet
+): boolean {
+  return PRODUCT_FACETS.every(facet =>
+    facet === ignoreFacet || matchesFacet(product, facet, filters[facet])
+  );
+}
+
+/**
+ * Check a product against the filters, optionally ignoring one facet
+ */
+export function productMatchesFilters(
+  product: Product,
+  filters: ProductFilters,
+  settings: ProductFilterSettings,
+  ignoreFacet?: ProductFacet
+): boolean {
+  if (filters.query && !matchesSearchQuery(product, filters.query)) {
+    return false;
+  }
+
+  if (filters.status && filters.status !== 'todos' && product.status !== filters.status) {
+    return false;
+  }
+
+  if (!matchesPriceRange(product, filters, settings)) {
+    return false;
+  }
+
+  return productMatchesFacets(product, filters, ignoreFacet);
+}
+
 /**
  * Enhanced filterProducts function that returns both filtered products and search state
  */
 export function filterProducts(
   products: Product[],
   filters: ProductFilters,
-  settings: any
+  settings: ProductFilterSettings
 ): { filteredProducts: Product[]; isSearchActive: boolean } {
-  // Default values for price range
-  const defaultMinPrice = settings?.priceRange?.minPrice ?? 0;
-  const defaultMaxPrice = settings?.priceRange?.maxPrice ?? 5000;
+  return {
+    filteredProducts: products.filter(product => productMatchesFilters(product, filters, settings)),
+    isSearchActive: hasActiveFilters(filters, settings),
+  };
+}
 
-  // Check if any filters are active (excluding defaults)
-  const isSearchActive = !!(
-    filters.query ||
-    (filters.status && filters.status !== 'todos') ||
-    (filters.category && filters.category !== 'todos') ||
-    (filters.brand && filters.brand !== 'todos') ||
-    (filters.gender && filters.gender !== 'todos') ||
-    (filters.sizes && filters.sizes !== 'todos') ||
-    (filters.condition && filters.condition !== 'todos') ||
-    (filters.minPrice !== undefined && filters.minPrice !== defaultMinPrice) ||
-    (filters.maxPrice !== undefined && filters.maxPrice !== defaultMaxPrice)
-  );
+export function toStorefrontFilterParams(filters: ProductFilters, settings: ProductFilterSettings): StorefrontFilterParams {
+  const defaults = getDefaultPriceRange(settings);
+  const isDefaultPriceRange = filters.minPrice === defaults.minPrice && filters.maxPrice === defaults.maxPrice;
 
-  const filteredProducts = products.filter(product => {
-    // Search filter
-    if (filters.query) {
-      const searchTerm = filters.query.toLowerCase();
-      const searchableText = [
-        product.title,
-        product.short_description,
-        product.brand,
-        product.model,
-        ...(product.category || [])
-      ].join(' ').toLowerCase();
-      
-      if (!searchableText.includes(searchTerm)) {
-        return false;
-      }
-    }
-    
-    // Category filter
-    if (filters.category && filters.category !== 'todos') {
-      if (!product.category || !Array.isArray(product.category)) {
-        return filters.category === 'Outros';
-      }
-      
-      const hasCategory = product.category.some(cat => 
-        sanitizeCategoryName(cat) === filters.category
-      );
-      
-      if (!hasCategory) {
-        return false;
-      }
-    }
-    
-    // Price range filter - only apply when user explicitly changed the filter
-    const productPrice = product.discounted_price || product.price;
-    if (productPrice !== undefined && productPrice !== null) {
-      // Only apply price filter if it's not the default value OR if search is active
-      const shouldApplyMinPrice = filters.minPrice !== undefined && filters.minPrice !== defaultMinPrice;
-      const shouldApplyMaxPrice = filters.maxPrice !== undefined && filters.maxPrice !== defaultMaxPrice;
-
-      if (shouldApplyMinPrice && productPrice < filters.minPrice) {
-        return false;
-      }
-      if (shouldApplyMaxPrice && productPrice > filters.maxPrice) {
-        return false;
-      }
-    }
-    // Products with price = 0 are always included when filters are at default values
-    
-    // Brand filter
-    if (filters.brand && filters.brand !== 'todos') {
-      if (product.brand !== filters.brand) {
-        return false;
-      }
-    }
-    
-    // Gender filter
-    if (filters.gender && filters.gender !== 'todos') {
-      if (product.gender !== filters.gender) {
-        return false;
-      }
-    }
-    
-    // Status filter
-    if (filters.status && filters.status !== 'todos') {
-      if (product.status !== filters.status) {
-        return false;
-      }
-    }
-    
-    // Condition filter
-    if (filters.condition && filters.condition !== 'todos') {
-      if (product.condition !== filters.condition) {
-        return false;
-      }
-    }
+  return {
+    query: filters.query.trim(),
+    status: filters.status,
+    minPrice: isDefaultPriceRange ? null : filters.minPrice,
+    maxPrice: isDefaultPriceRange ? null : filters.maxPrice,
+    category: filters.category,
+    brand: filters.brand,
+    gender: filters.gender,
+    sizes: filters.sizes,
+    condition: filters.condition,
+  };
+}
 
-    // Sizes filter
-    if (filters.sizes && filters.sizes !== 'todos') {
-      if (!product.sizes || !Array.isArray(product.sizes) || !product.sizes.includes(filters.sizes)) {
-        return false;
-      }
-    }
+/**
+ * Text searches keep the relevance order unless the buyer picked a sort
+ */
+export function getStorefrontSearchSort(filters: ProductFilters, settings: ProductFilterSettings): StorefrontSearchSort {
+  if (filters.sort) return filters.sort;
+  return filters.query.trim() ? 'relevance' : resolveProductSort('', settings);
+}
 
-    return true;
+/**
+ * Facet counts keyed like `getFacetCount` looks them up. The database computes them
+ * with each facet ignoring its own selection, so sibling options keep their counts
+ * while being combined with OR.
+ */
+export function buildFacetCounts(options: StorefrontFacetOption[]): FacetCounts {
+  const counts = Object.fromEntries(PRODUCT_FACETS.map(facet => [facet, {}])) as FacetCounts;
+
+  options.forEach(({ facet, value, product_count }) => {
+    if (!counts[facet]) return;
+    counts[facet][normalizeFacetValue(facet, value)] = product_count;
   });
 
-  return { filteredProducts, isSearchActive };
+  return counts;
+}
+
+/**
+ * Number of products a facet option would show, given the other active filters
+ */
+export function getFacetCount(counts: FacetCounts, facet: ProductFacet, value: string): number {
+  return counts[facet]?.[normalizeFacetValue(facet, value)] ?? 0;
 }
 
 /**
@@ -274,30 +516,38 @@ export function filterProducts(
  */
 export function sortProducts(
   products: Product[],
-  sortBy: 'price-asc' | 'price-desc' | 'name-asc' | 'name-desc' | 'newest' | 'oldest' | 'display-order'
+  sortBy: ProductSortOption | 'name-asc' | 'name-desc' | 'oldest'
 ): Product[] {
   const sorted = [...products];
-  
+
+  // Products without a price go last in both directions
+  const comparePrices = (a: Product, b: Product, direction: 1 | -1) => {
+    const priceA = getProductSortPrice(a);
+    const priceB = getProductSortPrice(b);
+    if (priceA === null && priceB === null) return 0;
+    if (priceA === null) return 1;
+    if (priceB === null) return -1;
+    return (priceA - priceB) * direction;
+  };
+
+  const compareDisplayOrder = (a: Product, b: Product) => {
+    // Products with display_order come first, sorted by order
+    if (a.display_order != null && b.display_order != null) {
+      return a.display_order - b.display_order;
+    }
+    if (a.display_order != null) return -1;
+    if (b.display_order != null) return 1;
+
+    // Then by creation date (newest first)
+    return new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
+  };
+
   switch (sortBy) {
     case 'price-asc':
-      return sorted.sort((a, b) => {
-        const priceA = a.discounted_price || a.price || 0;
-        const priceB = b.discounted_price || b.price || 0;
-        if (priceA === 0 && priceB === 0) return 0;
-        if (priceA === 0) return 1;
-        if (priceB === 0) return -1;
-        return priceA - priceB;
-      });
+      return sorted.sort((a, b) => comparePrices(a, b, 1));
 
     case 'price-desc':
-      return sorted.sort((a, b) => {
-        const priceA = a.discounted_price || a.price || 0;
-        const priceB = b.discounted_price || b.price || 0;
-        if (priceA === 0 && priceB === 0) return 0;
-        if (priceA === 0) return 1;
-        if (priceB === 0) return -1;
-        return priceB - priceA;
-      });
+      return sorted.sort((a, b) => comparePrices(a, b, -1));
       
     case 'name-asc':
       return sorted.sort((a, b) => a.title.localeCompare(b.title));
@@ -314,19 +564,19 @@ export function sortProducts(
       return sorted.sort((a, b) => 
         new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
       );
+
+    case 'discount':
+      return sorted.sort((a, b) =>
+        (b.discount_percent ?? 0) - (a.discount_percent ?? 0) || compareDisplayOrder(a, b)
+      );
+
+    case 'most-viewed':
+      return sorted.sort((a, b) =>
+        (b.view_count ?? 0) - (a.view_count ?? 0) || compareDisplayOrder(a, b)
+      );
       
     case 'display-order':
-      return sorted.sort((a, b) => {
-        // Products with display_order come first, sorted by order
-        if (a.display_order !== null && b.display_order !== null) {
-          return a.display_order - b.display_order;
-        }
-        if (a.display_order !== null) return -1;
-        if (b.display_order !== null) return 1;
-        
-        // Then by creation date (newest first)
-        return new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
-      });
+      return sorted.sort(compareDisplayOrder);
       
     default:
       return sorted;
@@ -380,31 +630,64 @@ export function getPriceStats(products: Product[]) {
   return { min, max, avg };
 }
 
+const URL_FILTER_KEYS = ['query', 'status', 'minPrice', 'maxPrice', 'sort', ...PRODUCT_FACETS];
+
+export function hasUrlFilters(searchParams: URLSearchParams): boolean {
+  return URL_FILTER_KEYS.some(key => searchParams.has(key));
+}
+
 /**
- * Parses URL search parameters into ProductFilters
+ * Parses URL search parameters into ProductFilters.
+ * Facets accept repeated parameters: ?brand=Nike&brand=Adidas&sizes=40&sizes=41
  */
-export function parseUrlFilters(searchParams: URLSearchParams, settings: any): ProductFilters {
-  const filters: ProductFilters = {
-    query: searchParams.get('query') || '',
-    status: searchParams.get('status') || 'todos',
-    category: searchParams.get('category') || 'todos',
-    brand: searchParams.get('brand') || 'todos',
-    gender: searchParams.get('gender') || 'todos',
-    sizes: searchParams.get('sizes') || 'todos',
-    condition: searchParams.get('condition') || 'todos'
-  };
+export function parseUrlFilters(searchParams: URLSearchParams, settings: ProductFilterSettings): ProductFilters {
+  const filters = createDefaultFilters(settings);
+
+  filters.query = searchParams.get('query') || '';
+  filters.status = searchParams.get('status') || 'todos';
+  PRODUCT_FACETS.forEach(facet => {
+    filters[facet] = toFacetValues(searchParams.getAll(facet));
+  });
 
-  // Parse price range with defaults from settings (now defaults to 0 for minPrice)
   const minPriceParam = searchParams.get('minPrice');
   const maxPriceParam = searchParams.get('maxPrice');
+  if (minPriceParam && !isNaN(parseInt(minPriceParam, 10))) {
+    filters.minPrice = parseInt(minPriceParam, 10);
+  }
+  if (maxPriceParam && !isNaN(parseInt(maxPriceParam, 10))) {
+    filters.maxPrice = parseInt(maxPriceParam, 10);
+  }
 
-  filters.minPrice = minPriceParam ?
-    parseInt(minPriceParam, 10) :
-    (settings?.priceRange?.minPrice ?? 0);
-
-  filters.maxPrice = maxPriceParam ?
-    parseInt(maxPriceParam, 10) :
-    (settings?.priceRange?.maxPrice ?? 5000);
+  const sortParam = searchParams.get('sort');
+  if (isProductSortOption(sortParam)) {
+    filters.sort = sortParam;
+  }
 
   return filters;
-}
\ No newline at end of file
+}
+
+/**
+ * Write the active filters into a copy of the search params, leaving
+ * unrelated parameters untouched. Default values are omitted.
+ */
+export function applyFiltersToSearchParams(
+  searchParams: URLSearchParams,
+  filters: ProductFilters,
+  settings: ProductFilterSettings
+): URLSearchParams {
+  const params = new URLSearchParams(searchParams);
+  const defaults = getDefaultPriceRange(settings);
+
+  URL_FILTER_KEYS.forEach(key => params.delete(key));
+
+  if (filters.query) params.set('query', filters.query);
+  if (filters.status && filters.status !== 'todos') params.set('status', filters.status);
+  PRODUCT_FACETS.forEach(facet => {
+    filters[facet].forEach(value => params.append(facet, value));
+  });
+  if (filters.minPrice !== defaults.minPrice) params.set('minPrice', String(filters.minPrice));
+  if (filters.maxPrice !== defaults.maxPrice) params.set('maxPrice', String(filters.maxPrice));
+  if (filters.sort) params.set('sort', filters.sort);
+
+  return params;
+}
@@ -385,7 +385,7 @@ Deno.serve(async (req: Request) => {
       console.log('Cloning tracking settings...');
       const { data: trackingSettings } = await supabaseAdmin
         .from('tracking_settings')
-        .select('meta_pixel_id, meta_events, ga_measurement_id, ga_events')
+        .select('meta_pixel_id, meta_events, meta_capi_access_token, ga_measurement_id, ga_events, tiktok_pixel_id, gtm_container_id, google_ads_id, google_ads_conversions, custom_head_html, require_consent')
         .eq('user_id', originalUserId)
         .eq('is_active', true)
         .maybeSingle();
@@ -397,8 +397,15 @@ Deno.serve(async (req: Request) => {
             user_id: newUserId,
             meta_pixel_id: trackingSettings.meta_pixel_id,
             meta_events: trackingSettings.meta_events,
+            meta_capi_access_token: trackingSettings.meta_capi_access_token,
             ga_measurement_id: trackingSettings.ga_measurement_id,
             ga_events: trackingSettings.ga_events,
+            tiktok_pixel_id: trackingSettings.tiktok_pixel_id,
+            gtm_container_id: trackingSettings.gtm_container_id,
+            google_ads_id: trackingSettings.google_ads_id,
+            google_ads_conversions: trackingSettings.google_ads_conversions,
+            custom_head_html: trackingSettings.custom_head_html,
+            require_consent: trackingSettings.require_consent,
             is_active: true
           });
       }
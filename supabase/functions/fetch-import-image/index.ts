@@ -0,0 +1,263 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+interface FetchImportImageRequest {
+  url: string;
+}
+
+const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+const FETCH_TIMEOUT_MS = 15000;
+const MAX_REDIRECTS = 5;
+
+function jsonResponse(body: unknown, status: number) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+}
+
+function parseIPv4(address: string): number[] | null {
+  if (!/^\d{1,3}(\.\d{1,3}){3}$/.test(address)) return null;
+  const octets = address.split('.').map(Number);
+  return octets.every(octet => octet <= 255) ? octets : null;
+}
+
+function parseIPv6(address: string): number[] | null {
+  let normalized = address.split('%')[0].toLowerCase();
+
+  // Write an embedded IPv4 tail (::ffff:127.0.0.1) as two hex groups
+  const lastColon = normalized.lastIndexOf(':');
+  const tail = normalized.slice(lastColon + 1);
+  if (tail.includes('.')) {
+    const octets = parseIPv4(tail);
+    if (!octets) return null;
+    normalized = `${normalized.slice(0, lastColon + 1)}${((octets[0] << 8) | octets[1]).toString(16)}:${((octets[2] << 8) | octets[3]).toString(16)}`;
+  }
+
+  const halves = normalized.split('::');
+  if (halves.length > 2) return null;
+
+  const head = halves[0] ? halves[0].split(':') : [];
+  const rest = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+  const missing = 8 - head.length - rest.length;
+  if (halves.length === 1 ? missing !== 0 : missing < 1) return null;
+
+  const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill('0'), ...rest];
+  if (!groups.every(group => /^[0-9a-f]{1,4}$/.test(group))) return null;
+  return groups.map(group => parseInt(group, 16));
+}
+
+function isPrivateIPv4([a, b, c]: number[]): boolean {
+  return (
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    (a === 192 && b === 0 && (c === 0 || c === 2)) ||
+    (a === 198 && (b === 18 || b === 19)) ||
+    (a === 198 && b === 51 && c === 100) ||
+    (a === 203 && b === 0 && c === 113) ||
+    a >= 224
+  );
+}
+
+function isPrivateIPv6(groups: number[]): boolean {
+  const embeddedIPv4 = (high: number, low: number) => [high >> 8, high & 0xff, low >> 8, low & 0xff];
+
+  // Unspecified, loopback, IPv4-compatible and IPv4-mapped addresses
+  if (groups.slice(0, 5).every(group => group === 0) && (groups[5] === 0 || groups[5] === 0xffff)) {
+    if (groups[5] === 0 && groups[6] === 0) return true;
+    return isPrivateIPv4(embeddedIPv4(groups[6], groups[7]));
+  }
+  // NAT64 and 6to4 carry an IPv4 address too
+  if (groups[0] === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every(group => group === 0)) {
+    return isPrivateIPv4(embeddedIPv4(groups[6], groups[7]));
+  }
+  if (groups[0] === 0x2002) {
+    return isPrivateIPv4(embeddedIPv4(groups[1], groups[2]));
+  }
+
+  return (
+    (groups[0] & 0xfe00) === 0xfc00 ||
+    (groups[0] & 0xffc0) === 0xfe80 ||
+    (groups[0] & 0xffc0) === 0xfec0 ||
+    (groups[0] & 0xff00) === 0xff00 ||
+    (groups[0] === 0x2001 && groups[1] === 0x0db8)
+  );
+}
+
+function isPrivateAddress(address: string): boolean {
+  const ipv4 = parseIPv4(address);
+  if (ipv4) return isPrivateIPv4(ipv4);
+
+  const ipv6 = parseIPv6(address);
+  return ipv6 ? isPrivateIPv6(ipv6) : true;
+}
+
+/**
+ * Only http(s) URLs whose host resolves to public addresses can be fetched, so the
+ * function cannot be used to reach the cloud metadata service or internal services.
+ *
+ * Known limitation: `fetch` resolves the host again and Deno cannot connect to a
+ * pinned address while keeping TLS checks on the hostname, so a host that changes its
+ * DNS answer between the two lookups (DNS rebinding) can still slip through.
+ */
+async function isPublicHttpUrl(url: URL): Promise<boolean> {
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') return false;
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (hostname === 'localhost' || hostname.endsWith('.localhost')) return false;
+
+  let addresses: string[];
+  if (parseIPv4(hostname) || parseIPv6(hostname)) {
+    addresses = [hostname];
+  } else {
+    const lookups = await Promise.allSettled([
+      Deno.resolveDns(hostname, 'A'),
+      Deno.resolveDns(hostname, 'AAAA'),
+    ]);
+    addresses = lookups.flatMap(lookup => (lookup.status === 'fulfilled' ? lookup.value : []));
+  }
+
+  return addresses.length > 0 && !addresses.some(isPrivateAddress);
+}
+
+/**
+ * Reads a response body, giving up as soon as it goes over `maxBytes`
+ */
+async function readBodyWithLimit(body: ReadableStream<Uint8Array>, maxBytes: number): Promise<Uint8Array | null> {
+  const reader = body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    total += value.length;
+    if (total > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+
+  const bytes = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return bytes;
+}
+
+/**
+ * Downloads an image referenced by a product import spreadsheet.
+ * Runs server-side so imports are not blocked by CORS on the image host.
+ */
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    if (req.method !== 'POST') {
+      return jsonResponse({ error: 'Method not allowed' }, 405);
+    }
+
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return jsonResponse({ error: 'Missing authorization header' }, 401);
+    }
+
+    const supabaseUser = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      {
+        global: {
+          headers: {
+            Authorization: authHeader,
+          },
+        },
+      }
+    );
+
+    const { data: { user }, error: userError } = await supabaseUser.auth.getUser();
+    if (userError || !user) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+
+    const { url }: FetchImportImageRequest = await req.json();
+
+    let imageUrl: URL;
+    try {
+      imageUrl = new URL(url);
+    } catch {
+      return jsonResponse({ error: 'URL inválida' }, 400);
+    }
+
+    // Redirects are followed by hand so every hop goes through the same address check
+    const signal = AbortSignal.timeout(FETCH_TIMEOUT_MS);
+    let response: Response;
+    for (let redirects = 0; ; redirects++) {
+      if (!(await isPublicHttpUrl(imageUrl))) {
+        return jsonResponse({ error: 'URL inválida' }, 400);
+      }
+
+      response = await fetch(imageUrl, { redirect: 'manual', signal });
+      const location = response.headers.get('location');
+      if (response.status < 300 || response.status >= 400 || !location) break;
+
+      await response.body?.cancel();
+      if (redirects >= MAX_REDIRECTS) {
+        return jsonResponse({ error: 'Falha ao baixar imagem (redirecionamentos demais)' }, 422);
+      }
+      imageUrl = new URL(location, imageUrl);
+    }
+
+    if (!response.ok) {
+      return jsonResponse({ error: `Falha ao baixar imagem (HTTP ${response.status})` }, 422);
+    }
+
+    const contentType = (response.headers.get('content-type') || '').split(';')[0].trim();
+    if (!contentType.startsWith('image/')) {
+      return jsonResponse({ error: 'O endereço não aponta para uma imagem' }, 422);
+    }
+
+    const declaredLength = Number(response.headers.get('content-length'));
+    if (declaredLength > MAX_IMAGE_BYTES) {
+      await response.body?.cancel();
+      return jsonResponse({ error: 'Imagem maior que 10MB' }, 422);
+    }
+
+    const bytes = response.body ? await readBodyWithLimit(response.body, MAX_IMAGE_BYTES) : new Uint8Array();
+    if (!bytes) {
+      return jsonResponse({ error: 'Imagem maior que 10MB' }, 422);
+    }
+
+    return jsonResponse({ contentType, data: toBase64(bytes) }, 200);
+  } catch (error) {
+    if (error instanceof DOMException && error.name === 'TimeoutError') {
+      return jsonResponse({ error: 'O servidor da imagem demorou demais para responder' }, 504);
+    }
+    console.error('Error fetching import image:', error);
+    return jsonResponse({ error: 'Falha ao baixar imagem' }, 500);
+  }
+});
@@ -0,0 +1,185 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+type MetaConversionEvent = 'ViewContent' | 'AddToCart' | 'InitiateCheckout' | 'Lead';
+
+const META_CONVERSION_EVENTS: MetaConversionEvent[] = ['ViewContent', 'AddToCart', 'InitiateCheckout', 'Lead'];
+
+interface MetaConversionRequest {
+  seller_id: string;
+  event_name: MetaConversionEvent;
+  event_id: string;
+  event_source_url?: string;
+  custom_data?: {
+    content_ids?: string[];
+    contents?: Array<{ id: string; quantity: number; item_price?: number }>;
+    content_name?: string;
+    content_type?: string;
+    value?: number;
+    currency?: string;
+    num_items?: number;
+    order_id?: string;
+  };
+  user_data?: {
+    external_id?: string;
+    fbp?: string;
+    fbc?: string;
+    phone?: string;
+    email?: string;
+  };
+}
+
+// Graph API base URL; point it at a local stub (e.g. http://localhost:8787) to test forwarding
+const META_CAPI_ENDPOINT = (Deno.env.get('META_CAPI_ENDPOINT') ?? 'https://graph.facebook.com/v21.0').replace(/\/+$/, '');
+// Shows forwarded events under "Test events" in the Events Manager
+const META_CAPI_TEST_EVENT_CODE = Deno.env.get('META_CAPI_TEST_EVENT_CODE');
+const FORWARD_TIMEOUT_MS = 10000;
+
+function jsonResponse(body: unknown, status: number) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+async function sha256(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Customer information parameters in the format Meta expects: personal data
+ * normalized and SHA-256 hashed, browser ids and request metadata as they are
+ */
+async function buildUserData(req: Request, userData: MetaConversionRequest['user_data'] = {}) {
+  const email = userData.email?.trim().toLowerCase();
+  const phone = userData.phone?.replace(/\D/g, '');
+  const clientIp = req.headers.get('x-forwarded-for')?.split(',')[0].trim();
+
+  return {
+    external_id: userData.external_id ? [await sha256(userData.external_id)] : undefined,
+    em: email ? [await sha256(email)] : undefined,
+    ph: phone ? [await sha256(phone)] : undefined,
+    fbp: userData.fbp || undefined,
+    fbc: userData.fbc || undefined,
+    client_ip_address: clientIp || undefined,
+    client_user_agent: req.headers.get('user-agent') || undefined,
+  };
+}
+
+function buildCustomData(customData: MetaConversionRequest['custom_data'] = {}) {
+  const value = Number(customData.value);
+  const numItems = Number(customData.num_items);
+
+  return {
+    content_ids: Array.isArray(customData.content_ids)
+      ? customData.content_ids.filter(id => typeof id === 'string').slice(0, 100)
+      : undefined,
+    contents: Array.isArray(customData.contents)
+      ? customData.contents
+          .filter(content => typeof content?.id === 'string' && Number(content.quantity) > 0)
+          .slice(0, 100)
+          .map(content => ({
+            id: content.id,
+            quantity: Number(content.quantity),
+            item_price: Number(content.item_price) || undefined,
+          }))
+      : undefined,
+    content_name: typeof customData.content_name === 'string' ? customData.content_name.slice(0, 200) : undefined,
+    content_type: customData.content_type || undefined,
+    value: Number.isFinite(value) && value > 0 ? value : undefined,
+    currency: customData.currency || undefined,
+    num_items: Number.isFinite(numItems) && numItems > 0 ? numItems : undefined,
+    order_id: customData.order_id || undefined,
+  };
+}
+
+/**
+ * Forwards a storefront event to the seller's pixel through the Meta Conversions API.
+ * The browser pixel fires the same event with the same event_id, so Meta deduplicates
+ * them and still counts the sale when the pixel is blocked.
+ */
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    if (req.method !== 'POST') {
+      return jsonResponse({ error: 'Method not allowed' }, 405);
+    }
+
+    const body: MetaConversionRequest = await req.json();
+    const { seller_id, event_name, event_id } = body;
+
+    if (!seller_id || !event_id || typeof event_id !== 'string' || event_id.length > 100) {
+      return jsonResponse({ error: 'Missing required fields: seller_id, event_id' }, 400);
+    }
+
+    if (!META_CONVERSION_EVENTS.includes(event_name)) {
+      return jsonResponse({ error: `Unsupported event: ${event_name}` }, 400);
+    }
+
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const { data: settings, error: settingsError } = await supabaseAdmin
+      .from('tracking_settings')
+      .select('meta_pixel_id, meta_capi_access_token')
+      .eq('user_id', seller_id)
+      .eq('is_active', true)
+      .maybeSingle();
+
+    if (settingsError) {
+      console.error('Error loading tracking settings:', settingsError);
+      return jsonResponse({ error: 'Failed to load tracking settings' }, 500);
+    }
+
+    // Sellers without a pixel or token only use the browser pixel
+    if (!settings?.meta_pixel_id || !settings.meta_capi_access_token) {
+      return jsonResponse({ forwarded: false }, 200);
+    }
+
+    const event = {
+      event_name,
+      event_id,
+      event_time: Math.floor(Date.now() / 1000),
+      event_source_url: body.event_source_url || undefined,
+      action_source: 'website',
+      user_data: await buildUserData(req, body.user_data),
+      custom_data: buildCustomData(body.custom_data),
+    };
+
+    const response = await fetch(`${META_CAPI_ENDPOINT}/${settings.meta_pixel_id}/events`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        data: [event],
+        access_token: settings.meta_capi_access_token,
+        test_event_code: META_CAPI_TEST_EVENT_CODE || undefined,
+      }),
+      signal: AbortSignal.timeout(FORWARD_TIMEOUT_MS),
+    });
+
+    const result = await response.json().catch(() => null);
+
+    if (!response.ok) {
+      console.error('Meta Conversions API rejected event:', response.status, result);
+      return jsonResponse({ error: `Meta Conversions API error (HTTP ${response.status})` }, 502);
+    }
+
+    return jsonResponse({ forwarded: true, events_received: result?.events_received ?? null }, 200);
+  } catch (error) {
+    console.error('Error forwarding Meta conversion:', error);
+    return jsonResponse({ error: 'Failed to forward event' }, 500);
+  }
+});
@@ -0,0 +1,144 @@
+/*
+  # Create Orders Tables
+
+  ## Overview
+  Persists every cart checkout as an order so sellers can match WhatsApp chats to
+  stored orders through a short reference code.
+
+  ## New Tables
+  - `orders`
+    - `id` (uuid, primary key)
+    - `seller_id` (uuid, foreign key to users)
+    - `reference_code` (text, unique) - Short code sent in the WhatsApp message
+    - `status` (text) - new, confirmed, paid, shipped, delivered, cancelled
+    - `currency` (text) - Storefront currency at checkout time
+    - `language` (text) - Storefront language at checkout time
+    - `subtotal` (numeric) - Sum of all items before adjustments
+    - `total` (numeric) - Amount the buyer was quoted
+    - `item_count` (integer) - Total units in the order
+    - `viewer_id` (text, nullable) - Anonymous buyer id from localStorage
+    - `created_at` / `updated_at` (timestamp)
+  - `order_items`
+    - `id` (uuid, primary key)
+    - `order_id` (uuid, foreign key to orders)
+    - `product_id` (uuid, nullable, foreign key to products)
+    - `title` (text) - Product title snapshot
+    - `selected_color` / `selected_size` (text, nullable)
+    - `quantity` (integer)
+    - `unit_price` (numeric) - Base price snapshot
+    - `discounted_price` (numeric, nullable)
+    - `applied_tier_price` (numeric, nullable) - Tier price applied at checkout
+    - `subtotal` (numeric)
+    - `notes` (text, nullable)
+    - `distribution_id` (uuid, nullable) - Source `cart_variant_distributions` row
+    - `distribution_items` (jsonb) - Color/size/quantity breakdown of a distribution
+
+  ## Security
+  - Buyers (anon or authenticated) can create orders in the `new` status
+  - Order items can only be attached to an order created within the last hour
+  - Sellers can view and update only their own orders
+*/
+
+CREATE TABLE IF NOT EXISTS public.orders (
+  id uuid NOT NULL PRIMARY KEY DEFAULT gen_random_uuid(),
+  seller_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  reference_code text NOT NULL UNIQUE,
+  status text NOT NULL DEFAULT 'new' CHECK (status IN ('new', 'confirmed', 'paid', 'shipped', 'delivered', 'cancelled')),
+  currency text NOT NULL DEFAULT 'BRL',
+  language text NOT NULL DEFAULT 'pt-BR',
+  subtotal numeric(10,2) NOT NULL DEFAULT 0,
+  total numeric(10,2) NOT NULL DEFAULT 0,
+  item_count integer NOT NULL DEFAULT 0,
+  viewer_id text,
+  created_at timestamp with time zone DEFAULT now(),
+  updated_at timestamp with time zone DEFAULT now(),
+  CONSTRAINT valid_order_totals CHECK (subtotal >= 0 AND total >= 0 AND item_count >= 0)
+);
+
+CREATE TABLE IF NOT EXISTS public.order_items (
+  id uuid NOT NULL PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  product_id uuid REFERENCES public.products(id) ON DELETE SET NULL,
+  title text NOT NULL,
+  selected_color text,
+  selected_size text,
+  quantity integer NOT NULL,
+  unit_price numeric(10,2) NOT NULL DEFAULT 0,
+  discounted_price numeric(10,2),
+  applied_tier_price numeric(10,2),
+  subtotal numeric(10,2) NOT NULL DEFAULT 0,
+  notes text,
+  distribution_id uuid,
+  distribution_items jsonb NOT NULL DEFAULT '[]'::jsonb,
+  created_at timestamp with time zone DEFAULT now(),
+  CONSTRAINT valid_order_item_quantity CHECK (quantity > 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_orders_seller_id ON public.orders(seller_id);
+CREATE INDEX IF NOT EXISTS idx_orders_seller_created_at ON public.orders(seller_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_orders_status ON public.orders(seller_id, status);
+CREATE INDEX IF NOT EXISTS idx_order_items_order_id ON public.order_items(order_id);
+CREATE INDEX IF NOT EXISTS idx_order_items_product_id ON public.order_items(product_id);
+
+-- Keep updated_at current on status changes
+CREATE OR REPLACE FUNCTION update_orders_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_update_orders_updated_at ON public.orders;
+CREATE TRIGGER trigger_update_orders_updated_at
+  BEFORE UPDATE ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION update_orders_updated_at();
+
+-- Buyers cannot read orders, so item inserts are checked through a definer function
+CREATE OR REPLACE FUNCTION public.order_accepts_items(p_order_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.orders
+    WHERE id = p_order_id
+    AND status = 'new'
+    AND created_at > now() - interval '1 hour'
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+ALTER TABLE public.orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.order_items ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for orders table
+CREATE POLICY "Buyers can create orders"
+  ON public.orders FOR INSERT
+  TO anon, authenticated
+  WITH CHECK (status = 'new');
+
+CREATE POLICY "Sellers can view their orders"
+  ON public.orders FOR SELECT
+  TO authenticated
+  USING (auth.uid() = seller_id);
+
+CREATE POLICY "Sellers can update their orders"
+  ON public.orders FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = seller_id)
+  WITH CHECK (auth.uid() = seller_id);
+
+-- RLS Policies for order_items table
+CREATE POLICY "Buyers can add items to new orders"
+  ON public.order_items FOR INSERT
+  TO anon, authenticated
+  WITH CHECK (public.order_accepts_items(order_id));
+
+CREATE POLICY "Sellers can view their order items"
+  ON public.order_items FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.orders
+      WHERE orders.id = order_items.order_id
+      AND orders.seller_id = auth.uid()
+    )
+  );
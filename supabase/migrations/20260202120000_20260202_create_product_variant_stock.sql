@@ -0,0 +1,227 @@
+/*
+  # Create Product Variant Stock Table
+
+  ## Overview
+  Adds per-variant (color × size) stock tracking to products. Products opt in through
+  `track_stock`; when every variant of a tracked product reaches zero, the product status
+  is automatically set to 'vendido'. When stock is replenished, a product that was sold
+  out this way is made available again; a 'vendido' status set by the seller is kept.
+
+  ## Changes
+  1. Add `track_stock` and `sold_out_by_stock` columns to products
+  2. Create `product_variant_stock` table
+  3. Create function and triggers to sync product status with variant stock
+  4. Add `save_product_stock` function to replace a product's stock in one transaction
+
+  ## New Tables
+  - `product_variant_stock`
+    - `id` (uuid, primary key)
+    - `product_id` (uuid, foreign key to products)
+    - `color` (text) - Variant color ('' when the product has no colors)
+    - `size` (text) - Variant size ('' when the product has no sizes)
+    - `quantity` (integer) - Units available for this variant
+    - `created_at` (timestamp)
+    - `updated_at` (timestamp)
+
+  ## Notes
+  - `sold_out_by_stock` marks a 'vendido' status set by the stock sync; any other status
+    change clears it, so only the sync's own sold-out status is lifted on restock
+  - Orders take their units out of stock through `create_order`
+
+  ## Security
+  - RLS enabled on product_variant_stock table
+  - Anyone can view stock (storefront needs it to disable sold-out variants)
+  - Users can manage stock for their own products
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'products' AND column_name = 'track_stock'
+  ) THEN
+    ALTER TABLE public.products ADD COLUMN track_stock boolean NOT NULL DEFAULT false;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'products' AND column_name = 'sold_out_by_stock'
+  ) THEN
+    ALTER TABLE public.products ADD COLUMN sold_out_by_stock boolean NOT NULL DEFAULT false;
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS public.product_variant_stock (
+  id uuid NOT NULL PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id uuid NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  color text NOT NULL DEFAULT '',
+  size text NOT NULL DEFAULT '',
+  quantity integer NOT NULL DEFAULT 0,
+  created_at timestamp with time zone DEFAULT now(),
+  updated_at timestamp with time zone DEFAULT now(),
+  CONSTRAINT valid_stock_quantity CHECK (quantity >= 0),
+  CONSTRAINT unique_product_variant_stock UNIQUE (product_id, color, size)
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_variant_stock_product_id ON public.product_variant_stock(product_id);
+
+ALTER TABLE public.product_variant_stock ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view product variant stock"
+  ON public.product_variant_stock FOR SELECT
+  USING (true);
+
+CREATE POLICY "Users can insert stock for their products"
+  ON public.product_variant_stock FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.products
+      WHERE products.id = product_id
+      AND products.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update stock for their products"
+  ON public.product_variant_stock FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.products
+      WHERE products.id = product_variant_stock.product_id
+      AND products.user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.products
+      WHERE products.id = product_id
+      AND products.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete stock for their products"
+  ON public.product_variant_stock FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.products
+      WHERE products.id = product_variant_stock.product_id
+      AND products.user_id = auth.uid()
+    )
+  );
+
+-- Keep product status in sync with its variant stock
+CREATE OR REPLACE FUNCTION sync_product_status_with_stock(p_product_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_track_stock boolean;
+  v_variant_count integer;
+  v_total_quantity integer;
+BEGIN
+  SELECT track_stock INTO v_track_stock
+  FROM public.products
+  WHERE id = p_product_id;
+
+  IF NOT COALESCE(v_track_stock, false) THEN
+    RETURN;
+  END IF;
+
+  SELECT COUNT(*), COALESCE(SUM(quantity), 0)
+  INTO v_variant_count, v_total_quantity
+  FROM public.product_variant_stock
+  WHERE product_id = p_product_id;
+
+  IF v_variant_count = 0 THEN
+    RETURN;
+  END IF;
+
+  IF v_total_quantity = 0 THEN
+    UPDATE public.products
+    SET status = 'vendido', sold_out_by_stock = true
+    WHERE id = p_product_id AND status <> 'vendido';
+  ELSE
+    UPDATE public.products
+    SET status = 'disponivel', sold_out_by_stock = false
+    WHERE id = p_product_id AND status = 'vendido' AND sold_out_by_stock;
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION trigger_sync_product_status_with_stock()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM sync_product_status_with_stock(OLD.product_id);
+    RETURN OLD;
+  END IF;
+
+  PERFORM sync_product_status_with_stock(NEW.product_id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Status changes that do not come from the stock sync are the seller's own
+CREATE OR REPLACE FUNCTION clear_product_sold_out_by_stock()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status
+    AND NEW.sold_out_by_stock IS NOT DISTINCT FROM OLD.sold_out_by_stock THEN
+    NEW.sold_out_by_stock := false;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION update_product_variant_stock_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_sync_product_status_with_stock ON public.product_variant_stock;
+DROP TRIGGER IF EXISTS trigger_product_variant_stock_updated_at ON public.product_variant_stock;
+DROP TRIGGER IF EXISTS trigger_clear_product_sold_out_by_stock ON public.products;
+
+CREATE TRIGGER trigger_sync_product_status_with_stock
+  AFTER INSERT OR UPDATE OR DELETE ON public.product_variant_stock
+  FOR EACH ROW
+  EXECUTE FUNCTION trigger_sync_product_status_with_stock();
+
+CREATE TRIGGER trigger_product_variant_stock_updated_at
+  BEFORE UPDATE ON public.product_variant_stock
+  FOR EACH ROW
+  EXECUTE FUNCTION update_product_variant_stock_updated_at();
+
+CREATE TRIGGER trigger_clear_product_sold_out_by_stock
+  BEFORE UPDATE OF status ON public.products
+  FOR EACH ROW
+  EXECUTE FUNCTION clear_product_sold_out_by_stock();
+
+-- Replace the stock matrix of a product, all or nothing. Runs with the caller's rights,
+-- so row level security keeps sellers to their own products.
+CREATE OR REPLACE FUNCTION public.save_product_stock(p_product_id uuid, p_stock jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.product_variant_stock (product_id, color, size, quantity)
+  SELECT p_product_id, COALESCE(entry.color, ''), COALESCE(entry.size, ''), GREATEST(COALESCE(entry.quantity, 0), 0)
+  FROM jsonb_to_recordset(COALESCE(p_stock, '[]'::jsonb)) AS entry(color text, size text, quantity integer)
+  ON CONFLICT (product_id, color, size) DO UPDATE SET quantity = EXCLUDED.quantity;
+
+  DELETE FROM public.product_variant_stock stock
+  WHERE stock.product_id = p_product_id
+  AND NOT EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(COALESCE(p_stock, '[]'::jsonb)) AS entry(color text, size text)
+    WHERE COALESCE(entry.color, '') = stock.color
+    AND COALESCE(entry.size, '') = stock.size
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.save_product_stock(uuid, jsonb) TO authenticated;
@@ -0,0 +1,51 @@
+/*
+  # Add Public Order Lookup
+
+  ## Overview
+  Buyers receive a link to `/:slug/pedido/:orderCode` in their WhatsApp order message.
+  Orders are not publicly readable, so this function returns a single order (with its
+  items) when both the seller's slug and the order's reference code match.
+
+  ## New Functions
+  - `get_public_order(p_slug text, p_reference_code text)` - Returns the order as jsonb,
+    or NULL when no order matches
+
+  ## Security
+  - SECURITY DEFINER so anonymous buyers can read exactly one order by its code
+  - Does not expose `viewer_id` or any seller data beyond the order itself
+  - Execute granted to anon and authenticated roles
+*/
+
+CREATE OR REPLACE FUNCTION public.get_public_order(p_slug text, p_reference_code text)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'id', o.id,
+    'seller_id', o.seller_id,
+    'reference_code', o.reference_code,
+    'status', o.status,
+    'currency', o.currency,
+    'language', o.language,
+    'subtotal', o.subtotal,
+    'total', o.total,
+    'item_count', o.item_count,
+    'created_at', o.created_at,
+    'updated_at', o.updated_at,
+    'items', COALESCE((
+      SELECT jsonb_agg(to_jsonb(oi) ORDER BY oi.created_at)
+      FROM public.order_items oi
+      WHERE oi.order_id = o.id
+    ), '[]'::jsonb)
+  )
+  FROM public.orders o
+  JOIN public.users u ON u.id = o.seller_id
+  WHERE u.slug = p_slug
+  AND o.reference_code = upper(p_reference_code)
+  LIMIT 1;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_public_order(text, text) TO anon, authenticated;
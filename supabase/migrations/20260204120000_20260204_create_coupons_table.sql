@@ -0,0 +1,173 @@
+/*
+  # Create Coupons Table
+
+  ## Overview
+  Seller-managed promo codes applied to the storefront cart. A coupon gives either a
+  percentage or a fixed discount, optionally limited to a minimum cart total, an expiry
+  date, a maximum number of uses and a set of product categories.
+
+  ## Changes
+  1. Create `coupons` table
+  2. Add `discount` and `coupon_code` columns to orders
+  3. Add `get_storefront_coupon` function for buyers
+  4. Include the discount in `get_public_order`
+
+  ## New Tables
+  - `coupons`
+    - `id` (uuid, primary key)
+    - `seller_id` (uuid, foreign key to users)
+    - `code` (text) - Code typed by the buyer, stored uppercase
+    - `discount_type` (text) - 'percentage' or 'fixed'
+    - `discount_value` (numeric) - Percentage (0-100) or amount in the store currency
+    - `min_cart_total` (numeric, nullable) - Minimum eligible cart total
+    - `expires_at` (timestamp, nullable) - Coupon stops working after this moment
+    - `usage_limit` (integer, nullable) - Maximum number of orders (NULL = unlimited)
+    - `usage_count` (integer) - Orders placed with this coupon
+    - `category_names` (text[]) - Restrict to these product categories (empty = all)
+    - `is_active` (boolean)
+    - `created_at` (timestamp)
+    - `updated_at` (timestamp)
+
+  ## Security
+  - RLS enabled on coupons table
+  - Sellers can fully manage their own coupons
+  - Buyers never read the table directly; they look up a single code through
+    `get_storefront_coupon`. Uses are only counted by the order checkout, together with
+    the order they were made in
+*/
+
+CREATE TABLE IF NOT EXISTS public.coupons (
+  id uuid NOT NULL PRIMARY KEY DEFAULT gen_random_uuid(),
+  seller_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  code text NOT NULL,
+  discount_type text NOT NULL DEFAULT 'percentage',
+  discount_value numeric(10,2) NOT NULL,
+  min_cart_total numeric(10,2),
+  expires_at timestamp with time zone,
+  usage_limit integer,
+  usage_count integer NOT NULL DEFAULT 0,
+  category_names text[] NOT NULL DEFAULT '{}',
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamp with time zone DEFAULT now(),
+  updated_at timestamp with time zone DEFAULT now(),
+  CONSTRAINT valid_coupon_code CHECK (code = upper(code) AND length(code) > 0),
+  CONSTRAINT valid_discount_type CHECK (discount_type IN ('percentage', 'fixed')),
+  CONSTRAINT valid_discount_value CHECK (
+    discount_value > 0 AND (discount_type = 'fixed' OR discount_value <= 100)
+  ),
+  CONSTRAINT valid_usage_limit CHECK (usage_limit IS NULL OR usage_limit > 0),
+  CONSTRAINT unique_coupon_code_per_seller UNIQUE (seller_id, code)
+);
+
+CREATE INDEX IF NOT EXISTS idx_coupons_seller_id ON public.coupons(seller_id);
+
+ALTER TABLE public.coupons ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Sellers can view their coupons"
+  ON public.coupons FOR SELECT
+  TO authenticated
+  USING (seller_id = auth.uid());
+
+CREATE POLICY "Sellers can insert their coupons"
+  ON public.coupons FOR INSERT
+  TO authenticated
+  WITH CHECK (seller_id = auth.uid());
+
+CREATE POLICY "Sellers can update their coupons"
+  ON public.coupons FOR UPDATE
+  TO authenticated
+  USING (seller_id = auth.uid())
+  WITH CHECK (seller_id = auth.uid());
+
+CREATE POLICY "Sellers can delete their coupons"
+  ON public.coupons FOR DELETE
+  TO authenticated
+  USING (seller_id = auth.uid());
+
+CREATE OR REPLACE FUNCTION update_coupons_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_coupons_updated_at ON public.coupons;
+
+CREATE TRIGGER trigger_coupons_updated_at
+  BEFORE UPDATE ON public.coupons
+  FOR EACH ROW
+  EXECUTE FUNCTION update_coupons_updated_at();
+
+-- Orders remember which coupon was used and how much it took off
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'discount'
+  ) THEN
+    ALTER TABLE public.orders ADD COLUMN discount numeric(10,2) NOT NULL DEFAULT 0;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'coupon_code'
+  ) THEN
+    ALTER TABLE public.orders ADD COLUMN coupon_code text;
+  END IF;
+END $$;
+
+-- Look up one active, non-expired, non-exhausted coupon by code for a storefront
+CREATE OR REPLACE FUNCTION public.get_storefront_coupon(p_seller_id uuid, p_code text)
+RETURNS SETOF public.coupons
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT *
+  FROM public.coupons
+  WHERE seller_id = p_seller_id
+  AND code = upper(trim(p_code))
+  AND is_active = true
+  AND (expires_at IS NULL OR expires_at > now())
+  AND (usage_limit IS NULL OR usage_count < usage_limit)
+  LIMIT 1;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_storefront_coupon(uuid, text) TO anon, authenticated;
+
+-- Buyers see the discount on their order page
+CREATE OR REPLACE FUNCTION public.get_public_order(p_slug text, p_reference_code text)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'id', o.id,
+    'seller_id', o.seller_id,
+    'reference_code', o.reference_code,
+    'status', o.status,
+    'currency', o.currency,
+    'language', o.language,
+    'subtotal', o.subtotal,
+    'discount', o.discount,
+    'coupon_code', o.coupon_code,
+    'total', o.total,
+    'item_count', o.item_count,
+    'created_at', o.created_at,
+    'updated_at', o.updated_at,
+    'items', COALESCE((
+      SELECT jsonb_agg(to_jsonb(oi) ORDER BY oi.created_at)
+      FROM public.order_items oi
+      WHERE oi.order_id = o.id
+    ), '[]'::jsonb)
+  )
+  FROM public.orders o
+  JOIN public.users u ON u.id = o.seller_id
+  WHERE u.slug = p_slug
+  AND o.reference_code = upper(p_reference_code)
+  LIMIT 1;
+$$;
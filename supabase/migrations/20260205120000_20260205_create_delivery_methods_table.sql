@@ -0,0 +1,155 @@
+/*
+  # Create Delivery Methods Table
+
+  ## Overview
+  Seller-configured delivery options offered in the storefront cart. Each method is
+  either a local pickup, a flat rate, or a fee table by postal code (CEP) range. Flat
+  rates and fee tables can be free above a cart total threshold.
+
+  ## Changes
+  1. Create `delivery_methods` table
+  2. Add delivery columns to orders
+  3. Include delivery details in `get_public_order`
+
+  ## New Tables
+  - `delivery_methods`
+    - `id` (uuid, primary key)
+    - `seller_id` (uuid, foreign key to users)
+    - `name` (text) - Label shown to buyers (e.g. "Motoboy", "Retirada na loja")
+    - `type` (text) - 'pickup', 'flat_rate' or 'postal_code_table'
+    - `fee` (numeric) - Flat fee (ignored for pickup and fee tables)
+    - `free_above` (numeric, nullable) - Cart total from which delivery is free
+    - `postal_code_ranges` (jsonb) - [{ "from": "01000000", "to": "05999999", "fee": 15 }]
+    - `instructions` (text, nullable) - Pickup address, delivery days, etc.
+    - `is_active` (boolean)
+    - `display_order` (integer)
+    - `created_at` (timestamp)
+    - `updated_at` (timestamp)
+
+  ## Security
+  - RLS enabled on delivery_methods table
+  - Anyone can view active delivery methods (shown in the storefront cart)
+  - Sellers can fully manage their own delivery methods
+*/
+
+CREATE TABLE IF NOT EXISTS public.delivery_methods (
+  id uuid NOT NULL PRIMARY KEY DEFAULT gen_random_uuid(),
+  seller_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  type text NOT NULL DEFAULT 'flat_rate',
+  fee numeric(10,2) NOT NULL DEFAULT 0,
+  free_above numeric(10,2),
+  postal_code_ranges jsonb NOT NULL DEFAULT '[]'::jsonb,
+  instructions text,
+  is_active boolean NOT NULL DEFAULT true,
+  display_order integer NOT NULL DEFAULT 0,
+  created_at timestamp with time zone DEFAULT now(),
+  updated_at timestamp with time zone DEFAULT now(),
+  CONSTRAINT valid_delivery_type CHECK (type IN ('pickup', 'flat_rate', 'postal_code_table')),
+  CONSTRAINT valid_delivery_fee CHECK (fee >= 0 AND (free_above IS NULL OR free_above >= 0))
+);
+
+CREATE INDEX IF NOT EXISTS idx_delivery_methods_seller_id ON public.delivery_methods(seller_id, display_order);
+
+ALTER TABLE public.delivery_methods ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view active delivery methods"
+  ON public.delivery_methods FOR SELECT
+  USING (is_active = true);
+
+CREATE POLICY "Sellers can view their delivery methods"
+  ON public.delivery_methods FOR SELECT
+  TO authenticated
+  USING (seller_id = auth.uid());
+
+CREATE POLICY "Sellers can insert their delivery methods"
+  ON public.delivery_methods FOR INSERT
+  TO authenticated
+  WITH CHECK (seller_id = auth.uid());
+
+CREATE POLICY "Sellers can update their delivery methods"
+  ON public.delivery_methods FOR UPDATE
+  TO authenticated
+  USING (seller_id = auth.uid())
+  WITH CHECK (seller_id = auth.uid());
+
+CREATE POLICY "Sellers can delete their delivery methods"
+  ON public.delivery_methods FOR DELETE
+  TO authenticated
+  USING (seller_id = auth.uid());
+
+CREATE OR REPLACE FUNCTION update_delivery_methods_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_delivery_methods_updated_at ON public.delivery_methods;
+
+CREATE TRIGGER trigger_delivery_methods_updated_at
+  BEFORE UPDATE ON public.delivery_methods
+  FOR EACH ROW
+  EXECUTE FUNCTION update_delivery_methods_updated_at();
+
+-- Orders keep a snapshot of the chosen delivery method and fee
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'delivery_method'
+  ) THEN
+    ALTER TABLE public.orders ADD COLUMN delivery_method text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'delivery_fee'
+  ) THEN
+    ALTER TABLE public.orders ADD COLUMN delivery_fee numeric(10,2) NOT NULL DEFAULT 0;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'delivery_postal_code'
+  ) THEN
+    ALTER TABLE public.orders ADD COLUMN delivery_postal_code text;
+  END IF;
+END $$;
+
+CREATE OR REPLACE FUNCTION public.get_public_order(p_slug text, p_reference_code text)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'id', o.id,
+    'seller_id', o.seller_id,
+    'reference_code', o.reference_code,
+    'status', o.status,
+    'currency', o.currency,
+    'language', o.language,
+    'subtotal', o.subtotal,
+    'discount', o.discount,
+    'coupon_code', o.coupon_code,
+    'delivery_method', o.delivery_method,
+    'delivery_fee', o.delivery_fee,
+    'total', o.total,
+    'item_count', o.item_count,
+    'created_at', o.created_at,
+    'updated_at', o.updated_at,
+    'items', COALESCE((
+      SELECT jsonb_agg(to_jsonb(oi) ORDER BY oi.created_at)
+      FROM public.order_items oi
+      WHERE oi.order_id = o.id
+    ), '[]'::jsonb)
+  )
+  FROM public.orders o
+  JOIN public.users u ON u.id = o.seller_id
+  WHERE u.slug = p_slug
+  AND o.reference_code = upper(p_reference_code)
+  LIMIT 1;
+$$;
@@ -0,0 +1,74 @@
+/*
+  # Add Checkout Details to Leads
+
+  ## Overview
+  Cart checkouts used to insert a placeholder lead ("WhatsApp Contact") that sellers
+  could not follow up on. The cart now collects the buyer's name, phone and an
+  optional address, and stores them as a real lead linked to the seller and order.
+
+  ## Changes
+  1. Add `seller_id`, `order_id`, `viewer_id`, `country_code` and `address` to leads
+  2. Allow leads without an email (checkout leads only have a phone)
+  3. Let sellers read the leads of their storefront
+
+  ## Modified Tables
+  - `leads`
+    - `seller_id` (uuid, nullable, foreign key to users) - Storefront owner
+    - `order_id` (uuid, nullable, foreign key to orders) - Order sent with this lead
+    - `viewer_id` (text, nullable) - Anonymous buyer id from localStorage
+    - `country_code` (text, nullable) - Phone country code without "+" (e.g. "55")
+    - `address` (jsonb, nullable) - { postal_code, street, number, complement, neighborhood, city, state }
+
+  ## Security
+  - Sellers can view leads where they are the `seller_id`
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'leads' AND column_name = 'seller_id'
+  ) THEN
+    ALTER TABLE public.leads ADD COLUMN seller_id uuid REFERENCES public.users(id) ON DELETE CASCADE;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'leads' AND column_name = 'order_id'
+  ) THEN
+    ALTER TABLE public.leads ADD COLUMN order_id uuid REFERENCES public.orders(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'leads' AND column_name = 'viewer_id'
+  ) THEN
+    ALTER TABLE public.leads ADD COLUMN viewer_id text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'leads' AND column_name = 'country_code'
+  ) THEN
+    ALTER TABLE public.leads ADD COLUMN country_code text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'leads' AND column_name = 'address'
+  ) THEN
+    ALTER TABLE public.leads ADD COLUMN address jsonb;
+  END IF;
+END $$;
+
+ALTER TABLE public.leads ALTER COLUMN email DROP NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_leads_seller_created_at ON public.leads(seller_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_leads_order_id ON public.leads(order_id);
+
+DROP POLICY IF EXISTS "Sellers can view their storefront leads" ON public.leads;
+
+CREATE POLICY "Sellers can view their storefront leads"
+  ON public.leads FOR SELECT
+  TO authenticated
+  USING (seller_id = auth.uid());
@@ -0,0 +1,100 @@
+/*
+  # Add Lead Inbox Fields
+
+  ## Overview
+  Turns the `leads` table into a lightweight CRM inbox for sellers. Each lead gets a
+  follow-up status and free-form notes, and every lead is attributed to the seller
+  who owns the product it came from so the inbox can query by `seller_id` alone.
+
+  ## Changes
+  1. Add `notes` and `updated_at` to leads
+  2. Backfill `seller_id` from the lead's product
+  3. Fill `seller_id` automatically on insert for product leads
+  4. Let sellers update their leads (status and notes)
+
+  ## Modified Tables
+  - `leads`
+    - `notes` (text, nullable) - Seller notes about the contact
+    - `updated_at` (timestamp)
+    - `status` is now one of: 'new', 'contacted', 'won', 'lost'
+
+  ## Security
+  - Sellers can update leads where they are the `seller_id`
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'leads' AND column_name = 'notes'
+  ) THEN
+    ALTER TABLE public.leads ADD COLUMN notes text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'leads' AND column_name = 'updated_at'
+  ) THEN
+    ALTER TABLE public.leads ADD COLUMN updated_at timestamp with time zone DEFAULT now();
+  END IF;
+END $$;
+
+-- Attribute existing product leads to the product owner
+UPDATE public.leads l
+SET seller_id = p.user_id
+FROM public.products p
+WHERE l.property_id = p.id
+AND l.seller_id IS NULL;
+
+-- Any status outside the inbox pipeline starts over as new
+UPDATE public.leads
+SET status = 'new'
+WHERE status IS NULL OR status NOT IN ('new', 'contacted', 'won', 'lost');
+
+ALTER TABLE public.leads DROP CONSTRAINT IF EXISTS valid_lead_status;
+ALTER TABLE public.leads ADD CONSTRAINT valid_lead_status CHECK (status IN ('new', 'contacted', 'won', 'lost'));
+
+-- Product leads are inserted by anonymous buyers, so resolve the product owner with definer rights
+CREATE OR REPLACE FUNCTION public.set_lead_seller_id()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.seller_id IS NULL THEN
+    SELECT user_id INTO NEW.seller_id
+    FROM public.products
+    WHERE id = NEW.property_id;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_set_lead_seller_id ON public.leads;
+
+CREATE TRIGGER trigger_set_lead_seller_id
+  BEFORE INSERT ON public.leads
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_lead_seller_id();
+
+CREATE OR REPLACE FUNCTION update_leads_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_leads_updated_at ON public.leads;
+
+CREATE TRIGGER trigger_leads_updated_at
+  BEFORE UPDATE ON public.leads
+  FOR EACH ROW
+  EXECUTE FUNCTION update_leads_updated_at();
+
+CREATE INDEX IF NOT EXISTS idx_leads_seller_status ON public.leads(seller_id, status);
+
+DROP POLICY IF EXISTS "Sellers can update their storefront leads" ON public.leads;
+
+CREATE POLICY "Sellers can update their storefront leads"
+  ON public.leads FOR UPDATE
+  TO authenticated
+  USING (seller_id = auth.uid())
+  WITH CHECK (seller_id = auth.uid());
@@ -0,0 +1,186 @@
+/*
+  # Add Product Full-Text Search
+
+  ## Overview
+  Storefront search used plain substring matching, so "tenis" did not find "Tênis" and
+  "camisa polo" did not find "Polo Camisa". Products now carry a Portuguese, accent-free
+  search document that is stemmed and weighted, plus a trigram index for small typos.
+
+  ## Changes
+  1. Enable `unaccent` and `pg_trgm` extensions
+  2. Add `immutable_unaccent(text)` wrapper so unaccent can be used in indexes
+  3. Add `search_vector` (tsvector) and `search_text` (normalized text) columns to products
+  4. Add `product_search_vector(...)` and `product_search_text(...)` building both columns
+  5. Keep both columns up to date with a trigger on title, brand, model,
+     short_description and category, and backfill existing products
+  6. Add `search_products(p_user_id uuid, p_query text)` returning ranked product ids
+
+  ## Ranking
+  - Weights: title (A), brand and model (B), category (C), short description (D)
+  - Every term is matched as a prefix, so partial words still match while typing
+  - Products without a full-text match are returned when the query is similar enough
+    to the product text (typo tolerance), ranked below full-text matches
+
+  ## Notes
+  - The backfill writes only the search columns, in batches of 1000 products, instead of
+    re-saving every product through the trigger
+
+  ## Modified Tables
+  - `products`: `search_vector`, `search_text` with GIN indexes
+
+  ## Security
+  - `search_products` only returns products visible on the storefront
+  - Execute granted to anon and authenticated roles
+*/
+
+CREATE EXTENSION IF NOT EXISTS unaccent WITH SCHEMA extensions;
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+CREATE OR REPLACE FUNCTION public.immutable_unaccent(value text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+PARALLEL SAFE
+STRICT
+AS $$
+  SELECT extensions.unaccent('extensions.unaccent'::regdictionary, value);
+$$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'products' AND column_name = 'search_vector'
+  ) THEN
+    ALTER TABLE public.products ADD COLUMN search_vector tsvector;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'products' AND column_name = 'search_text'
+  ) THEN
+    ALTER TABLE public.products ADD COLUMN search_text text;
+  END IF;
+END $$;
+
+CREATE OR REPLACE FUNCTION public.product_search_vector(
+  p_title text,
+  p_brand text,
+  p_model text,
+  p_short_description text,
+  p_category text[]
+)
+RETURNS tsvector
+LANGUAGE sql
+IMMUTABLE
+PARALLEL SAFE
+AS $$
+  SELECT
+    setweight(to_tsvector('portuguese', public.immutable_unaccent(COALESCE(p_title, ''))), 'A') ||
+    setweight(to_tsvector('portuguese', public.immutable_unaccent(COALESCE(p_brand, '') || ' ' || COALESCE(p_model, ''))), 'B') ||
+    setweight(to_tsvector('portuguese', public.immutable_unaccent(COALESCE(array_to_string(p_category, ' '), ''))), 'C') ||
+    setweight(to_tsvector('portuguese', public.immutable_unaccent(COALESCE(p_short_description, ''))), 'D');
+$$;
+
+CREATE OR REPLACE FUNCTION public.product_search_text(
+  p_title text,
+  p_brand text,
+  p_model text,
+  p_category text[]
+)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+PARALLEL SAFE
+AS $$
+  SELECT lower(public.immutable_unaccent(
+    concat_ws(' ', p_title, p_brand, p_model, COALESCE(array_to_string(p_category, ' '), ''))
+  ));
+$$;
+
+CREATE OR REPLACE FUNCTION update_product_search_document()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.search_vector := public.product_search_vector(NEW.title, NEW.brand, NEW.model, NEW.short_description, NEW.category);
+  NEW.search_text := public.product_search_text(NEW.title, NEW.brand, NEW.model, NEW.category);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_update_product_search_document ON public.products;
+
+CREATE TRIGGER trigger_update_product_search_document
+  BEFORE INSERT OR UPDATE OF title, brand, model, short_description, category ON public.products
+  FOR EACH ROW
+  EXECUTE FUNCTION update_product_search_document();
+
+-- Backfill existing products; writing only the search columns does not fire the trigger
+DO $$
+DECLARE
+  v_updated integer;
+BEGIN
+  LOOP
+    UPDATE public.products p
+    SET
+      search_vector = public.product_search_vector(p.title, p.brand, p.model, p.short_description, p.category),
+      search_text = public.product_search_text(p.title, p.brand, p.model, p.category)
+    WHERE p.id IN (
+      SELECT id FROM public.products
+      WHERE search_vector IS NULL
+      LIMIT 1000
+    );
+
+    GET DIAGNOSTICS v_updated = ROW_COUNT;
+    EXIT WHEN v_updated = 0;
+  END LOOP;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_products_search_vector ON public.products USING gin (search_vector);
+CREATE INDEX IF NOT EXISTS idx_products_search_text_trgm ON public.products USING gin (search_text extensions.gin_trgm_ops);
+
+CREATE OR REPLACE FUNCTION public.search_products(p_user_id uuid, p_query text)
+RETURNS TABLE (product_id uuid, rank real)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_normalized text := lower(public.immutable_unaccent(trim(COALESCE(p_query, ''))));
+  v_prefix_query text;
+  v_tsquery tsquery;
+BEGIN
+  IF v_normalized = '' THEN
+    RETURN;
+  END IF;
+
+  -- Stem each word and match it as a prefix: "camisas pol" -> 'camis':* & 'pol':*
+  SELECT string_agg(quote_literal(lexeme) || ':*', ' & ')
+  INTO v_prefix_query
+  FROM unnest(to_tsvector('portuguese', v_normalized)) AS t(lexeme);
+
+  IF v_prefix_query IS NOT NULL THEN
+    -- Lexemes are already stemmed, so the 'simple' config keeps them as they are
+    v_tsquery := to_tsquery('simple', v_prefix_query);
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    p.id,
+    CASE
+      WHEN v_tsquery IS NOT NULL AND p.search_vector @@ v_tsquery
+        THEN 1 + ts_rank_cd(p.search_vector, v_tsquery, 32)
+      ELSE word_similarity(v_normalized, p.search_text)
+    END::real AS rank
+  FROM public.products p
+  WHERE p.user_id = p_user_id
+  AND p.is_visible_on_storefront = true
+  AND (
+    (v_tsquery IS NOT NULL AND p.search_vector @@ v_tsquery)
+    OR word_similarity(v_normalized, p.search_text) >= 0.5
+  )
+  ORDER BY 2 DESC;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_products(uuid, text) TO anon, authenticated;
@@ -0,0 +1,102 @@
+/*
+  # Add Product Sort Fields
+
+  ## Overview
+  The storefront could only list products in the seller's manual display order.
+  Buyers can now sort by price, newest, biggest discount and most viewed. To sort in
+  the database (and page through the results) products carry the values each sort needs.
+
+  ## Changes
+  1. Add `sort_price` generated column: the lowest tier price for tiered products,
+     otherwise the discounted price or the regular price (NULL when there is no price)
+  2. Add `discount_percent` generated column: percentage off the regular price
+  3. Add `view_count` column, incremented by a trigger on `property_views` inserts
+     and backfilled from existing views
+  4. Add indexes for each sort
+
+  ## Notes
+  - `property_views` stores one row per viewer per day, so `view_count` counts daily
+    unique views, the same number shown in the dashboard stats
+
+  ## Security
+  - The view counter trigger runs as SECURITY DEFINER because views are recorded by
+    anonymous storefront visitors who cannot update products
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'products' AND column_name = 'sort_price'
+  ) THEN
+    ALTER TABLE public.products ADD COLUMN sort_price numeric(10,2) GENERATED ALWAYS AS (
+      NULLIF(
+        CASE
+          WHEN has_tiered_pricing AND min_tiered_price IS NOT NULL THEN min_tiered_price
+          ELSE COALESCE(discounted_price, price)
+        END,
+        0
+      )
+    ) STORED;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'products' AND column_name = 'discount_percent'
+  ) THEN
+    ALTER TABLE public.products ADD COLUMN discount_percent numeric(5,2) GENERATED ALWAYS AS (
+      CASE
+        WHEN price > 0 AND discounted_price IS NOT NULL AND discounted_price < price
+          THEN round((price - discounted_price) / price * 100, 2)
+        ELSE 0
+      END
+    ) STORED;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'products' AND column_name = 'view_count'
+  ) THEN
+    ALTER TABLE public.products ADD COLUMN view_count integer NOT NULL DEFAULT 0;
+  END IF;
+END $$;
+
+CREATE OR REPLACE FUNCTION increment_product_view_count()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.listing_type = 'product' THEN
+    UPDATE public.products
+    SET view_count = view_count + 1
+    WHERE id = NEW.property_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_increment_product_view_count ON public.property_views;
+
+CREATE TRIGGER trigger_increment_product_view_count
+  AFTER INSERT ON public.property_views
+  FOR EACH ROW
+  EXECUTE FUNCTION increment_product_view_count();
+
+-- Backfill view counts from existing views
+UPDATE public.products p
+SET view_count = v.total
+FROM (
+  SELECT property_id, count(*) AS total
+  FROM public.property_views
+  WHERE listing_type = 'product'
+  GROUP BY property_id
+) v
+WHERE p.id = v.property_id;
+
+CREATE INDEX IF NOT EXISTS idx_products_user_sort_price ON public.products(user_id, sort_price);
+CREATE INDEX IF NOT EXISTS idx_products_user_created_at ON public.products(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_products_user_discount_percent ON public.products(user_id, discount_percent DESC);
+CREATE INDEX IF NOT EXISTS idx_products_user_view_count ON public.products(user_id, view_count DESC);
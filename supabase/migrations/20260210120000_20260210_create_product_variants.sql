@@ -0,0 +1,303 @@
+/*
+  # Create Product Variants
+
+  ## Overview
+  Colors and sizes were only flat string arrays on products, so a color/size combination
+  could not carry its own data. Each combination can now be stored as a variant record
+  with its own SKU, barcode, price override, stock and photos. Cart items and orders
+  reference the variant record instead of a `${productId}-${color}-${size}` string.
+
+  ## Changes
+  1. Create `product_variants` table
+  2. Create `product_variant_images` table linking variants to `product_images`
+  3. Add `variant_id` and `sku` columns to `order_items`
+  4. Move the stock of `product_variant_stock` into `product_variants.stock_quantity`,
+     point the product status sync at it and drop `product_variant_stock`
+  5. Replace `save_product_stock` with `save_product_variants`, which saves details,
+     stock and photos of all variants of a product in one transaction
+
+  ## New Tables
+  - `product_variants`
+    - `id` (uuid, primary key)
+    - `product_id` (uuid, foreign key to products)
+    - `color` (text) - Variant color ('' when the product has no colors)
+    - `size` (text) - Variant size ('' when the product has no sizes)
+    - `sku` (text) - Seller's stock keeping unit
+    - `barcode` (text) - EAN/GTIN barcode
+    - `price` (numeric) - Replaces the product price for this variant when set
+    - `discounted_price` (numeric) - Replaces the product discounted price when set
+    - `stock_quantity` (integer, nullable) - Units available; NULL when stock is not tracked
+    - `created_at` (timestamp)
+    - `updated_at` (timestamp)
+  - `product_variant_images`
+    - `variant_id` (uuid, foreign key to product_variants)
+    - `image_id` (uuid, foreign key to product_images)
+    - `display_order` (integer)
+
+  ## Notes
+  - Variants are upserted on (product_id, color, size) so their ids stay stable across
+    edits and carts saved in the browser keep pointing at the same record
+  - Removing a photo from the product removes its variant links
+  - Products that track stock keep a record for every color/size combination, so the
+    storefront reads availability and variant details from the same rows
+
+  ## Security
+  - RLS enabled on both tables
+  - Anyone can view variants and their photos (storefront needs them)
+  - Users can manage variants for their own products
+*/
+
+CREATE TABLE IF NOT EXISTS public.product_variants (
+  id uuid NOT NULL PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id uuid NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  color text NOT NULL DEFAULT '',
+  size text NOT NULL DEFAULT '',
+  sku text,
+  barcode text,
+  price numeric(10,2),
+  discounted_price numeric(10,2),
+  stock_quantity integer,
+  created_at timestamp with time zone DEFAULT now(),
+  updated_at timestamp with time zone DEFAULT now(),
+  CONSTRAINT valid_variant_price CHECK (price IS NULL OR price >= 0),
+  CONSTRAINT valid_variant_discounted_price CHECK (discounted_price IS NULL OR discounted_price >= 0),
+  CONSTRAINT valid_variant_stock_quantity CHECK (stock_quantity IS NULL OR stock_quantity >= 0),
+  CONSTRAINT unique_product_variant UNIQUE (product_id, color, size)
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_variants_product_id ON public.product_variants(product_id);
+CREATE INDEX IF NOT EXISTS idx_product_variants_sku ON public.product_variants(sku) WHERE sku IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS public.product_variant_images (
+  variant_id uuid NOT NULL REFERENCES public.product_variants(id) ON DELETE CASCADE,
+  image_id uuid NOT NULL REFERENCES public.product_images(id) ON DELETE CASCADE,
+  display_order integer NOT NULL DEFAULT 0,
+  created_at timestamp with time zone DEFAULT now(),
+  PRIMARY KEY (variant_id, image_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_variant_images_image_id ON public.product_variant_images(image_id);
+
+ALTER TABLE public.product_variants ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.product_variant_images ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view product variants"
+  ON public.product_variants FOR SELECT
+  USING (true);
+
+CREATE POLICY "Users can insert variants for their products"
+  ON public.product_variants FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.products
+      WHERE products.id = product_id
+      AND products.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update variants for their products"
+  ON public.product_variants FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.products
+      WHERE products.id = product_variants.product_id
+      AND products.user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.products
+      WHERE products.id = product_id
+      AND products.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete variants for their products"
+  ON public.product_variants FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.products
+      WHERE products.id = product_variants.product_id
+      AND products.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Anyone can view product variant images"
+  ON public.product_variant_images FOR SELECT
+  USING (true);
+
+CREATE POLICY "Users can insert variant images for their products"
+  ON public.product_variant_images FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.product_variants
+      JOIN public.products ON products.id = product_variants.product_id
+      WHERE product_variants.id = variant_id
+      AND products.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete variant images for their products"
+  ON public.product_variant_images FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.product_variants
+      JOIN public.products ON products.id = product_variants.product_id
+      WHERE product_variants.id = product_variant_images.variant_id
+      AND products.user_id = auth.uid()
+    )
+  );
+
+CREATE OR REPLACE FUNCTION update_product_variants_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_product_variants_updated_at ON public.product_variants;
+
+CREATE TRIGGER trigger_product_variants_updated_at
+  BEFORE UPDATE ON public.product_variants
+  FOR EACH ROW
+  EXECUTE FUNCTION update_product_variants_updated_at();
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'order_items' AND column_name = 'variant_id'
+  ) THEN
+    ALTER TABLE public.order_items
+      ADD COLUMN variant_id uuid REFERENCES public.product_variants(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'order_items' AND column_name = 'sku'
+  ) THEN
+    ALTER TABLE public.order_items ADD COLUMN sku text;
+  END IF;
+END $$;
+
+-- Stock lives on the variant records from now on
+INSERT INTO public.product_variants (product_id, color, size, stock_quantity)
+SELECT product_id, color, size, quantity
+FROM public.product_variant_stock
+ON CONFLICT (product_id, color, size) DO UPDATE SET stock_quantity = EXCLUDED.stock_quantity;
+
+DROP FUNCTION IF EXISTS public.save_product_stock(uuid, jsonb);
+DROP TABLE IF EXISTS public.product_variant_stock;
+
+CREATE OR REPLACE FUNCTION sync_product_status_with_stock(p_product_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_track_stock boolean;
+  v_variant_count integer;
+  v_total_quantity integer;
+BEGIN
+  SELECT track_stock INTO v_track_stock
+  FROM public.products
+  WHERE id = p_product_id;
+
+  IF NOT COALESCE(v_track_stock, false) THEN
+    RETURN;
+  END IF;
+
+  SELECT COUNT(*), COALESCE(SUM(stock_quantity), 0)
+  INTO v_variant_count, v_total_quantity
+  FROM public.product_variants
+  WHERE product_id = p_product_id
+  AND stock_quantity IS NOT NULL;
+
+  IF v_variant_count = 0 THEN
+    RETURN;
+  END IF;
+
+  IF v_total_quantity = 0 THEN
+    UPDATE public.products
+    SET status = 'vendido', sold_out_by_stock = true
+    WHERE id = p_product_id AND status <> 'vendido';
+  ELSE
+    UPDATE public.products
+    SET status = 'disponivel', sold_out_by_stock = false
+    WHERE id = p_product_id AND status = 'vendido' AND sold_out_by_stock;
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_sync_product_status_with_stock ON public.product_variants;
+
+CREATE TRIGGER trigger_sync_product_status_with_stock
+  AFTER INSERT OR UPDATE OF stock_quantity OR DELETE ON public.product_variants
+  FOR EACH ROW
+  EXECUTE FUNCTION trigger_sync_product_status_with_stock();
+
+-- Replace the variants of a product (details, stock and photo links), all or nothing.
+-- Records are upserted on color/size so their ids stay the same across edits; runs with
+-- the caller's rights, so row level security keeps sellers to their own products.
+CREATE OR REPLACE FUNCTION public.save_product_variants(p_product_id uuid, p_variants jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.product_variants (product_id, color, size, sku, barcode, price, discounted_price, stock_quantity)
+  SELECT
+    p_product_id,
+    COALESCE(entry.color, ''),
+    COALESCE(entry.size, ''),
+    NULLIF(trim(entry.sku), ''),
+    NULLIF(trim(entry.barcode), ''),
+    NULLIF(entry.price, 0),
+    NULLIF(entry.discounted_price, 0),
+    GREATEST(entry.stock_quantity, 0)
+  FROM jsonb_to_recordset(COALESCE(p_variants, '[]'::jsonb)) AS entry(
+    color text,
+    size text,
+    sku text,
+    barcode text,
+    price numeric,
+    discounted_price numeric,
+    stock_quantity integer
+  )
+  ON CONFLICT (product_id, color, size) DO UPDATE SET
+    sku = EXCLUDED.sku,
+    barcode = EXCLUDED.barcode,
+    price = EXCLUDED.price,
+    discounted_price = EXCLUDED.discounted_price,
+    stock_quantity = EXCLUDED.stock_quantity;
+
+  DELETE FROM public.product_variants variant
+  WHERE variant.product_id = p_product_id
+  AND NOT EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(COALESCE(p_variants, '[]'::jsonb)) AS entry(color text, size text)
+    WHERE COALESCE(entry.color, '') = variant.color
+    AND COALESCE(entry.size, '') = variant.size
+  );
+
+  DELETE FROM public.product_variant_images image
+  USING public.product_variants variant
+  WHERE image.variant_id = variant.id
+  AND variant.product_id = p_product_id;
+
+  INSERT INTO public.product_variant_images (variant_id, image_id, display_order)
+  SELECT variant.id, linked.image_id::uuid, (linked.position - 1)::integer
+  FROM jsonb_to_recordset(COALESCE(p_variants, '[]'::jsonb)) AS entry(color text, size text, image_ids jsonb)
+  JOIN public.product_variants variant
+    ON variant.product_id = p_product_id
+    AND variant.color = COALESCE(entry.color, '')
+    AND variant.size = COALESCE(entry.size, '')
+  CROSS JOIN jsonb_array_elements_text(COALESCE(entry.image_ids, '[]'::jsonb))
+    WITH ORDINALITY AS linked(image_id, position);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.save_product_variants(uuid, jsonb) TO authenticated;
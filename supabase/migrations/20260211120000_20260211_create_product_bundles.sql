@@ -0,0 +1,103 @@
+/*
+  # Create Product Bundles
+
+  ## Overview
+  Sellers offer kits ("kit 3 camisetas") and look combos made of products they already
+  sell, and had to create stand-in products to do it. A product can now be a bundle that
+  references its component products (optionally a specific color/size variant) and is
+  sold as a single item for its own price.
+
+  ## Changes
+  1. Add `product_type` column to products ('simple' or 'bundle')
+  2. Create `product_bundle_items` table
+  3. Add `bundle_items` column to `order_items` with the components at ordering time
+
+  ## New Tables
+  - `product_bundle_items`
+    - `id` (uuid, primary key)
+    - `bundle_id` (uuid, foreign key to products) - The bundle product
+    - `component_id` (uuid, foreign key to products) - Product included in the bundle
+    - `variant_id` (uuid, foreign key to product_variants) - Variant record of the component, if any
+    - `color` (text) - Component color ('' when not fixed)
+    - `size` (text) - Component size ('' when not fixed)
+    - `quantity` (integer) - Units of the component in one bundle
+    - `display_order` (integer)
+    - `created_at` (timestamp)
+
+  ## Notes
+  - The bundle price is the regular price of the bundle product
+  - Deleting a component product removes it from the bundles that include it
+
+  ## Security
+  - RLS enabled on product_bundle_items table
+  - Anyone can view bundle items (storefront shows what is inside)
+  - Users can manage the items of their own bundles
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'products' AND column_name = 'product_type'
+  ) THEN
+    ALTER TABLE public.products ADD COLUMN product_type text NOT NULL DEFAULT 'simple'
+      CONSTRAINT valid_product_type CHECK (product_type IN ('simple', 'bundle'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'order_items' AND column_name = 'bundle_items'
+  ) THEN
+    ALTER TABLE public.order_items ADD COLUMN bundle_items jsonb NOT NULL DEFAULT '[]'::jsonb;
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS public.product_bundle_items (
+  id uuid NOT NULL PRIMARY KEY DEFAULT gen_random_uuid(),
+  bundle_id uuid NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  component_id uuid NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  variant_id uuid REFERENCES public.product_variants(id) ON DELETE SET NULL,
+  color text NOT NULL DEFAULT '',
+  size text NOT NULL DEFAULT '',
+  quantity integer NOT NULL DEFAULT 1,
+  display_order integer NOT NULL DEFAULT 0,
+  created_at timestamp with time zone DEFAULT now(),
+  CONSTRAINT valid_bundle_item_quantity CHECK (quantity > 0),
+  CONSTRAINT bundle_item_not_self CHECK (bundle_id <> component_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_bundle_items_bundle_id ON public.product_bundle_items(bundle_id);
+CREATE INDEX IF NOT EXISTS idx_product_bundle_items_component_id ON public.product_bundle_items(component_id);
+
+ALTER TABLE public.product_bundle_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view product bundle items"
+  ON public.product_bundle_items FOR SELECT
+  USING (true);
+
+CREATE POLICY "Users can insert items for their bundles"
+  ON public.product_bundle_items FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.products
+      WHERE products.id = bundle_id
+      AND products.user_id = auth.uid()
+    )
+    AND EXISTS (
+      SELECT 1 FROM public.products
+      WHERE products.id = component_id
+      AND products.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete items from their bundles"
+  ON public.product_bundle_items FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.products
+      WHERE products.id = product_bundle_items.bundle_id
+      AND products.user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,104 @@
+/*
+  # Create Promotions Table
+
+  ## Overview
+  `discounted_price` is permanent, so every sale meant editing products by hand when it
+  started and again when it ended. A promotion is a time-boxed discount on selected
+  products and/or categories that applies between `starts_at` and `ends_at` and stops
+  on its own afterwards.
+
+  ## Changes
+  1. Create `promotions` table
+
+  ## New Tables
+  - `promotions`
+    - `id` (uuid, primary key)
+    - `seller_id` (uuid, foreign key to users)
+    - `name` (text) - Shown to buyers next to the countdown ("Black Friday")
+    - `discount_type` (text) - 'percentage' or 'fixed'
+    - `discount_value` (numeric) - Percentage (0-100) or amount off each unit
+    - `product_ids` (uuid[]) - Products on sale
+    - `category_names` (text[]) - Categories on sale
+    - `starts_at` (timestamp) - Promotion starts applying at this moment
+    - `ends_at` (timestamp) - Prices go back to normal at this moment
+    - `is_active` (boolean) - Lets the seller pause a promotion without deleting it
+    - `created_at` (timestamp)
+    - `updated_at` (timestamp)
+
+  ## Notes
+  - With no products and no categories the promotion covers the whole storefront
+  - The discount applies on top of the product's current price (discounted price when set)
+  - Products with tiered pricing keep their tier prices
+  - When several promotions cover a product, the buyer gets the lowest price
+
+  ## Security
+  - RLS enabled on promotions table
+  - Anyone can view active promotions (the storefront prices products with them)
+  - Sellers can fully manage their own promotions
+*/
+
+CREATE TABLE IF NOT EXISTS public.promotions (
+  id uuid NOT NULL PRIMARY KEY DEFAULT gen_random_uuid(),
+  seller_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  discount_type text NOT NULL DEFAULT 'percentage',
+  discount_value numeric(10,2) NOT NULL,
+  product_ids uuid[] NOT NULL DEFAULT '{}',
+  category_names text[] NOT NULL DEFAULT '{}',
+  starts_at timestamp with time zone NOT NULL,
+  ends_at timestamp with time zone NOT NULL,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamp with time zone DEFAULT now(),
+  updated_at timestamp with time zone DEFAULT now(),
+  CONSTRAINT valid_promotion_name CHECK (length(trim(name)) > 0),
+  CONSTRAINT valid_promotion_discount_type CHECK (discount_type IN ('percentage', 'fixed')),
+  CONSTRAINT valid_promotion_discount_value CHECK (
+    discount_value > 0 AND (discount_type = 'fixed' OR discount_value < 100)
+  ),
+  CONSTRAINT valid_promotion_period CHECK (ends_at > starts_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_promotions_seller_id ON public.promotions(seller_id);
+CREATE INDEX IF NOT EXISTS idx_promotions_ends_at ON public.promotions(ends_at);
+
+ALTER TABLE public.promotions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view active promotions"
+  ON public.promotions FOR SELECT
+  USING (is_active = true);
+
+CREATE POLICY "Sellers can view their promotions"
+  ON public.promotions FOR SELECT
+  TO authenticated
+  USING (seller_id = auth.uid());
+
+CREATE POLICY "Sellers can insert their promotions"
+  ON public.promotions FOR INSERT
+  TO authenticated
+  WITH CHECK (seller_id = auth.uid());
+
+CREATE POLICY "Sellers can update their promotions"
+  ON public.promotions FOR UPDATE
+  TO authenticated
+  USING (seller_id = auth.uid())
+  WITH CHECK (seller_id = auth.uid());
+
+CREATE POLICY "Sellers can delete their promotions"
+  ON public.promotions FOR DELETE
+  TO authenticated
+  USING (seller_id = auth.uid());
+
+CREATE OR REPLACE FUNCTION update_promotions_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_promotions_updated_at ON public.promotions;
+
+CREATE TRIGGER trigger_promotions_updated_at
+  BEFORE UPDATE ON public.promotions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_promotions_updated_at();
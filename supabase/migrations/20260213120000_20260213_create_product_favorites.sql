@@ -0,0 +1,120 @@
+/*
+  # Create Product Favorites
+
+  ## Overview
+  Buyers on the public storefront can save products for later with a heart toggle. The
+  list itself lives in the buyer's browser; each favorite is also recorded against the
+  anonymous `viewer_id` already used for view tracking, so sellers see which products
+  are favorited the most.
+
+  ## Changes
+  1. Create `product_favorites` table
+  2. Add `favorite_count` column to products, kept up to date by a trigger
+  3. Add `remove_product_favorite` function for buyers
+
+  ## New Tables
+  - `product_favorites`
+    - `id` (uuid, primary key)
+    - `product_id` (uuid, foreign key to products)
+    - `viewer_id` (text) - Anonymous storefront visitor id
+    - `created_at` (timestamp)
+
+  ## Notes
+  - One row per product per viewer, so `favorite_count` counts distinct buyers
+
+  ## Security
+  - RLS enabled on product_favorites table
+  - Anyone can favorite a product shown on a storefront
+  - Sellers can view the favorites of their own products
+  - Buyers never read the table; they remove a favorite through
+    `remove_product_favorite`, which only touches their own viewer id
+  - The counter trigger runs as SECURITY DEFINER because favorites are recorded by
+    anonymous visitors who cannot update products
+*/
+
+CREATE TABLE IF NOT EXISTS public.product_favorites (
+  id uuid NOT NULL PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id uuid NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  viewer_id text NOT NULL,
+  created_at timestamp with time zone DEFAULT now(),
+  CONSTRAINT unique_product_favorite_per_viewer UNIQUE (product_id, viewer_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_favorites_product_id ON public.product_favorites(product_id);
+
+ALTER TABLE public.product_favorites ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can favorite storefront products"
+  ON public.product_favorites FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.products
+      WHERE products.id = product_id
+      AND products.is_visible_on_storefront IS NOT FALSE
+    )
+  );
+
+CREATE POLICY "Sellers can view favorites of their products"
+  ON public.product_favorites FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.products
+      WHERE products.id = product_favorites.product_id
+      AND products.user_id = auth.uid()
+    )
+  );
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'products' AND column_name = 'favorite_count'
+  ) THEN
+    ALTER TABLE public.products ADD COLUMN favorite_count integer NOT NULL DEFAULT 0;
+  END IF;
+END $$;
+
+CREATE OR REPLACE FUNCTION update_product_favorite_count()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE public.products
+    SET favorite_count = favorite_count + 1
+    WHERE id = NEW.product_id;
+    RETURN NEW;
+  END IF;
+
+  UPDATE public.products
+  SET favorite_count = GREATEST(favorite_count - 1, 0)
+  WHERE id = OLD.product_id;
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_update_product_favorite_count ON public.product_favorites;
+
+CREATE TRIGGER trigger_update_product_favorite_count
+  AFTER INSERT OR DELETE ON public.product_favorites
+  FOR EACH ROW
+  EXECUTE FUNCTION update_product_favorite_count();
+
+-- Remove one favorite of a storefront visitor
+CREATE OR REPLACE FUNCTION public.remove_product_favorite(p_product_id uuid, p_viewer_id text)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  DELETE FROM public.product_favorites
+  WHERE product_id = p_product_id
+  AND viewer_id = p_viewer_id;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.remove_product_favorite(uuid, text) TO anon, authenticated;
+
+CREATE INDEX IF NOT EXISTS idx_products_user_favorite_count ON public.products(user_id, favorite_count DESC);
@@ -0,0 +1,165 @@
+/*
+  # Create Product Recommendations
+
+  ## Overview
+  The product details page was a dead end once the buyer decided against a product.
+  It now recommends other products of the same seller: products the seller pinned as
+  cross-sells, products other buyers viewed alongside this one, and products sharing
+  categories, brand or price band.
+
+  ## Changes
+  1. Create `product_cross_sells` table for the products a seller pins manually
+  2. Add `get_related_products` function scoring the seller's other products
+  3. Add an index on `property_views.viewer_id` for the co-view lookup
+
+  ## New Tables
+  - `product_cross_sells`
+    - `id` (uuid, primary key)
+    - `product_id` (uuid, foreign key to products) - Product being viewed
+    - `related_product_id` (uuid, foreign key to products) - Product recommended with it
+    - `display_order` (integer)
+    - `created_at` (timestamp)
+
+  ## Notes
+  - Co-views are distinct `viewer_id`s that viewed both products in the last 90 days
+  - Score: 3 per co-viewing buyer, 2 per shared category ('Sem Categoria' ignored),
+    2 for the same brand and 1 when the price is within 30% of the product's price
+  - Sold and hidden products are never recommended
+
+  ## Security
+  - RLS enabled on product_cross_sells table
+  - Anyone can view the cross-sells of products shown on a storefront
+  - Users can manage the cross-sells of their own products, pointing to their own products
+  - `get_related_products` runs as SECURITY DEFINER because storefront visitors cannot
+    read `property_views`; it only returns product ids and counts, never viewer ids
+*/
+
+CREATE TABLE IF NOT EXISTS public.product_cross_sells (
+  id uuid NOT NULL PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id uuid NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  related_product_id uuid NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  display_order integer NOT NULL DEFAULT 0,
+  created_at timestamp with time zone DEFAULT now(),
+  CONSTRAINT unique_product_cross_sell UNIQUE (product_id, related_product_id),
+  CONSTRAINT cross_sell_not_self CHECK (product_id <> related_product_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_cross_sells_product_id ON public.product_cross_sells(product_id);
+
+ALTER TABLE public.product_cross_sells ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view cross-sells of storefront products"
+  ON public.product_cross_sells FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.products
+      WHERE products.id = product_cross_sells.product_id
+      AND products.is_visible_on_storefront IS NOT FALSE
+    )
+  );
+
+CREATE POLICY "Users can view cross-sells of their products"
+  ON public.product_cross_sells FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.products
+      WHERE products.id = product_cross_sells.product_id
+      AND products.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can insert cross-sells for their products"
+  ON public.product_cross_sells FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.products
+      WHERE products.id = product_id
+      AND products.user_id = auth.uid()
+    )
+    AND EXISTS (
+      SELECT 1 FROM public.products
+      WHERE products.id = related_product_id
+      AND products.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete cross-sells from their products"
+  ON public.product_cross_sells FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.products
+      WHERE products.id = product_cross_sells.product_id
+      AND products.user_id = auth.uid()
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_property_views_viewer_id ON public.property_views(viewer_id);
+
+-- Other products of the same seller, best recommendations first
+CREATE OR REPLACE FUNCTION public.get_related_products(p_product_id uuid, p_limit integer DEFAULT 12)
+RETURNS TABLE (product_id uuid, co_views integer, score integer)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH source AS (
+    SELECT id, user_id, category, NULLIF(lower(trim(brand)), '') AS brand, sort_price
+    FROM public.products
+    WHERE id = p_product_id
+    AND is_visible_on_storefront IS NOT FALSE
+  ),
+  source_viewers AS (
+    SELECT DISTINCT viewer_id
+    FROM public.property_views
+    WHERE property_id = p_product_id
+    AND listing_type = 'product'
+    AND viewed_at >= now() - interval '90 days'
+  ),
+  co_viewed AS (
+    SELECT v.property_id, count(DISTINCT v.viewer_id)::integer AS co_views
+    FROM public.property_views v
+    JOIN source_viewers sv ON sv.viewer_id = v.viewer_id
+    WHERE v.property_id <> p_product_id
+    AND v.listing_type = 'product'
+    AND v.viewed_at >= now() - interval '90 days'
+    GROUP BY v.property_id
+  ),
+  scored AS (
+    SELECT
+      p.id,
+      COALESCE(cv.co_views, 0) AS co_views,
+      (
+        COALESCE(cv.co_views, 0) * 3
+        + 2 * (
+          SELECT count(*)
+          FROM unnest(p.category) AS c(name)
+          WHERE c.name = ANY(s.category)
+          AND c.name <> 'Sem Categoria'
+        )
+        + CASE WHEN s.brand IS NOT NULL AND lower(trim(p.brand)) = s.brand THEN 2 ELSE 0 END
+        + CASE
+            WHEN s.sort_price IS NOT NULL AND p.sort_price BETWEEN s.sort_price * 0.7 AND s.sort_price * 1.3
+            THEN 1 ELSE 0
+          END
+      )::integer AS score,
+      p.view_count
+    FROM public.products p
+    CROSS JOIN source s
+    LEFT JOIN co_viewed cv ON cv.property_id = p.id
+    WHERE p.user_id = s.user_id
+    AND p.id <> s.id
+    AND p.is_visible_on_storefront = true
+    AND p.status <> 'vendido'
+  )
+  SELECT id, co_views, score
+  FROM scored
+  WHERE score > 0
+  ORDER BY score DESC, view_count DESC, id
+  LIMIT LEAST(GREATEST(p_limit, 1), 50);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_related_products(uuid, integer) TO anon, authenticated;
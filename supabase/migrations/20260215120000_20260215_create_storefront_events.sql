@@ -0,0 +1,127 @@
+/*
+  # Create Storefront Events
+
+  ## Overview
+  Sellers only saw views and leads, so they could not tell where buyers give up. The
+  storefront now records a first-party event stream of the buying journey: storefront
+  visit, product view, variant select, add to cart, cart open and checkout sent. The
+  dashboard funnel report shows the drop-off between steps, overall and per product,
+  for any date range.
+
+  ## Changes
+  1. Create `storefront_events` table
+  2. Add `get_storefront_funnel` function: buyers reaching each step
+  3. Add `get_product_funnel` function: buyers reaching each product step, per product
+
+  ## New Tables
+  - `storefront_events`
+    - `id` (uuid, primary key)
+    - `seller_id` (uuid, foreign key to users) - Storefront the event happened on
+    - `viewer_id` (text) - Anonymous storefront visitor id
+    - `event_type` (text) - storefront_visit, product_view, variant_select, add_to_cart,
+      cart_open or checkout_sent
+    - `product_id` (uuid, foreign key to products) - Product involved, if any
+    - `metadata` (jsonb) - Event details such as the chosen color/size or the order code
+    - `created_at` (timestamp)
+
+  ## Notes
+  - Funnel steps count distinct `viewer_id`s, so repeated events by one buyer count once
+  - A checkout sends one `checkout_sent` event per product in the order, so the product
+    funnel can tell which products were bought
+  - Deleting a product keeps its events for the storefront totals
+
+  ## Security
+  - RLS enabled on storefront_events table
+  - Anyone can record events on a storefront; a product event must name a product of
+    that storefront's seller
+  - Sellers can view the events of their own storefront
+  - The funnel functions run with the caller's permissions and only count the caller's events
+*/
+
+CREATE TABLE IF NOT EXISTS public.storefront_events (
+  id uuid NOT NULL PRIMARY KEY DEFAULT gen_random_uuid(),
+  seller_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  viewer_id text NOT NULL,
+  event_type text NOT NULL,
+  product_id uuid REFERENCES public.products(id) ON DELETE SET NULL,
+  metadata jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at timestamp with time zone DEFAULT now(),
+  CONSTRAINT valid_storefront_event_type CHECK (event_type IN (
+    'storefront_visit',
+    'product_view',
+    'variant_select',
+    'add_to_cart',
+    'cart_open',
+    'checkout_sent'
+  ))
+);
+
+CREATE INDEX IF NOT EXISTS idx_storefront_events_seller_created_at ON public.storefront_events(seller_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_storefront_events_product_id ON public.storefront_events(product_id);
+
+ALTER TABLE public.storefront_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can record storefront events"
+  ON public.storefront_events FOR INSERT
+  WITH CHECK (
+    product_id IS NULL
+    OR EXISTS (
+      SELECT 1 FROM public.products
+      WHERE products.id = product_id
+      AND products.user_id = seller_id
+    )
+  );
+
+CREATE POLICY "Sellers can view their storefront events"
+  ON public.storefront_events FOR SELECT
+  TO authenticated
+  USING (seller_id = auth.uid());
+
+-- Buyers reaching each step of the funnel
+CREATE OR REPLACE FUNCTION public.get_storefront_funnel(p_start timestamptz, p_end timestamptz)
+RETURNS TABLE (event_type text, viewers bigint, events bigint)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT e.event_type, count(DISTINCT e.viewer_id) AS viewers, count(*) AS events
+  FROM public.storefront_events e
+  WHERE e.seller_id = auth.uid()
+  AND e.created_at >= p_start
+  AND e.created_at <= p_end
+  GROUP BY e.event_type;
+$$;
+
+-- Buyers reaching each product step, per product
+CREATE OR REPLACE FUNCTION public.get_product_funnel(p_start timestamptz, p_end timestamptz)
+RETURNS TABLE (
+  product_id uuid,
+  title text,
+  featured_image_url text,
+  views bigint,
+  variant_selects bigint,
+  add_to_carts bigint,
+  checkouts bigint
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    p.id AS product_id,
+    p.title,
+    p.featured_image_url,
+    count(DISTINCT e.viewer_id) FILTER (WHERE e.event_type = 'product_view') AS views,
+    count(DISTINCT e.viewer_id) FILTER (WHERE e.event_type = 'variant_select') AS variant_selects,
+    count(DISTINCT e.viewer_id) FILTER (WHERE e.event_type = 'add_to_cart') AS add_to_carts,
+    count(DISTINCT e.viewer_id) FILTER (WHERE e.event_type = 'checkout_sent') AS checkouts
+  FROM public.storefront_events e
+  JOIN public.products p ON p.id = e.product_id
+  WHERE e.seller_id = auth.uid()
+  AND e.created_at >= p_start
+  AND e.created_at <= p_end
+  GROUP BY p.id, p.title, p.featured_image_url;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_storefront_funnel(timestamptz, timestamptz) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_product_funnel(timestamptz, timestamptz) TO authenticated;
@@ -0,0 +1,112 @@
+/*
+  # Add Traffic Attribution
+
+  ## Overview
+  Views only stored `document.referrer`, so sellers running Instagram and Meta ads could
+  not tell which campaign sold what. The storefront now keeps the UTM parameters and the
+  `fbclid`/`gclid` click ids a buyer landed with, and attaches them to that buyer's
+  views, leads and orders. The dashboard breaks results down by source and campaign.
+
+  ## Changes
+  1. Add `attribution` column to `property_views`, `leads` and `orders`
+  2. Add `get_traffic_sources` function: views, leads, orders and revenue per
+     source/medium/campaign
+
+  ## Notes
+  - `attribution` holds `source`, `medium`, `campaign`, `content`, `term`, `fbclid`,
+    `gclid`, `referrer`, `landing_page` and `captured_at`
+  - The buyer's browser keeps the attribution for 7 days per `viewer_id`; landing from
+    another campaign replaces it
+  - Rows recorded without attribution are reported as source 'direct'
+  - Cancelled orders are not counted
+
+  ## Security
+  - No new policies: existing insert policies already cover the new columns
+  - `get_traffic_sources` runs with the caller's permissions and only counts the
+    caller's products, leads and orders
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'property_views' AND column_name = 'attribution'
+  ) THEN
+    ALTER TABLE public.property_views ADD COLUMN attribution jsonb;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'leads' AND column_name = 'attribution'
+  ) THEN
+    ALTER TABLE public.leads ADD COLUMN attribution jsonb;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'attribution'
+  ) THEN
+    ALTER TABLE public.orders ADD COLUMN attribution jsonb;
+  END IF;
+END $$;
+
+-- Views, leads, orders and revenue per source/medium/campaign
+CREATE OR REPLACE FUNCTION public.get_traffic_sources(p_start timestamptz, p_end timestamptz)
+RETURNS TABLE (
+  source text,
+  medium text,
+  campaign text,
+  views bigint,
+  leads bigint,
+  orders bigint,
+  revenue numeric
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH touches AS (
+    SELECT v.attribution, 1 AS is_view, 0 AS is_lead, 0 AS is_order, 0::numeric AS amount
+    FROM public.property_views v
+    JOIN public.products p ON p.id = v.property_id
+    WHERE p.user_id = auth.uid()
+    AND v.viewed_at >= p_start
+    AND v.viewed_at <= p_end
+
+    UNION ALL
+
+    SELECT l.attribution, 0, 1, 0, 0
+    FROM public.leads l
+    WHERE (
+      l.seller_id = auth.uid()
+      OR EXISTS (
+        SELECT 1 FROM public.products p
+        WHERE p.id = l.property_id
+        AND p.user_id = auth.uid()
+      )
+    )
+    AND l.created_at >= p_start
+    AND l.created_at <= p_end
+
+    UNION ALL
+
+    SELECT o.attribution, 0, 0, 1, o.total
+    FROM public.orders o
+    WHERE o.seller_id = auth.uid()
+    AND o.status <> 'cancelled'
+    AND o.created_at >= p_start
+    AND o.created_at <= p_end
+  )
+  SELECT
+    COALESCE(NULLIF(attribution->>'source', ''), 'direct') AS source,
+    NULLIF(attribution->>'medium', '') AS medium,
+    NULLIF(attribution->>'campaign', '') AS campaign,
+    sum(is_view)::bigint AS views,
+    sum(is_lead)::bigint AS leads,
+    sum(is_order)::bigint AS orders,
+    sum(amount) AS revenue
+  FROM touches
+  GROUP BY 1, 2, 3;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_traffic_sources(timestamptz, timestamptz) TO authenticated;
@@ -0,0 +1,59 @@
+/*
+  # Add Meta Conversions API Token
+
+  ## Overview
+  Browser pixel events are dropped by ad blockers and by iOS tracking prevention, so
+  Meta under-reports storefront sales. The `meta-conversions` edge function now also
+  sends ViewContent, AddToCart, InitiateCheckout and Lead server-side through the
+  Conversions API, using an access token each seller keeps next to their pixel id.
+
+  ## Changes
+  1. Add `meta_capi_access_token` column to `tracking_settings`
+  2. Add generated `meta_capi_enabled` column, readable by the storefront
+  3. Restrict column reads so the token never leaves the database through the API
+
+  ## Notes
+  - Browser and server send the same `event_id`, so Meta counts each event once
+  - Sellers can still write the token; only the edge function (service role) reads it
+  - Columns added to `tracking_settings` later must be granted to `anon` and
+    `authenticated` explicitly, as below
+
+  ## Security
+  - `SELECT` on `tracking_settings` is granted per column to `anon` and `authenticated`,
+    leaving out `meta_capi_access_token`
+  - Existing row level security policies are unchanged
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'tracking_settings' AND column_name = 'meta_capi_access_token'
+  ) THEN
+    ALTER TABLE public.tracking_settings ADD COLUMN meta_capi_access_token text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'tracking_settings' AND column_name = 'meta_capi_enabled'
+  ) THEN
+    ALTER TABLE public.tracking_settings ADD COLUMN meta_capi_enabled boolean
+      GENERATED ALWAYS AS (COALESCE(meta_capi_access_token, '') <> '') STORED;
+  END IF;
+END $$;
+
+-- Every column except the token stays readable under the existing policies
+DO $$
+DECLARE
+  readable_columns text;
+BEGIN
+  SELECT string_agg(quote_ident(column_name), ', ')
+  INTO readable_columns
+  FROM information_schema.columns
+  WHERE table_schema = 'public'
+  AND table_name = 'tracking_settings'
+  AND column_name <> 'meta_capi_access_token';
+
+  REVOKE SELECT ON public.tracking_settings FROM anon, authenticated;
+  EXECUTE format('GRANT SELECT (%s) ON public.tracking_settings TO anon, authenticated', readable_columns);
+END $$;
@@ -0,0 +1,82 @@
+/*
+  # Add Tracking Providers and Cookie Consent
+
+  ## Overview
+  Tracking settings only covered the Meta Pixel and Google Analytics. Sellers can now
+  also add a TikTok Pixel, a Google Tag Manager container, Google Ads conversion tags
+  and a custom head snippet (site verification tags, preconnect hints), and choose to load
+  all of them only after the visitor accepts cookies.
+
+  ## Changes
+  1. Add `tiktok_pixel_id`, `gtm_container_id`, `google_ads_id`,
+     `google_ads_conversions`, `custom_head_html` and `require_consent` to
+     `tracking_settings`
+  2. Grant `SELECT` on the new columns to `anon` and `authenticated`
+
+  ## Notes
+  - `google_ads_conversions` maps storefront events (`view_item`, `add_to_cart`,
+    `begin_checkout`) to Google Ads conversion labels
+  - `custom_head_html` is sanitized by the dashboard before saving and again by the
+    storefront before injecting: only `meta` and `link` tags are kept. Scripts are
+    always dropped, since they would run on the app's origin
+
+  ## Security
+  - Reads on `tracking_settings` are granted per column since the Conversions API
+    token was added, so the new columns are granted explicitly
+  - Existing row level security policies are unchanged
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'tracking_settings' AND column_name = 'tiktok_pixel_id'
+  ) THEN
+    ALTER TABLE public.tracking_settings ADD COLUMN tiktok_pixel_id text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'tracking_settings' AND column_name = 'gtm_container_id'
+  ) THEN
+    ALTER TABLE public.tracking_settings ADD COLUMN gtm_container_id text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'tracking_settings' AND column_name = 'google_ads_id'
+  ) THEN
+    ALTER TABLE public.tracking_settings ADD COLUMN google_ads_id text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'tracking_settings' AND column_name = 'google_ads_conversions'
+  ) THEN
+    ALTER TABLE public.tracking_settings ADD COLUMN google_ads_conversions jsonb;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'tracking_settings' AND column_name = 'custom_head_html'
+  ) THEN
+    ALTER TABLE public.tracking_settings ADD COLUMN custom_head_html text
+      CHECK (char_length(custom_head_html) <= 10000);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'tracking_settings' AND column_name = 'require_consent'
+  ) THEN
+    ALTER TABLE public.tracking_settings ADD COLUMN require_consent boolean NOT NULL DEFAULT false;
+  END IF;
+END $$;
+
+GRANT SELECT (
+  tiktok_pixel_id,
+  gtm_container_id,
+  google_ads_id,
+  google_ads_conversions,
+  custom_head_html,
+  require_consent
+) ON public.tracking_settings TO anon, authenticated;
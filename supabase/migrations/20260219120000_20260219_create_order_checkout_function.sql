@@ -0,0 +1,500 @@
+/*
+  # Create Orders Through a Checkout Function
+
+  ## Overview
+  Storefront checkouts inserted the order, then its items, then counted the coupon use
+  as separate requests: a failure in between left an order with a discount that was
+  never counted, and the prices, discount and total were stored as the browser sent them.
+  `create_order` now does all of it in one transaction and prices the order itself.
+
+  ## Changes
+  1. Add `coupon_id` to orders, linking each coupon use to the order it was made in
+  2. Add `get_promotional_price` and `get_order_line_pricing`: the unit prices of an
+     order line, computed from the catalog the way the storefront cart does
+  3. Create `create_order` function: picks a free reference code, prices and stores the
+     order and its items, stores the buyer as a lead of the order, counts the coupon use
+     and takes the ordered units out of stock
+  4. Drop the buyer insert policies on orders and order items, and
+     `order_accepts_items`, which only served them
+  5. Keep leads inserted through the API from being linked to an order
+
+  ## Notes
+  - Only quantities, colors, sizes and notes of the items are taken from the buyer: unit
+    prices and subtotals come from the product, its variant, the running promotions and
+    the price tiers, so they match the storefront cart
+  - The coupon discount follows the cart rules (eligible categories, minimum eligible
+    total, percentage or fixed amount, capped at the eligible subtotal). A coupon that
+    gives no discount on this order is neither stored nor counted
+  - The total is the subtotal minus the discount plus the delivery fee
+  - Every item must be a product of the seller with a positive quantity, and the entries
+    of a distribution must add up to its quantity; `create_order` raises
+    `invalid_product` or `invalid_quantity` otherwise
+  - Stock is decremented for the variants of tracked products, including the components
+    of ordered bundles. The variants are locked first, and `create_order` raises
+    `out_of_stock` when an order asks for more units than a variant has left
+  - `create_order` raises `coupon_unavailable` when the coupon expired, was disabled or
+    ran out after it was applied to the cart
+  - `p_order.buyer` takes the buyer's `name`, `phone`, `country_code` and `address`; the
+    lead is only stored when a name is given
+  - Nothing is stored when `create_order` raises
+
+  ## Security
+  - Buyers create orders only through `create_order`
+  - Leads linked to an order are only stored by `create_order`, so the buyer details a
+    seller sees on an order cannot be replaced by anyone who learns its id
+  - Existing seller policies are unchanged
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'coupon_id'
+  ) THEN
+    ALTER TABLE public.orders ADD COLUMN coupon_id uuid REFERENCES public.coupons(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_orders_coupon_id ON public.orders(coupon_id);
+
+-- Unit price after a promotion, rounded to cents and never below zero
+CREATE OR REPLACE FUNCTION public.get_promotional_price(p_price numeric, p_discount_type text, p_discount_value numeric)
+RETURNS numeric
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT GREATEST(round(
+    CASE
+      WHEN p_discount_type = 'percentage' THEN p_price * (1 - p_discount_value / 100)
+      ELSE p_price - p_discount_value
+    END,
+    2
+  ), 0);
+$$;
+
+-- Prices of an order line as the storefront cart sets them: variant prices replace the
+-- product's, the best running promotion applies to products without price tiers, and the
+-- price tier for the line quantity takes precedence. Zero prices count as unset.
+CREATE OR REPLACE FUNCTION public.get_order_line_pricing(
+  p_product_id uuid,
+  p_color text,
+  p_size text,
+  p_quantity integer,
+  p_apply_promotions boolean DEFAULT true
+)
+RETURNS TABLE (unit_price numeric, discounted_price numeric, applied_tier_price numeric)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_product public.products%ROWTYPE;
+  v_variant public.product_variants%ROWTYPE;
+  v_product_price numeric;
+  v_current_price numeric;
+  v_promotional_price numeric;
+BEGIN
+  SELECT * INTO v_product
+  FROM public.products
+  WHERE id = p_product_id;
+
+  SELECT * INTO v_variant
+  FROM public.product_variants variant
+  WHERE variant.product_id = p_product_id
+  AND variant.color = COALESCE(p_color, '')
+  AND variant.size = COALESCE(p_size, '');
+
+  IF COALESCE(v_variant.price, 0) > 0 OR COALESCE(v_variant.discounted_price, 0) > 0 THEN
+    unit_price := COALESCE(NULLIF(v_variant.price, 0), v_product.price);
+    -- The product discount only carries over when the variant keeps the product price
+    discounted_price := COALESCE(
+      NULLIF(v_variant.discounted_price, 0),
+      CASE WHEN COALESCE(v_variant.price, 0) > 0 THEN NULL ELSE v_product.discounted_price END
+    );
+  ELSE
+    unit_price := v_product.price;
+    discounted_price := v_product.discounted_price;
+  END IF;
+
+  v_current_price := COALESCE(NULLIF(discounted_price, 0), unit_price);
+  v_product_price := COALESCE(NULLIF(v_product.discounted_price, 0), v_product.price);
+
+  IF p_apply_promotions
+    AND NOT COALESCE(v_product.has_tiered_pricing, false)
+    AND COALESCE(v_product_price, 0) > 0
+    AND COALESCE(unit_price, 0) > 0
+  THEN
+    -- The promotion giving the product its lowest price, applied to the line's price
+    SELECT public.get_promotional_price(v_current_price, promotion.discount_type, promotion.discount_value)
+    INTO v_promotional_price
+    FROM public.promotions promotion
+    WHERE promotion.seller_id = v_product.user_id
+    AND promotion.is_active
+    AND promotion.starts_at <= now()
+    AND now() < promotion.ends_at
+    AND (
+      (cardinality(promotion.product_ids) = 0 AND cardinality(promotion.category_names) = 0)
+      OR v_product.id = ANY (promotion.product_ids)
+      OR EXISTS (
+        SELECT 1
+        FROM unnest(promotion.category_names) AS promotion_category
+        JOIN unnest(v_product.category) AS product_category
+          ON lower(trim(product_category)) = lower(trim(promotion_category))
+      )
+    )
+    ORDER BY public.get_promotional_price(v_product_price, promotion.discount_type, promotion.discount_value)
+    LIMIT 1;
+
+    IF v_promotional_price < v_current_price THEN
+      discounted_price := v_promotional_price;
+    END IF;
+  END IF;
+
+  IF COALESCE(v_product.has_tiered_pricing, false) THEN
+    SELECT COALESCE(NULLIF(tier.discounted_unit_price, 0), tier.unit_price)
+    INTO applied_tier_price
+    FROM public.product_price_tiers tier
+    WHERE tier.product_id = p_product_id
+    AND p_quantity >= tier.min_quantity
+    AND (tier.max_quantity IS NULL OR p_quantity <= tier.max_quantity)
+    ORDER BY tier.min_quantity DESC
+    LIMIT 1;
+
+    -- Products priced only by their tiers start at the first tier
+    IF applied_tier_price IS NULL AND COALESCE(v_current_price, 0) = 0 THEN
+      SELECT COALESCE(NULLIF(tier.discounted_unit_price, 0), tier.unit_price)
+      INTO applied_tier_price
+      FROM public.product_price_tiers tier
+      WHERE tier.product_id = p_product_id
+      ORDER BY tier.min_quantity
+      LIMIT 1;
+    END IF;
+  END IF;
+
+  unit_price := COALESCE(unit_price, 0);
+  RETURN NEXT;
+END;
+$$;
+
+-- Store a storefront checkout: the order, its items, the coupon use and the stock taken, all or nothing
+CREATE OR REPLACE FUNCTION public.create_order(p_order jsonb, p_items jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_seller_id uuid := (p_order->>'seller_id')::uuid;
+  v_coupon_code text := NULLIF(upper(trim(p_order->>'coupon_code')), '');
+  v_coupon public.coupons%ROWTYPE;
+  v_coupon_id uuid;
+  v_discount numeric(10,2) := 0;
+  v_delivery_fee numeric(10,2) := GREATEST(COALESCE((p_order->>'delivery_fee')::numeric, 0), 0);
+  v_order_id uuid := gen_random_uuid();
+  v_reference_code text;
+  v_items jsonb := '[]'::jsonb;
+  v_item jsonb;
+  v_product public.products%ROWTYPE;
+  v_pricing record;
+  v_quantity integer;
+  v_invalid_entries integer;
+  v_distributed integer;
+  v_stock_taken jsonb;
+  v_line_subtotal numeric(10,2);
+  v_subtotal numeric(10,2) := 0;
+  v_eligible_subtotal numeric(10,2) := 0;
+  v_item_count integer := 0;
+  v_attempt integer := 0;
+BEGIN
+  IF jsonb_typeof(p_items) IS DISTINCT FROM 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'An order needs at least one item';
+  END IF;
+
+  -- Lock the coupon row so concurrent checkouts cannot go over its usage limit
+  IF v_coupon_code IS NOT NULL THEN
+    SELECT * INTO v_coupon
+    FROM public.coupons
+    WHERE seller_id = v_seller_id
+    AND code = v_coupon_code
+    AND is_active = true
+    AND (expires_at IS NULL OR expires_at > now())
+    AND (usage_limit IS NULL OR usage_count < usage_limit)
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'coupon_unavailable';
+    END IF;
+  END IF;
+
+  -- Price every line from the catalog, keeping the buyer's options and notes
+  FOR v_item IN SELECT value FROM jsonb_array_elements(p_items) LOOP
+    v_quantity := (v_item->>'quantity')::integer;
+
+    IF v_quantity IS NULL OR v_quantity <= 0 THEN
+      RAISE EXCEPTION 'invalid_quantity';
+    END IF;
+
+    SELECT * INTO v_product
+    FROM public.products
+    WHERE id = (v_item->>'product_id')::uuid
+    AND user_id = v_seller_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'invalid_product';
+    END IF;
+
+    -- Distributions are priced by their total quantity, without promotions
+    IF COALESCE(jsonb_array_length(v_item->'distribution_items'), 0) > 0 THEN
+      SELECT
+        COUNT(*) FILTER (WHERE COALESCE((entry->>'quantity')::integer, 0) <= 0),
+        COALESCE(SUM((entry->>'quantity')::integer), 0)
+      INTO v_invalid_entries, v_distributed
+      FROM jsonb_array_elements(v_item->'distribution_items') AS entry;
+
+      IF v_invalid_entries > 0 OR v_distributed <> v_quantity THEN
+        RAISE EXCEPTION 'invalid_quantity';
+      END IF;
+
+      SELECT * INTO v_pricing
+      FROM public.get_order_line_pricing(v_product.id, NULL, NULL, v_quantity, false);
+    ELSE
+      SELECT * INTO v_pricing
+      FROM public.get_order_line_pricing(v_product.id, v_item->>'selected_color', v_item->>'selected_size', v_quantity);
+    END IF;
+
+    v_line_subtotal := COALESCE(
+      NULLIF(v_pricing.applied_tier_price, 0),
+      NULLIF(v_pricing.discounted_price, 0),
+      v_pricing.unit_price
+    ) * v_quantity;
+
+    v_subtotal := v_subtotal + v_line_subtotal;
+    v_item_count := v_item_count + v_quantity;
+
+    IF v_coupon.id IS NOT NULL AND (
+      cardinality(v_coupon.category_names) = 0
+      OR EXISTS (
+        SELECT 1
+        FROM unnest(v_coupon.category_names) AS coupon_category
+        JOIN unnest(v_product.category) AS product_category
+          ON lower(trim(product_category)) = lower(trim(coupon_category))
+      )
+    ) THEN
+      v_eligible_subtotal := v_eligible_subtotal + v_line_subtotal;
+    END IF;
+
+    v_items := v_items || jsonb_build_array(v_item || jsonb_build_object(
+      'unit_price', v_pricing.unit_price,
+      'discounted_price', v_pricing.discounted_price,
+      'applied_tier_price', v_pricing.applied_tier_price,
+      'subtotal', v_line_subtotal
+    ));
+  END LOOP;
+
+  -- Same rules as the cart: the eligible products must reach the coupon's minimum total,
+  -- and the discount never exceeds their subtotal
+  IF v_coupon.id IS NOT NULL
+    AND v_eligible_subtotal > 0
+    AND (v_coupon.min_cart_total IS NULL OR v_eligible_subtotal >= v_coupon.min_cart_total)
+  THEN
+    v_coupon_id := v_coupon.id;
+    v_discount := LEAST(
+      CASE
+        WHEN v_coupon.discount_type = 'percentage' THEN v_eligible_subtotal * v_coupon.discount_value / 100
+        ELSE v_coupon.discount_value
+      END,
+      v_eligible_subtotal
+    );
+
+    UPDATE public.coupons
+    SET usage_count = usage_count + 1
+    WHERE id = v_coupon_id;
+  END IF;
+
+  -- Short codes are random, so retry the rare collision with another order
+  LOOP
+    SELECT string_agg(substr('ABCDEFGHJKMNPQRSTUVWXYZ23456789', 1 + floor(random() * 31)::integer, 1), '')
+    INTO v_reference_code
+    FROM generate_series(1, 6);
+
+    BEGIN
+      INSERT INTO public.orders (
+        id, seller_id, reference_code, status, currency, language, subtotal, discount,
+        coupon_code, coupon_id, delivery_method, delivery_fee, delivery_postal_code,
+        total, item_count, viewer_id, attribution
+      ) VALUES (
+        v_order_id,
+        v_seller_id,
+        v_reference_code,
+        'new',
+        COALESCE(p_order->>'currency', 'BRL'),
+        COALESCE(p_order->>'language', 'pt-BR'),
+        v_subtotal,
+        v_discount,
+        CASE WHEN v_coupon_id IS NULL THEN NULL ELSE v_coupon_code END,
+        v_coupon_id,
+        NULLIF(p_order->>'delivery_method', ''),
+        v_delivery_fee,
+        NULLIF(p_order->>'delivery_postal_code', ''),
+        GREATEST(v_subtotal - v_discount, 0) + v_delivery_fee,
+        v_item_count,
+        NULLIF(p_order->>'viewer_id', ''),
+        p_order->'attribution'
+      );
+      EXIT;
+    EXCEPTION WHEN unique_violation THEN
+      v_attempt := v_attempt + 1;
+      IF v_attempt >= 5 THEN
+        RAISE;
+      END IF;
+    END;
+  END LOOP;
+
+  INSERT INTO public.order_items (
+    order_id, product_id, title, selected_color, selected_size, variant_id, sku,
+    quantity, unit_price, discounted_price, applied_tier_price, subtotal, notes,
+    distribution_id, distribution_items, bundle_items
+  )
+  SELECT
+    v_order_id,
+    item.product_id,
+    item.title,
+    item.selected_color,
+    item.selected_size,
+    item.variant_id,
+    item.sku,
+    item.quantity,
+    COALESCE(item.unit_price, 0),
+    item.discounted_price,
+    item.applied_tier_price,
+    COALESCE(item.subtotal, 0),
+    item.notes,
+    item.distribution_id,
+    COALESCE(item.distribution_items, '[]'::jsonb),
+    COALESCE(item.bundle_items, '[]'::jsonb)
+  FROM jsonb_to_recordset(v_items) AS item(
+    product_id uuid,
+    title text,
+    selected_color text,
+    selected_size text,
+    variant_id uuid,
+    sku text,
+    quantity integer,
+    unit_price numeric,
+    discounted_price numeric,
+    applied_tier_price numeric,
+    subtotal numeric,
+    notes text,
+    distribution_id uuid,
+    distribution_items jsonb,
+    bundle_items jsonb
+  );
+
+  -- Units taken from each variant: single lines carry their color/size, distributions one
+  -- color/size per entry, and bundles take their components
+  WITH lines AS (
+    SELECT item.product_id, COALESCE(item.selected_color, '') AS color, COALESCE(item.selected_size, '') AS size, item.quantity, item.distribution_items
+    FROM jsonb_to_recordset(v_items) AS item(product_id uuid, selected_color text, selected_size text, quantity integer, distribution_items jsonb)
+  ),
+  ordered AS (
+    SELECT lines.product_id, lines.color, lines.size, lines.quantity
+    FROM lines
+    WHERE COALESCE(jsonb_array_length(lines.distribution_items), 0) = 0
+    UNION ALL
+    SELECT lines.product_id, COALESCE(entry.color, ''), COALESCE(entry.size, ''), entry.quantity
+    FROM lines
+    CROSS JOIN jsonb_to_recordset(COALESCE(lines.distribution_items, '[]'::jsonb)) AS entry(color text, size text, quantity integer)
+    UNION ALL
+    SELECT component.component_id, component.color, component.size, lines.quantity * component.quantity
+    FROM lines
+    JOIN public.product_bundle_items component ON component.bundle_id = lines.product_id
+  )
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'product_id', totals.product_id,
+    'color', totals.color,
+    'size', totals.size,
+    'quantity', totals.quantity
+  )), '[]'::jsonb)
+  INTO v_stock_taken
+  FROM (
+    SELECT ordered.product_id, ordered.color, ordered.size, SUM(ordered.quantity) AS quantity
+    FROM ordered
+    GROUP BY ordered.product_id, ordered.color, ordered.size
+  ) AS totals;
+
+  -- Lock the variants so concurrent checkouts see each other's stock
+  PERFORM 1
+  FROM public.product_variants variant
+  JOIN jsonb_to_recordset(v_stock_taken) AS taken(product_id uuid, color text, size text, quantity integer)
+    ON variant.product_id = taken.product_id AND variant.color = taken.color AND variant.size = taken.size
+  JOIN public.products p ON p.id = variant.product_id
+  WHERE variant.stock_quantity IS NOT NULL
+  AND p.user_id = v_seller_id
+  AND p.track_stock
+  FOR UPDATE OF variant;
+
+  IF EXISTS (
+    SELECT 1
+    FROM public.product_variants variant
+    JOIN jsonb_to_recordset(v_stock_taken) AS taken(product_id uuid, color text, size text, quantity integer)
+      ON variant.product_id = taken.product_id AND variant.color = taken.color AND variant.size = taken.size
+    JOIN public.products p ON p.id = variant.product_id
+    WHERE variant.stock_quantity IS NOT NULL
+    AND p.user_id = v_seller_id
+    AND p.track_stock
+    AND taken.quantity > variant.stock_quantity
+  ) THEN
+    RAISE EXCEPTION 'out_of_stock';
+  END IF;
+
+  UPDATE public.product_variants variant
+  SET stock_quantity = variant.stock_quantity - taken.quantity
+  FROM jsonb_to_recordset(v_stock_taken) AS taken(product_id uuid, color text, size text, quantity integer)
+  JOIN public.products p ON p.id = taken.product_id
+  WHERE variant.product_id = taken.product_id
+  AND variant.color = taken.color
+  AND variant.size = taken.size
+  AND variant.stock_quantity IS NOT NULL
+  AND p.user_id = v_seller_id
+  AND p.track_stock;
+
+  -- The buyer's contact details, as the lead the seller follows the order up with
+  IF NULLIF(trim(p_order->'buyer'->>'name'), '') IS NOT NULL THEN
+    INSERT INTO public.leads (
+      property_id, listing_type, seller_id, order_id, viewer_id, name, email, phone,
+      country_code, address, message, source, status, attribution
+    ) VALUES (
+      '00000000-0000-0000-0000-000000000001',
+      'product',
+      v_seller_id,
+      v_order_id,
+      NULLIF(p_order->>'viewer_id', ''),
+      trim(p_order->'buyer'->>'name'),
+      NULL,
+      COALESCE(p_order->'buyer'->>'phone', ''),
+      NULLIF(p_order->'buyer'->>'country_code', ''),
+      NULLIF(p_order->'buyer'->'address', 'null'::jsonb),
+      'Pedido #' || v_reference_code,
+      'cart_checkout',
+      'new',
+      p_order->'attribution'
+    );
+  END IF;
+
+  RETURN jsonb_build_object('id', v_order_id, 'reference_code', v_reference_code);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_order(jsonb, jsonb) TO anon, authenticated;
+
+DROP POLICY IF EXISTS "Buyers can create orders" ON public.orders;
+DROP POLICY IF EXISTS "Buyers can add items to new orders" ON public.order_items;
+DROP FUNCTION IF EXISTS public.order_accepts_items(uuid);
+
+-- Only create_order links a lead to an order
+DROP POLICY IF EXISTS "Leads are linked to orders only by create_order" ON public.leads;
+
+CREATE POLICY "Leads are linked to orders only by create_order"
+  ON public.leads AS RESTRICTIVE FOR INSERT
+  TO anon, authenticated
+  WITH CHECK (order_id IS NULL);
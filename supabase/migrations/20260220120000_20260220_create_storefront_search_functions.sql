@@ -0,0 +1,194 @@
+/*
+  # Create Storefront Search Functions
+
+  ## Overview
+  Filtered storefront searches downloaded up to 5000 products and filtered, sorted and
+  paginated them in the browser, and the filter options were built from every product
+  row. Filtering, sorting and facet counts now run in the database, so the storefront
+  only receives the page of products it shows.
+
+  ## Changes
+  1. Add `normalize_facet_value(text)`: trimmed, single-spaced, lowercase and accent-free,
+     the same comparison the storefront uses for categories, brands, genders and conditions
+  2. Add `storefront_product_matches(p_user_id uuid, p_filters jsonb)`: visible products
+     passing the text, status and price filters, with one match flag per facet
+  3. Add `search_storefront_products(p_user_id uuid, p_filters jsonb, p_sort text)`:
+     the matching products, sorted; callers page through them with a range
+  4. Add `storefront_product_facets(p_user_id uuid, p_filters jsonb)`: every facet option
+     with the number of products it would show
+
+  ## Notes
+  - `p_filters` takes the storefront filter state: `query`, `status`, `minPrice`,
+    `maxPrice`, `category`, `brand`, `gender`, `sizes` and `condition`. The price filter
+    only applies when both `minPrice` and `maxPrice` are set
+  - `p_sort` takes the storefront sort options, plus `relevance` to order text matches
+    by their search rank
+  - Facet counts ignore the facet's own selection, since options of the same facet are
+    combined with OR
+
+  ## Security
+  - The functions run with the caller's rights, so product row level security applies
+  - Execute granted to anon and authenticated roles
+*/
+
+CREATE OR REPLACE FUNCTION public.normalize_facet_value(p_value text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+PARALLEL SAFE
+AS $$
+  SELECT lower(public.immutable_unaccent(regexp_replace(trim(COALESCE(p_value, '')), '\s+', ' ', 'g')));
+$$;
+
+CREATE OR REPLACE FUNCTION public.storefront_product_matches(p_user_id uuid, p_filters jsonb)
+RETURNS TABLE (
+  product_id uuid,
+  rank real,
+  category_match boolean,
+  brand_match boolean,
+  gender_match boolean,
+  sizes_match boolean,
+  condition_match boolean
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_query text := NULLIF(trim(COALESCE(p_filters->>'query', '')), '');
+  v_status text := NULLIF(NULLIF(p_filters->>'status', ''), 'todos');
+  v_min_price numeric := (p_filters->>'minPrice')::numeric;
+  v_max_price numeric := (p_filters->>'maxPrice')::numeric;
+  v_categories text[] := ARRAY(
+    SELECT public.normalize_facet_value(value)
+    FROM jsonb_array_elements_text(COALESCE(p_filters->'category', '[]'::jsonb)) AS value
+  );
+  v_brands text[] := ARRAY(
+    SELECT public.normalize_facet_value(value)
+    FROM jsonb_array_elements_text(COALESCE(p_filters->'brand', '[]'::jsonb)) AS value
+  );
+  v_genders text[] := ARRAY(
+    SELECT public.normalize_facet_value(value)
+    FROM jsonb_array_elements_text(COALESCE(p_filters->'gender', '[]'::jsonb)) AS value
+  );
+  v_conditions text[] := ARRAY(
+    SELECT public.normalize_facet_value(value)
+    FROM jsonb_array_elements_text(COALESCE(p_filters->'condition', '[]'::jsonb)) AS value
+  );
+  v_sizes text[] := ARRAY(
+    SELECT value
+    FROM jsonb_array_elements_text(COALESCE(p_filters->'sizes', '[]'::jsonb)) AS value
+  );
+BEGIN
+  RETURN QUERY
+  SELECT
+    p.id,
+    ranked.rank,
+    cardinality(v_categories) = 0 OR EXISTS (
+      SELECT 1 FROM unnest(p.category) AS product_category
+      WHERE public.normalize_facet_value(product_category) = ANY (v_categories)
+    ),
+    cardinality(v_brands) = 0 OR public.normalize_facet_value(p.brand) = ANY (v_brands),
+    cardinality(v_genders) = 0 OR public.normalize_facet_value(p.gender) = ANY (v_genders),
+    cardinality(v_sizes) = 0 OR COALESCE(p.sizes && v_sizes, false),
+    cardinality(v_conditions) = 0 OR public.normalize_facet_value(p.condition) = ANY (v_conditions)
+  FROM public.products p
+  LEFT JOIN public.search_products(p_user_id, v_query) AS ranked ON ranked.product_id = p.id
+  WHERE p.user_id = p_user_id
+  AND p.is_visible_on_storefront = true
+  AND (v_query IS NULL OR ranked.product_id IS NOT NULL)
+  AND (v_status IS NULL OR p.status = v_status)
+  AND (
+    v_min_price IS NULL
+    OR v_max_price IS NULL
+    OR CASE
+      -- Tiered products match when any tier price falls in the range
+      WHEN COALESCE(p.has_tiered_pricing, false) THEN
+        COALESCE(p.min_tiered_price <= v_max_price, false)
+        AND COALESCE(p.max_tiered_price, 0) >= v_min_price
+      ELSE
+        COALESCE(NULLIF(p.discounted_price, 0), p.price) IS NULL
+        OR COALESCE(NULLIF(p.discounted_price, 0), p.price) BETWEEN v_min_price AND v_max_price
+    END
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.search_storefront_products(
+  p_user_id uuid,
+  p_filters jsonb DEFAULT '{}'::jsonb,
+  p_sort text DEFAULT 'display-order'
+)
+RETURNS SETOF public.products
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT p.*
+  FROM public.storefront_product_matches(p_user_id, p_filters) AS m
+  JOIN public.products p ON p.id = m.product_id
+  WHERE m.category_match
+  AND m.brand_match
+  AND m.gender_match
+  AND m.sizes_match
+  AND m.condition_match
+  -- Same orderings as the storefront product list, ending with the id so pages are stable
+  ORDER BY
+    CASE WHEN p_sort = 'relevance' THEN m.rank END DESC NULLS LAST,
+    CASE WHEN p_sort = 'price-asc' THEN p.sort_price END ASC NULLS LAST,
+    CASE WHEN p_sort = 'price-desc' THEN p.sort_price END DESC NULLS LAST,
+    CASE WHEN p_sort = 'newest' THEN p.created_at END DESC,
+    CASE WHEN p_sort = 'discount' THEN p.discount_percent END DESC,
+    CASE WHEN p_sort = 'most-viewed' THEN p.view_count END DESC,
+    CASE WHEN p_sort NOT IN ('price-asc', 'price-desc', 'newest') THEN p.display_order END ASC NULLS LAST,
+    p.id DESC;
+$$;
+
+CREATE OR REPLACE FUNCTION public.storefront_product_facets(
+  p_user_id uuid,
+  p_filters jsonb DEFAULT '{}'::jsonb
+)
+RETURNS TABLE (facet text, value text, product_count bigint)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH matches AS (
+    SELECT m.*, p.category, p.brand, p.gender, p.sizes, p.condition
+    FROM public.storefront_product_matches(p_user_id, p_filters) AS m
+    JOIN public.products p ON p.id = m.product_id
+  ),
+  options AS (
+    SELECT 'category' AS option_facet, regexp_replace(trim(product_category), '\s+', ' ', 'g') AS option_value, matches.product_id
+    FROM matches
+    CROSS JOIN unnest(matches.category) AS product_category
+    WHERE brand_match AND gender_match AND sizes_match AND condition_match
+    UNION ALL
+    SELECT 'brand', trim(matches.brand), matches.product_id
+    FROM matches
+    WHERE category_match AND gender_match AND sizes_match AND condition_match
+    UNION ALL
+    SELECT 'gender', trim(matches.gender), matches.product_id
+    FROM matches
+    WHERE category_match AND brand_match AND sizes_match AND condition_match
+    UNION ALL
+    SELECT 'sizes', product_size, matches.product_id
+    FROM matches
+    CROSS JOIN unnest(matches.sizes) AS product_size
+    WHERE category_match AND brand_match AND gender_match AND condition_match
+    UNION ALL
+    SELECT 'condition', trim(matches.condition), matches.product_id
+    FROM matches
+    WHERE category_match AND brand_match AND gender_match AND sizes_match
+  )
+  -- Sizes compare as they are, the other facets like `normalize_facet_value`
+  SELECT option_facet, min(option_value), count(DISTINCT options.product_id)
+  FROM options
+  WHERE COALESCE(option_value, '') <> ''
+  GROUP BY option_facet, CASE WHEN option_facet = 'sizes' THEN option_value ELSE public.normalize_facet_value(option_value) END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.normalize_facet_value(text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.storefront_product_matches(uuid, jsonb) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.search_storefront_products(uuid, jsonb, text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.storefront_product_facets(uuid, jsonb) TO anon, authenticated;